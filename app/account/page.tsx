@@ -0,0 +1,352 @@
+"use client";
+
+import { useState, useEffect, useCallback, FormEvent } from "react";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+import { ORDER_STATUS_BADGES } from "@/components/OrderTracking";
+import type { BuyerOrderHistoryEntry } from "@/lib/orders";
+
+type AuthMode = "login" | "register";
+
+const MAX_OFFER_LENGTH = 500;
+
+export default function BuyerAccount() {
+  const { buyer, isLoading, setBuyer } = useAuth();
+
+  // Login / registration form
+  const [mode, setMode] = useState<AuthMode>("login");
+  const [discordId, setDiscordId] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [authError, setAuthError] = useState("");
+
+  // Default offer
+  const [defaultOffer, setDefaultOffer] = useState("");
+  const [offerSaving, setOfferSaving] = useState(false);
+  const [offerMessage, setOfferMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  // Order history
+  const [orders, setOrders] = useState<BuyerOrderHistoryEntry[]>([]);
+  const [ordersLoading, setOrdersLoading] = useState(false);
+
+  const fetchOrders = useCallback(async () => {
+    setOrdersLoading(true);
+    try {
+      const res = await fetch("/api/buyer/orders");
+      if (res.ok) {
+        const data = await res.json();
+        setOrders(data.orders || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch orders:", error);
+    } finally {
+      setOrdersLoading(false);
+    }
+  }, []);
+
+  // Load history and profile once logged in
+  useEffect(() => {
+    if (buyer) {
+      setDefaultOffer(buyer.defaultOffer);
+      fetchOrders();
+    }
+  }, [buyer?.id, fetchOrders]);
+
+  const handleAuthSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setAuthError("");
+
+    if (mode === "register" && password !== confirmPassword) {
+      setAuthError("Паролі не співпадають");
+      setIsSubmitting(false);
+      return;
+    }
+
+    try {
+      const res = await fetch(mode === "login" ? "/api/buyer/auth" : "/api/buyer/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ discordId, password, confirmPassword }),
+      });
+      const data = await res.json();
+
+      if (res.ok && data.success) {
+        setBuyer(data.buyer);
+        setPassword("");
+        setConfirmPassword("");
+      } else {
+        setAuthError(data.error || (mode === "login" ? "Помилка входу" : "Помилка реєстрації"));
+      }
+    } catch {
+      setAuthError("Помилка з'єднання. Спробуйте ще раз.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch("/api/buyer/auth", { method: "DELETE" });
+    } catch (error) {
+      console.error("Logout error:", error);
+    }
+    setBuyer(null);
+    setOrders([]);
+  };
+
+  const handleSaveOffer = async () => {
+    if (!buyer) return;
+    setOfferSaving(true);
+    setOfferMessage(null);
+
+    try {
+      const res = await fetch("/api/buyer/profile", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ defaultOffer }),
+      });
+      const data = await res.json();
+
+      if (res.ok && data.success) {
+        setBuyer({ ...buyer, defaultOffer: data.defaultOffer });
+        setOfferMessage({ type: "success", text: "Збережено" });
+      } else {
+        setOfferMessage({ type: "error", text: data.error || "Не вдалося зберегти" });
+      }
+    } catch {
+      setOfferMessage({ type: "error", text: "Помилка з'єднання" });
+    } finally {
+      setOfferSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-dark-900 flex items-center justify-center">
+        <div className="text-gray-400">Завантаження...</div>
+      </div>
+    );
+  }
+
+  // Login / registration
+  if (!buyer) {
+    return (
+      <div className="min-h-screen bg-dark-900 flex items-center justify-center p-4">
+        <div className="w-full max-w-sm">
+          <div className="bg-dark-800 rounded-lg p-6 border border-dark-600">
+            <h1 className="text-xl font-bold text-white mb-2 text-center">
+              {mode === "login" ? "Вхід для покупців" : "Реєстрація покупця"}
+            </h1>
+            <p className="text-sm text-gray-400 mb-6 text-center">
+              Акаунт необов&apos;язковий. З ним ваші замовлення прив&apos;язані до вашого Discord, а історія
+              замовлень завжди під рукою.
+            </p>
+
+            <form onSubmit={handleAuthSubmit}>
+              <div className="mb-4">
+                <label htmlFor="discordId" className="block text-sm text-gray-400 mb-2">
+                  Discord ID
+                </label>
+                <input
+                  id="discordId"
+                  type="text"
+                  value={discordId}
+                  onChange={(e) => setDiscordId(e.target.value)}
+                  className="w-full px-4 py-2 bg-dark-700 border border-dark-600 rounded-lg text-white focus:border-neon-cyan/50 focus:outline-none"
+                  placeholder="Ваш Discord username або ID"
+                  maxLength={64}
+                  required
+                  autoFocus
+                />
+              </div>
+
+              <div className="mb-4">
+                <label htmlFor="password" className="block text-sm text-gray-400 mb-2">
+                  Пароль
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-4 py-2 bg-dark-700 border border-dark-600 rounded-lg text-white focus:border-neon-cyan/50 focus:outline-none"
+                  placeholder={mode === "login" ? "Введіть пароль" : "Створіть пароль"}
+                  required
+                  minLength={mode === "register" ? 8 : undefined}
+                />
+                {mode === "register" && (
+                  <p className="text-xs text-gray-500 mt-1">Мінімум 8 символів</p>
+                )}
+              </div>
+
+              {mode === "register" && (
+                <div className="mb-4">
+                  <label htmlFor="confirmPassword" className="block text-sm text-gray-400 mb-2">
+                    Підтвердіть пароль
+                  </label>
+                  <input
+                    id="confirmPassword"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="w-full px-4 py-2 bg-dark-700 border border-dark-600 rounded-lg text-white focus:border-neon-cyan/50 focus:outline-none"
+                    placeholder="Підтвердіть ваш пароль"
+                    required
+                  />
+                </div>
+              )}
+
+              {authError && (
+                <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                  {authError}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting || !discordId.trim() || !password}
+                className="w-full py-2 bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40 rounded-lg font-medium hover:bg-neon-cyan/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting
+                  ? "Зачекайте..."
+                  : mode === "login"
+                    ? "Увійти"
+                    : "Зареєструватися"}
+              </button>
+            </form>
+
+            <div className="mt-4 pt-4 border-t border-dark-600 text-center">
+              <button
+                onClick={() => {
+                  setMode(mode === "login" ? "register" : "login");
+                  setAuthError("");
+                }}
+                className="text-sm text-neon-cyan hover:text-neon-cyan/80 transition-colors"
+              >
+                {mode === "login" ? "Немає акаунта? Зареєструватися" : "Вже маєте акаунт? Увійти"}
+              </button>
+            </div>
+
+            <div className="mt-4 text-center">
+              <Link href="/" className="text-sm text-gray-400 hover:text-white transition-colors">
+                Повернутися до каталогу
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      <Link
+        href="/"
+        className="inline-flex items-center gap-2 text-gray-400 hover:text-neon-cyan transition-colors mb-6"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Назад до каталогу
+      </Link>
+
+      {/* Account */}
+      <div className="bg-dark-800 rounded-xl border border-dark-600 p-6 mb-6">
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <div>
+            <p className="text-sm text-gray-500">Акаунт покупця</p>
+            <h1 className="text-xl font-bold text-white">{buyer.discordId}</h1>
+          </div>
+          <button
+            onClick={handleLogout}
+            className="px-3 py-1.5 text-sm text-gray-400 hover:text-white border border-dark-600 hover:border-gray-500 rounded-lg transition-colors"
+          >
+            Вийти
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between mb-2">
+          <label htmlFor="defaultOffer" className="text-sm font-medium text-gray-400">
+            Пропозиція за замовчуванням
+          </label>
+          <span className={`text-xs ${defaultOffer.length > MAX_OFFER_LENGTH ? "text-red-400" : "text-gray-500"}`}>
+            {defaultOffer.length}/{MAX_OFFER_LENGTH}
+          </span>
+        </div>
+        <textarea
+          id="defaultOffer"
+          value={defaultOffer}
+          onChange={(e) => {
+            setDefaultOffer(e.target.value);
+            setOfferMessage(null);
+          }}
+          placeholder="Підставляється у форму замовлення, наприклад: 500 ARC"
+          maxLength={MAX_OFFER_LENGTH}
+          rows={2}
+          className="w-full px-3 py-2 bg-dark-700 border border-dark-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-neon-cyan transition-colors resize-none"
+        />
+        <div className="flex items-center gap-3 mt-2">
+          <button
+            onClick={handleSaveOffer}
+            disabled={offerSaving || defaultOffer === buyer.defaultOffer}
+            className="px-4 py-1.5 text-sm bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40 rounded-lg hover:bg-neon-cyan/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {offerSaving ? "Збереження..." : "Зберегти"}
+          </button>
+          {offerMessage && (
+            <span className={`text-sm ${offerMessage.type === "success" ? "text-green-400" : "text-red-400"}`}>
+              {offerMessage.text}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Order history */}
+      <div className="bg-dark-800 rounded-xl border border-dark-600 p-6">
+        <h2 className="text-lg font-bold text-white mb-4">Мої замовлення</h2>
+
+        {ordersLoading && orders.length === 0 ? (
+          <p className="text-gray-400 text-sm">Завантаження...</p>
+        ) : orders.length === 0 ? (
+          <p className="text-gray-500 text-sm">
+            Замовлень ще немає. Замовлення, оформлені після входу, з&apos;являться тут.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {orders.map((order) => {
+              const statusBadge = ORDER_STATUS_BADGES[order.status];
+              return (
+                <div key={order.orderId} className="bg-dark-700 border border-dark-600 rounded-lg p-4">
+                  <div className="flex items-center justify-between gap-3 mb-2">
+                    <div>
+                      <p className="text-sm text-gray-500 font-mono">{order.orderId}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(order.createdAt).toLocaleString("uk-UA")}
+                      </p>
+                    </div>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium border ${statusBadge.className}`}>
+                      {statusBadge.label}
+                    </span>
+                  </div>
+                  <p className="text-sm text-white">
+                    {order.items.map((item) => `${item.blueprintName} ×${item.requestedQty}`).join(", ")}
+                  </p>
+                  {order.trackingUrl && (
+                    <Link
+                      href={order.trackingUrl}
+                      className="inline-block mt-2 text-sm text-neon-cyan hover:underline"
+                    >
+                      Деталі замовлення
+                    </Link>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -21,6 +21,13 @@ interface SellerData {
   updatedAt: string;
   inventoryCount: number;
   totalItems: number;
+  reputation: {
+    completionRate: number | null;
+    averageRating: number | null;
+    ratingCount: number;
+    medianFulfilHours: number | null;
+    recentComments: { orderId: string; rating: number; comment: string; createdAt: string }[];
+  };
 }
 
 interface SellerInventoryItem {
@@ -32,7 +39,35 @@ interface SellerInventoryItem {
   quantity: number;
 }
 
-type AdminTab = "blueprints" | "sellers" | "orders";
+interface SellerSession {
+  id: string;
+  createdAt?: string;
+  lastSeenAt?: string;
+  expiresAt: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+type OutboxStatus = "pending" | "sending" | "sent" | "failed";
+
+interface OutboxMessage {
+  id: string;
+  kind: "group" | "admin" | "seller";
+  channel?: "telegram" | "discord" | "webpush";
+  chatId: string;
+  text: string;
+  orderId?: string;
+  sellerDiscordId?: string;
+  editsMessageId?: string;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  sentAt?: string;
+  lastError?: string;
+}
+
+type AdminTab = "blueprints" | "sellers" | "orders" | "outbox";
 
 type OrdersFilter = "all" | "active" | "archived";
 
@@ -40,28 +75,62 @@ interface AdminOrderItem {
   blueprintId: string;
   blueprintName: string;
   requestedQty: number;
-  claimStatus: "unclaimed" | "claimed" | "fulfilled";
-  claimedBySellerId?: string;
-  claimedBySellerDiscordId?: string;
-  claimedQuantity?: number;
+  claimStatus: "unclaimed" | "partially_claimed" | "claimed" | "fulfilled";
+  claimedQty: number;
+  slices: {
+    sellerId: string;
+    sellerDiscordId: string;
+    quantity: number;
+    status: "claimed" | "fulfilled";
+    claimedAt: string;
+    fulfilledAt?: string;
+  }[];
+  preferredSellerDiscordId?: string;
+  suggestedSellerDiscordId?: string;
+}
+
+interface AdminClaimRelease {
+  blueprintId: string;
+  sellerId: string;
+  sellerDiscordId?: string;
+  quantity?: number;
   claimedAt?: string;
-  fulfilledAt?: string;
+  releasedAt: string;
+  reason: string;
+}
+
+interface AdminOrderEvent {
+  at: string;
+  actorRole: "buyer" | "seller" | "admin" | "system";
+  actorId?: string;
+  actorName?: string;
+  action: string;
+  items?: { blueprintId: string; quantity: number }[];
+  fromStatus: AdminOrder["status"] | null;
+  toStatus: AdminOrder["status"];
+  note?: string;
 }
 
 interface AdminOrder {
   orderId: string;
   buyerDiscordNick: string;
+  buyerUnverified?: boolean;
   offer: string;
   notes?: string;
   isMultiSeller: boolean;
   createdAt: string;
-  status: "open" | "in_progress" | "completed" | "closed" | "cancelled";
+  status: "open" | "in_progress" | "completed" | "closed" | "cancelled" | "expired";
   assignedSellerId?: string;
   assignedSellerDiscordId?: string;
   assignedAt?: string;
   closedAt?: string;
   closedBySellerId?: string;
+  expiredAt?: string;
+  expiryReason?: string;
+  claimReleases?: AdminClaimRelease[];
+  events: AdminOrderEvent[];
   items: AdminOrderItem[];
+  preferredUntil?: string;
 }
 
 export default function AdminPage() {
@@ -113,6 +182,12 @@ export default function AdminPage() {
   const [isSavingSellerInventory, setIsSavingSellerInventory] = useState(false);
   const [sellerInventorySearch, setSellerInventorySearch] = useState("");
 
+  // Seller sessions modal
+  const [viewingSellerSessions, setViewingSellerSessions] = useState<SellerData | null>(null);
+  const [sellerSessions, setSellerSessions] = useState<SellerSession[]>([]);
+  const [isLoadingSellerSessions, setIsLoadingSellerSessions] = useState(false);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+
   // Orders state
   const [orders, setOrders] = useState<AdminOrder[]>([]);
   const [isLoadingOrders, setIsLoadingOrders] = useState(false);
@@ -120,8 +195,16 @@ export default function AdminPage() {
   const [ordersMessage, setOrdersMessage] = useState("");
   const [ordersFilter, setOrdersFilter] = useState<OrdersFilter>("active");
   const [isClearingOrders, setIsClearingOrders] = useState(false);
+  const [isSweepingOrders, setIsSweepingOrders] = useState(false);
   const [expandedOrders, setExpandedOrders] = useState<Set<string>>(new Set());
 
+  // Telegram outbox state
+  const [outboxMessages, setOutboxMessages] = useState<OutboxMessage[]>([]);
+  const [outboxCounts, setOutboxCounts] = useState<Record<OutboxStatus, number> | null>(null);
+  const [outboxFilter, setOutboxFilter] = useState<OutboxStatus | "all">("all");
+  const [isLoadingOutbox, setIsLoadingOutbox] = useState(false);
+  const [outboxMessage, setOutboxMessage] = useState("");
+
   // Check auth on mount
   useEffect(() => {
     checkAuth();
@@ -521,6 +604,57 @@ export default function AdminPage() {
     }
   };
 
+  const fetchSellerSessions = async (sellerId: string) => {
+    setIsLoadingSellerSessions(true);
+
+    try {
+      const res = await fetch(`/api/admin/sellers/${sellerId}/sessions`);
+      if (res.ok) {
+        const data = await res.json();
+        setSellerSessions(data.sessions || []);
+      }
+    } catch {
+      // Error handling
+    } finally {
+      setIsLoadingSellerSessions(false);
+    }
+  };
+
+  const openSellerSessions = (seller: SellerData) => {
+    setViewingSellerSessions(seller);
+    setSellerSessions([]);
+    fetchSellerSessions(seller.id);
+  };
+
+  const closeSellerSessions = () => {
+    setViewingSellerSessions(null);
+    setSellerSessions([]);
+  };
+
+  // sessionId omitted = revoke all sessions of the seller
+  const revokeSellerSessions = async (sessionId?: string) => {
+    if (!viewingSellerSessions) return;
+    if (!sessionId && !confirm("Завершити всі сесії цього продавця?")) return;
+
+    setRevokingSessionId(sessionId || "all");
+
+    try {
+      const query = sessionId ? `?sessionId=${encodeURIComponent(sessionId)}` : "";
+      const res = await fetch(`/api/admin/sellers/${viewingSellerSessions.id}/sessions${query}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setSellerMessage(data.error || "Не вдалося завершити сесію");
+      }
+      await fetchSellerSessions(viewingSellerSessions.id);
+    } catch {
+      setSellerMessage("Помилка з'єднання");
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
   const closeSellerInventory = () => {
     setViewingSellerInventory(null);
     setSellerInventory([]);
@@ -725,6 +859,32 @@ export default function AdminPage() {
     }
   };
 
+  const sweepOrdersAction = async () => {
+    setIsSweepingOrders(true);
+    setOrdersMessage("");
+
+    try {
+      const res = await fetch("/api/admin/orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "sweep" }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok && data.success) {
+        setOrdersMessage(data.message);
+        fetchOrders();
+      } else {
+        setOrdersMessage(data.error || "Не вдалося перевірити прострочені замовлення");
+      }
+    } catch {
+      setOrdersMessage("Помилка з'єднання");
+    } finally {
+      setIsSweepingOrders(false);
+    }
+  };
+
   const closeOrderAction = async (orderId: string) => {
     if (!confirm("Закрити це замовлення?")) return;
 
@@ -795,15 +955,114 @@ export default function AdminPage() {
         return "bg-gray-500/20 text-gray-400 border-gray-500/40";
       case "cancelled":
         return "bg-red-500/20 text-red-400 border-red-500/40";
+      case "expired":
+        return "bg-gray-500/20 text-gray-500 border-gray-500/40";
+      default:
+        return "bg-gray-500/20 text-gray-400 border-gray-500/40";
+    }
+  };
+
+  // ============================================
+  // TELEGRAM OUTBOX
+  // ============================================
+
+  const fetchOutbox = useCallback(async (filter: OutboxStatus | "all" = outboxFilter) => {
+    setIsLoadingOutbox(true);
+
+    try {
+      const query = filter === "all" ? "" : `?status=${filter}`;
+      const res = await fetch(`/api/admin/outbox${query}`);
+      if (!res.ok) {
+        if (res.status === 401) {
+          setIsAuthenticated(false);
+          return;
+        }
+        throw new Error("Failed to fetch");
+      }
+      const data = await res.json();
+      setOutboxMessages(data.messages || []);
+      setOutboxCounts(data.counts || null);
+    } catch {
+      setOutboxMessage("Не вдалося завантажити повідомлення");
+    } finally {
+      setIsLoadingOutbox(false);
+    }
+  }, [outboxFilter]);
+
+  const handleOutboxFilterChange = (filter: OutboxStatus | "all") => {
+    setOutboxFilter(filter);
+    fetchOutbox(filter);
+  };
+
+  // id omitted = retry all failed messages
+  const retryOutboxAction = async (id?: string) => {
+    setOutboxMessage("");
+
+    try {
+      const res = await fetch("/api/admin/outbox", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(id ? { action: "retry", id } : { action: "retryFailed" }),
+      });
+      const data = await res.json();
+      setOutboxMessage(res.ok ? data.message : data.error || "Не вдалося повторити відправку");
+      fetchOutbox();
+    } catch {
+      setOutboxMessage("Помилка з'єднання");
+    }
+  };
+
+  const getOutboxStatusBadge = (status: OutboxStatus) => {
+    switch (status) {
+      case "pending":
+        return "bg-yellow-500/20 text-yellow-400 border-yellow-500/40";
+      case "sending":
+        return "bg-blue-500/20 text-blue-400 border-blue-500/40";
+      case "sent":
+        return "bg-green-500/20 text-green-400 border-green-500/40";
+      case "failed":
+        return "bg-red-500/20 text-red-400 border-red-500/40";
       default:
         return "bg-gray-500/20 text-gray-400 border-gray-500/40";
     }
   };
 
+  const getOutboxStatusLabel = (status: OutboxStatus) => {
+    switch (status) {
+      case "pending":
+        return "В черзі";
+      case "sending":
+        return "Відправляється";
+      case "sent":
+        return "Доставлено";
+      case "failed":
+        return "Помилка";
+      default:
+        return status;
+    }
+  };
+
+  const getOutboxRecipientLabel = (message: OutboxMessage) => {
+    const channel =
+      message.channel === "discord" ? "Discord" : message.channel === "webpush" ? "Push" : "Telegram";
+    switch (message.kind) {
+      case "group":
+        return `${channel}: ${message.editsMessageId ? "група (оновлення)" : "група"}`;
+      case "admin":
+        return `${channel}: адмін`;
+      case "seller":
+        return `${channel}: продавець ${message.sellerDiscordId || ""}`.trim();
+      default:
+        return message.kind;
+    }
+  };
+
   const getClaimStatusBadge = (status: AdminOrderItem["claimStatus"]) => {
     switch (status) {
       case "unclaimed":
         return "bg-gray-500/20 text-gray-400 border-gray-500/40";
+      case "partially_claimed":
+        return "bg-orange-500/20 text-orange-400 border-orange-500/40";
       case "claimed":
         return "bg-yellow-500/20 text-yellow-400 border-yellow-500/40";
       case "fulfilled":
@@ -820,6 +1079,7 @@ export default function AdminPage() {
       case "completed": return "Виконано";
       case "closed": return "Закрите";
       case "cancelled": return "Скасовано";
+      case "expired": return "Прострочено";
       default: return status;
     }
   };
@@ -827,12 +1087,40 @@ export default function AdminPage() {
   const getClaimStatusLabel = (status: AdminOrderItem["claimStatus"]) => {
     switch (status) {
       case "unclaimed": return "Не прийнято";
+      case "partially_claimed": return "Частково";
       case "claimed": return "Прийнято";
       case "fulfilled": return "Виконано";
       default: return status;
     }
   };
 
+  const getEventActionLabel = (action: string) => {
+    switch (action) {
+      case "created": return "Створено";
+      case "updated": return "Змінено покупцем";
+      case "accepted": return "Прийнято повністю";
+      case "claimed": return "Прийнято позиції";
+      case "fulfilled": return "Видано";
+      case "released": return "Відмова від позиції";
+      case "closed": return "Закрито";
+      case "cancelled": return "Скасовано";
+      case "expired": return "Прострочено";
+      case "opened": return "Відкрито всім продавцям";
+      case "rated": return "Відгук покупця";
+      default: return action;
+    }
+  };
+
+  const getEventActorLabel = (event: AdminOrderEvent) => {
+    switch (event.actorRole) {
+      case "buyer": return `Покупець${event.actorName ? ` ${event.actorName}` : ""}`;
+      case "seller": return `Продавець ${event.actorName || event.actorId || ""}`.trim();
+      case "admin": return "Адмін";
+      case "system": return "Система";
+      default: return event.actorRole;
+    }
+  };
+
   // Loading state
   if (isAuthenticated === null) {
     return (
@@ -939,6 +1227,24 @@ export default function AdminPage() {
           >
             Замовлення
           </button>
+          <button
+            onClick={() => {
+              setActiveTab("outbox");
+              fetchOutbox();
+            }}
+            className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === "outbox"
+                ? "text-neon-cyan border-neon-cyan"
+                : "text-gray-400 border-transparent hover:text-white"
+            }`}
+          >
+            Сповіщення
+            {outboxCounts && outboxCounts.failed > 0 && (
+              <span className="ml-2 px-1.5 py-0.5 bg-red-500/30 text-red-400 rounded text-xs">
+                {outboxCounts.failed}
+              </span>
+            )}
+          </button>
           <button
             onClick={() => {
               setActiveTab("blueprints");
@@ -1031,6 +1337,7 @@ export default function AdminPage() {
                       <th className="px-4 py-3 font-medium w-28">Статус</th>
                       <th className="px-4 py-3 font-medium w-36">Telegram</th>
                       <th className="px-4 py-3 font-medium w-24 text-center">Товари</th>
+                      <th className="px-4 py-3 font-medium w-40">Репутація</th>
                       <th className="px-4 py-3 font-medium w-32">Створено</th>
                       <th className="px-4 py-3 font-medium w-48 text-right">Дії</th>
                     </tr>
@@ -1059,6 +1366,31 @@ export default function AdminPage() {
                             {seller.inventoryCount} ({seller.totalItems})
                           </span>
                         </td>
+                        <td className="px-4 py-3">
+                          <div
+                            className="text-sm text-gray-300"
+                            title={seller.reputation.recentComments
+                              .map((c) => `${c.rating}/5: ${c.comment}`)
+                              .join("\n") || undefined}
+                          >
+                            {seller.reputation.averageRating !== null ? (
+                              <span className="text-yellow-400">
+                                ★ {seller.reputation.averageRating} ({seller.reputation.ratingCount})
+                              </span>
+                            ) : (
+                              <span className="text-gray-500">Без оцінок</span>
+                            )}
+                            {seller.reputation.recentComments.length > 0 && <span className="ml-1">💬</span>}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            Виконано:{" "}
+                            {seller.reputation.completionRate !== null
+                              ? `${Math.round(seller.reputation.completionRate * 100)}%`
+                              : "—"}
+                            {seller.reputation.medianFulfilHours !== null &&
+                              ` · ~${seller.reputation.medianFulfilHours} год.`}
+                          </div>
+                        </td>
                         <td className="px-4 py-3">
                           <span className="text-sm text-gray-400">
                             {new Date(seller.createdAt).toLocaleDateString()}
@@ -1088,6 +1420,12 @@ export default function AdminPage() {
                             >
                               Інвентар
                             </button>
+                            <button
+                              onClick={() => openSellerSessions(seller)}
+                              className="px-3 py-1 bg-dark-600 text-gray-300 rounded text-xs hover:bg-dark-500 transition-colors"
+                            >
+                              Сесії
+                            </button>
                             <button
                               onClick={() => openEditSeller(seller)}
                               className="px-3 py-1 bg-neon-cyan/20 text-neon-cyan rounded text-xs hover:bg-neon-cyan/30 transition-colors"
@@ -1139,13 +1477,22 @@ export default function AdminPage() {
                   ))}
                 </div>
 
-                <button
-                  onClick={clearAllOrdersAction}
-                  disabled={isClearingOrders}
-                  className="px-4 py-2 bg-red-500/20 text-red-400 border border-red-500/40 rounded-lg text-sm font-medium hover:bg-red-500/30 transition-colors disabled:opacity-50"
-                >
-                  {isClearingOrders ? "Очищення..." : "Очистити всі замовлення"}
-                </button>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={sweepOrdersAction}
+                    disabled={isSweepingOrders}
+                    className="px-4 py-2 bg-dark-700 text-gray-300 border border-dark-600 rounded-lg text-sm font-medium hover:border-neon-cyan/30 transition-colors disabled:opacity-50"
+                  >
+                    {isSweepingOrders ? "Перевірка..." : "Прострочити застарілі"}
+                  </button>
+                  <button
+                    onClick={clearAllOrdersAction}
+                    disabled={isClearingOrders}
+                    className="px-4 py-2 bg-red-500/20 text-red-400 border border-red-500/40 rounded-lg text-sm font-medium hover:bg-red-500/30 transition-colors disabled:opacity-50"
+                  >
+                    {isClearingOrders ? "Очищення..." : "Очистити всі замовлення"}
+                  </button>
+                </div>
               </div>
             </div>
 
@@ -1203,6 +1550,14 @@ export default function AdminPage() {
                                 <span className={`px-2 py-0.5 rounded text-xs font-medium border ${getOrderStatusBadge(order.status)}`}>
                                   {getStatusLabel(order.status)}
                                 </span>
+                                {order.buyerUnverified && (
+                                  <span
+                                    className="px-2 py-0.5 rounded text-xs font-medium bg-yellow-500/20 text-yellow-400 border border-yellow-500/40"
+                                    title="Гостьове замовлення на нік зареєстрованого покупця"
+                                  >
+                                    Не підтверджено
+                                  </span>
+                                )}
                                 {order.isMultiSeller && (
                                   <span className="px-2 py-0.5 rounded text-xs font-medium bg-purple-500/20 text-purple-400 border border-purple-500/40">
                                     Мульти
@@ -1218,7 +1573,7 @@ export default function AdminPage() {
                           </div>
 
                           <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
-                            {order.status !== "closed" && order.status !== "cancelled" && (
+                            {order.status !== "closed" && order.status !== "cancelled" && order.status !== "expired" && (
                               <>
                                 <button
                                   onClick={() => closeOrderAction(order.orderId)}
@@ -1301,7 +1656,10 @@ export default function AdminPage() {
                                         <div className="text-xs text-gray-500">{item.blueprintId}</div>
                                       </td>
                                       <td className="px-3 py-2 text-center text-white">
-                                        {item.claimedQuantity || item.requestedQty}
+                                        {item.requestedQty}
+                                        {item.claimStatus === "partially_claimed" && (
+                                          <div className="text-xs text-gray-500">вільно {item.requestedQty - item.claimedQty}</div>
+                                        )}
                                       </td>
                                       <td className="px-3 py-2">
                                         <span className={`px-2 py-0.5 rounded text-xs font-medium border ${getClaimStatusBadge(item.claimStatus)}`}>
@@ -1309,18 +1667,36 @@ export default function AdminPage() {
                                         </span>
                                       </td>
                                       <td className="px-3 py-2">
-                                        {item.claimedBySellerDiscordId ? (
-                                          <div>
-                                            <span className="text-neon-cyan">{item.claimedBySellerDiscordId}</span>
-                                            {item.fulfilledAt && (
-                                              <div className="text-xs text-gray-500">
-                                                Виконано: {new Date(item.fulfilledAt).toLocaleString()}
+                                        {item.slices.length > 0 ? (
+                                          <div className="space-y-1">
+                                            {item.slices.map((slice) => (
+                                              <div key={`${slice.sellerId}:${slice.claimedAt}`}>
+                                                <span className="text-neon-cyan">{slice.sellerDiscordId}</span>
+                                                <span className="text-gray-400"> ×{slice.quantity}</span>
+                                                {slice.fulfilledAt && (
+                                                  <div className="text-xs text-gray-500">
+                                                    Виконано: {new Date(slice.fulfilledAt).toLocaleString()}
+                                                  </div>
+                                                )}
                                               </div>
-                                            )}
+                                            ))}
                                           </div>
                                         ) : (
                                           <span className="text-gray-500">—</span>
                                         )}
+                                        {item.claimStatus === "unclaimed" && item.suggestedSellerDiscordId && (
+                                          <div className="text-xs text-gray-400">
+                                            🧩 Рекомендовано: {item.suggestedSellerDiscordId}
+                                          </div>
+                                        )}
+                                        {item.preferredSellerDiscordId && (
+                                          <div
+                                            className="text-xs text-yellow-400"
+                                            title={order.preferredUntil ? `Тільки для нього до ${new Date(order.preferredUntil).toLocaleString()}` : undefined}
+                                          >
+                                            ⭐ Обрав покупець: {item.preferredSellerDiscordId}
+                                          </div>
+                                        )}
                                       </td>
                                     </tr>
                                   ))}
@@ -1329,11 +1705,72 @@ export default function AdminPage() {
                             </div>
                           </div>
 
+                          {order.events && order.events.length > 0 && (
+                            <div className="mt-4">
+                              <div className="text-xs text-gray-500 uppercase mb-2">Історія</div>
+                              <div className="bg-dark-700 rounded divide-y divide-dark-600">
+                                {order.events.map((event, index) => (
+                                  <div key={index} className="px-3 py-2 text-sm">
+                                    <div className="flex flex-wrap items-center gap-x-2">
+                                      <span className="text-xs text-gray-500">
+                                        {new Date(event.at).toLocaleString()}
+                                      </span>
+                                      <span className="text-white">{getEventActionLabel(event.action)}</span>
+                                      <span className="text-neon-cyan">{getEventActorLabel(event)}</span>
+                                      {event.fromStatus !== event.toStatus && (
+                                        <span className="text-xs text-gray-400">
+                                          {event.fromStatus ? `${getStatusLabel(event.fromStatus)} → ` : ""}
+                                          {getStatusLabel(event.toStatus)}
+                                        </span>
+                                      )}
+                                    </div>
+                                    {event.items && event.items.length > 0 && (
+                                      <div className="text-xs text-gray-400 mt-0.5">
+                                        {event.items.map((item) => `${item.blueprintId} ×${item.quantity}`).join(", ")}
+                                      </div>
+                                    )}
+                                    {event.note && (
+                                      <div className="text-xs text-gray-500 mt-0.5">{event.note}</div>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+
+                          {order.claimReleases && order.claimReleases.length > 0 && (
+                            <div className="mt-4">
+                              <div className="text-xs text-gray-500 uppercase mb-2">Автоматично зняті позиції</div>
+                              <div className="space-y-1">
+                                {order.claimReleases.map((release, index) => (
+                                  <div key={index} className="text-sm text-gray-400">
+                                    <span className="text-white">{release.blueprintId}</span>
+                                    {release.quantity !== undefined && <span className="text-gray-400"> ×{release.quantity}</span>}
+                                    {" — "}
+                                    <span className="text-neon-cyan">{release.sellerDiscordId || release.sellerId}</span>
+                                    {": "}
+                                    {release.reason}
+                                    <span className="text-xs text-gray-500 ml-2">
+                                      ({new Date(release.releasedAt).toLocaleString()})
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+
                           {order.closedAt && (
                             <div className="mt-4 text-sm text-gray-500">
                               Закрито: {new Date(order.closedAt).toLocaleString()}
                             </div>
                           )}
+
+                          {order.expiredAt && (
+                            <div className="mt-4 text-sm text-gray-500">
+                              Прострочено: {new Date(order.expiredAt).toLocaleString()}
+                              {order.expiryReason && <span> — {order.expiryReason}</span>}
+                            </div>
+                          )}
                         </div>
                       )}
                     </div>
@@ -1344,6 +1781,120 @@ export default function AdminPage() {
           </div>
         )}
 
+        {/* NOTIFICATION OUTBOX TAB */}
+        {activeTab === "outbox" && (
+          <div>
+            <div className="bg-dark-800 rounded-lg p-4 mb-6 border border-dark-600">
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div className="flex flex-wrap gap-2">
+                  {(["all", "pending", "sending", "sent", "failed"] as const).map((filter) => (
+                    <button
+                      key={filter}
+                      onClick={() => handleOutboxFilterChange(filter)}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                        outboxFilter === filter
+                          ? "bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40"
+                          : "bg-dark-700 text-gray-400 border border-dark-600 hover:border-neon-cyan/30"
+                      }`}
+                    >
+                      {filter === "all" ? "Усі" : getOutboxStatusLabel(filter)}
+                      {filter !== "all" && outboxCounts && ` (${outboxCounts[filter]})`}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => fetchOutbox()}
+                    disabled={isLoadingOutbox}
+                    className="px-4 py-2 bg-dark-700 text-gray-300 border border-dark-600 rounded-lg text-sm font-medium hover:border-neon-cyan/30 transition-colors disabled:opacity-50"
+                  >
+                    {isLoadingOutbox ? "Оновлення..." : "Оновити"}
+                  </button>
+                  {outboxCounts && outboxCounts.failed > 0 && (
+                    <button
+                      onClick={() => retryOutboxAction()}
+                      className="px-4 py-2 bg-red-500/20 text-red-400 border border-red-500/40 rounded-lg text-sm font-medium hover:bg-red-500/30 transition-colors"
+                    >
+                      Повторити всі невдалі
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {outboxMessage && (
+              <div className="mb-4 p-3 rounded-lg text-sm bg-dark-800 border border-dark-600 text-gray-300">
+                {outboxMessage}
+              </div>
+            )}
+
+            {isLoadingOutbox && outboxMessages.length === 0 ? (
+              <div className="text-center py-12 text-gray-400">Завантаження повідомлень...</div>
+            ) : outboxMessages.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">Повідомлень немає</div>
+            ) : (
+              <div className="bg-dark-800 rounded-lg border border-dark-600 overflow-hidden">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-dark-700 text-left text-sm text-gray-400">
+                      <th className="px-4 py-3 font-medium w-40">Створено</th>
+                      <th className="px-4 py-3 font-medium">Отримувач</th>
+                      <th className="px-4 py-3 font-medium w-48">Замовлення</th>
+                      <th className="px-4 py-3 font-medium w-32">Статус</th>
+                      <th className="px-4 py-3 font-medium">Деталі</th>
+                      <th className="px-4 py-3 font-medium w-28 text-right">Дії</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-dark-600">
+                    {outboxMessages.map((message) => (
+                      <tr key={message.id} className="hover:bg-dark-700/50 transition-colors align-top">
+                        <td className="px-4 py-3 text-xs text-gray-400">
+                          {new Date(message.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="text-sm text-white">{getOutboxRecipientLabel(message)}</div>
+                          <div className="text-xs text-gray-500">{message.chatId}</div>
+                        </td>
+                        <td className="px-4 py-3 text-xs text-gray-300 font-mono">
+                          {message.orderId || "—"}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-1 rounded text-xs font-medium border ${getOutboxStatusBadge(message.status)}`}>
+                            {getOutboxStatusLabel(message.status)}
+                          </span>
+                          <div className="mt-1 text-xs text-gray-500">Спроб: {message.attempts}</div>
+                        </td>
+                        <td className="px-4 py-3 text-xs text-gray-400">
+                          {message.status === "sent" && message.sentAt && (
+                            <div>Доставлено: {new Date(message.sentAt).toLocaleString()}</div>
+                          )}
+                          {message.status === "pending" && message.attempts > 0 && (
+                            <div>Наступна спроба: {new Date(message.nextAttemptAt).toLocaleString()}</div>
+                          )}
+                          {message.lastError && message.status !== "sent" && (
+                            <div className="text-red-400 break-all">{message.lastError}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {message.status === "failed" && (
+                            <button
+                              onClick={() => retryOutboxAction(message.id)}
+                              className="px-3 py-1 bg-neon-cyan/20 text-neon-cyan rounded text-xs hover:bg-neon-cyan/30 transition-colors"
+                            >
+                              Повторити
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* BLUEPRINTS TAB (Legacy) */}
         {activeTab === "blueprints" && (
           <div>
@@ -1617,6 +2168,87 @@ export default function AdminPage() {
         </div>
       )}
 
+      {/* Seller Sessions Modal */}
+      {viewingSellerSessions && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-dark-800 rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col border border-dark-600">
+            <div className="p-4 border-b border-dark-600 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-bold text-white">
+                  Сесії: {viewingSellerSessions.discordId}
+                </h2>
+                <p className="text-sm text-gray-400">Пристрої, з яких продавець зараз увійшов</p>
+              </div>
+              <button
+                onClick={closeSellerSessions}
+                className="text-gray-400 hover:text-white text-2xl"
+              >
+                &times;
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-auto">
+              {isLoadingSellerSessions ? (
+                <div className="text-center py-12 text-gray-400">Завантаження сесій...</div>
+              ) : sellerSessions.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">Активних сесій немає</div>
+              ) : (
+                <table className="w-full">
+                  <thead className="bg-dark-700 sticky top-0">
+                    <tr className="text-left text-sm text-gray-400">
+                      <th className="px-4 py-3 font-medium">Пристрій</th>
+                      <th className="px-4 py-3 font-medium w-32">IP</th>
+                      <th className="px-4 py-3 font-medium w-44">Вхід / активність</th>
+                      <th className="px-4 py-3 font-medium w-28 text-right">Дії</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-dark-600">
+                    {sellerSessions.map((session) => (
+                      <tr key={session.id} className="hover:bg-dark-700/50">
+                        <td className="px-4 py-3">
+                          <div className="text-sm text-gray-300 break-all">
+                            {session.userAgent || "Невідомий пристрій"}
+                          </div>
+                          <div className="text-xs text-gray-500">{session.id.slice(0, 8)}...</div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className="text-sm text-gray-300">{session.ip || "—"}</span>
+                        </td>
+                        <td className="px-4 py-3 text-xs text-gray-400">
+                          <div>{session.createdAt ? new Date(session.createdAt).toLocaleString() : "—"}</div>
+                          <div>{session.lastSeenAt ? new Date(session.lastSeenAt).toLocaleString() : "—"}</div>
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <button
+                            onClick={() => revokeSellerSessions(session.id)}
+                            disabled={revokingSessionId !== null}
+                            className="px-3 py-1 bg-red-500/20 text-red-400 rounded text-xs hover:bg-red-500/30 transition-colors disabled:opacity-50"
+                          >
+                            Завершити
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {sellerSessions.length > 0 && (
+              <div className="p-4 border-t border-dark-600 flex justify-end">
+                <button
+                  onClick={() => revokeSellerSessions()}
+                  disabled={revokingSessionId !== null}
+                  className="px-4 py-2 bg-red-500/20 text-red-400 border border-red-500/40 rounded-lg text-sm font-medium hover:bg-red-500/30 transition-colors disabled:opacity-50"
+                >
+                  {revokingSessionId === "all" ? "Завершення..." : "Завершити всі сесії"}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Seller Inventory Modal */}
       {viewingSellerInventory && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
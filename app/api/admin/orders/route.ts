@@ -7,6 +7,8 @@ import {
   clearAllOrders,
   closeOrder,
   cancelOrder,
+  sweepStaleOrders,
+  sweepStaleOrdersIfDue,
 } from "@/lib/orders";
 
 /**
@@ -25,6 +27,9 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const filter = searchParams.get("filter") || "all";
 
+    // Expire stale orders before listing (throttled)
+    await sweepStaleOrdersIfDue();
+
     let orders;
     switch (filter) {
       case "active":
@@ -54,7 +59,7 @@ export async function GET(request: NextRequest) {
  * POST /api/admin/orders
  * Perform admin actions on orders
  * Body:
- *   action: "close" | "cancel" | "clearAll"
+ *   action: "close" | "cancel" | "clearAll" | "sweep"
  *   orderId: string (required for close/cancel)
  */
 export async function POST(request: NextRequest) {
@@ -102,6 +107,15 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: result.error }, { status: 500 });
       }
 
+      case "sweep": {
+        const result = await sweepStaleOrders();
+        return NextResponse.json({
+          success: true,
+          message: `Прострочено замовлень: ${result.expiredOrderIds.length}, знято позицій: ${result.releasedClaims.length}, відкрито всім продавцям: ${result.openedOrderIds.length}`,
+          ...result,
+        });
+      }
+
       default:
         return NextResponse.json({ error: "Невідома дія" }, { status: 400 });
     }
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateAdminSession } from "@/lib/auth";
+import {
+  getOutboxMessages,
+  retryOutboxMessage,
+  OutboxMessageStatus,
+  OUTBOX_MESSAGE_STATUSES,
+} from "@/lib/telegram-outbox";
+import { maskDiscordWebhookUrl } from "@/lib/discord";
+
+// Most recent messages returned by GET
+const OUTBOX_LIST_LIMIT = 200;
+
+/**
+ * GET /api/admin/outbox
+ * Outbox messages (Telegram and Discord) with delivery status (newest first)
+ * Query params:
+ *   status: "pending" | "sending" | "sent" | "failed" (optional)
+ *   orderId: only messages for this order (optional)
+ */
+export async function GET(request: NextRequest) {
+  const isAdmin = await validateAdminSession();
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get("status");
+    const status = OUTBOX_MESSAGE_STATUSES.includes(statusParam as OutboxMessageStatus)
+      ? (statusParam as OutboxMessageStatus)
+      : undefined;
+    const orderId = searchParams.get("orderId") || undefined;
+
+    const allMessages = getOutboxMessages({ orderId });
+    const counts = Object.fromEntries(
+      OUTBOX_MESSAGE_STATUSES.map((s) => [s, allMessages.filter((m) => m.status === s).length])
+    );
+    const messages = (status ? allMessages.filter((m) => m.status === status) : allMessages)
+      .slice(0, OUTBOX_LIST_LIMIT)
+      // Webhook URLs contain the webhook's secret token
+      .map((m) => (m.channel === "discord" ? { ...m, chatId: maskDiscordWebhookUrl(m.chatId) } : m));
+
+    return NextResponse.json({ messages, counts });
+  } catch (error) {
+    console.error("Error fetching outbox:", error);
+    return NextResponse.json(
+      { error: "Не вдалося завантажити повідомлення" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/outbox
+ * Body: { action: "retry", id } or { action: "retryFailed" }
+ */
+export async function POST(request: NextRequest) {
+  const isAdmin = await validateAdminSession();
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { action, id } = body;
+
+    switch (action) {
+      case "retry": {
+        if (!id || typeof id !== "string") {
+          return NextResponse.json({ error: "id обов'язковий" }, { status: 400 });
+        }
+        const message = await retryOutboxMessage(id);
+        if (!message) {
+          return NextResponse.json(
+            { error: "Повідомлення не знайдено або вже в черзі" },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ success: true, message: "Повідомлення знову в черзі" });
+      }
+
+      case "retryFailed": {
+        let retried = 0;
+        for (const message of getOutboxMessages({ status: "failed" })) {
+          if (await retryOutboxMessage(message.id)) {
+            retried++;
+          }
+        }
+        return NextResponse.json({
+          success: true,
+          message: `Знову в черзі: ${retried}`,
+          retried,
+        });
+      }
+
+      default:
+        return NextResponse.json({ error: "Невідома дія" }, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Error performing outbox action:", error);
+    return NextResponse.json(
+      { error: "Помилка обробки запиту" },
+      { status: 500 }
+    );
+  }
+}
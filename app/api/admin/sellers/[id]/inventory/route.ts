@@ -120,11 +120,11 @@ export async function PUT(
       validUpdates.push({ blueprintId: update.blueprintId, quantity: qty });
     }
 
-    const success = updateSellerInventoryBulk(sellerId, validUpdates);
-    if (!success) {
+    const result = await updateSellerInventoryBulk(sellerId, validUpdates);
+    if (!result.success) {
       return NextResponse.json(
-        { error: "Failed to update inventory" },
-        { status: 500 }
+        { error: result.error || "Failed to update inventory" },
+        { status: 400 }
       );
     }
 
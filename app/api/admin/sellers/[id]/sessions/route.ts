@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateAdminSession, listSellerSessions, revokeSellerSession } from "@/lib/auth";
+import { getSellerById } from "@/lib/sellers";
+import { revokeSellerSessions } from "@/lib/session-store";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/admin/sellers/[id]/sessions - List a seller's active sessions
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const isAuthenticated = await validateAdminSession();
+    if (!isAuthenticated) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id: sellerId } = await params;
+
+    if (!getSellerById(sellerId)) {
+      return NextResponse.json(
+        { error: "Seller not found" },
+        { status: 404 }
+      );
+    }
+
+    const sessions = await listSellerSessions(sellerId);
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error("Error fetching seller sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/sellers/[id]/sessions - Revoke sessions
+ * ?sessionId=<id> revokes one session, without it all of the seller's sessions are revoked
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const isAuthenticated = await validateAdminSession();
+    if (!isAuthenticated) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id: sellerId } = await params;
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get("sessionId");
+
+    if (!sessionId) {
+      const revoked = await revokeSellerSessions(sellerId);
+      return NextResponse.json({ success: true, revoked });
+    }
+
+    const success = await revokeSellerSession(sellerId, sessionId);
+    if (!success) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, revoked: 1 });
+  } catch (error) {
+    console.error("Error revoking seller sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = "force-dynamic";
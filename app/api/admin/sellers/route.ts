@@ -12,6 +12,7 @@ import {
   getSellerInventory,
 } from "@/lib/sellers";
 import { getAllBlueprints } from "@/lib/blueprints";
+import { getSellerReputation } from "@/lib/orders";
 import { isValidSellerStatus, SellerStatus } from "@/lib/types";
 
 /**
@@ -29,7 +30,7 @@ export async function GET() {
 
     const sellers = getAllSellers();
 
-    // Add inventory count to each seller
+    // Add inventory count and reputation to each seller
     const sellersWithStats = sellers.map((seller) => ({
       id: seller.id,
       discordId: seller.discordId,
@@ -39,6 +40,7 @@ export async function GET() {
       updatedAt: seller.updatedAt,
       inventoryCount: seller.inventory.filter((i) => i.quantity > 0).length,
       totalItems: seller.inventory.reduce((sum, i) => sum + i.quantity, 0),
+      reputation: getSellerReputation(seller.id),
     }));
 
     return NextResponse.json({ sellers: sellersWithStats });
@@ -144,7 +146,7 @@ export async function PUT(request: NextRequest) {
             { status: 400 }
           );
         }
-        const updated = updateSellerStatus(sellerId, value as SellerStatus);
+        const updated = await updateSellerStatus(sellerId, value as SellerStatus);
         return NextResponse.json({
           success: true,
           seller: updated,
@@ -153,7 +155,7 @@ export async function PUT(request: NextRequest) {
 
       case "updateTelegramChatId": {
         const telegramChatId = typeof value === "string" ? value.trim() : undefined;
-        const updated = updateSellerTelegramChatId(sellerId, telegramChatId || undefined);
+        const updated = await updateSellerTelegramChatId(sellerId, telegramChatId || undefined);
         return NextResponse.json({
           success: true,
           seller: updated,
@@ -168,7 +170,7 @@ export async function PUT(request: NextRequest) {
           );
         }
         try {
-          const updated = updateSellerDiscordId(sellerId, value.trim());
+          const updated = await updateSellerDiscordId(sellerId, value.trim());
           return NextResponse.json({
             success: true,
             seller: updated,
@@ -192,12 +194,12 @@ export async function PUT(request: NextRequest) {
         }
 
         const updates = value as { blueprintId: string; quantity: number }[];
-        const success = updateSellerInventoryBulk(sellerId, updates);
+        const result = await updateSellerInventoryBulk(sellerId, updates);
 
-        if (!success) {
+        if (!result.success) {
           return NextResponse.json(
-            { error: "Failed to update inventory" },
-            { status: 500 }
+            { error: result.error || "Failed to update inventory" },
+            { status: 400 }
           );
         }
 
@@ -245,7 +247,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const success = deleteSeller(sellerId);
+    const success = await deleteSeller(sellerId);
     if (!success) {
       return NextResponse.json(
         { error: "Seller not found" },
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createBuyerSession, validateBuyerSession, destroySession } from "@/lib/auth";
+import { authenticateBuyer } from "@/lib/buyers";
+import { checkRateLimit, getClientIP } from "@/lib/rate-limit";
+import { Buyer } from "@/lib/types";
+
+// Rate limit config for login: 5 attempts per 15 minutes
+const LOGIN_RATE_LIMIT = { maxRequests: 5, windowMs: 15 * 60 * 1000 };
+
+function toBuyerResponse(buyer: Buyer) {
+  return {
+    id: buyer.id,
+    discordId: buyer.discordId,
+    defaultOffer: buyer.defaultOffer || "",
+  };
+}
+
+/**
+ * POST /api/buyer/auth - Buyer Login
+ * Authenticates buyer by Discord ID and password
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientIP = getClientIP(request.headers);
+    const rateLimit = checkRateLimit(`buyer-login:${clientIP}`, LOGIN_RATE_LIMIT);
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: "Забагато спроб входу. Спробуйте пізніше.",
+          retryAfter: rateLimit.retryAfter,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimit.retryAfter),
+            "X-RateLimit-Remaining": String(rateLimit.remaining),
+            "X-RateLimit-Reset": String(rateLimit.resetAt),
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const { discordId, password } = body;
+
+    if (!discordId || typeof discordId !== "string" || discordId.trim().length === 0) {
+      return NextResponse.json(
+        { error: "Discord ID обов'язковий" },
+        { status: 400 }
+      );
+    }
+
+    if (!password || typeof password !== "string") {
+      return NextResponse.json(
+        { error: "Пароль обов'язковий" },
+        { status: 400 }
+      );
+    }
+
+    const authResult = await authenticateBuyer(discordId.trim(), password);
+
+    if (!authResult.success || !authResult.buyer) {
+      return NextResponse.json(
+        { error: authResult.error || "Помилка автентифікації" },
+        { status: 401 }
+      );
+    }
+
+    await createBuyerSession(authResult.buyer.id);
+
+    return NextResponse.json({
+      success: true,
+      buyer: toBuyerResponse(authResult.buyer),
+    });
+  } catch (error) {
+    console.error("Buyer auth error:", error);
+    return NextResponse.json(
+      { error: "Помилка автентифікації" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/buyer/auth - Check buyer session
+ */
+export async function GET() {
+  try {
+    const result = await validateBuyerSession();
+
+    if (!result.valid || !result.buyer) {
+      return NextResponse.json({ authenticated: false });
+    }
+
+    return NextResponse.json({
+      authenticated: true,
+      buyer: toBuyerResponse(result.buyer),
+    });
+  } catch (error) {
+    console.error("Buyer session check error:", error);
+    return NextResponse.json({ authenticated: false });
+  }
+}
+
+/**
+ * DELETE /api/buyer/auth - Buyer Logout
+ */
+export async function DELETE() {
+  try {
+    await destroySession();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Logout error:", error);
+    return NextResponse.json(
+      { error: "Помилка виходу" },
+      { status: 500 }
+    );
+  }
+}
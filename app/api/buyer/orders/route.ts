@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { validateBuyerSession } from "@/lib/auth";
+import { getOrdersForBuyerAccount } from "@/lib/orders";
+
+/**
+ * GET /api/buyer/orders - Order history of the logged-in buyer (newest first)
+ */
+export async function GET() {
+  try {
+    const sessionResult = await validateBuyerSession();
+
+    if (!sessionResult.valid || !sessionResult.buyer) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      orders: getOrdersForBuyerAccount(sessionResult.buyer.id),
+    });
+  } catch (error) {
+    console.error("Error fetching buyer orders:", error);
+    return NextResponse.json(
+      { error: "Не вдалося завантажити замовлення" },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateBuyerSession } from "@/lib/auth";
+import { updateBuyerDefaultOffer } from "@/lib/buyers";
+
+/**
+ * PUT /api/buyer/profile - Save the default offer text
+ * Body: { defaultOffer: string ("" clears it) }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const sessionResult = await validateBuyerSession();
+
+    if (!sessionResult.valid || !sessionResult.buyer) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    let body: { defaultOffer?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Невірний формат даних" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.defaultOffer !== "string") {
+      return NextResponse.json(
+        { error: "Невірна пропозиція" },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateBuyerDefaultOffer(sessionResult.buyer.id, body.defaultOffer);
+    if (!result.success || !result.buyer) {
+      return NextResponse.json(
+        { error: result.error || "Не вдалося зберегти" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      defaultOffer: result.buyer.defaultOffer || "",
+    });
+  } catch (error) {
+    console.error("Error updating buyer profile:", error);
+    return NextResponse.json(
+      { error: "Не вдалося зберегти" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createBuyerSession } from "@/lib/auth";
+import { registerBuyer } from "@/lib/buyers";
+import { validateDiscordId, validatePassword } from "@/lib/sellers";
+import { checkRateLimit, getClientIP } from "@/lib/rate-limit";
+
+// Rate limit config for registration: 3 attempts per 15 minutes
+const REGISTER_RATE_LIMIT = { maxRequests: 3, windowMs: 15 * 60 * 1000 };
+
+/**
+ * POST /api/buyer/register - Buyer Registration
+ * Creates a buyer account and logs it in (no admin verification)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientIP = getClientIP(request.headers);
+    const rateLimit = checkRateLimit(`buyer-register:${clientIP}`, REGISTER_RATE_LIMIT);
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: "Забагато спроб реєстрації. Спробуйте пізніше.",
+          retryAfter: rateLimit.retryAfter,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimit.retryAfter),
+            "X-RateLimit-Remaining": String(rateLimit.remaining),
+            "X-RateLimit-Reset": String(rateLimit.resetAt),
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const { discordId, password, confirmPassword } = body;
+
+    const discordValidation = validateDiscordId(discordId);
+    if (!discordValidation.valid) {
+      return NextResponse.json(
+        { error: discordValidation.error },
+        { status: 400 }
+      );
+    }
+
+    const passwordValidation = validatePassword(password);
+    if (!passwordValidation.valid) {
+      return NextResponse.json(
+        { error: passwordValidation.error },
+        { status: 400 }
+      );
+    }
+
+    if (password !== confirmPassword) {
+      return NextResponse.json(
+        { error: "Паролі не співпадають" },
+        { status: 400 }
+      );
+    }
+
+    const result = await registerBuyer(discordId.trim(), password);
+
+    if (!result.success || !result.buyer) {
+      return NextResponse.json(
+        { error: result.error || "Помилка реєстрації" },
+        { status: 400 }
+      );
+    }
+
+    await createBuyerSession(result.buyer.id);
+
+    return NextResponse.json({
+      success: true,
+      buyer: {
+        id: result.buyer.id,
+        discordId: result.buyer.discordId,
+        defaultOffer: "",
+      },
+    });
+  } catch (error) {
+    console.error("Buyer registration error:", error);
+    return NextResponse.json(
+      { error: "Помилка реєстрації" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getOrderForBuyer,
+  cancelOrderByBuyer,
+  updateOrderItemsByBuyer,
+  leaveSellerFeedback,
+  BuyerOrderActionResult,
+} from "@/lib/orders";
+import { checkRateLimit, getClientIP } from "@/lib/rate-limit";
+
+type RouteParams = { params: Promise<{ orderId: string }> };
+
+// Rate limit config for tracking lookups: 30 requests per minute per IP
+const TRACKING_RATE_LIMIT = { maxRequests: 30, windowMs: 60 * 1000 };
+
+// Rate limit config for buyer changes: 10 requests per 5 minutes per IP
+const BUYER_ACTION_RATE_LIMIT = { maxRequests: 10, windowMs: 5 * 60 * 1000 };
+
+/**
+ * GET /api/order/[orderId]?token=...
+ * Buyer-facing order status (authenticated by the order's tracking token)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const clientIP = getClientIP(request.headers);
+    const rateLimit = checkRateLimit(`order-tracking:${clientIP}`, TRACKING_RATE_LIMIT);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: "Забагато запитів. Спробуйте пізніше." },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimit.retryAfter) },
+        }
+      );
+    }
+
+    const { orderId } = await params;
+    const { searchParams } = new URL(request.url);
+    const token = searchParams.get("token");
+
+    // Same response for missing order and wrong token (no order ID enumeration)
+    const order = token ? getOrderForBuyer(orderId, token) : null;
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: "Замовлення не знайдено" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      order,
+    });
+  } catch (error) {
+    console.error("Order tracking GET error:", error);
+    return NextResponse.json(
+      { success: false, error: "Внутрішня помилка сервера" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/order/[orderId]
+ * Buyer changes to an order that nobody has claimed yet, and seller feedback
+ * once the order is over
+ *
+ * Body:
+ * - token: Order tracking token
+ * - action: "cancel" | "update" | "feedback"
+ * - items: For "update" - [{ blueprintId, quantity }], quantity 0 removes the item
+ * - sellerDiscordId, rating (1-5), comment: For "feedback"
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const clientIP = getClientIP(request.headers);
+    const rateLimit = checkRateLimit(`order-buyer-action:${clientIP}`, BUYER_ACTION_RATE_LIMIT);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: `Забагато запитів. Спробуйте через ${rateLimit.retryAfter} секунд.` },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimit.retryAfter) },
+        }
+      );
+    }
+
+    const { orderId } = await params;
+
+    let body: {
+      token?: string;
+      action?: string;
+      items?: { blueprintId: string; quantity: number }[];
+      sellerDiscordId?: string;
+      rating?: number;
+      comment?: string;
+    };
+
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Невірний формат даних" },
+        { status: 400 }
+      );
+    }
+
+    const { token, action, items, sellerDiscordId, rating, comment } = body;
+
+    if (!token || typeof token !== "string") {
+      return NextResponse.json(
+        { success: false, error: "Замовлення не знайдено" },
+        { status: 404 }
+      );
+    }
+
+    let result: BuyerOrderActionResult;
+
+    switch (action) {
+      case "cancel":
+        result = await cancelOrderByBuyer(orderId, token);
+        break;
+
+      case "update": {
+        if (
+          !Array.isArray(items) ||
+          items.some((item) => !item || typeof item.blueprintId !== "string" || typeof item.quantity !== "number")
+        ) {
+          return NextResponse.json(
+            { success: false, error: "Невірний список позицій" },
+            { status: 400 }
+          );
+        }
+        result = await updateOrderItemsByBuyer(orderId, token, items);
+        break;
+      }
+
+      case "feedback": {
+        if (
+          typeof sellerDiscordId !== "string" ||
+          typeof rating !== "number" ||
+          (comment !== undefined && typeof comment !== "string")
+        ) {
+          return NextResponse.json(
+            { success: false, error: "Невірний відгук" },
+            { status: 400 }
+          );
+        }
+        result = await leaveSellerFeedback(orderId, token, sellerDiscordId, rating, comment);
+        break;
+      }
+
+      default:
+        return NextResponse.json(
+          { success: false, error: `Невідома дія: ${action}` },
+          { status: 400 }
+        );
+    }
+
+    if (!result.success || !result.order) {
+      // Not enough stock for an edit is a conflict, like at checkout
+      return NextResponse.json(
+        { success: false, error: result.error, itemErrors: result.itemErrors },
+        { status: result.itemErrors ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: getSuccessMessage(action),
+      order: getOrderForBuyer(orderId, token),
+    });
+  } catch (error) {
+    console.error("Order buyer action error:", error);
+    return NextResponse.json(
+      { success: false, error: "Внутрішня помилка сервера" },
+      { status: 500 }
+    );
+  }
+}
+
+function getSuccessMessage(action: string): string {
+  switch (action) {
+    case "cancel":
+      return "Замовлення скасовано";
+    case "feedback":
+      return "Дякуємо за відгук!";
+    default:
+      return "Замовлення оновлено";
+  }
+}
+
+// Force dynamic to ensure fresh data
+export const dynamic = "force-dynamic";
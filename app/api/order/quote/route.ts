@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { quoteOrder } from "@/lib/order";
+import { checkRateLimit, getClientIP } from "@/lib/rate-limit";
+
+// Rate limit config for quotes: 30 requests per minute per IP
+const QUOTE_RATE_LIMIT = { maxRequests: 30, windowMs: 60 * 1000 };
+
+/**
+ * POST /api/order/quote
+ * Per-seller asking prices for a cart, shown in checkout before ordering
+ *
+ * Body: { items: [{ id, quantity }] } - unknown blueprints are ignored
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientIP = getClientIP(request.headers);
+    const rateLimit = checkRateLimit(`order-quote:${clientIP}`, QUOTE_RATE_LIMIT);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: "Забагато запитів. Спробуйте пізніше." },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimit.retryAfter) },
+        }
+      );
+    }
+
+    let body: { items?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Невірний формат даних" },
+        { status: 400 }
+      );
+    }
+
+    const items = Array.isArray(body.items) ? body.items.slice(0, 50) : null;
+    if (
+      !items ||
+      !items.every(
+        (item) =>
+          typeof item?.id === "string" &&
+          Number.isInteger(item.quantity) &&
+          item.quantity >= 1 &&
+          item.quantity <= 999
+      )
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Невірний список позицій" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      sellers: quoteOrder(items),
+    });
+  } catch (error) {
+    console.error("Order quote error:", error);
+    return NextResponse.json(
+      { success: false, error: "Внутрішня помилка сервера" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
   validateOrder,
+  checkOrderStock,
   processOrder,
-  formatAdminTelegramMessage,
-  sendTelegramMessage,
-  sendSellerNotifications,
-  sendGroupNotification,
+  queueAdminNotification,
   OrderRequest,
 } from "@/lib/order";
-import { saveOrder } from "@/lib/orders";
+import { isAnyNotificationChannelConfigured, notifyOrderCreated } from "@/lib/notifications";
+import { saveOrder, getOrderTrackingPath, setOrderGroupPost } from "@/lib/orders";
 import { checkRateLimit, getClientIP } from "@/lib/rate-limit";
+import { validateBuyerSession } from "@/lib/auth";
+import { getBuyerByDiscordId } from "@/lib/buyers";
 
 // Rate limit config: 3 requests per 5 minutes per IP
 const RATE_LIMIT_CONFIG = {
@@ -65,13 +66,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Logged-in buyers order under their account. A guest nick that belongs to
+    // an account isn't refused (anyone can register someone else's nick), but
+    // the order is marked unverified for the sellers
+    const order = body as OrderRequest;
+    const buyerSession = await validateBuyerSession();
+    const buyer = buyerSession.valid ? buyerSession.buyer : undefined;
+    const buyerUnverified = !buyer && getBuyerByDiscordId(order.discordNick) !== null;
+
+    // Check items against the catalog and current stock
+    const stockCheck = checkOrderStock(order.items);
+    if (!stockCheck.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Частини креслень немає в наявності в потрібній кількості",
+          itemErrors: stockCheck.itemErrors,
+        },
+        { status: 409 }
+      );
+    }
+
     // Check environment variables
-    const botToken = process.env.TELEGRAM_BOT_TOKEN;
     const adminChatId = process.env.TELEGRAM_ADMIN_CHAT_ID;
-    const groupChatId = process.env.TELEGRAM_GROUP_CHAT_ID;
 
-    if (!botToken) {
-      console.error("Missing TELEGRAM_BOT_TOKEN");
+    if (!isAnyNotificationChannelConfigured()) {
+      console.error("Missing TELEGRAM_BOT_TOKEN and DISCORD_GROUP_WEBHOOK_URL");
       return NextResponse.json(
         { success: false, error: "Сервер не налаштовано для прийому замовлень" },
         { status: 500 }
@@ -79,46 +99,46 @@ export async function POST(request: NextRequest) {
     }
 
     // Process order and resolve to sellers
-    const order = body as OrderRequest;
-    const processedOrder = processOrder(order);
+    const processedOrder = processOrder(order, buyer, buyerUnverified);
 
     // Save order to storage for seller dashboard access
+    let trackingUrl: string | null = null;
+    let orderSaved = false;
     try {
-      saveOrder(processedOrder);
+      const storedOrder = saveOrder(processedOrder);
+      trackingUrl = getOrderTrackingPath(storedOrder);
+      orderSaved = true;
     } catch (saveError) {
       console.error("Failed to save order:", saveError);
       // Continue with notifications even if save fails
     }
 
-    // Send group notification (if group chat ID is configured)
-    let groupNotified = false;
-    if (groupChatId) {
-      const groupResult = await sendGroupNotification(botToken, groupChatId, processedOrder);
-      groupNotified = groupResult.success;
-      if (!groupResult.success) {
-        console.error("Failed to send group notification:", groupResult.error);
-      }
-    }
+    // Queue notifications (group channels + sellers on their chosen channels);
+    // the outbox worker delivers them with retries
+    let adminQueued = false;
+    let sellersQueued = 0;
+    try {
+      const created = notifyOrderCreated(processedOrder);
+      sellersQueued = created.sellersQueued;
 
-    // Send admin notification (if admin chat ID is configured)
-    if (adminChatId) {
-      const userAgent = request.headers.get("user-agent") || undefined;
-      const adminMessage = formatAdminTelegramMessage(processedOrder, userAgent);
-      const adminResult = await sendTelegramMessage(botToken, adminChatId, adminMessage);
+      // Later order changes edit the Telegram group post
+      if (created.telegramGroupPost && orderSaved) {
+        await setOrderGroupPost(processedOrder.orderId, created.telegramGroupPost.id);
+      }
 
-      if (!adminResult.success) {
-        console.error("Failed to send admin notification:", adminResult.error);
+      // Admin notification (if admin chat ID is configured)
+      if (adminChatId) {
+        const userAgent = request.headers.get("user-agent") || undefined;
+        queueAdminNotification(adminChatId, processedOrder, userAgent);
+        adminQueued = true;
       }
+    } catch (queueError) {
+      console.error("Failed to queue order notifications:", queueError);
     }
 
-    // Send notifications to relevant sellers
-    const sellerNotificationResults = await sendSellerNotifications(botToken, processedOrder);
-
     // Log results (keep in English for debugging)
     console.log(
-      `Order ${processedOrder.orderId}: Group notified=${groupNotified}, Admin notified=${!!adminChatId}, ` +
-      `Sellers notified=${sellerNotificationResults.sent}, ` +
-      `Failed=${sellerNotificationResults.failed}`
+      `Order ${processedOrder.orderId}: Admin queued=${adminQueued}, Sellers queued=${sellersQueued}`
     );
 
     // Success response
@@ -127,6 +147,7 @@ export async function POST(request: NextRequest) {
         success: true,
         message: "Замовлення відправлено! Продавці отримали повідомлення.",
         orderId: processedOrder.orderId,
+        trackingUrl,
       },
       {
         status: 200,
@@ -5,7 +5,8 @@ import {
   getSellerInventory,
   updateSellerInventoryBulk,
 } from "@/lib/sellers";
-import { canSellerModifyInventory } from "@/lib/types";
+import { parseAskingPrice } from "@/lib/pricing";
+import { AskingPrice, canSellerModifyInventory } from "@/lib/types";
 
 /**
  * GET /api/seller/inventory - Get seller's inventory with blueprint data
@@ -31,7 +32,7 @@ export async function GET() {
 
     // Create inventory map for quick lookup
     const inventoryMap = new Map(
-      inventory.map((item) => [item.blueprintId, item.quantity])
+      inventory.map((item) => [item.blueprintId, item])
     );
 
     // Combine blueprints with seller's quantities
@@ -41,7 +42,10 @@ export async function GET() {
       slug: bp.slug,
       image: bp.image,
       type: bp.type,
-      quantity: inventoryMap.get(bp.id) || 0,
+      quantity: inventoryMap.get(bp.id)?.quantity || 0,
+      // Held by claimed orders that are not fulfilled yet
+      reserved: inventoryMap.get(bp.id)?.reserved || 0,
+      price: inventoryMap.get(bp.id)?.price,
     }));
 
     return NextResponse.json({
@@ -62,7 +66,8 @@ export async function GET() {
 }
 
 /**
- * PUT /api/seller/inventory - Update seller's inventory (quantity only)
+ * PUT /api/seller/inventory - Update seller's inventory (quantity and asking price)
+ * price: omitted keeps the current price, null clears it
  */
 export async function PUT(request: NextRequest) {
   try {
@@ -87,7 +92,7 @@ export async function PUT(request: NextRequest) {
 
     const body = await request.json();
     const { updates } = body as {
-      updates: { blueprintId: string; quantity: number }[];
+      updates: { blueprintId: string; quantity: number; price?: unknown }[];
     };
 
     if (!Array.isArray(updates)) {
@@ -97,8 +102,8 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Validate updates - sellers can only change quantities
-    const validUpdates: { blueprintId: string; quantity: number }[] = [];
+    // Validate updates - sellers can only change quantities and prices
+    const validUpdates: { blueprintId: string; quantity: number; price?: AskingPrice | null }[] = [];
     const allBlueprints = getAllBlueprints();
     const blueprintIds = new Set(allBlueprints.map((bp) => bp.id));
 
@@ -114,16 +119,29 @@ export async function PUT(request: NextRequest) {
 
       // Validate quantity
       const qty = Math.max(0, Math.floor(update.quantity || 0));
-      validUpdates.push({ blueprintId: update.blueprintId, quantity: qty });
+
+      // Validate price (if provided)
+      if (update.price !== undefined) {
+        const priceResult = parseAskingPrice(update.price);
+        if (!priceResult.valid) {
+          return NextResponse.json(
+            { error: priceResult.error },
+            { status: 400 }
+          );
+        }
+        validUpdates.push({ blueprintId: update.blueprintId, quantity: qty, price: priceResult.price });
+      } else {
+        validUpdates.push({ blueprintId: update.blueprintId, quantity: qty });
+      }
     }
 
     // Apply updates
-    const success = updateSellerInventoryBulk(seller.id, validUpdates);
+    const result = await updateSellerInventoryBulk(seller.id, validUpdates);
 
-    if (!success) {
+    if (!result.success) {
       return NextResponse.json(
-        { error: "Failed to update inventory" },
-        { status: 500 }
+        { error: result.error || "Failed to update inventory" },
+        { status: 400 }
       );
     }
 
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateSellerSession } from "@/lib/auth";
+import { updateSellerNotificationSettings } from "@/lib/sellers";
+import { maskDiscordWebhookUrl } from "@/lib/discord";
+import { getSellerNotificationChannels, isValidNotificationChannel, Seller } from "@/lib/types";
+
+function toSettingsResponse(seller: Seller) {
+  return {
+    channels: getSellerNotificationChannels(seller),
+    telegramLinked: Boolean(seller.telegramChatId),
+    // Only the non-secret part; the full URL is never sent back
+    discordWebhook: seller.discordWebhookUrl ? maskDiscordWebhookUrl(seller.discordWebhookUrl) : null,
+  };
+}
+
+/**
+ * GET /api/seller/notifications - Notification channel settings
+ */
+export async function GET() {
+  try {
+    const sessionResult = await validateSellerSession();
+
+    if (!sessionResult.valid || !sessionResult.seller) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(toSettingsResponse(sessionResult.seller));
+  } catch (error) {
+    console.error("Error fetching notification settings:", error);
+    return NextResponse.json(
+      { error: "Не вдалося завантажити налаштування сповіщень" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/seller/notifications - Update notification channel settings
+ * Body: { channels: ("telegram" | "discord" | "webpush")[], discordWebhookUrl?: string ("" removes it) }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const sessionResult = await validateSellerSession();
+
+    if (!sessionResult.valid || !sessionResult.seller) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    let body: { channels?: unknown; discordWebhookUrl?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Невірний формат даних" },
+        { status: 400 }
+      );
+    }
+
+    const { channels, discordWebhookUrl } = body;
+    if (!Array.isArray(channels) || !channels.every(isValidNotificationChannel)) {
+      return NextResponse.json(
+        { error: "Невірний список каналів" },
+        { status: 400 }
+      );
+    }
+    if (discordWebhookUrl !== undefined && typeof discordWebhookUrl !== "string") {
+      return NextResponse.json(
+        { error: "Невірне посилання на Discord вебхук" },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateSellerNotificationSettings(sessionResult.seller.id, {
+      channels,
+      discordWebhookUrl,
+    });
+    if (!result.success || !result.seller) {
+      return NextResponse.json(
+        { error: result.error || "Не вдалося зберегти налаштування" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...toSettingsResponse(result.seller) });
+  } catch (error) {
+    console.error("Error updating notification settings:", error);
+    return NextResponse.json(
+      { error: "Не вдалося зберегти налаштування" },
+      { status: 500 }
+    );
+  }
+}
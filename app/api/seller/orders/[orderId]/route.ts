@@ -8,6 +8,7 @@ import {
   closeOrder,
   releaseOrderItem,
   getOrderForSeller,
+  getOrderEventsForSeller,
 } from "@/lib/orders";
 import { canSellerReceiveOrders } from "@/lib/types";
 
@@ -15,7 +16,7 @@ type RouteParams = { params: Promise<{ orderId: string }> };
 
 /**
  * GET /api/seller/orders/[orderId]
- * Get specific order details for seller
+ * Get specific order details for seller, including the order's action history
  */
 export async function GET(
   request: NextRequest,
@@ -52,6 +53,7 @@ export async function GET(
     return NextResponse.json({
       success: true,
       order,
+      events: getOrderEventsForSeller(orderId, seller.id) || [],
     });
   } catch (error) {
     console.error("Seller order GET error:", error);
@@ -70,6 +72,8 @@ export async function GET(
  * - action: "accept" | "claim" | "fulfill" | "fulfill_all" | "close" | "release"
  * - blueprintId: Optional, required for "fulfill" and "release" actions
  * - blueprintIds: Optional, for "claim" action to claim specific items
+ * - quantities: Optional, for "claim" action - { [blueprintId]: quantity } to take
+ *   part of an item (default: as much of the open quantity as the seller has)
  */
 export async function POST(
   request: NextRequest,
@@ -100,6 +104,7 @@ export async function POST(
       action: string;
       blueprintId?: string;
       blueprintIds?: string[];
+      quantities?: Record<string, number>;
     };
 
     try {
@@ -111,7 +116,7 @@ export async function POST(
       );
     }
 
-    const { action, blueprintId, blueprintIds } = body;
+    const { action, blueprintId, blueprintIds, quantities } = body;
 
     if (!action) {
       return NextResponse.json(
@@ -130,7 +135,20 @@ export async function POST(
 
       case "claim":
         // Partial claim (specific items or all claimable)
-        result = await claimOrderItems(orderId, seller.id, blueprintIds);
+        if (
+          quantities !== undefined &&
+          (typeof quantities !== "object" ||
+            quantities === null ||
+            !Object.values(quantities).every(
+              (quantity) => Number.isInteger(quantity) && quantity >= 1 && quantity <= 999
+            ))
+        ) {
+          return NextResponse.json(
+            { success: false, error: "Невірна кількість (1-999)" },
+            { status: 400 }
+          );
+        }
+        result = await claimOrderItems(orderId, seller.id, blueprintIds, quantities);
         break;
 
       case "fulfill":
@@ -5,6 +5,7 @@ import {
   getOrderForSeller,
   getArchivedOrdersForSeller,
   getSellerOrderStats,
+  sweepStaleOrdersIfDue,
 } from "@/lib/orders";
 import { canSellerReceiveOrders } from "@/lib/types";
 
@@ -77,7 +78,8 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Get active orders
+    // Get active orders (expire stale ones first, throttled)
+    await sweepStaleOrdersIfDue();
     const orders = getOrdersForSeller(seller.id);
 
     return NextResponse.json({
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateSellerSession } from "@/lib/auth";
+import {
+  getOrdersForSeller,
+  getActiveOrderForSeller,
+  sweepStaleOrdersIfDue,
+} from "@/lib/orders";
+import { subscribeToOrderChanges, OrderChange } from "@/lib/order-stream";
+import { canSellerReceiveOrders } from "@/lib/types";
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// The stream is closed after this long; the browser reconnects, which
+// re-checks the session and resyncs the order list
+const STREAM_MAX_AGE_MS = 10 * 60 * 1000;
+
+// Browser reconnect delay after the stream ends
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * GET /api/seller/orders/stream
+ * Server-Sent Events with the authenticated seller's active orders
+ *
+ * Events:
+ * - orders: full active list (sent first, and again after bulk changes)
+ * - order-created: an order appeared in the seller's list
+ * - order-updated: an order in the list changed
+ * - order-removed: an order left the list (claimed by others, closed, cancelled...)
+ */
+export async function GET(request: NextRequest) {
+  const sessionResult = await validateSellerSession();
+  if (!sessionResult.valid || !sessionResult.seller) {
+    return NextResponse.json(
+      { success: false, error: "Не авторизовано" },
+      { status: 401 }
+    );
+  }
+
+  const sellerId = sessionResult.seller.id;
+
+  if (!canSellerReceiveOrders(sessionResult.seller)) {
+    return NextResponse.json(
+      { success: false, error: "Обліковий запис неактивний" },
+      { status: 403 }
+    );
+  }
+
+  await sweepStaleOrdersIfDue();
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Orders this client currently shows (so removals are only sent for those)
+      const knownOrderIds = new Set<string>();
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          stop();
+        }
+      };
+
+      const send = (event: string, data: unknown) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      const sendSnapshot = () => {
+        const orders = getOrdersForSeller(sellerId);
+        knownOrderIds.clear();
+        orders.forEach((order) => knownOrderIds.add(order.orderId));
+        send("orders", { orders });
+      };
+
+      const handleChange = (change: OrderChange) => {
+        if (change.type === "reset") {
+          sendSnapshot();
+          return;
+        }
+
+        const order = getActiveOrderForSeller(change.orderId, sellerId);
+        if (order) {
+          const event = knownOrderIds.has(order.orderId) ? "order-updated" : "order-created";
+          knownOrderIds.add(order.orderId);
+          send(event, { order });
+        } else if (knownOrderIds.delete(change.orderId)) {
+          send("order-removed", { orderId: change.orderId });
+        }
+      };
+
+      const unsubscribe = subscribeToOrderChanges(handleChange);
+
+      const heartbeat = setInterval(() => {
+        write(": ping\n\n");
+        // Live dashboards no longer poll, so stale orders are expired from here
+        sweepStaleOrdersIfDue();
+      }, HEARTBEAT_INTERVAL_MS);
+
+      const maxAge = setTimeout(() => stop(), STREAM_MAX_AGE_MS);
+
+      stop = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        clearTimeout(maxAge);
+        request.signal.removeEventListener("abort", stop);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener("abort", stop);
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+      sendSnapshot();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable nginx response buffering
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+export const dynamic = "force-dynamic";
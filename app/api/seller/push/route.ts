@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateSellerSession } from "@/lib/auth";
+import {
+  addSellerPushSubscription,
+  getPushSubscriptionId,
+  removeSellerPushSubscription,
+} from "@/lib/sellers";
+import { getVapidPublicKey, isValidWebPushTarget } from "@/lib/web-push";
+
+/**
+ * GET /api/seller/push - VAPID public key and the number of subscribed browsers
+ */
+export async function GET() {
+  const sessionResult = await validateSellerSession();
+
+  if (!sessionResult.valid || !sessionResult.seller) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({
+    publicKey: getVapidPublicKey(),
+    subscriptionCount: sessionResult.seller.pushSubscriptions?.length || 0,
+  });
+}
+
+/**
+ * POST /api/seller/push - Subscribe this browser
+ * Body: { subscription: PushSubscriptionJSON }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sessionResult = await validateSellerSession();
+
+    if (!sessionResult.valid || !sessionResult.seller) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!getVapidPublicKey()) {
+      return NextResponse.json(
+        { error: "Push-сповіщення не налаштовані на сервері" },
+        { status: 503 }
+      );
+    }
+
+    let body: { subscription?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Невірний формат даних" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidWebPushTarget(body.subscription)) {
+      return NextResponse.json(
+        { error: "Невірна підписка" },
+        { status: 400 }
+      );
+    }
+
+    const result = await addSellerPushSubscription(
+      sessionResult.seller.id,
+      body.subscription,
+      request.headers.get("user-agent") || undefined
+    );
+    if (!result.success || !result.seller) {
+      return NextResponse.json(
+        { error: result.error || "Не вдалося увімкнути сповіщення" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      subscriptionCount: result.seller.pushSubscriptions?.length || 0,
+    });
+  } catch (error) {
+    console.error("Error saving push subscription:", error);
+    return NextResponse.json(
+      { error: "Не вдалося увімкнути сповіщення" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/seller/push - Unsubscribe a browser
+ * Body: { endpoint: string }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const sessionResult = await validateSellerSession();
+
+    if (!sessionResult.valid || !sessionResult.seller) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    let body: { endpoint?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Невірний формат даних" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.endpoint !== "string" || !body.endpoint) {
+      return NextResponse.json(
+        { error: "Невірна підписка" },
+        { status: 400 }
+      );
+    }
+
+    // Already gone is fine - the browser is unsubscribed either way
+    await removeSellerPushSubscription(sessionResult.seller.id, getPushSubscriptionId(body.endpoint));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing push subscription:", error);
+    return NextResponse.json(
+      { error: "Не вдалося вимкнути сповіщення" },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = "force-dynamic";
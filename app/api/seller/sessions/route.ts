@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  validateSellerSession,
+  listSellerSessions,
+  revokeSellerSession,
+  revokeOtherSellerSessions,
+} from "@/lib/auth";
+
+/**
+ * GET /api/seller/sessions - List the seller's active sessions
+ */
+export async function GET() {
+  try {
+    const sessionResult = await validateSellerSession();
+
+    if (!sessionResult.valid || !sessionResult.seller) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const sessions = await listSellerSessions(sessionResult.seller.id);
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error("Error fetching seller sessions:", error);
+    return NextResponse.json(
+      { error: "Не вдалося завантажити сесії" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/seller/sessions - Revoke sessions
+ * ?id=<sessionId> revokes one session, ?scope=others revokes all but the current one
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const sessionResult = await validateSellerSession();
+
+    if (!sessionResult.valid || !sessionResult.seller) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const sellerId = sessionResult.seller.id;
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get("id");
+
+    if (searchParams.get("scope") === "others") {
+      const revoked = await revokeOtherSellerSessions(sellerId);
+      return NextResponse.json({ success: true, revoked });
+    }
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "ID сесії обов'язковий" },
+        { status: 400 }
+      );
+    }
+
+    const success = await revokeSellerSession(sellerId, sessionId);
+    if (!success) {
+      return NextResponse.json(
+        { error: "Сесію не знайдено" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, revoked: 1 });
+  } catch (error) {
+    console.error("Error revoking seller session:", error);
+    return NextResponse.json(
+      { error: "Не вдалося завершити сесію" },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = "force-dynamic";
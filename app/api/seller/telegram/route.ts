@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+import { validateSellerSession } from "@/lib/auth";
+import { createSellerTelegramLinkCode, unlinkSellerTelegram } from "@/lib/sellers";
+import { getTelegramBotUsername } from "@/lib/telegram";
+
+/**
+ * GET /api/seller/telegram - Telegram link status
+ */
+export async function GET() {
+  try {
+    const sessionResult = await validateSellerSession();
+
+    if (!sessionResult.valid || !sessionResult.seller) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const seller = sessionResult.seller;
+
+    return NextResponse.json({
+      linked: Boolean(seller.telegramChatId),
+      telegramChatId: seller.telegramChatId || null,
+      // A link code was created and not used yet
+      linkPending: Boolean(
+        seller.telegramLinkCodeHash &&
+        seller.telegramLinkCodeExpiresAt &&
+        new Date(seller.telegramLinkCodeExpiresAt).getTime() > Date.now()
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching Telegram link status:", error);
+    return NextResponse.json(
+      { error: "Не вдалося завантажити статус Telegram" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/seller/telegram - Create a one-time link code
+ * Returns the t.me deep link; opening it and pressing Start links the chat
+ */
+export async function POST() {
+  try {
+    const sessionResult = await validateSellerSession();
+
+    if (!sessionResult.valid || !sessionResult.seller) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const botToken = process.env.TELEGRAM_BOT_TOKEN;
+    const botUsername = botToken ? await getTelegramBotUsername(botToken) : null;
+    if (!botUsername) {
+      return NextResponse.json(
+        { error: "Telegram бот не налаштований" },
+        { status: 503 }
+      );
+    }
+
+    const linkCode = await createSellerTelegramLinkCode(sessionResult.seller.id);
+    if (!linkCode) {
+      return NextResponse.json(
+        { error: "Продавця не знайдено" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      code: linkCode.code,
+      link: `https://t.me/${botUsername}?start=${linkCode.code}`,
+      expiresAt: linkCode.expiresAt,
+    });
+  } catch (error) {
+    console.error("Error creating Telegram link code:", error);
+    return NextResponse.json(
+      { error: "Не вдалося створити посилання" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/seller/telegram - Unlink Telegram (notifications stop)
+ */
+export async function DELETE() {
+  try {
+    const sessionResult = await validateSellerSession();
+
+    if (!sessionResult.valid || !sessionResult.seller) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const updated = await unlinkSellerTelegram(sessionResult.seller.id);
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Продавця не знайдено" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error unlinking Telegram:", error);
+    return NextResponse.json(
+      { error: "Не вдалося відв'язати Telegram" },
+      { status: 500 }
+    );
+  }
+}
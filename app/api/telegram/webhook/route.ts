@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleTelegramUpdate, isValidWebhookSecret, TelegramUpdate } from "@/lib/telegram-bot";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/telegram/webhook
+ * Receives bot updates (button presses) from Telegram
+ * Register it with setWebhook using TELEGRAM_WEBHOOK_SECRET as secret_token
+ */
+export async function POST(request: NextRequest) {
+  if (!isValidWebhookSecret(request.headers.get("x-telegram-bot-api-secret-token"))) {
+    return NextResponse.json(
+      { success: false, error: "Не авторизовано" },
+      { status: 401 }
+    );
+  }
+
+  let update: TelegramUpdate;
+  try {
+    update = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Невірний формат даних" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await handleTelegramUpdate(update);
+  } catch (error) {
+    // Still answer 200: Telegram would redeliver the update and repeat the action
+    console.error("Telegram webhook error:", error);
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,31 @@
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { getOrderForBuyer } from "@/lib/orders";
+import OrderTracking from "@/components/OrderTracking";
+
+// Force dynamic rendering - order status changes as sellers act on it
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Статус замовлення | churchukbptrade",
+  // Tracking links are secret - keep them out of search engines
+  robots: { index: false, follow: false },
+};
+
+interface PageProps {
+  params: Promise<{ orderId: string }>;
+  searchParams: Promise<{ token?: string }>;
+}
+
+export default async function OrderTrackingPage({ params, searchParams }: PageProps) {
+  const { orderId } = await params;
+  const { token } = await searchParams;
+
+  const order = token ? getOrderForBuyer(orderId, token) : null;
+
+  if (!order || !token) {
+    notFound();
+  }
+
+  return <OrderTracking order={order} accessToken={token} />;
+}
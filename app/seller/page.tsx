@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
-import { BLUEPRINT_TYPES, BlueprintType } from "@/lib/types";
+import { AskingPrice, BLUEPRINT_TYPES, BlueprintType } from "@/lib/types";
+import { CURRENCY_LABEL } from "@/lib/pricing";
 import { useAuth } from "@/contexts/AuthContext";
 import { useNewOrderNotification } from "@/hooks/useNewOrderNotification";
 
@@ -12,6 +13,8 @@ interface BlueprintWithQuantity {
   image: string;
   type: BlueprintType;
   quantity: number;
+  reserved: number;
+  price?: AskingPrice;
 }
 
 interface SellerInfo {
@@ -20,8 +23,8 @@ interface SellerInfo {
   status: string;
 }
 
-type ItemClaimStatus = "unclaimed" | "claimed" | "fulfilled";
-type OrderStatus = "open" | "in_progress" | "completed" | "closed" | "cancelled";
+type ItemClaimStatus = "unclaimed" | "partially_claimed" | "claimed" | "fulfilled";
+type OrderStatus = "open" | "in_progress" | "completed" | "closed" | "cancelled" | "expired";
 
 interface OrderItem {
   blueprintId: string;
@@ -30,15 +33,19 @@ interface OrderItem {
   available: boolean;
   availableQty: number;
   claimStatus: ItemClaimStatus;
+  claimedQty: number;
+  remainingQty: number;
   claimedByMe: boolean;
-  claimedBySellerId?: string;
-  claimedBySellerDiscordId?: string;
-  claimedQuantity?: number;
+  myClaimStatus?: "claimed" | "fulfilled";
+  myClaimedQty: number;
+  preferredForMe: boolean;
+  suggestedForMe: boolean;
 }
 
 interface SellerOrder {
   orderId: string;
   buyerDiscordNick: string;
+  buyerUnverified?: boolean;
   offer: string;
   notes?: string;
   isMultiSeller: boolean;
@@ -47,13 +54,57 @@ interface SellerOrder {
   isAssignedToMe: boolean;
   isClosedByMe: boolean;
   items: OrderItem[];
+  preferredUntil?: string;
   canAcceptFull: boolean;
   claimableItemCount: number;
   myClaimedItemCount: number;
+  suggestedItemCount: number;
+}
+
+type NotificationChannel = "telegram" | "discord" | "webpush";
+
+// Price editor state: the amount or item list is kept as typed until saved
+interface PriceDraft {
+  type: "none" | AskingPrice["type"];
+  value: string;
 }
 
 interface PendingChange {
   quantity: number;
+  price?: PriceDraft; // Set only when the price was edited
+}
+
+function toPriceDraft(price?: AskingPrice): PriceDraft {
+  if (!price) return { type: "none", value: "" };
+  return price.type === "currency"
+    ? { type: "currency", value: String(price.amount) }
+    : { type: "items", value: price.items.join(", ") };
+}
+
+// Server validates the result and rejects empty or malformed prices
+function fromPriceDraft(draft: PriceDraft): AskingPrice | null {
+  if (draft.type === "none") return null;
+  if (draft.type === "currency") return { type: "currency", amount: Number(draft.value) };
+  return {
+    type: "items",
+    items: draft.value.split(",").map((item) => item.trim()).filter(Boolean),
+  };
+}
+
+interface SellerSession {
+  id: string;
+  createdAt?: string;
+  lastSeenAt?: string;
+  expiresAt: string;
+  ip?: string;
+  userAgent?: string;
+  current: boolean;
+}
+
+// VAPID public key (base64url) -> applicationServerKey
+function base64UrlToUint8Array(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
 }
 
 export default function SellerDashboard() {
@@ -85,7 +136,7 @@ export default function SellerDashboard() {
   const [availabilityFilter, setAvailabilityFilter] = useState<"all" | "instock" | "outofstock">("all");
 
   // Tab state
-  const [activeTab, setActiveTab] = useState<"inventory" | "orders" | "archived">("inventory");
+  const [activeTab, setActiveTab] = useState<"inventory" | "orders" | "archived" | "sessions" | "notifications">("inventory");
 
   // Orders state
   const [orders, setOrders] = useState<SellerOrder[]>([]);
@@ -97,12 +148,46 @@ export default function SellerDashboard() {
   // Action state
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [actionMessage, setActionMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  // Quantity to take per item when claiming only part of it (blueprintId -> quantity)
+  const [claimQuantities, setClaimQuantities] = useState<Record<string, number>>({});
+
+  // Sessions state
+  const [sessions, setSessions] = useState<SellerSession[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [sessionsError, setSessionsError] = useState("");
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+
+  // Notification settings state
+  const [notificationChannels, setNotificationChannels] = useState<NotificationChannel[]>(["telegram"]);
+  const [discordWebhook, setDiscordWebhook] = useState<string | null>(null);
+  const [discordWebhookInput, setDiscordWebhookInput] = useState("");
+  const [notificationsSaving, setNotificationsSaving] = useState(false);
+  const [notificationsMessage, setNotificationsMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  // Browser push state (this device)
+  const [pushSupported, setPushSupported] = useState(false);
+  const [pushPublicKey, setPushPublicKey] = useState<string | null>(null);
+  const [pushSubscribed, setPushSubscribed] = useState(false);
+  const [pushDeviceCount, setPushDeviceCount] = useState(0);
+  const [pushLoading, setPushLoading] = useState(false);
+
+  // Telegram link state
+  const [telegramChatId, setTelegramChatId] = useState<string | null>(null);
+  const [telegramLink, setTelegramLink] = useState<{ link: string; expiresAt: string } | null>(null);
+  const [telegramLoading, setTelegramLoading] = useState(false);
+  const [telegramError, setTelegramError] = useState("");
 
   // Copy toast state
   const [copyToast, setCopyToast] = useState<string | null>(null);
 
   // New order notification hook
-  const { initAudio, unlockAudio, processOrders, reset: resetNotifications } = useNewOrderNotification();
+  const {
+    initAudio,
+    unlockAudio,
+    processOrders,
+    processOrderEvent,
+    reset: resetNotifications,
+  } = useNewOrderNotification();
 
   // Ref for audio unlock listener
   const audioUnlockAttached = useRef(false);
@@ -229,6 +314,7 @@ export default function SellerDashboard() {
       setPendingChanges(new Map());
       setOrders([]);
       setArchivedOrders([]);
+      setSessions([]);
       // Reset notification tracking
       resetNotifications();
     }
@@ -290,100 +376,421 @@ export default function SellerDashboard() {
     }
   };
 
+  const fetchSessions = async () => {
+    setSessionsLoading(true);
+    setSessionsError("");
+
+    try {
+      const res = await fetch("/api/seller/sessions");
+      if (!res.ok) {
+        if (res.status === 401) {
+          setIsAuthenticated(false);
+          return;
+        }
+        throw new Error("Failed to fetch sessions");
+      }
+      const data = await res.json();
+      setSessions(data.sessions || []);
+    } catch {
+      setSessionsError("Не вдалося завантажити сесії");
+    } finally {
+      setSessionsLoading(false);
+    }
+  };
+
+  // session omitted = revoke all other sessions
+  const revokeSession = async (session?: SellerSession) => {
+    if (!session && !confirm("Вийти на всіх інших пристроях?")) return;
+
+    setRevokingSessionId(session?.id || "others");
+    setSessionsError("");
+
+    try {
+      const query = session ? `id=${encodeURIComponent(session.id)}` : "scope=others";
+      const res = await fetch(`/api/seller/sessions?${query}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        setSessionsError(data.error || "Не вдалося завершити сесію");
+        return;
+      }
+
+      // Revoking this device's session is a logout
+      if (session?.current) {
+        await handleLogout();
+        return;
+      }
+      await fetchSessions();
+    } catch {
+      setSessionsError("Помилка з'єднання");
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
+  const fetchTelegramStatus = async () => {
+    try {
+      const res = await fetch("/api/seller/telegram");
+      if (!res.ok) {
+        if (res.status === 401) {
+          setIsAuthenticated(false);
+          return;
+        }
+        throw new Error("Failed to fetch Telegram status");
+      }
+      const data = await res.json();
+      setTelegramChatId(data.telegramChatId || null);
+      // The bot consumed the code
+      if (!data.linkPending) {
+        setTelegramLink(null);
+      }
+    } catch {
+      setTelegramError("Не вдалося завантажити статус Telegram");
+    }
+  };
+
+  const fetchNotificationSettings = async () => {
+    try {
+      const res = await fetch("/api/seller/notifications");
+      if (!res.ok) {
+        if (res.status === 401) {
+          setIsAuthenticated(false);
+          return;
+        }
+        throw new Error("Failed to fetch notification settings");
+      }
+      const data = await res.json();
+      setNotificationChannels(data.channels || []);
+      setDiscordWebhook(data.discordWebhook || null);
+    } catch {
+      setNotificationsMessage({ type: "error", text: "Не вдалося завантажити налаштування сповіщень" });
+    }
+  };
+
+  // webhookUrl: new URL, "" removes the saved one, undefined keeps it
+  const saveNotificationSettings = async (channels: NotificationChannel[], webhookUrl?: string) => {
+    setNotificationsSaving(true);
+    setNotificationsMessage(null);
+
+    try {
+      const res = await fetch("/api/seller/notifications", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channels, discordWebhookUrl: webhookUrl }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setNotificationsMessage({ type: "error", text: data.error || "Не вдалося зберегти налаштування" });
+        return;
+      }
+      setNotificationChannels(data.channels || []);
+      setDiscordWebhook(data.discordWebhook || null);
+      setDiscordWebhookInput("");
+      setNotificationsMessage({ type: "success", text: "Налаштування збережено" });
+    } catch {
+      setNotificationsMessage({ type: "error", text: "Помилка з'єднання" });
+    } finally {
+      setNotificationsSaving(false);
+    }
+  };
+
+  const toggleNotificationChannel = (channel: NotificationChannel) => {
+    const channels = notificationChannels.includes(channel)
+      ? notificationChannels.filter((c) => c !== channel)
+      : [...notificationChannels, channel];
+    saveNotificationSettings(channels);
+  };
+
+  const fetchPushStatus = async () => {
+    const supported =
+      "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+    setPushSupported(supported);
+
+    try {
+      const res = await fetch("/api/seller/push");
+      if (!res.ok) {
+        if (res.status === 401) {
+          setIsAuthenticated(false);
+        }
+        return;
+      }
+      const data = await res.json();
+      setPushPublicKey(data.publicKey || null);
+      setPushDeviceCount(data.subscriptionCount || 0);
+
+      if (supported) {
+        const registration = await navigator.serviceWorker.getRegistration();
+        const subscription = await registration?.pushManager.getSubscription();
+        setPushSubscribed(Boolean(subscription));
+      }
+    } catch {
+      // Push status is optional - the rest of the tab still works
+    }
+  };
+
+  const enablePush = async () => {
+    if (!pushPublicKey) return;
+    setPushLoading(true);
+    setNotificationsMessage(null);
+
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        setNotificationsMessage({
+          type: "error",
+          text: "Браузер не дозволив сповіщення. Дозвольте їх у налаштуваннях сайту.",
+        });
+        return;
+      }
+
+      const registration = await navigator.serviceWorker.register("/sw.js");
+      await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: base64UrlToUint8Array(pushPublicKey),
+      });
+
+      const res = await fetch("/api/seller/push", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscription: subscription.toJSON() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        await subscription.unsubscribe();
+        setNotificationsMessage({ type: "error", text: data.error || "Не вдалося увімкнути сповіщення" });
+        return;
+      }
+
+      setPushSubscribed(true);
+      setPushDeviceCount(data.subscriptionCount || 0);
+      // Subscribing turns the channel on
+      await fetchNotificationSettings();
+      setNotificationsMessage({ type: "success", text: "Сповіщення на цьому пристрої увімкнено" });
+    } catch {
+      setNotificationsMessage({ type: "error", text: "Не вдалося увімкнути сповіщення" });
+    } finally {
+      setPushLoading(false);
+    }
+  };
+
+  const disablePush = async () => {
+    setPushLoading(true);
+    setNotificationsMessage(null);
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration();
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) {
+        await fetch("/api/seller/push", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+
+      setPushSubscribed(false);
+      setPushDeviceCount((count) => Math.max(0, count - 1));
+      setNotificationsMessage({ type: "success", text: "Сповіщення на цьому пристрої вимкнено" });
+    } catch {
+      setNotificationsMessage({ type: "error", text: "Не вдалося вимкнути сповіщення" });
+    } finally {
+      setPushLoading(false);
+    }
+  };
+
+  const createTelegramLink = async () => {
+    setTelegramLoading(true);
+    setTelegramError("");
+
+    try {
+      const res = await fetch("/api/seller/telegram", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setTelegramError(data.error || "Не вдалося створити посилання");
+        return;
+      }
+      setTelegramLink({ link: data.link, expiresAt: data.expiresAt });
+    } catch {
+      setTelegramError("Помилка з'єднання");
+    } finally {
+      setTelegramLoading(false);
+    }
+  };
+
+  const unlinkTelegram = async () => {
+    if (!confirm("Відв'язати Telegram? Сповіщення про замовлення перестануть надходити.")) return;
+
+    setTelegramLoading(true);
+    setTelegramError("");
+
+    try {
+      const res = await fetch("/api/seller/telegram", { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        setTelegramError(data.error || "Не вдалося відв'язати Telegram");
+        return;
+      }
+      setTelegramChatId(null);
+      setTelegramLink(null);
+    } catch {
+      setTelegramError("Помилка з'єднання");
+    } finally {
+      setTelegramLoading(false);
+    }
+  };
+
+  // While a link is waiting to be opened, check whether the bot has linked the chat
+  useEffect(() => {
+    if (!isAuthenticated || activeTab !== "notifications" || !telegramLink) return;
+
+    const interval = setInterval(() => {
+      if (new Date(telegramLink.expiresAt).getTime() < Date.now()) {
+        setTelegramLink(null);
+        return;
+      }
+      fetchTelegramStatus();
+    }, 3000);
+
+    return () => clearInterval(interval);
+  }, [isAuthenticated, activeTab, telegramLink]);
+
   // Fetch orders when switching to orders/archived tab
   useEffect(() => {
     if (isAuthenticated && activeTab === "orders") {
       fetchOrders(false);
     } else if (isAuthenticated && activeTab === "archived") {
       fetchOrders(true);
+    } else if (isAuthenticated && activeTab === "sessions") {
+      fetchSessions();
+    } else if (isAuthenticated && activeTab === "notifications") {
+      fetchTelegramStatus();
+      fetchNotificationSettings();
+      fetchPushStatus();
     }
   }, [isAuthenticated, activeTab]);
 
-  // Polling configuration
-  const POLL_INTERVAL_ACTIVE = 5000;   // 5 seconds when tab is visible
-  const POLL_INTERVAL_HIDDEN = 15000;  // 15 seconds when tab is hidden
+  // Deep link from a push notification: /seller?order=<orderId>
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const orderId = new URLSearchParams(window.location.search).get("order");
+    if (!orderId) return;
+
+    window.history.replaceState(null, "", window.location.pathname);
+    setActiveTab("orders");
+
+    fetch(`/api/seller/orders?orderId=${encodeURIComponent(orderId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.order) {
+          setSelectedOrder(data.order);
+        } else {
+          setActionMessage({ type: "error", text: "Замовлення більше недоступне" });
+        }
+      })
+      .catch(() => {
+        // The order list is still shown
+      });
+  }, [isAuthenticated]);
+
+  // Delay before reopening the order stream after the server ended it for good
+  const STREAM_RECONNECT_DELAY = 5000;
 
-  // Poll for new orders periodically when authenticated and seller is ACTIVE
-  // This enables new order notifications in near real-time
+  // Live order updates for authenticated ACTIVE sellers (Server-Sent Events)
+  // The list is updated in place as orders are created, claimed or closed
+  // Keyed on the seller's id and status only: other profile updates replace
+  // the seller object and must not reopen the stream
+  const streamSellerId = seller?.status === "active" ? seller.id : null;
   useEffect(() => {
-    // Only poll for authenticated ACTIVE sellers
-    if (!isAuthenticated || !seller || seller.status !== "active") return;
-
-    let pollIntervalId: NodeJS.Timeout | null = null;
-    let currentInterval = POLL_INTERVAL_ACTIVE;
-
-    // Silent background fetch for polling (doesn't trigger loading state)
-    const pollOrders = () => {
-      fetch("/api/seller/orders", { credentials: "include" })
-        .then((res) => {
-          if (res.ok) return res.json();
-          if (res.status === 401) {
-            setIsAuthenticated(false);
-          }
-          throw new Error("Failed");
-        })
-        .then((data) => {
-          const fetchedOrders = data.orders || [];
-
-          // Always update orders state so UI stays fresh
-          setOrders(fetchedOrders);
-
-          // Process for new order notifications
-          processOrders(fetchedOrders);
-        })
-        .catch(() => {
-          // Silently fail background polls
-        });
+    if (!isAuthenticated || !streamSellerId) return;
+
+    let source: EventSource | null = null;
+    let reconnectTimeout: NodeJS.Timeout | null = null;
+    let stopped = false;
+
+    const upsertOrder = (order: SellerOrder) => {
+      setOrders((current) => {
+        const index = current.findIndex((o) => o.orderId === order.orderId);
+        if (index === -1) {
+          // Newest first, like the API
+          return [order, ...current];
+        }
+        const next = [...current];
+        next[index] = order;
+        return next;
+      });
+      setSelectedOrder((current) => (current?.orderId === order.orderId ? order : current));
     };
 
-    // Start polling with given interval
-    const startPolling = (interval: number) => {
-      if (pollIntervalId) {
-        clearInterval(pollIntervalId);
-      }
-      currentInterval = interval;
-      pollIntervalId = setInterval(pollOrders, interval);
+    const removeOrder = (orderId: string) => {
+      setOrders((current) => current.filter((o) => o.orderId !== orderId));
+      setSelectedOrder((current) => (current?.orderId === orderId ? null : current));
     };
 
-    // Handle tab visibility changes
-    const handleVisibilityChange = () => {
-      if (document.hidden) {
-        // Tab is hidden - use slower polling
-        startPolling(POLL_INTERVAL_HIDDEN);
-      } else {
-        // Tab is visible - use fast polling and fetch immediately
-        startPolling(POLL_INTERVAL_ACTIVE);
-        pollOrders(); // Immediate fetch when tab becomes visible
-      }
-    };
+    const connect = () => {
+      source = new EventSource("/api/seller/orders/stream");
+
+      source.addEventListener("orders", (event) => {
+        const fetchedOrders: SellerOrder[] = JSON.parse((event as MessageEvent).data).orders || [];
+        setOrders(fetchedOrders);
+        setOrdersError("");
+        processOrders(fetchedOrders);
+      });
 
-    // Initial fetch
-    pollOrders();
+      const handleOrderEvent = (event: Event) => {
+        const { order } = JSON.parse((event as MessageEvent).data) as { order: SellerOrder };
+        upsertOrder(order);
+        processOrderEvent(order);
+      };
+      source.addEventListener("order-created", handleOrderEvent);
+      source.addEventListener("order-updated", handleOrderEvent);
 
-    // Start polling based on current visibility
-    if (document.hidden) {
-      startPolling(POLL_INTERVAL_HIDDEN);
-    } else {
-      startPolling(POLL_INTERVAL_ACTIVE);
-    }
+      source.addEventListener("order-removed", (event) => {
+        removeOrder(JSON.parse((event as MessageEvent).data).orderId);
+      });
 
-    // Listen for visibility changes
-    document.addEventListener("visibilitychange", handleVisibilityChange);
+      source.onerror = () => {
+        // The browser retries dropped connections by itself; a CLOSED stream
+        // means the server refused it (e.g. the session ended)
+        if (!source || source.readyState !== EventSource.CLOSED || stopped) return;
+
+        fetch("/api/seller/orders?stats=true", { credentials: "include" })
+          .then((res) => {
+            if (res.status === 401) {
+              setIsAuthenticated(false);
+              return;
+            }
+            reconnectTimeout = setTimeout(() => {
+              if (!stopped) connect();
+            }, STREAM_RECONNECT_DELAY);
+          })
+          .catch(() => {
+            reconnectTimeout = setTimeout(() => {
+              if (!stopped) connect();
+            }, STREAM_RECONNECT_DELAY);
+          });
+      };
+    };
+
+    connect();
 
     return () => {
-      if (pollIntervalId) {
-        clearInterval(pollIntervalId);
+      stopped = true;
+      source?.close();
+      if (reconnectTimeout) {
+        clearTimeout(reconnectTimeout);
       }
-      document.removeEventListener("visibilitychange", handleVisibilityChange);
     };
-  }, [isAuthenticated, seller, processOrders]);
+  }, [isAuthenticated, streamSellerId, processOrders, processOrderEvent]);
 
   // Order action handler
   const handleOrderAction = async (
     orderId: string,
     action: string,
     blueprintId?: string,
-    blueprintIds?: string[]
+    blueprintIds?: string[],
+    quantities?: Record<string, number>
   ) => {
     setActionLoading(action + (blueprintId || ""));
     setActionMessage(null);
@@ -392,13 +799,14 @@ export default function SellerDashboard() {
       const res = await fetch(`/api/seller/orders/${orderId}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action, blueprintId, blueprintIds }),
+        body: JSON.stringify({ action, blueprintId, blueprintIds, quantities }),
       });
 
       const data = await res.json();
 
       if (data.success) {
         setActionMessage({ type: "success", text: data.message });
+        setClaimQuantities({});
 
         // Update selected order if we have the updated one
         if (data.order) {
@@ -435,20 +843,32 @@ export default function SellerDashboard() {
     [pendingChanges]
   );
 
-  // Update quantity
-  const updateQuantity = useCallback(
-    (blueprintId: string, quantity: number) => {
+  // Get current price draft for a blueprint (pending or original)
+  const getCurrentPrice = useCallback(
+    (bp: BlueprintWithQuantity): PriceDraft => {
+      return pendingChanges.get(bp.id)?.price || toPriceDraft(bp.price);
+    },
+    [pendingChanges]
+  );
+
+  // Record a quantity or price edit (dropped once it matches the saved value)
+  const updatePending = useCallback(
+    (blueprintId: string, change: Partial<PendingChange>) => {
       setPendingChanges((prev) => {
         const newMap = new Map(prev);
         const bp = blueprints.find((b) => b.id === blueprintId);
         if (!bp) return prev;
 
-        const newQty = Math.max(0, Math.floor(quantity));
+        const next: PendingChange = { quantity: bp.quantity, ...prev.get(blueprintId), ...change };
+        const savedPrice = toPriceDraft(bp.price);
+        const priceChanged =
+          next.price !== undefined &&
+          (next.price.type !== savedPrice.type || next.price.value !== savedPrice.value);
 
-        if (newQty === bp.quantity) {
+        if (next.quantity === bp.quantity && !priceChanged) {
           newMap.delete(blueprintId);
         } else {
-          newMap.set(blueprintId, { quantity: newQty });
+          newMap.set(blueprintId, priceChanged ? next : { quantity: next.quantity });
         }
 
         return newMap;
@@ -458,6 +878,22 @@ export default function SellerDashboard() {
     [blueprints]
   );
 
+  // Update quantity
+  const updateQuantity = useCallback(
+    (blueprintId: string, quantity: number) => {
+      updatePending(blueprintId, { quantity: Math.max(0, Math.floor(quantity)) });
+    },
+    [updatePending]
+  );
+
+  // Update asking price
+  const updatePrice = useCallback(
+    (blueprintId: string, price: PriceDraft) => {
+      updatePending(blueprintId, { price });
+    },
+    [updatePending]
+  );
+
   const resetChanges = useCallback(() => {
     setPendingChanges(new Map());
     setSaveMessage("");
@@ -472,6 +908,7 @@ export default function SellerDashboard() {
     const updates = Array.from(pendingChanges.entries()).map(([blueprintId, changes]) => ({
       blueprintId,
       quantity: changes.quantity,
+      ...(changes.price ? { price: fromPriceDraft(changes.price) } : {}),
     }));
 
     try {
@@ -490,6 +927,11 @@ export default function SellerDashboard() {
           setSaveMessage("У вас немає дозволу на зміну інвентарю");
           return;
         }
+        if (res.status === 400) {
+          const data = await res.json().catch(() => ({}));
+          setSaveMessage(data.error || "Не вдалося зберегти зміни");
+          return;
+        }
         throw new Error("Save failed");
       }
 
@@ -559,6 +1001,7 @@ export default function SellerDashboard() {
       completed: { bg: "bg-green-500/20", text: "text-green-400", label: "Виконано" },
       closed: { bg: "bg-gray-500/20", text: "text-gray-400", label: "Закрито" },
       cancelled: { bg: "bg-red-500/20", text: "text-red-400", label: "Скасовано" },
+      expired: { bg: "bg-gray-500/20", text: "text-gray-500", label: "Прострочено" },
     };
     const badge = badges[status];
     return (
@@ -569,27 +1012,34 @@ export default function SellerDashboard() {
   };
 
   const getItemStatusBadge = (item: OrderItem) => {
-    if (item.claimStatus === "fulfilled") {
+    if (item.myClaimStatus === "fulfilled" || (!item.claimedByMe && item.claimStatus === "fulfilled")) {
       return (
         <span className="px-2 py-1 bg-green-500/20 text-green-400 text-xs rounded">
-          Виконано
+          {item.claimedByMe && item.myClaimedQty < item.requestedQty ? `Виконано (${item.myClaimedQty} шт.)` : "Виконано"}
         </span>
       );
     }
     if (item.claimedByMe) {
       return (
         <span className="px-2 py-1 bg-neon-cyan/20 text-neon-cyan text-xs rounded">
-          Прийнято вами
+          {item.myClaimedQty < item.requestedQty ? `Прийнято вами (${item.myClaimedQty} шт.)` : "Прийнято вами"}
         </span>
       );
     }
-    if (item.claimStatus === "claimed") {
+    if (item.remainingQty === 0) {
       return (
         <span className="px-2 py-1 bg-yellow-500/20 text-yellow-400 text-xs rounded">
           Прийнято іншим
         </span>
       );
     }
+    if (item.claimStatus === "partially_claimed") {
+      return (
+        <span className="px-2 py-1 bg-orange-500/20 text-orange-400 text-xs rounded">
+          Вільно {item.remainingQty} з {item.requestedQty}
+        </span>
+      );
+    }
     if (item.available) {
       return (
         <span className="px-2 py-1 bg-blue-500/20 text-blue-400 text-xs rounded">
@@ -597,6 +1047,13 @@ export default function SellerDashboard() {
         </span>
       );
     }
+    if (item.availableQty > 0) {
+      return (
+        <span className="px-2 py-1 bg-orange-500/20 text-orange-400 text-xs rounded">
+          Можна частково
+        </span>
+      );
+    }
     return (
       <span className="px-2 py-1 bg-red-500/20 text-red-400 text-xs rounded">
         Недостатньо
@@ -701,9 +1158,9 @@ export default function SellerDashboard() {
   // Render order detail view
   const renderOrderDetail = (order: SellerOrder, isArchived: boolean) => {
     const myClaimedItems = order.items.filter((item) => item.claimedByMe);
-    const unclaimedItems = order.items.filter((item) => item.claimStatus === "unclaimed");
-    const canFulfillAll = myClaimedItems.length > 0 && myClaimedItems.every((item) => item.claimStatus === "claimed");
-    const canClose = myClaimedItems.length > 0 && myClaimedItems.every((item) => item.claimStatus === "fulfilled");
+    const openItems = order.items.filter((item) => item.remainingQty > 0);
+    const canFulfillAll = myClaimedItems.length > 0 && myClaimedItems.every((item) => item.myClaimStatus === "claimed");
+    const canClose = myClaimedItems.length > 0 && myClaimedItems.every((item) => item.myClaimStatus === "fulfilled");
 
     return (
       <div className="bg-dark-800 rounded-lg border border-dark-600 p-6">
@@ -740,6 +1197,12 @@ export default function SellerDashboard() {
                 Призначено вам
               </span>
             )}
+            {order.preferredUntil && (
+              <span className="px-2 py-1 bg-yellow-500/20 text-yellow-400 text-xs rounded">
+                ⭐ Покупець обрав вас — позиції з ⭐ лише для вас до{" "}
+                {new Date(order.preferredUntil).toLocaleString("uk-UA")}
+              </span>
+            )}
           </div>
         </div>
 
@@ -769,6 +1232,14 @@ export default function SellerDashboard() {
               </svg>
             </button>
           </div>
+          {order.buyerUnverified && (
+            <span
+              className="px-2 py-0.5 bg-yellow-500/20 text-yellow-400 text-xs rounded"
+              title="Гостьове замовлення на нік зареєстрованого покупця - нік не підтверджено"
+            >
+              Не підтверджено
+            </span>
+          )}
         </div>
 
         {/* Offer - safe rendering for long text */}
@@ -795,7 +1266,7 @@ export default function SellerDashboard() {
               <h3 className="text-sm font-medium text-neon-purple">Повідомлення клієнту (скопіювати)</h3>
               <button
                 onClick={() => {
-                  const blueprintNames = myClaimedItems.map(item => `- ${item.blueprintName}`).join("\n");
+                  const blueprintNames = myClaimedItems.map(item => `- ${item.blueprintName} ×${item.myClaimedQty}`).join("\n");
                   const message = `Вітаю! Я продавець щодо вашого замовлення.
 
 Блюпринти, які я можу видати:
@@ -816,7 +1287,7 @@ ${blueprintNames}
               <p>Вітаю! Я продавець щодо вашого замовлення.</p>
               <p className="mt-2">Блюпринти, які я можу видати:</p>
               {myClaimedItems.map(item => (
-                <p key={item.blueprintId} className="text-white">- {item.blueprintName}</p>
+                <p key={item.blueprintId} className="text-white">- {item.blueprintName} ×{item.myClaimedQty}</p>
               ))}
               <p className="mt-2">Напишіть, будь ласка, коли вам зручно — домовимось про передачу.</p>
             </div>
@@ -824,7 +1295,7 @@ ${blueprintNames}
         )}
 
         {/* Action buttons (only for active orders) */}
-        {!isArchived && order.status !== "closed" && order.status !== "cancelled" && (
+        {!isArchived && order.status !== "closed" && order.status !== "cancelled" && order.status !== "expired" && (
           <div className="bg-dark-700 rounded-lg p-4 mb-6">
             <h3 className="text-sm font-medium text-gray-400 mb-3">Дії</h3>
             <div className="flex flex-wrap gap-3">
@@ -839,11 +1310,30 @@ ${blueprintNames}
                 </button>
               )}
 
-              {/* Claim available items */}
-              {!order.canAcceptFull && order.claimableItemCount > 0 && (
+              {/* Claim the items the suggested split gives to this seller */}
+              {!order.canAcceptFull && order.suggestedItemCount > 0 && (
                 <button
                   onClick={() => handleOrderAction(order.orderId, "claim")}
                   disabled={actionLoading !== null}
+                  className="px-4 py-2 bg-neon-purple/20 text-neon-purple border border-neon-purple/40 rounded-lg text-sm font-medium hover:bg-neon-purple/30 transition-colors disabled:opacity-50"
+                  title="Розподіл замовлення між найменшою кількістю продавців"
+                >
+                  {actionLoading === "claim" ? "..." : `Прийняти рекомендовані (${order.suggestedItemCount})`}
+                </button>
+              )}
+
+              {/* Claim available items */}
+              {!order.canAcceptFull && order.claimableItemCount > order.suggestedItemCount && (
+                <button
+                  onClick={() =>
+                    handleOrderAction(
+                      order.orderId,
+                      "claim",
+                      undefined,
+                      openItems.map((item) => item.blueprintId)
+                    )
+                  }
+                  disabled={actionLoading !== null}
                   className="px-4 py-2 bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40 rounded-lg text-sm font-medium hover:bg-neon-cyan/30 transition-colors disabled:opacity-50"
                 >
                   {actionLoading === "claim" ? "..." : `Прийняти доступні (${order.claimableItemCount})`}
@@ -894,61 +1384,95 @@ ${blueprintNames}
                 </tr>
               </thead>
               <tbody className="divide-y divide-dark-600">
-                {order.items.map((item) => (
-                  <tr key={item.blueprintId} className="hover:bg-dark-600/50">
-                    <td className="px-4 py-3">
-                      <div className="text-white">{item.blueprintName}</div>
-                      <div className="text-xs text-gray-500">{item.blueprintId}</div>
-                    </td>
-                    <td className="px-4 py-3 text-center text-white">
-                      {item.requestedQty}
-                    </td>
-                    <td className="px-4 py-3 text-center text-white">
-                      {item.availableQty}
-                    </td>
-                    <td className="px-4 py-3 text-center">
-                      {getItemStatusBadge(item)}
-                    </td>
-                    {!isArchived && order.status !== "closed" && (
-                      <td className="px-4 py-3 text-center">
-                        <div className="flex items-center justify-center gap-2">
-                          {/* Fulfill single item */}
-                          {item.claimedByMe && item.claimStatus === "claimed" && (
-                            <button
-                              onClick={() => handleOrderAction(order.orderId, "fulfill", item.blueprintId)}
-                              disabled={actionLoading !== null}
-                              className="px-2 py-1 bg-blue-500/20 text-blue-400 border border-blue-500/40 rounded text-xs hover:bg-blue-500/30 transition-colors disabled:opacity-50"
-                            >
-                              {actionLoading === `fulfill${item.blueprintId}` ? "..." : "Виконати"}
-                            </button>
-                          )}
-
-                          {/* Release claim */}
-                          {item.claimedByMe && item.claimStatus === "claimed" && (
-                            <button
-                              onClick={() => handleOrderAction(order.orderId, "release", item.blueprintId)}
-                              disabled={actionLoading !== null}
-                              className="px-2 py-1 bg-red-500/20 text-red-400 border border-red-500/40 rounded text-xs hover:bg-red-500/30 transition-colors disabled:opacity-50"
-                            >
-                              {actionLoading === `release${item.blueprintId}` ? "..." : "Скасувати"}
-                            </button>
-                          )}
-
-                          {/* Claim single item */}
-                          {item.claimStatus === "unclaimed" && item.available && (
-                            <button
-                              onClick={() => handleOrderAction(order.orderId, "claim", undefined, [item.blueprintId])}
-                              disabled={actionLoading !== null}
-                              className="px-2 py-1 bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40 rounded text-xs hover:bg-neon-cyan/30 transition-colors disabled:opacity-50"
-                            >
-                              Прийняти
-                            </button>
+                {order.items.map((item) => {
+                  // Part of the open quantity this seller can take
+                  const maxClaimQty = Math.min(item.remainingQty, item.availableQty);
+                  const claimQty = Math.min(claimQuantities[item.blueprintId] ?? maxClaimQty, maxClaimQty);
+                  return (
+                    <tr key={item.blueprintId} className="hover:bg-dark-600/50">
+                      <td className="px-4 py-3">
+                        <div className="text-white">
+                          {item.blueprintName}
+                          {item.preferredForMe && <span className="ml-1 text-yellow-400" title="Покупець обрав вас">⭐</span>}
+                          {item.suggestedForMe && item.remainingQty > 0 && (
+                            <span className="ml-1 text-neon-purple" title="Рекомендовано вам">🧩</span>
                           )}
                         </div>
+                        <div className="text-xs text-gray-500">{item.blueprintId}</div>
                       </td>
-                    )}
-                  </tr>
-                ))}
+                      <td className="px-4 py-3 text-center text-white">
+                        {item.requestedQty}
+                        {item.claimedQty > 0 && item.remainingQty > 0 && (
+                          <div className="text-xs text-gray-500">вільно {item.remainingQty}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-center text-white">
+                        {item.availableQty}
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        {getItemStatusBadge(item)}
+                      </td>
+                      {!isArchived && order.status !== "closed" && (
+                        <td className="px-4 py-3 text-center">
+                          <div className="flex items-center justify-center gap-2">
+                            {/* Fulfill single item */}
+                            {item.myClaimStatus === "claimed" && (
+                              <button
+                                onClick={() => handleOrderAction(order.orderId, "fulfill", item.blueprintId)}
+                                disabled={actionLoading !== null}
+                                className="px-2 py-1 bg-blue-500/20 text-blue-400 border border-blue-500/40 rounded text-xs hover:bg-blue-500/30 transition-colors disabled:opacity-50"
+                              >
+                                {actionLoading === `fulfill${item.blueprintId}` ? "..." : "Виконати"}
+                              </button>
+                            )}
+
+                            {/* Release claim */}
+                            {item.myClaimStatus === "claimed" && (
+                              <button
+                                onClick={() => handleOrderAction(order.orderId, "release", item.blueprintId)}
+                                disabled={actionLoading !== null}
+                                className="px-2 py-1 bg-red-500/20 text-red-400 border border-red-500/40 rounded text-xs hover:bg-red-500/30 transition-colors disabled:opacity-50"
+                              >
+                                {actionLoading === `release${item.blueprintId}` ? "..." : "Скасувати"}
+                              </button>
+                            )}
+
+                            {/* Claim single item (or the part of it the seller can cover) */}
+                            {item.myClaimStatus !== "claimed" && maxClaimQty > 1 && (
+                              <input
+                                type="number"
+                                min={1}
+                                max={maxClaimQty}
+                                value={claimQty}
+                                onChange={(e) =>
+                                  setClaimQuantities((prev) => ({
+                                    ...prev,
+                                    [item.blueprintId]: Math.max(1, Math.min(maxClaimQty, parseInt(e.target.value) || 1)),
+                                  }))
+                                }
+                                className="w-14 px-1 py-0.5 bg-dark-800 border border-dark-600 rounded text-xs text-white text-center focus:outline-none focus:border-neon-cyan"
+                                title="Скільки штук ви берете"
+                              />
+                            )}
+                            {item.myClaimStatus !== "claimed" && maxClaimQty > 0 && (
+                              <button
+                                onClick={() =>
+                                  handleOrderAction(order.orderId, "claim", undefined, [item.blueprintId], {
+                                    [item.blueprintId]: claimQty,
+                                  })
+                                }
+                                disabled={actionLoading !== null}
+                                className="px-2 py-1 bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40 rounded text-xs hover:bg-neon-cyan/30 transition-colors disabled:opacity-50"
+                              >
+                                {claimQty < item.remainingQty ? `Прийняти ${claimQty} з ${item.remainingQty}` : "Прийняти"}
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
@@ -1012,6 +1536,9 @@ ${blueprintNames}
                   </td>
                   <td className="px-4 py-3">
                     <span className="text-white">{order.buyerDiscordNick}</span>
+                    {order.buyerUnverified && (
+                      <span className="ml-1.5 text-yellow-400" title="Нік не підтверджено">⚠</span>
+                    )}
                   </td>
                   <td className="px-4 py-3 text-center">
                     <div className="flex flex-col items-center">
@@ -1122,6 +1649,26 @@ ${blueprintNames}
           >
             Архів
           </button>
+          <button
+            onClick={() => { setActiveTab("sessions"); setSelectedOrder(null); }}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+              activeTab === "sessions"
+                ? "bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40"
+                : "bg-dark-800 text-gray-400 border border-dark-600 hover:border-neon-cyan/30"
+            }`}
+          >
+            Сесії
+          </button>
+          <button
+            onClick={() => { setActiveTab("notifications"); setSelectedOrder(null); }}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+              activeTab === "notifications"
+                ? "bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40"
+                : "bg-dark-800 text-gray-400 border border-dark-600 hover:border-neon-cyan/30"
+            }`}
+          >
+            Сповіщення
+          </button>
         </div>
 
         {/* Inventory Tab */}
@@ -1129,7 +1676,7 @@ ${blueprintNames}
           <>
             <div className="bg-dark-800 rounded-lg p-4 mb-6 border border-dark-600">
               <p className="text-sm text-gray-400">
-                Керуйте інвентарем ваших креслень нижче. Ви можете змінювати лише кількість.
+                Керуйте інвентарем ваших креслень нижче. Ви можете змінювати кількість і ціну за штуку (у {CURRENCY_LABEL} або обмін на предмети). Без ціни — за домовленістю.
               </p>
             </div>
 
@@ -1252,12 +1799,14 @@ ${blueprintNames}
                         <th className="px-4 py-3 font-medium">Креслення</th>
                         <th className="px-4 py-3 font-medium w-24">Тип</th>
                         <th className="px-4 py-3 font-medium w-40 text-center">Кількість</th>
+                        <th className="px-4 py-3 font-medium w-56">Ціна</th>
                         <th className="px-4 py-3 font-medium w-24 text-center">Статус</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-dark-600">
                       {filteredBlueprints.map((bp) => {
                         const quantity = getCurrentQuantity(bp);
+                        const price = getCurrentPrice(bp);
                         const hasChanges = pendingChanges.has(bp.id);
 
                         return (
@@ -1311,6 +1860,38 @@ ${blueprintNames}
                                   +
                                 </button>
                               </div>
+                              {bp.reserved > 0 && (
+                                <div className="mt-1 text-xs text-center text-yellow-400">
+                                  Зарезервовано: {bp.reserved}
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-4 py-3">
+                              <div className="flex items-center gap-2">
+                                <select
+                                  value={price.type}
+                                  onChange={(e) =>
+                                    updatePrice(bp.id, { type: e.target.value as PriceDraft["type"], value: "" })
+                                  }
+                                  disabled={quantity <= 0}
+                                  className="px-2 py-1 bg-dark-700 border border-dark-600 rounded text-sm text-white focus:border-neon-cyan/50 focus:outline-none disabled:opacity-30"
+                                >
+                                  <option value="none">—</option>
+                                  <option value="currency">{CURRENCY_LABEL}</option>
+                                  <option value="items">Обмін</option>
+                                </select>
+                                {price.type !== "none" && (
+                                  <input
+                                    type={price.type === "currency" ? "number" : "text"}
+                                    value={price.value}
+                                    onChange={(e) => updatePrice(bp.id, { type: price.type, value: e.target.value })}
+                                    placeholder={price.type === "currency" ? "За шт." : "Предмети через кому"}
+                                    min={price.type === "currency" ? "1" : undefined}
+                                    disabled={quantity <= 0}
+                                    className="w-32 px-2 py-1 bg-dark-700 border border-dark-600 rounded text-sm text-white placeholder-gray-500 focus:border-neon-cyan/50 focus:outline-none disabled:opacity-30"
+                                  />
+                                )}
+                              </div>
                             </td>
                             <td className="px-4 py-3">
                               <div className="flex justify-center">
@@ -1415,6 +1996,278 @@ ${blueprintNames}
             )}
           </>
         )}
+
+        {/* Sessions Tab */}
+        {activeTab === "sessions" && (
+          <>
+            <div className="bg-dark-800 rounded-lg p-4 mb-6 border border-dark-600">
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-gray-400">
+                  Пристрої, з яких виконано вхід у ваш обліковий запис. Завершіть сесію, якщо не впізнаєте її.
+                </p>
+                <button
+                  onClick={fetchSessions}
+                  disabled={sessionsLoading}
+                  className="text-sm text-neon-cyan hover:text-neon-cyan/80 transition-colors disabled:opacity-50"
+                >
+                  {sessionsLoading ? "Оновлення..." : "Оновити"}
+                </button>
+              </div>
+            </div>
+
+            {sessionsError && (
+              <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                {sessionsError}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className={`bg-dark-800 rounded-lg p-4 border ${
+                    session.current ? "border-neon-cyan/40" : "border-dark-600"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="text-sm text-white break-all">
+                        {session.userAgent || "Невідомий пристрій"}
+                        {session.current && (
+                          <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-neon-cyan/20 text-neon-cyan">
+                            Цей пристрій
+                          </span>
+                        )}
+                      </div>
+                      <div className="mt-1 text-xs text-gray-500 space-x-3">
+                        <span>IP: {session.ip || "—"}</span>
+                        {session.createdAt && (
+                          <span>Вхід: {new Date(session.createdAt).toLocaleString()}</span>
+                        )}
+                        {session.lastSeenAt && (
+                          <span>Активність: {new Date(session.lastSeenAt).toLocaleString()}</span>
+                        )}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => revokeSession(session)}
+                      disabled={revokingSessionId !== null}
+                      className="shrink-0 px-3 py-1 bg-red-500/20 text-red-400 rounded text-xs hover:bg-red-500/30 transition-colors disabled:opacity-50"
+                    >
+                      {session.current ? "Вийти" : "Завершити"}
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              {!sessionsLoading && sessions.length === 0 && (
+                <div className="text-center py-12 text-gray-500">Активних сесій немає</div>
+              )}
+            </div>
+
+            {sessions.some((session) => !session.current) && (
+              <div className="mt-4 flex justify-end">
+                <button
+                  onClick={() => revokeSession()}
+                  disabled={revokingSessionId !== null}
+                  className="px-4 py-2 bg-red-500/20 text-red-400 border border-red-500/40 rounded-lg text-sm font-medium hover:bg-red-500/30 transition-colors disabled:opacity-50"
+                >
+                  {revokingSessionId === "others" ? "Завершення..." : "Вийти на всіх інших пристроях"}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Notifications Tab */}
+        {activeTab === "notifications" && (
+          <>
+            <div className="bg-dark-800 rounded-lg p-4 mb-6 border border-dark-600">
+              <p className="text-sm text-gray-400">
+                Оберіть, куди надходитимуть нові замовлення: у Telegram-бота (з кнопками для прийняття прямо в чаті),
+                у ваш Discord-канал через вебхук та/або системними сповіщеннями браузера, навіть коли кабінет закрито.
+              </p>
+            </div>
+
+            {telegramError && (
+              <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                {telegramError}
+              </div>
+            )}
+
+            {notificationsMessage && (
+              <div
+                className={`mb-4 p-3 rounded-lg text-sm border ${
+                  notificationsMessage.type === "success"
+                    ? "bg-green-500/10 border-green-500/30 text-green-400"
+                    : "bg-red-500/10 border-red-500/30 text-red-400"
+                }`}
+              >
+                {notificationsMessage.text}
+              </div>
+            )}
+
+            <div className="bg-dark-800 rounded-lg p-4 mb-4 border border-dark-600 space-y-4">
+              <label className="flex items-center gap-2 text-sm text-white font-medium">
+                <input
+                  type="checkbox"
+                  checked={notificationChannels.includes("telegram")}
+                  onChange={() => toggleNotificationChannel("telegram")}
+                  disabled={notificationsSaving}
+                  className="accent-neon-cyan"
+                />
+                Telegram
+              </label>
+              <div className="flex items-center justify-between gap-4">
+                <div className="text-sm">
+                  {telegramChatId ? (
+                    <span className="text-green-400">✓ Telegram прив&apos;язано (чат {telegramChatId})</span>
+                  ) : (
+                    <span className="text-gray-400">Telegram не прив&apos;язано</span>
+                  )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={createTelegramLink}
+                    disabled={telegramLoading}
+                    className="px-3 py-1 bg-neon-cyan/20 text-neon-cyan rounded text-xs hover:bg-neon-cyan/30 transition-colors disabled:opacity-50"
+                  >
+                    {telegramChatId ? "Прив'язати інший акаунт" : "Отримати посилання"}
+                  </button>
+                  {telegramChatId && (
+                    <button
+                      onClick={unlinkTelegram}
+                      disabled={telegramLoading}
+                      className="px-3 py-1 bg-red-500/20 text-red-400 rounded text-xs hover:bg-red-500/30 transition-colors disabled:opacity-50"
+                    >
+                      Відв&apos;язати
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {telegramLink && (
+                <div className="p-3 bg-dark-900 rounded-lg border border-neon-cyan/30 text-sm space-y-2">
+                  <p className="text-gray-300">
+                    Відкрийте посилання і натисніть «Start» у боті. Посилання одноразове і діє до{" "}
+                    {new Date(telegramLink.expiresAt).toLocaleTimeString()}.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <a
+                      href={telegramLink.link}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-neon-cyan hover:underline break-all"
+                    >
+                      {telegramLink.link}
+                    </a>
+                    <button
+                      onClick={() => copyToClipboard(telegramLink.link, "Посилання")}
+                      className="shrink-0 px-2 py-0.5 bg-dark-700 text-gray-300 rounded text-xs hover:bg-dark-600 transition-colors"
+                    >
+                      Копіювати
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500">Очікуємо підтвердження від бота...</p>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-dark-800 rounded-lg p-4 border border-dark-600 space-y-4">
+              <label className="flex items-center gap-2 text-sm text-white font-medium">
+                <input
+                  type="checkbox"
+                  checked={notificationChannels.includes("discord")}
+                  onChange={() => toggleNotificationChannel("discord")}
+                  disabled={notificationsSaving}
+                  className="accent-neon-cyan"
+                />
+                Discord
+              </label>
+
+              <div className="flex items-center justify-between gap-4 text-sm">
+                {discordWebhook ? (
+                  <span className="text-green-400 break-all">✓ Вебхук: {discordWebhook}</span>
+                ) : (
+                  <span className="text-gray-400">Вебхук не налаштовано</span>
+                )}
+                {discordWebhook && (
+                  <button
+                    onClick={() => saveNotificationSettings(notificationChannels, "")}
+                    disabled={notificationsSaving}
+                    className="shrink-0 px-3 py-1 bg-red-500/20 text-red-400 rounded text-xs hover:bg-red-500/30 transition-colors disabled:opacity-50"
+                  >
+                    Видалити
+                  </button>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <input
+                  type="url"
+                  value={discordWebhookInput}
+                  onChange={(e) => setDiscordWebhookInput(e.target.value)}
+                  placeholder="https://discord.com/api/webhooks/..."
+                  className="flex-1 px-3 py-2 bg-dark-900 border border-dark-600 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-neon-cyan"
+                />
+                <button
+                  onClick={() => saveNotificationSettings(notificationChannels, discordWebhookInput)}
+                  disabled={notificationsSaving || !discordWebhookInput.trim()}
+                  className="px-4 py-2 bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40 rounded-lg text-sm font-medium hover:bg-neon-cyan/30 transition-colors disabled:opacity-50"
+                >
+                  Зберегти
+                </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Налаштування каналу Discord → Інтеграції → Вебхуки → Новий вебхук → Копіювати URL.
+              </p>
+              {notificationChannels.includes("discord") && !discordWebhook && (
+                <p className="text-xs text-yellow-400">Додайте вебхук, інакше сповіщення в Discord не надходитимуть.</p>
+              )}
+            </div>
+
+            <div className="bg-dark-800 rounded-lg p-4 mt-4 border border-dark-600 space-y-4">
+              <label className="flex items-center gap-2 text-sm text-white font-medium">
+                <input
+                  type="checkbox"
+                  checked={notificationChannels.includes("webpush")}
+                  onChange={() => toggleNotificationChannel("webpush")}
+                  disabled={notificationsSaving}
+                  className="accent-neon-cyan"
+                />
+                Сповіщення браузера
+              </label>
+
+              {!pushSupported ? (
+                <p className="text-sm text-gray-400">Цей браузер не підтримує push-сповіщення.</p>
+              ) : !pushPublicKey ? (
+                <p className="text-sm text-gray-400">Push-сповіщення не налаштовані на сервері.</p>
+              ) : (
+                <div className="flex items-center justify-between gap-4 text-sm">
+                  {pushSubscribed ? (
+                    <span className="text-green-400">✓ Увімкнено на цьому пристрої</span>
+                  ) : (
+                    <span className="text-gray-400">Вимкнено на цьому пристрої</span>
+                  )}
+                  <button
+                    onClick={pushSubscribed ? disablePush : enablePush}
+                    disabled={pushLoading}
+                    className={`shrink-0 px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+                      pushSubscribed
+                        ? "bg-red-500/20 text-red-400 hover:bg-red-500/30"
+                        : "bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40 hover:bg-neon-cyan/30"
+                    }`}
+                  >
+                    {pushLoading ? "..." : pushSubscribed ? "Вимкнути" : "Увімкнути"}
+                  </button>
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Пристроїв з увімкненими сповіщеннями: {pushDeviceCount}. Натискання на сповіщення відкриває замовлення.
+              </p>
+            </div>
+          </>
+        )}
       </main>
 
       {/* Copy toast notification */}
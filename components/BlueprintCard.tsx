@@ -2,6 +2,7 @@
 
 import Link from "next/link";
 import { Blueprint, getMaxSelectableQty } from "@/lib/types";
+import { formatAskSummary } from "@/lib/pricing";
 import QuantitySelector from "./QuantitySelector";
 
 interface BlueprintCardProps {
@@ -24,6 +25,11 @@ export default function BlueprintCard({
 }: BlueprintCardProps) {
   const maxQty = getMaxSelectableQty(blueprint);
   const canSelect = maxQty > 0;
+  const askLabel = formatAskSummary(blueprint.askSummary);
+  // "alice ★4.8 ×3, bob ×1"
+  const sellersLabel = (blueprint.sellers || [])
+    .map((seller) => `${seller.discordId}${seller.rating ? ` ★${seller.rating.average}` : ""} ×${seller.quantity}`)
+    .join(", ");
 
   // Handle click in select mode
   const handleClick = (e: React.MouseEvent) => {
@@ -110,6 +116,17 @@ export default function BlueprintCard({
       <div className="p-3">
         <p className="text-xs text-gray-500 font-mono mb-1">{blueprint.id}</p>
         <h3 className="text-sm font-medium text-white truncate">{blueprint.name}</h3>
+        {askLabel && (
+          <p className="text-xs text-neon-purple mt-0.5 truncate">{askLabel}</p>
+        )}
+        {blueprint.sellers && blueprint.sellers.length > 0 && (
+          <p
+            className="text-xs text-gray-500 mt-0.5 truncate"
+            title={sellersLabel}
+          >
+            {sellersLabel}
+          </p>
+        )}
 
         {/* Quantity selector when selected in select mode */}
         {selectMode && isSelected && (
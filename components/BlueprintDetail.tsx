@@ -3,6 +3,8 @@
 import { useState, useMemo } from "react";
 import Link from "next/link";
 import { Blueprint, BlueprintSelection, getMaxSelectableQty } from "@/lib/types";
+import { OrderItemStockError } from "@/lib/order";
+import { formatAskingPrice, formatAskSummary } from "@/lib/pricing";
 import CheckoutModal from "./CheckoutModal";
 import QuantitySelector from "./QuantitySelector";
 
@@ -16,6 +18,7 @@ export default function BlueprintDetail({ blueprint }: BlueprintDetailProps) {
 
   const maxQty = getMaxSelectableQty(blueprint);
   const canBuy = maxQty > 0;
+  const askLabel = formatAskSummary(blueprint.askSummary);
 
   // Create selection for CheckoutModal
   const selection: BlueprintSelection[] = useMemo(
@@ -29,6 +32,18 @@ export default function BlueprintDetail({ blueprint }: BlueprintDetailProps) {
     setQuantity(1);
   };
 
+  // Take the quantity the server reported as available
+  const handleApplyStockLimits = (itemErrors: OrderItemStockError[]) => {
+    const itemError = itemErrors.find((e) => e.id === blueprint.id);
+    if (!itemError) return;
+
+    if (itemError.availableQty > 0) {
+      setQuantity(Math.min(quantity, itemError.availableQty));
+    } else {
+      setIsModalOpen(false);
+    }
+  };
+
   return (
     <>
       <div className="max-w-4xl mx-auto px-4 py-8">
@@ -91,7 +106,47 @@ export default function BlueprintDetail({ blueprint }: BlueprintDetailProps) {
                 >
                   {(blueprint.ownedQty || 0) > 0 ? "В наявності ×" + blueprint.ownedQty : "Немає в наявності"}
                 </span>
+                {askLabel && (
+                  <span className="px-3 py-1 text-sm rounded-full bg-neon-purple/20 text-neon-purple border border-neon-purple/40">
+                    {askLabel}
+                  </span>
+                )}
               </div>
+              {blueprint.askSummary && blueprint.askSummary.minAmount !== undefined && blueprint.askSummary.itemAskCount > 0 && (
+                <p className="-mt-4 mb-6 text-xs text-gray-500">Деякі продавці також приймають обмін на предмети</p>
+              )}
+
+              {/* Sellers */}
+              {blueprint.sellers && blueprint.sellers.length > 0 && (
+                <div className="mb-6 p-4 bg-dark-700 rounded-lg border border-dark-600">
+                  <h3 className="text-sm font-medium text-gray-300 mb-2">Продавці</h3>
+                  <ul className="space-y-1">
+                    {blueprint.sellers.map((seller) => (
+                      <li key={seller.discordId} className="flex justify-between gap-3 text-sm">
+                        <span className="text-white truncate">
+                          {seller.discordId}
+                          {seller.rating && (
+                            <span className="ml-2 text-yellow-400" title={`Оцінок: ${seller.rating.count}`}>
+                              ★ {seller.rating.average}
+                            </span>
+                          )}
+                        </span>
+                        <span className="text-gray-400 shrink-0">
+                          ×{seller.quantity}
+                          {seller.price && (
+                            <span className="ml-2 text-neon-purple">{formatAskingPrice(seller.price)}</span>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  {blueprint.sellers.length > 1 && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      Потрібного продавця можна обрати під час оформлення замовлення
+                    </p>
+                  )}
+                </div>
+              )}
 
               {/* Notes */}
               {blueprint.notes && (
@@ -150,6 +205,7 @@ export default function BlueprintDetail({ blueprint }: BlueprintDetailProps) {
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
         onSuccess={handleOrderSuccess}
+        onApplyStockLimits={handleApplyStockLimits}
       />
     </>
   );
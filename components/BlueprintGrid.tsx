@@ -1,8 +1,18 @@
 "use client";
 
-import { useState, useMemo, useCallback } from "react";
+import { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { Blueprint, BlueprintSelection, BlueprintType } from "@/lib/types";
 import { getTotalItemCount } from "@/lib/message-builder";
+import { OrderItemStockError } from "@/lib/order";
+import {
+  applyStockLimits,
+  buildCartShareUrl,
+  CART_URL_PARAM,
+  decodeCartParam,
+  hydrateCart,
+  loadStoredCart,
+  saveStoredCart,
+} from "@/lib/cart";
 import BlueprintCard from "./BlueprintCard";
 import CatalogControls from "./CatalogControls";
 import SelectionBar from "./SelectionBar";
@@ -22,6 +32,49 @@ export default function BlueprintGrid({ blueprints }: BlueprintGridProps) {
   const [selections, setSelections] = useState<BlueprintSelection[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
+  // Cart persistence: nothing is saved until the stored/shared cart has been restored
+  const cartRestored = useRef(false);
+  const [cartNotice, setCartNotice] = useState<string | null>(null);
+
+  // Restore the cart once: a shared cart link wins over the saved cart
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const sharedCart = params.get(CART_URL_PARAM);
+
+    if (sharedCart !== null) {
+      // Drop the parameter so a refresh doesn't reopen checkout
+      params.delete(CART_URL_PARAM);
+      const query = params.toString();
+      window.history.replaceState(null, "", window.location.pathname + (query ? `?${query}` : ""));
+    }
+
+    const entries = sharedCart !== null ? decodeCartParam(sharedCart) : loadStoredCart();
+    const { selections: restored, adjusted } = hydrateCart(entries, blueprints);
+
+    if (restored.length > 0) {
+      setSelections(restored);
+      setSelectMode(true);
+      if (sharedCart !== null) {
+        setIsModalOpen(true);
+      }
+    }
+
+    if (sharedCart !== null && restored.length === 0) {
+      setCartNotice("Жодного креслення з посилання зараз немає в наявності");
+    } else if (adjusted) {
+      setCartNotice("Кошик оновлено: частини креслень вже немає або доступно менше");
+    }
+
+    cartRestored.current = true;
+  }, [blueprints]);
+
+  // Save the cart on every change
+  useEffect(() => {
+    if (cartRestored.current) {
+      saveStoredCart(selections);
+    }
+  }, [selections]);
+
   const filteredBlueprints = useMemo(() => {
     let result = blueprints;
 
@@ -114,11 +167,44 @@ export default function BlueprintGrid({ blueprints }: BlueprintGridProps) {
     }
   }, [selections]);
 
+  // Copy a link that opens checkout with this cart
+  const handleShareCart = useCallback(async () => {
+    if (selections.length === 0) return;
+
+    const url = buildCartShareUrl(window.location.origin, selections);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCartNotice("Посилання на кошик скопійовано");
+    } catch {
+      // Clipboard blocked - show the link so it can be copied by hand
+      setCartNotice(url);
+    }
+  }, [selections]);
+
+  // Hide the cart notice after a while
+  useEffect(() => {
+    if (!cartNotice) return;
+    const timeout = setTimeout(() => setCartNotice(null), 6000);
+    return () => clearTimeout(timeout);
+  }, [cartNotice]);
+
   // Close modal
   const handleCloseModal = useCallback(() => {
     setIsModalOpen(false);
   }, []);
 
+  // Reduce the cart to the stock the server reported
+  const handleApplyStockLimits = useCallback(
+    (itemErrors: OrderItemStockError[]) => {
+      const limited = applyStockLimits(selections, itemErrors);
+      setSelections(limited);
+      if (limited.length === 0) {
+        setIsModalOpen(false);
+      }
+    },
+    [selections]
+  );
+
   // Handle successful order
   const handleOrderSuccess = useCallback(() => {
     setIsModalOpen(false);
@@ -198,6 +284,13 @@ export default function BlueprintGrid({ blueprints }: BlueprintGridProps) {
         </div>
       )}
 
+      {/* Cart notice (restored/shared cart changes, copied link) */}
+      {cartNotice && (
+        <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-40 max-w-md w-[calc(100%-2rem)] px-4 py-2 bg-dark-700 border border-neon-cyan/40 rounded-lg text-sm text-gray-200 shadow-lg break-all">
+          {cartNotice}
+        </div>
+      )}
+
       {/* Floating selection bar */}
       {selectMode && (
         <SelectionBar
@@ -205,6 +298,7 @@ export default function BlueprintGrid({ blueprints }: BlueprintGridProps) {
           totalItems={totalItems}
           onClearSelection={handleClearSelection}
           onBuySelected={handleBuySelected}
+          onShareCart={handleShareCart}
         />
       )}
 
@@ -214,6 +308,7 @@ export default function BlueprintGrid({ blueprints }: BlueprintGridProps) {
         isOpen={isModalOpen}
         onClose={handleCloseModal}
         onSuccess={handleOrderSuccess}
+        onApplyStockLimits={handleApplyStockLimits}
       />
     </div>
   );
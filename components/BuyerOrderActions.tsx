@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import QuantitySelector from "./QuantitySelector";
+
+interface BuyerOrderActionsProps {
+  orderId: string;
+  accessToken: string;
+  items: {
+    blueprintId: string;
+    blueprintName: string;
+    requestedQty: number;
+  }[];
+}
+
+type ActionState = "idle" | "saving" | "cancelling";
+
+export default function BuyerOrderActions({ orderId, accessToken, items }: BuyerOrderActionsProps) {
+  const router = useRouter();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [quantities, setQuantities] = useState<Map<string, number>>(
+    () => new Map(items.map((item) => [item.blueprintId, item.requestedQty]))
+  );
+  const [actionState, setActionState] = useState<ActionState>("idle");
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const hasChanges = items.some((item) => quantities.get(item.blueprintId) !== item.requestedQty);
+  const remainingItems = items.filter((item) => (quantities.get(item.blueprintId) || 0) > 0).length;
+
+  const setQuantity = (blueprintId: string, quantity: number) => {
+    setQuantities((prev) => new Map(prev).set(blueprintId, quantity));
+  };
+
+  const sendAction = async (action: "cancel" | "update") => {
+    setActionState(action === "cancel" ? "cancelling" : "saving");
+    setErrorMessage("");
+
+    try {
+      const res = await fetch(`/api/order/${encodeURIComponent(orderId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          token: accessToken,
+          action,
+          items:
+            action === "update"
+              ? items.map((item) => ({
+                  blueprintId: item.blueprintId,
+                  quantity: quantities.get(item.blueprintId) || 0,
+                }))
+              : undefined,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok && data.success) {
+        setIsEditing(false);
+        router.refresh();
+      } else {
+        setErrorMessage(data.error || "Не вдалося змінити замовлення");
+      }
+    } catch {
+      setErrorMessage("Помилка з'єднання");
+    } finally {
+      setActionState("idle");
+    }
+  };
+
+  const handleCancel = () => {
+    if (!confirm("Скасувати замовлення? Продавці отримають повідомлення.")) return;
+    sendAction("cancel");
+  };
+
+  const handleStopEditing = () => {
+    setIsEditing(false);
+    setQuantities(new Map(items.map((item) => [item.blueprintId, item.requestedQty])));
+    setErrorMessage("");
+  };
+
+  return (
+    <div className="mt-6 bg-dark-700 rounded-lg p-4">
+      <h3 className="text-sm font-medium text-gray-400 mb-1">Змінити замовлення</h3>
+      <p className="text-xs text-gray-500 mb-4">
+        Поки жоден продавець не прийняв замовлення, ви можете змінити кількість або скасувати його.
+      </p>
+
+      {isEditing && (
+        <div className="mb-4 divide-y divide-dark-600">
+          {items.map((item) => {
+            const quantity = quantities.get(item.blueprintId) || 0;
+            const isRemoved = quantity === 0;
+            return (
+              <div key={item.blueprintId} className="flex items-center justify-between py-2 gap-3">
+                <span className={`text-sm ${isRemoved ? "text-gray-500 line-through" : "text-white"}`}>
+                  {item.blueprintName}
+                </span>
+                <div className="flex items-center gap-2">
+                  {!isRemoved && (
+                    <QuantitySelector
+                      quantity={quantity}
+                      onChange={(qty) => setQuantity(item.blueprintId, qty)}
+                    />
+                  )}
+                  <button
+                    onClick={() => setQuantity(item.blueprintId, isRemoved ? item.requestedQty : 0)}
+                    className="px-2 py-1 text-xs text-gray-400 hover:text-white transition-colors"
+                  >
+                    {isRemoved ? "Повернути" : "Прибрати"}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {errorMessage && (
+        <div className="mb-4 p-3 bg-red-900/30 border border-red-700 rounded-lg">
+          <p className="text-red-400 text-sm">{errorMessage}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        {isEditing ? (
+          <>
+            <button
+              onClick={() => sendAction("update")}
+              disabled={!hasChanges || remainingItems === 0 || actionState !== "idle"}
+              className="px-4 py-2 bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40 rounded-lg text-sm font-medium hover:bg-neon-cyan/30 transition-colors disabled:opacity-50"
+            >
+              {actionState === "saving" ? "Збереження..." : "Зберегти зміни"}
+            </button>
+            <button
+              onClick={handleStopEditing}
+              disabled={actionState !== "idle"}
+              className="px-4 py-2 bg-dark-600 text-gray-300 border border-dark-600 rounded-lg text-sm font-medium hover:text-white transition-colors disabled:opacity-50"
+            >
+              Скасувати редагування
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setIsEditing(true)}
+            disabled={actionState !== "idle"}
+            className="px-4 py-2 bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40 rounded-lg text-sm font-medium hover:bg-neon-cyan/30 transition-colors disabled:opacity-50"
+          >
+            Змінити кількість
+          </button>
+        )}
+
+        <button
+          onClick={handleCancel}
+          disabled={actionState !== "idle"}
+          className="px-4 py-2 bg-red-500/20 text-red-400 border border-red-500/40 rounded-lg text-sm font-medium hover:bg-red-500/30 transition-colors disabled:opacity-50"
+        >
+          {actionState === "cancelling" ? "Скасування..." : "Скасувати замовлення"}
+        </button>
+      </div>
+    </div>
+  );
+}
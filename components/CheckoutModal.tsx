@@ -1,15 +1,20 @@
 "use client";
 
 import { useState, useEffect, useMemo, FormEvent } from "react";
+import Link from "next/link";
 import { BlueprintSelection } from "@/lib/types";
 import { getTotalItemCount } from "@/lib/message-builder";
-import { OrderItem } from "@/lib/order";
+import { OrderItem, OrderItemStockError, SellerQuote } from "@/lib/order";
+import { formatAskingPrice, formatSellerTerms } from "@/lib/pricing";
+import { useAuth } from "@/contexts/AuthContext";
 
 interface CheckoutModalProps {
   selections: BlueprintSelection[];
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  // Reduce quantities to what the server reported as available (0 removes the item)
+  onApplyStockLimits: (itemErrors: OrderItemStockError[]) => void;
 }
 
 type FormState = "idle" | "submitting" | "success" | "error";
@@ -19,7 +24,11 @@ export default function CheckoutModal({
   isOpen,
   onClose,
   onSuccess,
+  onApplyStockLimits,
 }: CheckoutModalProps) {
+  // Logged-in buyers order under their account
+  const { buyer } = useAuth();
+
   // Form state
   const [discordNick, setDiscordNick] = useState("");
   const [offer, setOffer] = useState("");
@@ -29,6 +38,44 @@ export default function CheckoutModal({
   // UI state
   const [formState, setFormState] = useState<FormState>("idle");
   const [errorMessage, setErrorMessage] = useState("");
+  const [trackingUrl, setTrackingUrl] = useState<string | null>(null);
+  // Per-item stock problems from the last submit, shown next to each item
+  const [itemErrors, setItemErrors] = useState<OrderItemStockError[]>([]);
+  // Seller asking prices for the current cart
+  const [quotes, setQuotes] = useState<SellerQuote[]>([]);
+  // Seller the buyer wants each item from (blueprint ID -> seller Discord ID)
+  const [preferredSellers, setPreferredSellers] = useState<Record<string, string>>({});
+
+  // Pre-fill from the buyer account when the modal opens
+  useEffect(() => {
+    if (isOpen && buyer) {
+      setDiscordNick(buyer.discordId);
+      setOffer((current) => current || buyer.defaultOffer);
+    }
+  }, [isOpen, buyer]);
+
+  // Load seller prices whenever the cart changes while the modal is open
+  useEffect(() => {
+    if (!isOpen || selections.length === 0) return;
+
+    let cancelled = false;
+    fetch("/api/order/quote", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        items: selections.map((s) => ({ id: s.blueprint.id, quantity: s.quantity })),
+      }),
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setQuotes(data?.sellers || []);
+      })
+      .catch((error) => console.error("Failed to fetch seller prices:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, selections]);
 
   // Calculate totals for display
   const totalTypes = selections.length;
@@ -58,12 +105,14 @@ export default function CheckoutModal({
 
     setFormState("submitting");
     setErrorMessage("");
+    setItemErrors([]);
 
     // Build order items
     const items: OrderItem[] = selections.map((s) => ({
       id: s.blueprint.id,
       name: s.blueprint.name,
       quantity: s.quantity,
+      ...(preferredSellers[s.blueprint.id] ? { preferredSeller: preferredSellers[s.blueprint.id] } : {}),
     }));
 
     try {
@@ -85,14 +134,22 @@ export default function CheckoutModal({
 
       if (response.ok && data.success) {
         setFormState("success");
-        // Auto-close after success
-        setTimeout(() => {
-          onSuccess();
-          resetForm();
-        }, 2000);
+        if (data.trackingUrl) {
+          // Keep the modal open so the buyer can save the tracking link
+          setTrackingUrl(data.trackingUrl);
+        } else {
+          // Auto-close after success
+          setTimeout(() => {
+            onSuccess();
+            resetForm();
+          }, 2000);
+        }
       } else {
         setFormState("error");
         setErrorMessage(data.error || "Помилка відправки замовлення");
+        if (Array.isArray(data.itemErrors)) {
+          setItemErrors(data.itemErrors);
+        }
       }
     } catch (error) {
       console.error("Order submit error:", error);
@@ -109,12 +166,33 @@ export default function CheckoutModal({
     setHoneypot("");
     setFormState("idle");
     setErrorMessage("");
+    setTrackingUrl(null);
+    setItemErrors([]);
+    setQuotes([]);
+    setPreferredSellers({});
+  };
+
+  // Stock problems can be fixed by taking the available quantity;
+  // a preferred seller that can't supply the item has to be changed by the buyer
+  const stockErrors = itemErrors.filter((e) => e.issue !== "seller_unavailable");
+
+  // Accept the available quantities and let the buyer submit again
+  const handleApplyStockLimits = () => {
+    onApplyStockLimits(stockErrors);
+    setItemErrors([]);
+    setFormState("idle");
+    setErrorMessage("");
   };
 
   // Handle close
   const handleClose = () => {
     if (formState === "submitting") return; // Prevent closing during submission
-    onClose();
+    if (formState === "success") {
+      // Order already placed - clear the selection on the way out
+      onSuccess();
+    } else {
+      onClose();
+    }
     // Reset form after animation
     setTimeout(resetForm, 300);
   };
@@ -201,6 +279,19 @@ export default function CheckoutModal({
                 Замовлення відправлено!
               </h4>
               <p className="text-gray-400">Я зв'яжуся з вами в Discord найближчим часом.</p>
+              {trackingUrl && (
+                <div className="mt-6 text-left">
+                  <p className="text-sm text-gray-400 mb-2">
+                    Статус замовлення можна переглянути за посиланням (збережіть його):
+                  </p>
+                  <Link
+                    href={trackingUrl}
+                    className="block px-3 py-2 bg-dark-700 border border-dark-600 rounded-lg text-neon-cyan text-sm font-mono break-all hover:border-neon-cyan/50 transition-colors"
+                  >
+                    {typeof window !== "undefined" ? window.location.origin + trackingUrl : trackingUrl}
+                  </Link>
+                </div>
+              )}
             </div>
           ) : (
             <form onSubmit={handleSubmit}>
@@ -209,24 +300,117 @@ export default function CheckoutModal({
                 <label className="block text-sm font-medium text-gray-400 mb-2">
                   Ваше замовлення:
                 </label>
-                <div className="bg-dark-700 border border-dark-600 rounded-lg p-3 max-h-32 overflow-y-auto">
-                  {selections.map((s) => (
-                    <div
-                      key={s.blueprint.slug}
-                      className="flex justify-between items-center py-1 text-sm"
-                    >
-                      <span className="text-white">{s.blueprint.name}</span>
-                      <div className="flex items-center gap-2">
-                        <span className="text-neon-cyan">×{s.quantity}</span>
-                        <span className="text-gray-500 text-xs">
-                          (з {s.blueprint.ownedQty})
-                        </span>
+                <div className="bg-dark-700 border border-dark-600 rounded-lg p-3 max-h-56 overflow-y-auto">
+                  {selections.map((s) => {
+                    const itemError = itemErrors.find((e) => e.id === s.blueprint.id);
+                    return (
+                      <div key={s.blueprint.slug} className="py-1 text-sm">
+                        <div className="flex justify-between items-center">
+                          <span className={itemError ? "text-red-400" : "text-white"}>
+                            {s.blueprint.name}
+                          </span>
+                          <div className="flex items-center gap-2">
+                            <span className={itemError ? "text-red-400" : "text-neon-cyan"}>
+                              ×{s.quantity}
+                            </span>
+                            <span className="text-gray-500 text-xs">
+                              (з {s.blueprint.ownedQty})
+                            </span>
+                          </div>
+                        </div>
+                        {s.blueprint.sellers && s.blueprint.sellers.length > 1 && (
+                          <select
+                            value={preferredSellers[s.blueprint.id] || ""}
+                            onChange={(e) => {
+                              const sellerDiscordId = e.target.value;
+                              setPreferredSellers((prev) => {
+                                const next = { ...prev };
+                                if (sellerDiscordId) {
+                                  next[s.blueprint.id] = sellerDiscordId;
+                                } else {
+                                  delete next[s.blueprint.id];
+                                }
+                                return next;
+                              });
+                              setItemErrors((prev) =>
+                                prev.filter((e) => !(e.id === s.blueprint.id && e.issue === "seller_unavailable"))
+                              );
+                            }}
+                            disabled={formState === "submitting"}
+                            className="mt-1 w-full px-2 py-1 bg-dark-800 border border-dark-600 rounded text-xs text-gray-300 focus:outline-none focus:border-neon-cyan transition-colors disabled:opacity-50"
+                          >
+                            <option value="">Будь-який продавець</option>
+                            {s.blueprint.sellers.map((seller) => (
+                              <option
+                                key={seller.discordId}
+                                value={seller.discordId}
+                                disabled={seller.quantity < s.quantity}
+                              >
+                                {seller.discordId} (є {seller.quantity})
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        {itemError && (
+                          <p className="text-xs text-red-400">{itemError.message}</p>
+                        )}
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
+                {stockErrors.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={handleApplyStockLimits}
+                    className="mt-2 text-sm text-neon-cyan hover:underline"
+                  >
+                    Оновити кількість до доступної
+                  </button>
+                )}
+                {selections.some((s) => s.blueprint.sellers && s.blueprint.sellers.length > 1) && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Обрані продавці першими отримають замовлення. Якщо вони не приймуть його вчасно, позиції
+                    побачать інші продавці.
+                  </p>
+                )}
               </div>
 
+              {/* Seller prices */}
+              {quotes.length > 0 && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-400 mb-2">
+                    Ціни продавців:
+                  </label>
+                  <div className="bg-dark-700 border border-dark-600 rounded-lg p-3 max-h-48 overflow-y-auto space-y-3">
+                    {quotes.map((quote) => (
+                      <div key={quote.sellerDiscordId} className="text-sm">
+                        <div className="flex justify-between items-center gap-2">
+                          <span className="text-white">{quote.sellerDiscordId}</span>
+                          {quote.coversAll && (
+                            <span className="px-1.5 py-0.5 text-xs rounded bg-green-600/20 text-green-400 border border-green-600/40">
+                              все замовлення
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-neon-cyan">{formatSellerTerms(quote.terms)}</p>
+                        <ul className="mt-1 text-xs text-gray-500">
+                          {quote.items.map((item) => (
+                            <li key={item.blueprintId}>
+                              {item.blueprintName} ×{item.quantity}
+                              {" — "}
+                              {item.unitPrice ? `${formatAskingPrice(item.unitPrice)} за шт.` : "за домовленістю"}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Орієнтир для вашої пропозиції. Остаточна ціна — за домовленістю з продавцем.
+                  </p>
+                </div>
+              )}
+
               {/* Discord nickname */}
               <div className="mb-4">
                 <label
@@ -243,9 +427,23 @@ export default function CheckoutModal({
                   placeholder="username або username#1234"
                   maxLength={64}
                   required
+                  readOnly={Boolean(buyer)}
                   disabled={formState === "submitting"}
-                  className="w-full px-3 py-2 bg-dark-700 border border-dark-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-neon-cyan transition-colors disabled:opacity-50"
+                  className={`w-full px-3 py-2 bg-dark-700 border border-dark-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-neon-cyan transition-colors disabled:opacity-50 ${buyer ? "opacity-70 cursor-not-allowed" : ""}`}
                 />
+                <p className="mt-1 text-xs text-gray-500">
+                  {buyer ? (
+                    "Замовлення буде прив'язане до вашого акаунта"
+                  ) : (
+                    <>
+                      Маєте акаунт покупця?{" "}
+                      <Link href="/account" className="text-neon-cyan hover:underline">
+                        Увійдіть
+                      </Link>
+                      , щоб бачити історію замовлень
+                    </>
+                  )}
+                </p>
               </div>
 
               {/* Offer */}
@@ -4,7 +4,7 @@ import Link from "next/link";
 import { useAuth } from "@/contexts/AuthContext";
 
 export default function Header() {
-  const { isAuthenticated, seller, isLoading } = useAuth();
+  const { isAuthenticated, seller, buyer, isLoading } = useAuth();
 
   // Determine dashboard URL based on seller status
   const getDashboardUrl = () => {
@@ -59,9 +59,27 @@ export default function Header() {
       );
     }
 
+    // Logged in buyer - order history
+    if (buyer) {
+      return (
+        <Link
+          href="/account"
+          className="px-4 py-1.5 text-sm font-medium text-white bg-dark-700 hover:bg-dark-600 border border-neon-cyan/40 hover:border-neon-cyan rounded-lg transition-all"
+        >
+          Мої замовлення
+        </Link>
+      );
+    }
+
     // Not logged in - show login and register buttons
     return (
       <div className="flex items-center gap-2">
+        <Link
+          href="/account"
+          className="px-3 py-1.5 text-sm font-medium text-gray-300 hover:text-white bg-dark-700 hover:bg-dark-600 border border-dark-600 hover:border-neon-cyan/50 rounded-lg transition-all"
+        >
+          Вхід для покупців
+        </Link>
         <Link
           href="/seller"
           className="px-3 py-1.5 text-sm font-medium text-gray-300 hover:text-white bg-dark-700 hover:bg-dark-600 border border-dark-600 hover:border-neon-purple/50 rounded-lg transition-all"
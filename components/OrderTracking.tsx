@@ -0,0 +1,212 @@
+import Link from "next/link";
+import type { BuyerOrderView, ItemClaimStatus, OrderStatus } from "@/lib/orders";
+import BuyerOrderActions from "./BuyerOrderActions";
+import SellerFeedbackForm from "./SellerFeedbackForm";
+
+interface OrderTrackingProps {
+  order: BuyerOrderView;
+  accessToken: string;
+}
+
+export const ORDER_STATUS_BADGES: Record<OrderStatus, { className: string; label: string; description: string }> = {
+  open: {
+    className: "bg-blue-500/20 text-blue-400 border-blue-500/40",
+    label: "Відкрите",
+    description: "Замовлення очікує, поки продавці його приймуть.",
+  },
+  in_progress: {
+    className: "bg-yellow-500/20 text-yellow-400 border-yellow-500/40",
+    label: "В роботі",
+    description: "Продавці прийняли позиції та напишуть вам у Discord.",
+  },
+  completed: {
+    className: "bg-green-500/20 text-green-400 border-green-500/40",
+    label: "Виконано",
+    description: "Усі позиції видано.",
+  },
+  closed: {
+    className: "bg-gray-500/20 text-gray-400 border-gray-500/40",
+    label: "Закрите",
+    description: "Замовлення закрито.",
+  },
+  cancelled: {
+    className: "bg-red-500/20 text-red-400 border-red-500/40",
+    label: "Скасовано",
+    description: "Замовлення скасовано.",
+  },
+  expired: {
+    className: "bg-gray-500/20 text-gray-400 border-gray-500/40",
+    label: "Прострочено",
+    description: "Жоден продавець не прийняв замовлення вчасно. Ви можете оформити нове замовлення.",
+  },
+};
+
+const ITEM_STATUS_BADGES: Record<ItemClaimStatus, { className: string; label: string }> = {
+  unclaimed: { className: "bg-gray-500/20 text-gray-400 border-gray-500/40", label: "Очікує продавця" },
+  partially_claimed: { className: "bg-orange-500/20 text-orange-400 border-orange-500/40", label: "Прийнято частково" },
+  claimed: { className: "bg-yellow-500/20 text-yellow-400 border-yellow-500/40", label: "Прийнято" },
+  fulfilled: { className: "bg-green-500/20 text-green-400 border-green-500/40", label: "Видано" },
+};
+
+export default function OrderTracking({ order, accessToken }: OrderTrackingProps) {
+  const statusBadge = ORDER_STATUS_BADGES[order.status];
+  const fulfilledCount = order.items.filter((item) => item.claimStatus === "fulfilled").length;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      {/* Back link */}
+      <Link
+        href="/"
+        className="inline-flex items-center gap-2 text-gray-400 hover:text-neon-cyan transition-colors mb-6"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Назад до каталогу
+      </Link>
+
+      <div className="bg-dark-800 rounded-xl border border-dark-600 p-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <div>
+            <p className="text-sm text-gray-500 font-mono">{order.orderId}</p>
+            <h1 className="text-xl font-bold text-white">Ваше замовлення</h1>
+          </div>
+          <span className={`self-start px-3 py-1 rounded text-sm font-medium border ${statusBadge.className}`}>
+            {statusBadge.label}
+          </span>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-6">{statusBadge.description}</p>
+
+        {/* Buyer info */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div>
+            <div className="text-xs text-gray-500 uppercase mb-1">Discord</div>
+            <div className="text-white font-mono bg-dark-700 px-3 py-2 rounded overflow-wrap-anywhere">
+              {order.buyerDiscordNick}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 uppercase mb-1">Створено</div>
+            <div className="text-white bg-dark-700 px-3 py-2 rounded">
+              {new Date(order.createdAt).toLocaleString("uk-UA")}
+            </div>
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <div className="text-xs text-gray-500 uppercase mb-1">Ваша пропозиція</div>
+          <div className="text-white bg-dark-700 px-3 py-2 rounded whitespace-pre-wrap break-words">
+            {order.offer}
+          </div>
+        </div>
+
+        {order.notes && (
+          <div className="mb-6">
+            <div className="text-xs text-gray-500 uppercase mb-1">Примітки</div>
+            <div className="text-gray-300 bg-dark-700 px-3 py-2 rounded whitespace-pre-wrap break-words">
+              {order.notes}
+            </div>
+          </div>
+        )}
+
+        {/* Items */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-xs text-gray-500 uppercase">Позиції</div>
+            <div className="text-xs text-gray-500">
+              Видано {fulfilledCount}/{order.items.length}
+            </div>
+          </div>
+          <div className="bg-dark-700 rounded overflow-hidden">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-dark-600 text-left text-gray-400">
+                  <th className="px-3 py-2 font-medium">Креслення</th>
+                  <th className="px-3 py-2 font-medium w-16 text-center">К-сть</th>
+                  <th className="px-3 py-2 font-medium">Статус</th>
+                  <th className="px-3 py-2 font-medium">Продавець</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-dark-600">
+                {order.items.map((item) => {
+                  const itemBadge = ITEM_STATUS_BADGES[item.claimStatus];
+                  return (
+                    <tr key={item.blueprintId}>
+                      <td className="px-3 py-2">
+                        <div className="text-white">{item.blueprintName}</div>
+                        <div className="text-xs text-gray-500">{item.blueprintId}</div>
+                      </td>
+                      <td className="px-3 py-2 text-center text-white">{item.requestedQty}</td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium border ${itemBadge.className}`}>
+                          {itemBadge.label}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2">
+                        {item.slices.length > 0 ? (
+                          <div className="space-y-1">
+                            {item.slices.map((slice) => (
+                              <div key={`${slice.sellerDiscordId}:${slice.claimedAt}`}>
+                                <span className="text-neon-cyan font-mono">{slice.sellerDiscordId}</span>
+                                {item.slices.length > 1 || slice.quantity < item.requestedQty ? (
+                                  <span className="text-gray-400"> ×{slice.quantity}</span>
+                                ) : null}
+                                {slice.fulfilledAt && (
+                                  <div className="text-xs text-gray-500">
+                                    {new Date(slice.fulfilledAt).toLocaleString("uk-UA")}
+                                  </div>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-gray-500">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {order.canModify && (
+          <BuyerOrderActions
+            // Remount after an edit so local quantities start from the saved order
+            key={order.items.map((item) => `${item.blueprintId}:${item.requestedQty}`).join(",")}
+            orderId={order.orderId}
+            accessToken={accessToken}
+            items={order.items}
+          />
+        )}
+
+        {order.sellerFeedback.length > 0 && (
+          <SellerFeedbackForm
+            orderId={order.orderId}
+            accessToken={accessToken}
+            sellers={order.sellerFeedback}
+          />
+        )}
+
+        {order.closedAt && (
+          <div className="mt-4 text-sm text-gray-500">
+            Закрито: {new Date(order.closedAt).toLocaleString("uk-UA")}
+          </div>
+        )}
+
+        {order.expiredAt && (
+          <div className="mt-4 text-sm text-gray-500">
+            Прострочено: {new Date(order.expiredAt).toLocaleString("uk-UA")}
+          </div>
+        )}
+
+        <p className="mt-6 text-xs text-gray-500 text-center">
+          Збережіть це посилання — лише за ним можна переглянути статус замовлення.
+        </p>
+      </div>
+    </div>
+  );
+}
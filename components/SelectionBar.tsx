@@ -5,6 +5,7 @@ interface SelectionBarProps {
   totalItems: number;
   onClearSelection: () => void;
   onBuySelected: () => void;
+  onShareCart: () => void;
 }
 
 export default function SelectionBar({
@@ -12,6 +13,7 @@ export default function SelectionBar({
   totalItems,
   onClearSelection,
   onBuySelected,
+  onShareCart,
 }: SelectionBarProps) {
   const hasSelection = totalTypes > 0;
 
@@ -60,26 +62,47 @@ export default function SelectionBar({
             )}
           </div>
 
-          {/* Buy button */}
-          <button
-            onClick={onBuySelected}
-            disabled={!hasSelection}
-            className={`py-2.5 px-6 rounded-lg font-bold flex items-center gap-2 transition-all ${
-              hasSelection
-                ? "neon-btn text-black"
-                : "bg-gray-700 text-gray-500 cursor-not-allowed"
-            }`}
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z"
-              />
-            </svg>
-            Купити обране
-          </button>
+          <div className="flex items-center gap-2">
+            {/* Share cart button */}
+            {hasSelection && (
+              <button
+                onClick={onShareCart}
+                title="Скопіювати посилання на кошик"
+                className="py-2.5 px-3 rounded-lg text-sm text-gray-300 border border-dark-600 hover:border-neon-cyan/50 hover:text-white flex items-center gap-2 transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z"
+                  />
+                </svg>
+                <span className="hidden sm:inline">Поділитися</span>
+              </button>
+            )}
+
+            {/* Buy button */}
+            <button
+              onClick={onBuySelected}
+              disabled={!hasSelection}
+              className={`py-2.5 px-6 rounded-lg font-bold flex items-center gap-2 transition-all ${
+                hasSelection
+                  ? "neon-btn text-black"
+                  : "bg-gray-700 text-gray-500 cursor-not-allowed"
+              }`}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z"
+                />
+              </svg>
+              Купити обране
+            </button>
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+const MAX_COMMENT_LENGTH = 300;
+
+interface SellerFeedbackFormProps {
+  orderId: string;
+  accessToken: string;
+  sellers: {
+    sellerDiscordId: string;
+    rating?: number;
+    comment?: string;
+  }[];
+}
+
+interface FeedbackDraft {
+  rating: number;
+  comment: string;
+}
+
+export default function SellerFeedbackForm({ orderId, accessToken, sellers }: SellerFeedbackFormProps) {
+  const router = useRouter();
+
+  const [drafts, setDrafts] = useState<Map<string, FeedbackDraft>>(new Map());
+  const [sendingFor, setSendingFor] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const updateDraft = (sellerDiscordId: string, change: Partial<FeedbackDraft>) => {
+    setDrafts((prev) => {
+      const current = prev.get(sellerDiscordId) || { rating: 0, comment: "" };
+      return new Map(prev).set(sellerDiscordId, { ...current, ...change });
+    });
+  };
+
+  const sendFeedback = async (sellerDiscordId: string) => {
+    const draft = drafts.get(sellerDiscordId);
+    if (!draft || draft.rating === 0) return;
+
+    setSendingFor(sellerDiscordId);
+    setErrorMessage("");
+
+    try {
+      const res = await fetch(`/api/order/${encodeURIComponent(orderId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          token: accessToken,
+          action: "feedback",
+          sellerDiscordId,
+          rating: draft.rating,
+          comment: draft.comment.trim() || undefined,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok && data.success) {
+        router.refresh();
+      } else {
+        setErrorMessage(data.error || "Не вдалося надіслати відгук");
+      }
+    } catch {
+      setErrorMessage("Помилка з'єднання");
+    } finally {
+      setSendingFor(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-dark-700 rounded-lg p-4">
+      <h3 className="text-sm font-medium text-gray-400 mb-1">Оцініть продавців</h3>
+      <p className="text-xs text-gray-500 mb-4">
+        Ваша оцінка допоможе іншим покупцям обрати надійного продавця. Відгук можна залишити один раз.
+      </p>
+
+      {errorMessage && (
+        <div className="mb-4 p-3 bg-red-900/30 border border-red-700 rounded-lg">
+          <p className="text-red-400 text-sm">{errorMessage}</p>
+        </div>
+      )}
+
+      <div className="divide-y divide-dark-600">
+        {sellers.map((seller) => {
+          const draft = drafts.get(seller.sellerDiscordId) || { rating: 0, comment: "" };
+          const isRated = seller.rating !== undefined;
+          const shownRating = isRated ? seller.rating || 0 : draft.rating;
+
+          return (
+            <div key={seller.sellerDiscordId} className="py-3">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-neon-cyan font-mono text-sm">{seller.sellerDiscordId}</span>
+                <div className="flex gap-0.5">
+                  {[1, 2, 3, 4, 5].map((value) => (
+                    <button
+                      key={value}
+                      onClick={() => updateDraft(seller.sellerDiscordId, { rating: value })}
+                      disabled={isRated || sendingFor !== null}
+                      className={`text-lg leading-none transition-colors ${
+                        value <= shownRating ? "text-yellow-400" : "text-gray-600"
+                      } ${isRated ? "cursor-default" : "hover:text-yellow-300"}`}
+                      aria-label={`${value} з 5`}
+                    >
+                      ★
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {isRated ? (
+                seller.comment && (
+                  <p className="mt-2 text-sm text-gray-300 whitespace-pre-wrap break-words">{seller.comment}</p>
+                )
+              ) : (
+                draft.rating > 0 && (
+                  <div className="mt-2">
+                    <textarea
+                      value={draft.comment}
+                      onChange={(e) => updateDraft(seller.sellerDiscordId, { comment: e.target.value })}
+                      placeholder="Коментар (необов'язково)"
+                      maxLength={MAX_COMMENT_LENGTH}
+                      rows={2}
+                      className="w-full px-3 py-2 bg-dark-800 border border-dark-600 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-neon-cyan transition-colors resize-none"
+                    />
+                    <button
+                      onClick={() => sendFeedback(seller.sellerDiscordId)}
+                      disabled={sendingFor !== null}
+                      className="mt-2 px-4 py-2 bg-neon-cyan/20 text-neon-cyan border border-neon-cyan/40 rounded-lg text-sm font-medium hover:bg-neon-cyan/30 transition-colors disabled:opacity-50"
+                    >
+                      {sendingFor === seller.sellerDiscordId ? "Надсилання..." : "Надіслати відгук"}
+                    </button>
+                  </div>
+                )
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
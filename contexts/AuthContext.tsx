@@ -10,15 +10,24 @@ interface SellerInfo {
   status: SellerStatus;
 }
 
+interface BuyerInfo {
+  id: string;
+  discordId: string;
+  defaultOffer: string;
+}
+
 interface AuthState {
   isAuthenticated: boolean;
   seller: SellerInfo | null;
+  // Logged-in buyer account (a session is either a seller or a buyer)
+  buyer: BuyerInfo | null;
   isLoading: boolean;
 }
 
 interface AuthContextType extends AuthState {
   refreshAuth: () => Promise<void>;
   setAuthState: (authenticated: boolean, seller: SellerInfo | null) => void;
+  setBuyer: (buyer: BuyerInfo | null) => void;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -27,20 +36,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [authState, setAuthStateInternal] = useState<AuthState>({
     isAuthenticated: false,
     seller: null,
+    buyer: null,
     isLoading: true,
   });
 
   // Fetch auth state from server
   const refreshAuth = useCallback(async () => {
     try {
-      const response = await fetch("/api/seller/auth", {
-        credentials: "include",
-      });
-      const data = await response.json();
+      const [sellerResponse, buyerResponse] = await Promise.all([
+        fetch("/api/seller/auth", { credentials: "include" }),
+        fetch("/api/buyer/auth", { credentials: "include" }),
+      ]);
+      const data = await sellerResponse.json();
+      const buyerData = await buyerResponse.json();
 
       setAuthStateInternal({
         isAuthenticated: data.authenticated || false,
         seller: data.seller || null,
+        buyer: buyerData.buyer || null,
         isLoading: false,
       });
     } catch (error) {
@@ -48,6 +61,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setAuthStateInternal({
         isAuthenticated: false,
         seller: null,
+        buyer: null,
         isLoading: false,
       });
     }
@@ -55,11 +69,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   // Set auth state directly (for immediate updates after login/logout)
   const setAuthState = useCallback((authenticated: boolean, seller: SellerInfo | null) => {
-    setAuthStateInternal({
+    setAuthStateInternal((prev) => ({
       isAuthenticated: authenticated,
       seller,
+      // Seller login replaces a buyer session
+      buyer: authenticated ? null : prev.buyer,
+      isLoading: false,
+    }));
+  }, []);
+
+  // Set the buyer after login/logout or a profile change
+  const setBuyer = useCallback((buyer: BuyerInfo | null) => {
+    setAuthStateInternal((prev) => ({
+      isAuthenticated: buyer ? false : prev.isAuthenticated,
+      seller: buyer ? null : prev.seller,
+      buyer,
       isLoading: false,
-    });
+    }));
   }, []);
 
   // Check auth on mount
@@ -73,6 +99,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         ...authState,
         refreshAuth,
         setAuthState,
+        setBuyer,
       }}
     >
       {children}
@@ -15,6 +15,7 @@ interface OrderWithId {
  * - Only plays sound for truly new orders with claimable items
  * - Handles browser autoplay restrictions
  * - Initializes silently on first fetch (no sound on page load)
+ * - Fed by the order stream: full lists via processOrders, pushed orders via processOrderEvent
  */
 export function useNewOrderNotification() {
   // Track seen order IDs
@@ -110,6 +111,25 @@ export function useNewOrderNotification() {
     return false;
   }, [playSound]);
 
+  /**
+   * Process a single pushed order (order-created / order-updated event)
+   * Plays the sound if it is a new actionable order
+   *
+   * @returns true if the order was new and actionable
+   */
+  const processOrderEvent = useCallback((order: OrderWithId): boolean => {
+    const isNew = !seenOrderIds.current.has(order.orderId);
+    seenOrderIds.current.add(order.orderId);
+
+    // Events before the first full list can't be told apart from existing orders
+    if (isInitialFetch.current || !isNew || (order.claimableItemCount ?? 0) === 0) {
+      return false;
+    }
+
+    playSound();
+    return true;
+  }, [playSound]);
+
   /**
    * Reset the notification state
    * Call this when the seller logs out
@@ -133,6 +153,7 @@ export function useNewOrderNotification() {
     initAudio,
     unlockAudio,
     processOrders,
+    processOrderEvent,
     reset,
   };
 }
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts
+ * Starts the Telegram outbox worker so messages queued before a restart are delivered
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startOutboxWorker } = await import("./lib/telegram-outbox");
+    startOutboxWorker();
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Seller assignment engine
+ * Splits an order across the fewest active sellers that can each supply whole
+ * items from unreserved stock. Among equally small splits the one with the
+ * lowest load wins (load = stock a seller already holds for other orders).
+ * Items the buyer pinned to a seller stay with that seller.
+ */
+
+import { getActiveSellers } from "./sellers";
+import { OrderAssignment, SellerWithInventory, getUnreservedQuantity } from "./types";
+
+// Above this many candidate sellers the exact search is replaced by a greedy pick
+const MAX_EXACT_CANDIDATES = 12;
+
+interface Candidate {
+  sellerId: string;
+  sellerDiscordId: string;
+  load: number;
+  // Blueprints this seller has enough unreserved stock of
+  covers: Set<string>;
+}
+
+/**
+ * Stock a seller has reserved for claimed orders
+ */
+function getSellerLoad(seller: SellerWithInventory): number {
+  return seller.inventory.reduce((sum, item) => sum + (item.reserved || 0), 0);
+}
+
+/**
+ * Smallest set of candidates covering every needed blueprint (lowest total load on ties)
+ */
+function findMinimalCover(candidates: Candidate[], needed: string[]): Candidate[] {
+  const coversAll = (set: Candidate[]) => needed.every((id) => set.some((c) => c.covers.has(id)));
+
+  if (needed.length === 0) {
+    return [];
+  }
+
+  if (candidates.length > MAX_EXACT_CANDIDATES) {
+    // Greedy: take the seller covering the most remaining items until all are covered
+    const chosen: Candidate[] = [];
+    let remaining = needed;
+    while (remaining.length > 0) {
+      let best: Candidate | null = null;
+      let bestCount = 0;
+      for (const candidate of candidates) {
+        if (chosen.includes(candidate)) continue;
+        const count = remaining.filter((id) => candidate.covers.has(id)).length;
+        if (count > bestCount) {
+          best = candidate;
+          bestCount = count;
+        }
+      }
+      if (!best) break;
+      chosen.push(best);
+      remaining = remaining.filter((id) => !best!.covers.has(id));
+    }
+    return chosen;
+  }
+
+  // Exact: try every combination of k sellers, smallest k first
+  for (let k = 1; k <= candidates.length; k++) {
+    let best: Candidate[] | null = null;
+    let bestLoad = Infinity;
+
+    const visit = (start: number, set: Candidate[]) => {
+      if (set.length === k) {
+        const load = set.reduce((sum, c) => sum + c.load, 0);
+        if (load < bestLoad && coversAll(set)) {
+          best = [...set];
+          bestLoad = load;
+        }
+        return;
+      }
+      for (let i = start; i <= candidates.length - (k - set.length); i++) {
+        set.push(candidates[i]);
+        visit(i + 1, set);
+        set.pop();
+      }
+    };
+    visit(0, []);
+
+    if (best) {
+      return best;
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Compute the suggested seller split for an order from current inventories
+ */
+export function computeOrderAssignment(
+  items: { blueprintId: string; quantity: number }[],
+  preferredSellers: { blueprintId: string; sellerId: string }[] = []
+): OrderAssignment {
+  // Sellers that can supply at least one item in full, least loaded first
+  const candidates: Candidate[] = getActiveSellers()
+    .map((seller) => ({
+      sellerId: seller.id,
+      sellerDiscordId: seller.discordId,
+      load: getSellerLoad(seller),
+      covers: new Set(
+        items
+          .filter((item) => {
+            const inventoryItem = seller.inventory.find((i) => i.blueprintId === item.blueprintId);
+            return getUnreservedQuantity(inventoryItem) >= item.quantity;
+          })
+          .map((item) => item.blueprintId)
+      ),
+    }))
+    .filter((candidate) => candidate.covers.size > 0)
+    .sort((a, b) => a.load - b.load || a.sellerDiscordId.localeCompare(b.sellerDiscordId));
+
+  // Pinned items go to their seller, who is then part of the split anyway
+  const assigned = new Map<string, Candidate>();
+  for (const pin of preferredSellers) {
+    const candidate = candidates.find((c) => c.sellerId === pin.sellerId && c.covers.has(pin.blueprintId));
+    if (candidate) {
+      assigned.set(pin.blueprintId, candidate);
+    }
+  }
+  const forced = candidates.filter((c) => Array.from(assigned.values()).includes(c));
+
+  const unassignedBlueprintIds = items
+    .map((item) => item.blueprintId)
+    .filter((id) => !candidates.some((c) => c.covers.has(id)));
+  const needed = items
+    .map((item) => item.blueprintId)
+    .filter((id) => !unassignedBlueprintIds.includes(id) && !forced.some((c) => c.covers.has(id)));
+
+  const chosen = [
+    ...forced,
+    ...findMinimalCover(candidates.filter((c) => !forced.includes(c)), needed),
+  ];
+
+  // Each remaining item goes to the least loaded chosen seller that has it
+  for (const item of items) {
+    if (assigned.has(item.blueprintId)) continue;
+    const seller = chosen
+      .filter((c) => c.covers.has(item.blueprintId))
+      .sort((a, b) => a.load - b.load)[0];
+    if (seller) {
+      assigned.set(item.blueprintId, seller);
+    }
+  }
+
+  const sellers = chosen
+    .map((candidate) => ({
+      sellerId: candidate.sellerId,
+      sellerDiscordId: candidate.sellerDiscordId,
+      blueprintIds: items
+        .map((item) => item.blueprintId)
+        .filter((id) => assigned.get(id) === candidate),
+    }))
+    .filter((seller) => seller.blueprintIds.length > 0)
+    .sort((a, b) => b.blueprintIds.length - a.blueprintIds.length);
+
+  return { sellers, unassignedBlueprintIds };
+}
+
+/**
+ * Blueprints the assignment suggests for a seller
+ */
+export function getAssignedBlueprintIds(assignment: OrderAssignment | undefined, sellerId: string): string[] {
+  return assignment?.sellers.find((s) => s.sellerId === sellerId)?.blueprintIds || [];
+}
+
+/**
+ * Seller the assignment suggests for a blueprint
+ */
+export function getAssignedSeller(
+  assignment: OrderAssignment | undefined,
+  blueprintId: string
+): OrderAssignment["sellers"][number] | null {
+  return assignment?.sellers.find((s) => s.blueprintIds.includes(blueprintId)) || null;
+}
@@ -1,9 +1,10 @@
-import { cookies } from "next/headers";
+import { cookies, headers } from "next/headers";
 import crypto from "crypto";
 import {
   UserRole,
   SessionData,
   Seller,
+  Buyer,
   canSellerAccessDashboard,
   isSellerPendingVerification,
   isSellerBlocked,
@@ -14,13 +15,19 @@ import {
   getSellerById,
   authenticateSellerWithPassword,
 } from "./sellers";
+import { getBuyerById } from "./buyers";
+import { getSessionStore, getSessionKey, revokeSellerSessions } from "./session-store";
+import { getClientIP } from "./rate-limit";
 
 const SESSION_COOKIE_NAME = "session_token";
 const SESSION_DURATION_MS = 24 * 60 * 60 * 1000; // 24 hours
 
-// In-memory session store (cleared on server restart)
-// For production with multiple instances, use Redis or DB
-const sessions = new Map<string, SessionData>();
+// lastSeenAt is written back at most this often per session
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+// Expired sessions are swept at most this often (on login)
+const SESSION_CLEANUP_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+let lastSessionCleanupAt = 0;
 
 // ============================================
 // COOKIE CONFIGURATION
@@ -131,20 +138,7 @@ export function verifyAdminPassword(password: string): boolean {
  * Create admin session
  */
 export async function createAdminSession(): Promise<string> {
-  const token = generateSessionToken();
-  const expiresAt = Date.now() + SESSION_DURATION_MS;
-
-  sessions.set(token, {
-    role: "admin",
-    expiresAt,
-  });
-
-  cleanupExpiredSessions();
-
-  const cookieStore = await cookies();
-  cookieStore.set(SESSION_COOKIE_NAME, token, getCookieOptions());
-
-  return token;
+  return startSession({ role: "admin" });
 }
 
 // ============================================
@@ -205,16 +199,44 @@ export async function authenticateSeller(
  * Create seller session
  */
 export async function createSellerSession(sellerId: string): Promise<string> {
-  const token = generateSessionToken();
-  const expiresAt = Date.now() + SESSION_DURATION_MS;
+  return startSession({ role: "seller", sellerId });
+}
+
+// ============================================
+// BUYER AUTHENTICATION
+// ============================================
+
+/**
+ * Create buyer session
+ */
+export async function createBuyerSession(buyerId: string): Promise<string> {
+  return startSession({ role: "buyer", buyerId });
+}
+
+// ============================================
+// SESSION MANAGEMENT
+// ============================================
 
-  sessions.set(token, {
-    role: "seller",
-    sellerId,
-    expiresAt,
+/**
+ * Store a new session for the current request's client and set the cookie
+ */
+async function startSession(data: Pick<SessionData, "role" | "sellerId" | "buyerId">): Promise<string> {
+  const token = generateSessionToken();
+  const now = Date.now();
+  const headerStore = await headers();
+  const ip = getClientIP(headerStore);
+  const userAgent = headerStore.get("user-agent")?.slice(0, 300);
+
+  await getSessionStore().set(token, {
+    ...data,
+    expiresAt: now + SESSION_DURATION_MS,
+    createdAt: now,
+    lastSeenAt: now,
+    ip: ip !== "unknown" ? ip : undefined,
+    userAgent: userAgent || undefined,
   });
 
-  cleanupExpiredSessions();
+  await cleanupExpiredSessions();
 
   const cookieStore = await cookies();
   cookieStore.set(SESSION_COOKIE_NAME, token, getCookieOptions());
@@ -222,10 +244,6 @@ export async function createSellerSession(sellerId: string): Promise<string> {
   return token;
 }
 
-// ============================================
-// SESSION MANAGEMENT
-// ============================================
-
 /**
  * Get current session data
  */
@@ -237,17 +255,44 @@ export async function getSession(): Promise<SessionData | null> {
     return null;
   }
 
-  const session = sessions.get(token);
-  if (!session) {
+  try {
+    // Expired sessions are dropped by the store
+    const session = await getSessionStore().get(token);
+    if (session) {
+      await touchSession(token, session);
+    }
+    return session;
+  } catch (error) {
+    console.error("Session store read error:", error);
     return null;
   }
+}
 
-  if (Date.now() > session.expiresAt) {
-    sessions.delete(token);
-    return null;
+/**
+ * Update lastSeenAt (throttled to avoid a write on every request)
+ * A session revoked since it was read stays revoked
+ */
+async function touchSession(token: string, session: SessionData): Promise<void> {
+  const now = Date.now();
+  if (session.lastSeenAt && now - session.lastSeenAt < SESSION_TOUCH_INTERVAL_MS) {
+    return;
   }
 
-  return session;
+  session.lastSeenAt = now;
+  try {
+    await getSessionStore().touch(token, session);
+  } catch (error) {
+    console.error("Session store write error:", error);
+  }
+}
+
+/**
+ * ID of the current session (hash of the cookie token), if any
+ */
+export async function getCurrentSessionId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  return token ? getSessionKey(token) : null;
 }
 
 /**
@@ -286,6 +331,28 @@ export async function validateSellerSession(): Promise<{
   return { valid: true, seller };
 }
 
+/**
+ * Validate session and check if user is a buyer
+ * Returns buyer data if valid
+ */
+export async function validateBuyerSession(): Promise<{
+  valid: boolean;
+  buyer?: Buyer;
+}> {
+  const session = await getSession();
+
+  if (!session || session.role !== "buyer" || !session.buyerId) {
+    return { valid: false };
+  }
+
+  const buyer = getBuyerById(session.buyerId);
+  if (!buyer) {
+    return { valid: false };
+  }
+
+  return { valid: true, buyer };
+}
+
 /**
  * Validate session for any authenticated user
  * Returns role and seller data if applicable
@@ -329,26 +396,90 @@ export async function destroySession(): Promise<void> {
   const token = cookieStore.get(SESSION_COOKIE_NAME)?.value;
 
   if (token) {
-    sessions.delete(token);
+    try {
+      await getSessionStore().delete(token);
+    } catch (error) {
+      console.error("Session store delete error:", error);
+    }
   }
 
   cookieStore.delete(SESSION_COOKIE_NAME);
 }
 
 /**
- * Clean up expired sessions
+ * Clean up expired sessions (throttled; failures only logged)
  */
-function cleanupExpiredSessions(): void {
+async function cleanupExpiredSessions(): Promise<void> {
   const now = Date.now();
-  const expiredTokens: string[] = [];
+  if (now - lastSessionCleanupAt < SESSION_CLEANUP_INTERVAL_MS) {
+    return;
+  }
+  lastSessionCleanupAt = now;
 
-  sessions.forEach((session, token) => {
-    if (now > session.expiresAt) {
-      expiredTokens.push(token);
-    }
-  });
+  try {
+    await getSessionStore().cleanupExpired();
+  } catch (error) {
+    console.error("Session cleanup error:", error);
+  }
+}
+
+// ============================================
+// SELLER SESSIONS
+// ============================================
 
-  expiredTokens.forEach((token) => sessions.delete(token));
+/**
+ * Active seller session as shown to the seller and admin
+ */
+export interface SellerSessionInfo {
+  id: string;
+  createdAt?: string;
+  lastSeenAt?: string;
+  expiresAt: string;
+  ip?: string;
+  userAgent?: string;
+  // Session making the current request
+  current: boolean;
+}
+
+/**
+ * List a seller's active sessions (most recently seen first)
+ */
+export async function listSellerSessions(sellerId: string): Promise<SellerSessionInfo[]> {
+  const currentId = await getCurrentSessionId();
+  const sessions = await getSessionStore().listBySeller(sellerId);
+
+  return sessions
+    .sort((a, b) => (b.session.lastSeenAt || 0) - (a.session.lastSeenAt || 0))
+    .map(({ id, session }) => ({
+      id,
+      createdAt: session.createdAt ? new Date(session.createdAt).toISOString() : undefined,
+      lastSeenAt: session.lastSeenAt ? new Date(session.lastSeenAt).toISOString() : undefined,
+      expiresAt: new Date(session.expiresAt).toISOString(),
+      ip: session.ip,
+      userAgent: session.userAgent,
+      current: id === currentId,
+    }));
+}
+
+/**
+ * Revoke one of a seller's sessions
+ * Returns false if the session doesn't exist or belongs to someone else
+ */
+export async function revokeSellerSession(sellerId: string, sessionId: string): Promise<boolean> {
+  const sessions = await getSessionStore().listBySeller(sellerId);
+  if (!sessions.some((s) => s.id === sessionId)) {
+    return false;
+  }
+  return getSessionStore().deleteById(sessionId);
+}
+
+/**
+ * Revoke all of a seller's sessions except the current one
+ * Returns number of revoked sessions
+ */
+export async function revokeOtherSellerSessions(sellerId: string): Promise<number> {
+  const currentId = await getCurrentSessionId();
+  return revokeSellerSessions(sellerId, currentId || undefined);
 }
 
 // ============================================
@@ -19,7 +19,7 @@ interface RawBlueprint {
 
 // Blueprint with aggregated inventory from all sellers
 export interface BlueprintWithInventory extends Blueprint {
-  totalQty: number; // Total quantity across all active sellers
+  totalQty: number; // Total unreserved quantity across all active sellers
   available: boolean; // True if any seller has this blueprint
   sellerCount: number; // Number of sellers that have this blueprint
 }
@@ -90,7 +90,7 @@ export function getAllBlueprints(): Blueprint[] {
  *
  * Availability is calculated by combining:
  * - Legacy/global stock from blueprint JSON files (bp.ownedQty)
- * - Active seller inventory quantities
+ * - Active seller inventory quantities (minus stock reserved by claimed orders)
  */
 export function getAllBlueprintsWithInventory(): BlueprintWithInventory[] {
   const blueprints = getAllBlueprints();
@@ -109,6 +109,8 @@ export function getAllBlueprintsWithInventory(): BlueprintWithInventory[] {
       totalQty,
       available: totalQty > 0,
       sellerCount: inventoryData?.sellers.length || 0,
+      askSummary: inventoryData?.askSummary,
+      sellers: inventoryData?.sellers || [],
       // Legacy compatibility fields - expose combined quantity
       owned: totalQty > 0,
       ownedQty: totalQty,
@@ -0,0 +1,133 @@
+import crypto from "crypto";
+import { Buyer } from "./types";
+import { getStorage } from "./storage";
+import { getBuyerFilePath } from "./storage-json";
+import { withFileLock } from "./safe-file";
+import { hashPassword, validateDiscordId, validatePassword, verifyPassword } from "./sellers";
+
+// Same limit as the offer field in checkout
+const MAX_DEFAULT_OFFER_LENGTH = 500;
+
+// Persist buyer record
+function saveBuyer(buyer: Buyer): void {
+  getStorage().buyers.save(buyer);
+}
+
+/**
+ * Run a read-modify-write of one buyer record under its lock
+ */
+function withBuyerLock<T>(buyerId: string, fn: () => T): Promise<T> {
+  return withFileLock(getBuyerFilePath(buyerId), fn);
+}
+
+// ============================================
+// BUYER REGISTRATION & AUTHENTICATION
+// ============================================
+
+/**
+ * Register a buyer account (active immediately - no verification needed)
+ * Nobody checks the Discord ID belongs to the registrant, so it doesn't
+ * reserve the nick: guest orders under it are still accepted, marked unverified
+ */
+export async function registerBuyer(
+  discordId: string,
+  password: string
+): Promise<{ success: boolean; buyer?: Buyer; error?: string }> {
+  const discordValidation = validateDiscordId(discordId);
+  if (!discordValidation.valid) {
+    return { success: false, error: discordValidation.error };
+  }
+
+  const passwordValidation = validatePassword(password);
+  if (!passwordValidation.valid) {
+    return { success: false, error: passwordValidation.error };
+  }
+
+  if (getBuyerByDiscordId(discordId)) {
+    return { success: false, error: "Покупець з таким Discord ID вже існує" };
+  }
+
+  const passwordHash = await hashPassword(password);
+
+  const now = new Date().toISOString();
+  const buyer: Buyer = {
+    id: crypto.randomUUID(),
+    discordId: discordId.trim(),
+    passwordHash,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  saveBuyer(buyer);
+
+  return { success: true, buyer };
+}
+
+/**
+ * Authenticate buyer with Discord ID and password (Ukrainian messages)
+ */
+export async function authenticateBuyer(
+  discordId: string,
+  password: string
+): Promise<{ success: boolean; buyer?: Buyer; error?: string }> {
+  const buyer = getBuyerByDiscordId(discordId);
+
+  if (!buyer || !buyer.passwordHash) {
+    // Same message as a wrong password (no account enumeration)
+    return { success: false, error: "Невірні облікові дані" };
+  }
+
+  const isValidPassword = await verifyPassword(password, buyer.passwordHash);
+  if (!isValidPassword) {
+    return { success: false, error: "Невірні облікові дані" };
+  }
+
+  return { success: true, buyer };
+}
+
+// ============================================
+// BUYER CRUD OPERATIONS
+// ============================================
+
+/**
+ * Get buyer by internal ID
+ */
+export function getBuyerById(buyerId: string): Buyer | null {
+  return getStorage().buyers.get(buyerId);
+}
+
+/**
+ * Get buyer by Discord ID (case-insensitive)
+ */
+export function getBuyerByDiscordId(discordId: string): Buyer | null {
+  return getStorage().buyers.getByDiscordId(discordId.trim());
+}
+
+/**
+ * Save the offer text pre-filled in checkout ("" clears it)
+ */
+export async function updateBuyerDefaultOffer(
+  buyerId: string,
+  defaultOffer: string
+): Promise<{ success: boolean; buyer?: Buyer; error?: string }> {
+  const offer = defaultOffer.trim();
+  if (offer.length > MAX_DEFAULT_OFFER_LENGTH) {
+    return {
+      success: false,
+      error: `Пропозиція занадто довга (макс. ${MAX_DEFAULT_OFFER_LENGTH} символів)`,
+    };
+  }
+
+  return withBuyerLock(buyerId, () => {
+    const buyer = getBuyerById(buyerId);
+    if (!buyer) {
+      return { success: false, error: "Покупця не знайдено" };
+    }
+
+    buyer.defaultOffer = offer || undefined;
+    buyer.updatedAt = new Date().toISOString();
+    saveBuyer(buyer);
+
+    return { success: true, buyer };
+  });
+}
@@ -0,0 +1,168 @@
+import { Blueprint, BlueprintSelection, getMaxSelectableQty } from "./types";
+import type { OrderItemStockError } from "./order";
+
+/**
+ * Buyer cart helpers (browser side)
+ * The cart is saved to localStorage as blueprint IDs + quantities and rebuilt
+ * against the current catalog on load, so removed or sold-out blueprints drop
+ * out and quantities never exceed what is available now.
+ * The same compact form is used in shareable cart links: /?cart=BP-001:2,BP-014:1
+ */
+
+const CART_STORAGE_KEY = "bp-cart";
+
+// Query parameter of a shared cart link
+export const CART_URL_PARAM = "cart";
+
+// Limits for carts read from storage or a link
+const MAX_CART_ENTRIES = 50;
+const MAX_CART_QUANTITY = 999;
+
+export interface CartEntry {
+  id: string;
+  quantity: number;
+}
+
+export interface HydratedCart {
+  selections: BlueprintSelection[];
+  // True if anything was dropped or clamped to current availability
+  adjusted: boolean;
+}
+
+function toCartEntries(selections: BlueprintSelection[]): CartEntry[] {
+  return selections.map((s) => ({ id: s.blueprint.id, quantity: s.quantity }));
+}
+
+/**
+ * Keep only well-formed entries (valid ID, positive integer quantity)
+ */
+function sanitizeCartEntries(entries: unknown): CartEntry[] {
+  if (!Array.isArray(entries)) return [];
+
+  return entries
+    .filter(
+      (entry): entry is CartEntry =>
+        typeof entry?.id === "string" &&
+        /^[\w-]{1,64}$/.test(entry.id) &&
+        Number.isInteger(entry.quantity) &&
+        entry.quantity > 0
+    )
+    .slice(0, MAX_CART_ENTRIES)
+    .map((entry) => ({ id: entry.id, quantity: Math.min(entry.quantity, MAX_CART_QUANTITY) }));
+}
+
+/**
+ * Rebuild selections from saved entries against the current catalog
+ * - unknown and out-of-stock blueprints are dropped
+ * - quantities are clamped to current availability
+ * - duplicate IDs are merged
+ */
+export function hydrateCart(entries: CartEntry[], blueprints: Blueprint[]): HydratedCart {
+  const byId = new Map(blueprints.map((bp) => [bp.id, bp]));
+  const quantities = new Map<string, number>();
+  let adjusted = false;
+
+  for (const entry of entries) {
+    const blueprint = byId.get(entry.id);
+    if (!blueprint || getMaxSelectableQty(blueprint) < 1) {
+      adjusted = true;
+      continue;
+    }
+    if (quantities.has(entry.id)) {
+      adjusted = true;
+    }
+    quantities.set(entry.id, (quantities.get(entry.id) || 0) + entry.quantity);
+  }
+
+  const selections: BlueprintSelection[] = [];
+  quantities.forEach((quantity, id) => {
+    const blueprint = byId.get(id)!;
+    const maxQty = getMaxSelectableQty(blueprint);
+    if (quantity > maxQty) {
+      adjusted = true;
+    }
+    selections.push({ blueprint, quantity: Math.min(quantity, maxQty) });
+  });
+
+  return { selections, adjusted };
+}
+
+/**
+ * Apply the stock problems reported by the order API to the cart
+ * Quantities drop to what is available; unavailable items are removed
+ */
+export function applyStockLimits(
+  selections: BlueprintSelection[],
+  itemErrors: OrderItemStockError[]
+): BlueprintSelection[] {
+  const available = new Map(itemErrors.map((e) => [e.id, e.availableQty]));
+
+  return selections
+    .map((s) => {
+      const availableQty = available.get(s.blueprint.id);
+      return availableQty === undefined ? s : { ...s, quantity: Math.min(s.quantity, availableQty) };
+    })
+    .filter((s) => s.quantity > 0);
+}
+
+// ============================================
+// LOCAL STORAGE
+// ============================================
+
+/**
+ * Read the saved cart (empty if missing or unreadable)
+ */
+export function loadStoredCart(): CartEntry[] {
+  try {
+    const raw = window.localStorage.getItem(CART_STORAGE_KEY);
+    return raw ? sanitizeCartEntries(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save the cart (an empty cart removes the key)
+ */
+export function saveStoredCart(selections: BlueprintSelection[]): void {
+  try {
+    if (selections.length === 0) {
+      window.localStorage.removeItem(CART_STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(toCartEntries(selections)));
+    }
+  } catch {
+    // Storage full or disabled (private mode) - the cart just isn't kept
+  }
+}
+
+// ============================================
+// SHARE LINKS
+// ============================================
+
+/**
+ * Encode a cart for a link: "BP-001:2,BP-014:1"
+ */
+export function encodeCartParam(selections: BlueprintSelection[]): string {
+  return toCartEntries(selections)
+    .map((entry) => `${entry.id}:${entry.quantity}`)
+    .join(",");
+}
+
+/**
+ * Parse the cart parameter of a shared link (malformed parts are skipped)
+ */
+export function decodeCartParam(value: string): CartEntry[] {
+  const entries = value.split(",").map((part) => {
+    const [id, quantity] = part.trim().split(":");
+    return { id, quantity: Number(quantity) };
+  });
+  return sanitizeCartEntries(entries);
+}
+
+/**
+ * Full shareable link that opens checkout with this cart
+ */
+export function buildCartShareUrl(origin: string, selections: BlueprintSelection[]): string {
+  return `${origin}/?${CART_URL_PARAM}=${encodeURIComponent(encodeCartParam(selections))}`;
+}
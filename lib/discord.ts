@@ -0,0 +1,98 @@
+/**
+ * Discord webhook calls
+ * Messages are posted as embeds to a channel webhook (no bot needed)
+ */
+
+const DISCORD_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// https://discord.com/api/webhooks/<id>/<token> (also ptb./canary. and discordapp.com)
+const DISCORD_WEBHOOK_URL_PATTERN =
+  /^https:\/\/(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/[\w-]+$/;
+
+export interface DiscordEmbedField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+export interface DiscordEmbed {
+  title?: string;
+  description?: string;
+  url?: string;
+  color?: number;
+  fields?: DiscordEmbedField[];
+  timestamp?: string;
+  footer?: { text: string };
+}
+
+export interface DiscordSendResult {
+  success: boolean;
+  error?: string;
+  // HTTP status (0 if the request didn't complete)
+  status?: number;
+  // Seconds to wait before retrying (from a 429 response)
+  retryAfter?: number;
+}
+
+/**
+ * Check that a URL is a Discord channel webhook
+ */
+export function isValidDiscordWebhookUrl(url: string): boolean {
+  return DISCORD_WEBHOOK_URL_PATTERN.test(url.trim());
+}
+
+/**
+ * Hide the secret token part of a webhook URL (for logs and the admin panel)
+ */
+export function maskDiscordWebhookUrl(url: string): string {
+  return url.replace(/(\/api\/webhooks\/\d+\/).+$/, "$1…");
+}
+
+/**
+ * Escape Discord markdown in user-provided text
+ */
+export function escapeDiscordMarkdown(text: string): string {
+  return text.replace(/([\\*_~`|>#\[\]()-])/g, "\\$1");
+}
+
+/**
+ * Post an embed to a webhook
+ */
+export async function sendDiscordWebhook(
+  webhookUrl: string,
+  embed: DiscordEmbed
+): Promise<DiscordSendResult> {
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ embeds: [embed], allowed_mentions: { parse: [] } }),
+      signal: AbortSignal.timeout(DISCORD_REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      return { success: true, status: response.status };
+    }
+
+    const data = (await response.json().catch(() => ({}))) as {
+      message?: string;
+      retry_after?: number;
+    };
+    console.error(`Discord webhook error (${maskDiscordWebhookUrl(webhookUrl)}):`, data);
+
+    return {
+      success: false,
+      error: data.message || `HTTP ${response.status}`,
+      status: response.status,
+      retryAfter:
+        data.retry_after !== undefined
+          ? Math.ceil(data.retry_after)
+          : Number(response.headers.get("retry-after")) || undefined,
+    };
+  } catch (error) {
+    console.error("Discord webhook error:", error);
+    return { success: false, error: "Discord connection error", status: 0 };
+  }
+}
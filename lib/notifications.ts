@@ -0,0 +1,448 @@
+/**
+ * Order notification channels (Telegram, Discord webhooks and browser Web Push)
+ * Every event goes to the group channel of each configured platform and, for
+ * new/edited/cancelled orders, to the involved sellers on the channels they chose.
+ * Messages are queued in the outbox and delivered with retries.
+ */
+
+import {
+  getVisibleSellerGroup,
+  ProcessedOrder,
+  queueGroupNotification,
+  queueSellerNotification,
+  queueSellerOrderFollowUp,
+} from "./order";
+import type { StoredOrder } from "./orders";
+import { getSellerById } from "./sellers";
+import {
+  getSellerNotificationChannels,
+  NotificationChannelName,
+  Seller,
+  SellerOrderGroup,
+} from "./types";
+import { enqueueOutboxMessage, OutboxMessage } from "./telegram-outbox";
+import { DiscordEmbed, DiscordEmbedField, escapeDiscordMarkdown } from "./discord";
+import { isWebPushConfigured, WebPushPayload } from "./web-push";
+import { calculateGroupTerms, formatSellerTerms, hasPricedTerms } from "./pricing";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type OrderNotificationEventType = "created" | "claimed" | "fulfilled" | "updated" | "cancelled";
+
+// Items a claim/fulfil event is about
+export interface NotificationItem {
+  blueprintName: string;
+  quantity: number;
+}
+
+export interface OrderNotificationEvent {
+  type: OrderNotificationEventType;
+  order: ProcessedOrder;
+  // Seller who claimed/fulfilled (claimed and fulfilled events)
+  sellerDiscordId?: string;
+  items?: NotificationItem[];
+}
+
+// What a single seller is told about an order
+export interface SellerNotificationEvent {
+  type: "created" | "updated" | "cancelled";
+  order: ProcessedOrder;
+  // The seller's part of the order now (null once they are no longer involved)
+  sellerGroup: SellerOrderGroup | null;
+}
+
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  // Post to this platform's group channel; null if not configured or not needed
+  notifyGroup(event: OrderNotificationEvent): OutboxMessage | null;
+  // Notify one seller; empty if the seller hasn't set this channel up
+  notifySeller(seller: Seller, event: SellerNotificationEvent): OutboxMessage[];
+}
+
+// ============================================
+// TELEGRAM
+// ============================================
+
+const telegramChannel: NotificationChannel = {
+  name: "telegram",
+
+  notifyGroup(event) {
+    const groupChatId = process.env.TELEGRAM_GROUP_CHAT_ID;
+    // Later events edit the original post instead (queueGroupPostUpdate)
+    if (!groupChatId || event.type !== "created") {
+      return null;
+    }
+    return queueGroupNotification(groupChatId, event.order);
+  },
+
+  notifySeller(seller, event) {
+    if (!seller.telegramChatId) {
+      return [];
+    }
+    if (event.type === "created") {
+      return event.sellerGroup
+        ? [queueSellerNotification(seller.telegramChatId, event.order, event.sellerGroup)]
+        : [];
+    }
+    return [
+      queueSellerOrderFollowUp(seller.telegramChatId, event.order, seller, event.sellerGroup, event.type),
+    ];
+  },
+};
+
+// ============================================
+// DISCORD
+// ============================================
+
+const DISCORD_EVENT_COLORS: Record<OrderNotificationEventType, number> = {
+  created: 0x00f0ff,
+  claimed: 0xfacc15,
+  fulfilled: 0x22c55e,
+  updated: 0x3b82f6,
+  cancelled: 0xef4444,
+};
+
+const DISCORD_GROUP_TITLES: Record<OrderNotificationEventType, string> = {
+  created: "🆕 Нове замовлення",
+  claimed: "🔒 Позиції взято",
+  fulfilled: "✅ Позиції виконано",
+  updated: "✏️ Замовлення змінено покупцем",
+  cancelled: "🚫 Замовлення скасовано",
+};
+
+const DISCORD_SELLER_TITLES: Record<SellerNotificationEvent["type"], string> = {
+  created: "📦 Нове замовлення",
+  updated: "✏️ Замовлення змінено покупцем",
+  cancelled: "🚫 Замовлення скасовано покупцем",
+};
+
+// Embed field values are limited to 1024 characters
+function truncateField(text: string): string {
+  return text.length > 1024 ? `${text.slice(0, 1021)}...` : text || "—";
+}
+
+function formatOrderItems(order: ProcessedOrder): string {
+  const items = new Map<string, NotificationItem>();
+  for (const group of order.sellerGroups) {
+    for (const item of group.items) {
+      items.set(item.blueprintId, { blueprintName: item.blueprintName, quantity: item.requestedQty });
+    }
+  }
+  return formatItems(Array.from(items.values()));
+}
+
+function formatItems(items: NotificationItem[]): string {
+  return items.map((item) => `• ${escapeDiscordMarkdown(item.blueprintName)} ×${item.quantity}`).join("\n");
+}
+
+function getBuyerFields(order: ProcessedOrder): DiscordEmbedField[] {
+  return [
+    { name: "Order ID", value: order.orderId, inline: true },
+    { name: "Discord покупця", value: escapeDiscordMarkdown(order.buyerDiscordNick), inline: true },
+  ];
+}
+
+/**
+ * Embed for the group channel
+ */
+export function formatDiscordGroupEmbed(event: OrderNotificationEvent): DiscordEmbed {
+  const { order } = event;
+  const fields = getBuyerFields(order);
+
+  if (event.type === "claimed" || event.type === "fulfilled") {
+    fields.push(
+      { name: "Продавець", value: escapeDiscordMarkdown(event.sellerDiscordId || "—"), inline: true },
+      { name: "Позиції", value: truncateField(formatItems(event.items || [])) }
+    );
+  } else if (event.type !== "cancelled") {
+    fields.push(
+      { name: "Позиції", value: truncateField(formatOrderItems(order)) },
+      { name: "Пропозиція", value: truncateField(escapeDiscordMarkdown(order.offer)) },
+      { name: "Продавців", value: String(order.sellerCount), inline: true }
+    );
+  }
+
+  return {
+    title: DISCORD_GROUP_TITLES[event.type],
+    color: DISCORD_EVENT_COLORS[event.type],
+    fields,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Embed for a seller's own webhook
+ */
+export function formatDiscordSellerEmbed(event: SellerNotificationEvent): DiscordEmbed {
+  const { order, sellerGroup } = event;
+  const fields = getBuyerFields(order);
+
+  if (event.type === "cancelled") {
+    fields.push({ name: "Деталі", value: "Нічого робити не потрібно." });
+  } else if (!sellerGroup) {
+    fields.push({ name: "Деталі", value: "Ваші позиції більше не потрібні в цьому замовленні." });
+  } else {
+    const items = sellerGroup.items
+      .map((item) => {
+        const status = item.available ? "✅" : "❌";
+        const preferred = order.preferredSellers?.some(
+          (p) => p.blueprintId === item.blueprintId && p.sellerId === sellerGroup.sellerId
+        );
+        return `${status} ${escapeDiscordMarkdown(item.blueprintName)} ×${item.requestedQty} (у вас ${item.availableQty} шт.)${preferred ? " ⭐ покупець обрав вас" : ""}`;
+      })
+      .join("\n");
+    fields.push({ name: "Позиції", value: truncateField(items) });
+    if (sellerGroup.terms && hasPricedTerms(sellerGroup.terms)) {
+      fields.push({ name: "Ваша ціна", value: truncateField(escapeDiscordMarkdown(formatSellerTerms(sellerGroup.terms))) });
+    }
+    fields.push(
+      { name: "Пропозиція", value: truncateField(escapeDiscordMarkdown(order.offer)) },
+      { name: "Примітки", value: truncateField(order.notes ? escapeDiscordMarkdown(order.notes) : "немає") }
+    );
+  }
+
+  return {
+    title: DISCORD_SELLER_TITLES[event.type] + (order.isMultiSeller ? " ⚠️ мульти-продавець" : ""),
+    color: DISCORD_EVENT_COLORS[event.type],
+    fields,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function queueDiscordEmbed(
+  webhookUrl: string,
+  embed: DiscordEmbed,
+  recipient: Pick<OutboxMessage, "kind" | "orderId" | "sellerId" | "sellerDiscordId">
+): OutboxMessage {
+  return enqueueOutboxMessage({
+    ...recipient,
+    channel: "discord",
+    chatId: webhookUrl,
+    text: embed.title || "",
+    discordEmbed: embed,
+  });
+}
+
+const discordChannel: NotificationChannel = {
+  name: "discord",
+
+  notifyGroup(event) {
+    const webhookUrl = process.env.DISCORD_GROUP_WEBHOOK_URL;
+    if (!webhookUrl) {
+      return null;
+    }
+    return queueDiscordEmbed(webhookUrl, formatDiscordGroupEmbed(event), {
+      kind: "group",
+      orderId: event.order.orderId,
+    });
+  },
+
+  notifySeller(seller, event) {
+    if (!seller.discordWebhookUrl) {
+      return [];
+    }
+    return [
+      queueDiscordEmbed(seller.discordWebhookUrl, formatDiscordSellerEmbed(event), {
+        kind: "seller",
+        orderId: event.order.orderId,
+        sellerId: seller.id,
+        sellerDiscordId: seller.discordId,
+      }),
+    ];
+  },
+};
+
+// ============================================
+// WEB PUSH
+// ============================================
+
+// Keeps the encrypted message well under the push services' 4 KB limit
+const WEB_PUSH_BODY_MAX_LENGTH = 1000;
+
+/**
+ * Browser notification for a new order; clicking it opens the order in the seller dashboard
+ */
+export function formatWebPushPayload(order: ProcessedOrder, sellerGroup: SellerOrderGroup): WebPushPayload {
+  const items = sellerGroup.items.map((item) => `${item.blueprintName} ×${item.requestedQty}`).join(", ");
+  const body = `${order.buyerDiscordNick}: ${items}`;
+
+  return {
+    title: "📦 Нове замовлення" + (order.isMultiSeller ? " ⚠️ мульти-продавець" : ""),
+    body: body.length > WEB_PUSH_BODY_MAX_LENGTH ? `${body.slice(0, WEB_PUSH_BODY_MAX_LENGTH - 3)}...` : body,
+    url: `/seller?order=${encodeURIComponent(order.orderId)}`,
+    tag: order.orderId,
+  };
+}
+
+const webPushChannel: NotificationChannel = {
+  name: "webpush",
+
+  // Browser notifications are personal - there is no group channel
+  notifyGroup() {
+    return null;
+  },
+
+  // Only new orders: edits and cancellations show up on the dashboard itself
+  notifySeller(seller, event) {
+    if (event.type !== "created" || !event.sellerGroup || !isWebPushConfigured()) {
+      return [];
+    }
+
+    const payload = formatWebPushPayload(event.order, event.sellerGroup);
+    return (seller.pushSubscriptions || []).map((subscription) =>
+      enqueueOutboxMessage({
+        kind: "seller",
+        channel: "webpush",
+        chatId: subscription.id,
+        text: `${payload.title}\n${payload.body}`,
+        webPush: payload,
+        orderId: event.order.orderId,
+        sellerId: seller.id,
+        sellerDiscordId: seller.discordId,
+      })
+    );
+  },
+};
+
+// ============================================
+// DISPATCH
+// ============================================
+
+const NOTIFICATION_CHANNELS: Record<NotificationChannelName, NotificationChannel> = {
+  telegram: telegramChannel,
+  discord: discordChannel,
+  webpush: webPushChannel,
+};
+
+/**
+ * Check that at least one platform can deliver order notifications
+ */
+export function isAnyNotificationChannelConfigured(): boolean {
+  return Boolean(process.env.TELEGRAM_BOT_TOKEN || process.env.DISCORD_GROUP_WEBHOOK_URL);
+}
+
+function notifyGroups(event: OrderNotificationEvent): OutboxMessage[] {
+  return Object.values(NOTIFICATION_CHANNELS)
+    .map((channel) => channel.notifyGroup(event))
+    .filter((message): message is OutboxMessage => message !== null);
+}
+
+/**
+ * Notify one seller on each of their chosen channels; returns queued message count
+ */
+function notifySeller(sellerId: string, event: SellerNotificationEvent): number {
+  const seller = getSellerById(sellerId);
+  if (!seller) {
+    return 0;
+  }
+
+  return getSellerNotificationChannels(seller)
+    .flatMap((name) => NOTIFICATION_CHANNELS[name]?.notifySeller(seller, event) ?? []).length;
+}
+
+/**
+ * New order: group channels and every seller who has any of the items
+ * Items the buyer pinned to a seller only go to that seller for now
+ * Returns the Telegram group post (later edited as the order progresses)
+ */
+export function notifyOrderCreated(order: ProcessedOrder): {
+  telegramGroupPost: OutboxMessage | null;
+  sellersQueued: number;
+} {
+  const groupMessages = notifyGroups({ type: "created", order });
+
+  let sellersQueued = 0;
+  for (const group of order.sellerGroups) {
+    const visibleGroup = getVisibleSellerGroup(order, group);
+    if (visibleGroup) {
+      sellersQueued += notifySeller(group.sellerId, { type: "created", order, sellerGroup: visibleGroup });
+    }
+  }
+
+  return {
+    telegramGroupPost: groupMessages.find((message) => message.channel === "telegram") || null,
+    sellersQueued,
+  };
+}
+
+/**
+ * Items claimed (or the whole order accepted) by a seller: group channels only
+ */
+export function notifyOrderClaimed(order: StoredOrder, sellerDiscordId: string, items: NotificationItem[]): void {
+  notifyGroups({ type: "claimed", order, sellerDiscordId, items });
+}
+
+/**
+ * Items fulfilled by a seller: group channels only
+ */
+export function notifyOrderFulfilled(order: StoredOrder, sellerDiscordId: string, items: NotificationItem[]): void {
+  notifyGroups({ type: "fulfilled", order, sellerDiscordId, items });
+}
+
+/**
+ * Order cancelled: group channels and the sellers notified about it
+ */
+export function notifyOrderCancelled(order: StoredOrder, previousSellerGroups: SellerOrderGroup[]): number {
+  notifyGroups({ type: "cancelled", order });
+
+  let queued = 0;
+  for (const group of previousSellerGroups) {
+    queued += notifySeller(group.sellerId, { type: "cancelled", order, sellerGroup: null });
+  }
+  return queued;
+}
+
+/**
+ * Buyer edited the order:
+ * - sellers notified before get an update (or "no longer needed")
+ * - sellers newly involved get the regular new-order notification
+ */
+export function notifyOrderUpdated(order: StoredOrder, previousSellerGroups: SellerOrderGroup[]): number {
+  notifyGroups({ type: "updated", order });
+
+  // Sellers only hear about items they can see (see getVisibleSellerGroup)
+  const visiblePreviousGroups = previousSellerGroups.filter((g) => getVisibleSellerGroup(order, g));
+
+  let queued = 0;
+  for (const previousGroup of visiblePreviousGroups) {
+    const currentGroup = order.sellerGroups.find((g) => g.sellerId === previousGroup.sellerId);
+    queued += notifySeller(previousGroup.sellerId, {
+      type: "updated",
+      order,
+      sellerGroup: currentGroup ? getVisibleSellerGroup(order, currentGroup) : null,
+    });
+  }
+
+  for (const group of order.sellerGroups) {
+    const visibleGroup = getVisibleSellerGroup(order, group);
+    if (visibleGroup && !visiblePreviousGroups.some((g) => g.sellerId === group.sellerId)) {
+      queued += notifySeller(group.sellerId, { type: "created", order, sellerGroup: visibleGroup });
+    }
+  }
+  return queued;
+}
+
+/**
+ * Preferred-seller window over: the other sellers holding the pinned items
+ * that are still unclaimed get the regular new-order notification for them
+ */
+export function notifyPreferredSellerTimeout(order: StoredOrder, blueprintIds: string[]): number {
+  let queued = 0;
+  for (const group of order.sellerGroups) {
+    const items = group.items.filter((item) =>
+      order.preferredSellers?.some(
+        (p) => p.blueprintId === item.blueprintId && p.sellerId !== group.sellerId && blueprintIds.includes(p.blueprintId)
+      )
+    );
+    if (items.length > 0) {
+      queued += notifySeller(group.sellerId, {
+        type: "created",
+        order,
+        sellerGroup: { ...group, items, terms: calculateGroupTerms(items) },
+      });
+    }
+  }
+  return queued;
+}
@@ -0,0 +1,151 @@
+/**
+ * Order change feed for live dashboards (Server-Sent Events)
+ * orders.ts publishes after every saved change; SSE routes subscribe and
+ * build each client's own view of the changed order.
+ *
+ * Subscribers in the publishing process are called directly. With REDIS_URL
+ * set changes are also sent over a Redis pub/sub channel, so dashboards
+ * connected to other app processes get them too (whichever session store is used). Without Redis the
+ * feed is single-process: clients on other processes only pick a change up
+ * when their stream reconnects (streams are closed periodically for that reason).
+ */
+
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import { createRedisClient, subscribeRedisChannel, RedisClient, RedisSubscription } from "./redis-client";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type OrderChange =
+  | { type: "created" | "updated"; orderId: string }
+  // Many orders changed at once (e.g. admin cleared all orders) - clients should reload
+  | { type: "reset" };
+
+export type OrderChangeListener = (change: OrderChange) => void;
+
+// Message on the shared Redis channel
+interface OrderChangeMessage {
+  // Process that published the change (it has already notified its own subscribers)
+  from: string;
+  change: OrderChange;
+}
+
+interface OrderChangeFeed {
+  emitter: EventEmitter;
+  instanceId: string;
+  // Shared channel between app processes (null without Redis)
+  redis: {
+    url: string;
+    client: RedisClient;
+    channel: string;
+    subscription: RedisSubscription | null;
+  } | null;
+}
+
+// ============================================
+// FEED
+// ============================================
+
+const CHANGE_EVENT = "change";
+
+// Kept on globalThis so route bundles that load this module separately share one feed
+const feedHolder = globalThis as typeof globalThis & { __orderChangeFeed?: OrderChangeFeed };
+
+function getFeed(): OrderChangeFeed {
+  if (!feedHolder.__orderChangeFeed) {
+    const emitter = new EventEmitter();
+    // One listener per open dashboard tab
+    emitter.setMaxListeners(0);
+
+    let redis: OrderChangeFeed["redis"] = null;
+    const url = process.env.REDIS_URL;
+    if (url) {
+      const prefix = process.env.REDIS_KEY_PREFIX ?? "churchukbptrade:";
+      redis = {
+        url,
+        client: createRedisClient(url),
+        channel: `${prefix}order-changes`,
+        subscription: null,
+      };
+    }
+
+    feedHolder.__orderChangeFeed = { emitter, instanceId: crypto.randomUUID(), redis };
+  }
+  return feedHolder.__orderChangeFeed;
+}
+
+/**
+ * Call this process's subscribers on the next tick
+ */
+function notifyLocalSubscribers(feed: OrderChangeFeed, change: OrderChange): void {
+  if (feed.emitter.listenerCount(CHANGE_EVENT) === 0) {
+    return;
+  }
+
+  setImmediate(() => {
+    for (const listener of feed.emitter.listeners(CHANGE_EVENT) as OrderChangeListener[]) {
+      try {
+        listener(change);
+      } catch (error) {
+        // One broken stream must not stop the others
+        console.error("Order change listener failed:", error);
+      }
+    }
+  });
+}
+
+/**
+ * Start listening to the shared channel (once, on the first subscriber)
+ */
+function ensureSharedSubscription(feed: OrderChangeFeed): void {
+  if (!feed.redis || feed.redis.subscription) {
+    return;
+  }
+
+  feed.redis.subscription = subscribeRedisChannel(
+    feed.redis.url,
+    feed.redis.channel,
+    (payload) => {
+      let message: OrderChangeMessage;
+      try {
+        message = JSON.parse(payload) as OrderChangeMessage;
+      } catch {
+        return;
+      }
+      if (message.from !== feed.instanceId && message.change) {
+        notifyLocalSubscribers(feed, message.change);
+      }
+    }
+  );
+}
+
+/**
+ * Announce an order change to all subscribers
+ * Listeners run on the next tick, after the caller has released its order lock
+ */
+export function publishOrderChange(change: OrderChange): void {
+  const feed = getFeed();
+  notifyLocalSubscribers(feed, change);
+
+  if (feed.redis) {
+    const message: OrderChangeMessage = { from: feed.instanceId, change };
+    // Dashboards on other processes resync on reconnect if this is lost
+    feed.redis.client.command("PUBLISH", feed.redis.channel, JSON.stringify(message)).catch((error) => {
+      console.error("Failed to publish order change:", error);
+    });
+  }
+}
+
+/**
+ * Listen for order changes; returns the unsubscribe function
+ */
+export function subscribeToOrderChanges(listener: OrderChangeListener): () => void {
+  const feed = getFeed();
+  ensureSharedSubscription(feed);
+  feed.emitter.on(CHANGE_EVENT, listener);
+  return () => {
+    feed.emitter.off(CHANGE_EVENT, listener);
+  };
+}
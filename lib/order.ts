@@ -1,17 +1,31 @@
 // Order types and validation
 import crypto from "crypto";
 import { resolveOrderToSellers, getActiveSellers, requiresMultipleSellers } from "./sellers";
-import { getBlueprintById } from "./blueprints";
-import { SellerOrderGroup } from "./types";
+import { getAllBlueprintsWithInventory, getBlueprintById } from "./blueprints";
+import { AskingPrice, Buyer, OrderAssignment, Seller, SellerOrderGroup, SellerOrderTerms } from "./types";
+import { computeOrderAssignment, getAssignedBlueprintIds } from "./assignment";
+import { calculateGroupTerms, formatSellerTerms, hasPricedTerms } from "./pricing";
+import { enqueueOutboxMessage, getOutboxMessage, OutboxMessage } from "./telegram-outbox";
+import type { OrderStatus, StoredOrder } from "./orders";
+import { buildSellerOrderKeyboard, TelegramReplyMarkup } from "./telegram";
 
 // Fixed message for multi-seller orders (Ukrainian)
 export const MULTI_SELLER_OFFER_MESSAGE =
   "Це замовлення включає кількох продавців. Ціна/умови мають бути узгоджені в приватних повідомленнях (DM).";
 
+// Header of the multi-seller offer when sellers have set prices
+const MULTI_SELLER_TERMS_HEADER = "Це замовлення включає кількох продавців. Ціни продавців:";
+
+// How long a buyer-chosen seller has pinned items to themselves (overridable via env)
+const DEFAULT_PREFERRED_SELLER_HOURS = 2;
+
 export interface OrderItem {
   id: string;
-  name: string;
+  // Display name sent by the client; the server always uses the catalog name
+  name?: string;
   quantity: number;
+  // Discord ID of the seller the buyer wants this item from (optional)
+  preferredSeller?: string;
 }
 
 export interface OrderRequest {
@@ -33,16 +47,49 @@ export interface OrderValidationResult {
   errors: OrderValidationError[];
 }
 
+// Per-item stock problem returned to the checkout form
+export type OrderItemIssue = "unknown" | "out_of_stock" | "insufficient" | "seller_unavailable";
+
+export interface OrderItemStockError {
+  id: string;
+  issue: OrderItemIssue;
+  message: string;
+  requestedQty: number;
+  availableQty: number;
+}
+
+export interface OrderStockCheckResult {
+  valid: boolean;
+  itemErrors: OrderItemStockError[];
+}
+
+// Item the buyer pinned to a seller at checkout
+export interface OrderPreferredSeller {
+  blueprintId: string;
+  sellerId: string;
+  sellerDiscordId: string;
+}
+
 // Processed order with seller resolution
 export interface ProcessedOrder {
   orderId: string;
   buyerDiscordNick: string;
+  // Buyer account the order was placed from (missing for guest orders)
+  buyerId?: string;
+  // Guest order under a nick that a buyer account is registered with - the
+  // buyer may not be who they claim to be
+  buyerUnverified?: boolean;
   offer: string;
   originalOffer: string; // Original offer from buyer (before multi-seller override)
   notes?: string;
   sellerGroups: SellerOrderGroup[];
   isMultiSeller: boolean; // True if order REQUIRES multiple sellers (no single seller can fulfill all)
   sellerCount: number; // Number of unique sellers who have any of the items
+  // Pinned items: only the chosen seller is notified and can claim them until preferredUntil
+  preferredSellers?: OrderPreferredSeller[];
+  preferredUntil?: string;
+  // Suggested split across the fewest sellers when the order was placed (or last edited)
+  assignment?: OrderAssignment;
   createdAt: string;
 }
 
@@ -120,12 +167,23 @@ export function validateOrder(data: unknown): OrderValidationResult {
         if (!item.id || typeof item.id !== "string") {
           errors.push({ field: `items[${i}].id`, message: "Відсутній ID креслення" });
         }
-        if (!item.name || typeof item.name !== "string") {
-          errors.push({ field: `items[${i}].name`, message: "Відсутня назва креслення" });
-        }
-        if (typeof item.quantity !== "number" || item.quantity < 1 || item.quantity > 999) {
+        if (typeof item.quantity !== "number" || !Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > 999) {
           errors.push({ field: `items[${i}].quantity`, message: "Невірна кількість (1-999)" });
         }
+        if (
+          item.preferredSeller !== undefined &&
+          (typeof item.preferredSeller !== "string" || item.preferredSeller.length > 64)
+        ) {
+          errors.push({ field: `items[${i}].preferredSeller`, message: "Невірний продавець" });
+        }
+      }
+
+      // Each blueprint once - quantities are checked against stock per blueprint
+      const ids = order.items
+        .map((item) => (item as Record<string, unknown> | null)?.id)
+        .filter((id): id is string => typeof id === "string");
+      if (new Set(ids).size !== ids.length) {
+        errors.push({ field: "items", message: "Креслення в замовленні повторюються" });
       }
     }
   }
@@ -136,10 +194,217 @@ export function validateOrder(data: unknown): OrderValidationResult {
   };
 }
 
+/**
+ * Check order items against the catalog and current stock
+ * Available quantity is the same total the catalog shows (seller inventory
+ * minus reserved stock, plus legacy stock). Nothing is clamped here - the
+ * buyer confirms reduced quantities in the checkout form.
+ * Items pinned to a seller must be fully available from that seller.
+ */
+export function checkOrderStock(items: OrderItem[]): OrderStockCheckResult {
+  const blueprints = new Map(getAllBlueprintsWithInventory().map((bp) => [bp.id, bp]));
+  const itemErrors: OrderItemStockError[] = [];
+
+  for (const item of items) {
+    const blueprint = blueprints.get(item.id);
+
+    if (!blueprint) {
+      itemErrors.push({
+        id: item.id,
+        issue: "unknown",
+        message: "Такого креслення немає в каталозі",
+        requestedQty: item.quantity,
+        availableQty: 0,
+      });
+    } else if (blueprint.totalQty === 0) {
+      itemErrors.push({
+        id: item.id,
+        issue: "out_of_stock",
+        message: "Немає в наявності",
+        requestedQty: item.quantity,
+        availableQty: 0,
+      });
+    } else if (item.quantity > blueprint.totalQty) {
+      itemErrors.push({
+        id: item.id,
+        issue: "insufficient",
+        message: `Доступно лише ${blueprint.totalQty} шт.`,
+        requestedQty: item.quantity,
+        availableQty: blueprint.totalQty,
+      });
+    } else if (item.preferredSeller) {
+      const preferred = item.preferredSeller.toLowerCase();
+      const seller = blueprint.sellers?.find((entry) => entry.discordId.toLowerCase() === preferred);
+      const sellerQty = seller?.quantity || 0;
+      if (item.quantity > sellerQty) {
+        itemErrors.push({
+          id: item.id,
+          issue: "seller_unavailable",
+          message:
+            seller
+              ? `У ${seller.discordId} лише ${sellerQty} шт. Оберіть іншого продавця`
+              : `${item.preferredSeller} більше не має цього креслення. Оберіть іншого продавця`,
+          requestedQty: item.quantity,
+          availableQty: blueprint.totalQty,
+        });
+      }
+    }
+  }
+
+  return {
+    valid: itemErrors.length === 0,
+    itemErrors,
+  };
+}
+
+// ============================================
+// PREFERRED SELLERS
+// ============================================
+
+/**
+ * Hours a buyer-chosen seller has pinned items to themselves
+ * ORDER_PREFERRED_SELLER_HOURS overrides the default
+ */
+export function getPreferredSellerHours(): number {
+  const value = Number(process.env.ORDER_PREFERRED_SELLER_HOURS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_PREFERRED_SELLER_HOURS;
+}
+
+/**
+ * Seller an item is pinned to right now (null once the window is over)
+ */
+export function getActivePreferredSeller(
+  order: ProcessedOrder,
+  blueprintId: string,
+  now: number = Date.now()
+): OrderPreferredSeller | null {
+  if (!order.preferredUntil || now >= new Date(order.preferredUntil).getTime()) {
+    return null;
+  }
+  return order.preferredSellers?.find((p) => p.blueprintId === blueprintId) || null;
+}
+
+/**
+ * The part of a seller's group they are told about right now
+ * Items pinned to another seller are left out while the window lasts;
+ * null if nothing is left
+ */
+export function getVisibleSellerGroup(
+  order: ProcessedOrder,
+  group: SellerOrderGroup,
+  now: number = Date.now()
+): SellerOrderGroup | null {
+  const items = group.items.filter((item) => {
+    const preferred = getActivePreferredSeller(order, item.blueprintId, now);
+    return !preferred || preferred.sellerId === group.sellerId;
+  });
+
+  if (items.length === 0) {
+    return null;
+  }
+  if (items.length === group.items.length) {
+    return group;
+  }
+  return { ...group, items, terms: calculateGroupTerms(items) };
+}
+
+/**
+ * Resolve the sellers the buyer pinned items to
+ * Pins to sellers that are not in the order's seller groups are dropped
+ */
+function resolvePreferredSellers(
+  items: OrderItem[],
+  sellerGroups: SellerOrderGroup[]
+): OrderPreferredSeller[] {
+  return items.flatMap((item) => {
+    if (!item.preferredSeller) return [];
+    const preferred = item.preferredSeller.toLowerCase();
+    const group = sellerGroups.find(
+      (g) =>
+        g.sellerDiscordId.toLowerCase() === preferred &&
+        g.items.some((i) => i.blueprintId === item.id && i.available)
+    );
+    return group
+      ? [{ blueprintId: item.id, sellerId: group.sellerId, sellerDiscordId: group.sellerDiscordId }]
+      : [];
+  });
+}
+
+/**
+ * Offer shown to sellers
+ * Multi-seller orders list each seller's terms instead of the buyer's offer;
+ * the DM disclaimer is only used when no seller has set a price
+ */
+export function getDisplayedOffer(
+  originalOffer: string,
+  isMultiSeller: boolean,
+  sellerGroups: SellerOrderGroup[]
+): string {
+  if (!isMultiSeller) {
+    return originalOffer;
+  }
+
+  if (!sellerGroups.some((group) => group.terms && hasPricedTerms(group.terms))) {
+    return MULTI_SELLER_OFFER_MESSAGE;
+  }
+
+  const lines = sellerGroups.map(
+    (group) => `• ${group.sellerDiscordId}: ${group.terms ? formatSellerTerms(group.terms) : "за домовленістю"}`
+  );
+  return `${MULTI_SELLER_TERMS_HEADER}\n${lines.join("\n")}`;
+}
+
+// ============================================
+// CHECKOUT QUOTE
+// ============================================
+
+// What one seller can supply from a cart and what they ask for it
+export interface SellerQuote {
+  sellerDiscordId: string;
+  items: {
+    blueprintId: string;
+    blueprintName: string;
+    quantity: number; // Part of the requested quantity this seller has
+    unitPrice?: AskingPrice;
+  }[];
+  terms: SellerOrderTerms;
+  // Seller has every item in the requested quantity
+  coversAll: boolean;
+}
+
+/**
+ * Per-seller totals for a cart (shown in checkout before the order is placed)
+ * Sellers that can supply the whole cart come first
+ */
+export function quoteOrder(items: { id: string; quantity: number }[]): SellerQuote[] {
+  const itemsWithNames = items.flatMap((item) => {
+    const blueprint = getBlueprintById(item.id);
+    return blueprint ? [{ blueprintId: item.id, blueprintName: blueprint.name, quantity: item.quantity }] : [];
+  });
+
+  const quotes = resolveOrderToSellers(itemsWithNames).map((group): SellerQuote => ({
+    sellerDiscordId: group.sellerDiscordId,
+    items: group.items.map((item) => ({
+      blueprintId: item.blueprintId,
+      blueprintName: item.blueprintName,
+      quantity: Math.min(item.requestedQty, item.availableQty),
+      unitPrice: item.unitPrice,
+    })),
+    terms: group.terms!,
+    coversAll: group.items.length === itemsWithNames.length && group.items.every((item) => item.available),
+  }));
+
+  return quotes.sort(
+    (a, b) => Number(b.coversAll) - Number(a.coversAll) || b.items.length - a.items.length
+  );
+}
+
 /**
  * Process order and resolve to sellers
+ * Items must have passed checkOrderStock (names come from the catalog).
+ * Orders from a logged-in buyer use the account's Discord ID, not the typed nick.
  */
-export function processOrder(order: OrderRequest): ProcessedOrder {
+export function processOrder(order: OrderRequest, buyer?: Buyer, buyerUnverified: boolean = false): ProcessedOrder {
   const orderId = generateOrderId();
   const createdAt = new Date().toISOString();
 
@@ -148,7 +413,7 @@ export function processOrder(order: OrderRequest): ProcessedOrder {
     const blueprint = getBlueprintById(item.id);
     return {
       blueprintId: item.id,
-      blueprintName: blueprint?.name || item.name,
+      blueprintName: blueprint?.name || item.id,
       quantity: item.quantity,
     };
   });
@@ -171,17 +436,31 @@ export function processOrder(order: OrderRequest): ProcessedOrder {
   const originalOffer = order.offer.trim();
 
   // Only override offer when order actually REQUIRES multiple sellers
-  const offer = isMultiSeller ? MULTI_SELLER_OFFER_MESSAGE : originalOffer;
+  const offer = getDisplayedOffer(originalOffer, isMultiSeller, sellerGroups);
+
+  // Items pinned to a seller are theirs alone for a while
+  const preferredSellers = resolvePreferredSellers(order.items, sellerGroups);
+  const preferredUntil =
+    preferredSellers.length > 0
+      ? new Date(new Date(createdAt).getTime() + getPreferredSellerHours() * 60 * 60 * 1000).toISOString()
+      : undefined;
+
+  // Suggested split across the fewest sellers
+  const assignment = computeOrderAssignment(itemsForCheck, preferredSellers);
 
   return {
     orderId,
-    buyerDiscordNick: order.discordNick.trim(),
+    buyerDiscordNick: buyer ? buyer.discordId : order.discordNick.trim(),
+    buyerId: buyer?.id,
+    ...(buyerUnverified ? { buyerUnverified } : {}),
     offer,
     originalOffer,
     notes: order.notes?.trim(),
     sellerGroups,
     isMultiSeller,
     sellerCount,
+    ...(preferredUntil ? { preferredSellers, preferredUntil } : {}),
+    assignment,
     createdAt,
   };
 }
@@ -214,6 +493,9 @@ export function formatAdminTelegramMessage(
   message += `\n\n`;
   message += `📋 <b>Order ID:</b> ${processedOrder.orderId}\n`;
   message += `👤 <b>Discord:</b> ${escapeHtml(processedOrder.buyerDiscordNick)}\n`;
+  if (processedOrder.buyerUnverified) {
+    message += `⚠️ <b>Unverified:</b> guest order under a registered buyer's nick\n`;
+  }
 
   // For multi-seller orders, show both original offer and the override message
   if (processedOrder.isMultiSeller) {
@@ -250,7 +532,10 @@ export function formatSellerTelegramMessage(
       const status = item.available
         ? `✅ Є в наявності (${item.availableQty} шт.)`
         : `❌ Немає в наявності (${item.availableQty} шт.)`;
-      return `  • ${item.blueprintName} ×${item.requestedQty}\n    ${status}`;
+      const preferred = processedOrder.preferredSellers?.some(
+        (p) => p.blueprintId === item.blueprintId && p.sellerId === sellerGroup.sellerId
+      );
+      return `  • ${item.blueprintName} ×${item.requestedQty}${preferred ? " ⭐" : ""}\n    ${status}`;
     })
     .join("\n\n");
 
@@ -264,6 +549,9 @@ export function formatSellerTelegramMessage(
   message += `\n\n`;
   message += `📋 <b>Order ID:</b> ${processedOrder.orderId}\n`;
   message += `👤 <b>Discord покупця:</b> ${escapeHtml(processedOrder.buyerDiscordNick)}\n`;
+  if (processedOrder.buyerUnverified) {
+    message += `⚠️ <b>Не підтверджено:</b> гостьове замовлення на нік зареєстрованого покупця - перевірте, з ким говорите\n`;
+  }
   message += `💬 <b>Пропозиція:</b> ${escapeHtml(processedOrder.offer)}\n`;
 
   // Always show notes (with "немає" if empty)
@@ -275,6 +563,27 @@ export function formatSellerTelegramMessage(
 
   message += `\n<b>Замовлені позиції:</b>\n\n${escapeHtml(itemsList)}\n\n`;
 
+  // This seller's own prices for what they can supply
+  if (sellerGroup.terms && hasPricedTerms(sellerGroup.terms)) {
+    message += `💰 <b>Ваша ціна:</b> ${escapeHtml(formatSellerTerms(sellerGroup.terms))}\n`;
+  }
+
+  // Items the suggested split gives to this seller
+  if (processedOrder.isMultiSeller) {
+    const suggested = getAssignedBlueprintIds(processedOrder.assignment, sellerGroup.sellerId);
+    const names = sellerGroup.items
+      .filter((item) => suggested.includes(item.blueprintId))
+      .map((item) => item.blueprintName);
+    if (names.length > 0) {
+      message += `🧩 <b>Рекомендовано вам:</b> ${escapeHtml(names.join(", "))}\n`;
+    }
+  }
+
+  // Items the buyer chose this seller for
+  if (processedOrder.preferredUntil && processedOrder.preferredSellers?.some((p) => p.sellerId === sellerGroup.sellerId)) {
+    message += `⭐ <b>Покупець обрав вас</b> для позицій з ⭐ — інші продавці не бачать їх протягом ${getPreferredSellerHours()} год.\n`;
+  }
+
   const availableCount = sellerGroup.items.filter((i) => i.available).length;
   const totalCount = sellerGroup.items.length;
   message += `📊 <b>Підсумок:</b> ${availableCount}/${totalCount} позицій в наявності`;
@@ -285,7 +594,7 @@ export function formatSellerTelegramMessage(
 /**
  * Escape HTML special characters for Telegram
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   return text
     .replace(/&/g, "&amp;")
     .replace(/</g, "&lt;")
@@ -350,15 +659,20 @@ export function formatGroupTelegramMessage(
 
   // Section 1: Buyer Information
   let message = `🧑 <b>Buyer:</b>\n`;
-  message += `Discord: ${escapeHtml(processedOrder.buyerDiscordNick)}\n`;
+  message += `Discord: ${escapeHtml(processedOrder.buyerDiscordNick)}${processedOrder.buyerUnverified ? " ⚠️ unverified" : ""}\n`;
   message += `Order ID: ${processedOrder.orderId}\n`;
 
   // Section 2: Blueprints with Seller Availability
   message += `\n📦 <b>Blueprints:</b>\n`;
 
-  blueprintAvailability.forEach((bpData) => {
+  blueprintAvailability.forEach((bpData, blueprintId) => {
     message += `- ${escapeHtml(bpData.blueprintName)} x${bpData.requestedQty}\n`;
 
+    const preferred = processedOrder.preferredSellers?.find((p) => p.blueprintId === blueprintId);
+    if (preferred) {
+      message += `  ⭐ Buyer prefers: ${escapeHtml(preferred.sellerDiscordId)}\n`;
+    }
+
     if (bpData.sellers.length === 0) {
       message += `  • No active sellers have this blueprint\n`;
     } else {
@@ -374,6 +688,20 @@ export function formatGroupTelegramMessage(
     }
   });
 
+  // Suggested split (only interesting when no single seller has everything)
+  if (processedOrder.isMultiSeller && processedOrder.assignment) {
+    const nameOf = (blueprintId: string) =>
+      escapeHtml(blueprintAvailability.get(blueprintId)?.blueprintName || blueprintId);
+
+    message += `\n🧩 <b>Suggested split:</b>\n`;
+    for (const seller of processedOrder.assignment.sellers) {
+      message += `- ${escapeHtml(seller.sellerDiscordId)}: ${seller.blueprintIds.map(nameOf).join(", ")}\n`;
+    }
+    if (processedOrder.assignment.unassignedBlueprintIds.length > 0) {
+      message += `- No single seller has enough: ${processedOrder.assignment.unassignedBlueprintIds.map(nameOf).join(", ")}\n`;
+    }
+  }
+
   // Section 3: Buyer Offer
   message += `\n💬 <b>Buyer Offer:</b>\n`;
   message += escapeHtml(processedOrder.offer);
@@ -382,98 +710,189 @@ export function formatGroupTelegramMessage(
 }
 
 /**
- * Send order notification to Telegram group
+ * Queue order notification for the Telegram group
  */
-export async function sendGroupNotification(
-  botToken: string,
+export function queueGroupNotification(
   groupChatId: string,
   processedOrder: ProcessedOrder
-): Promise<{ success: boolean; error?: string }> {
-  const message = formatGroupTelegramMessage(processedOrder);
+): OutboxMessage {
+  return enqueueOutboxMessage({
+    kind: "group",
+    chatId: groupChatId,
+    text: formatGroupTelegramMessage(processedOrder),
+    orderId: processedOrder.orderId,
+  });
+}
 
-  try {
-    const result = await sendTelegramMessage(botToken, groupChatId, message);
+// Status line on top of an updated group post
+const GROUP_POST_STATUS_LABELS: Record<OrderStatus, string> = {
+  open: "🟢 <b>OPEN</b>",
+  in_progress: "🟡 <b>IN PROGRESS</b>",
+  completed: "✅ <b>COMPLETED</b>",
+  closed: "✅ <b>CLOSED</b>",
+  cancelled: "🚫 <b>CANCELLED</b>",
+  expired: "⌛ <b>EXPIRED</b>",
+};
 
-    if (!result.success) {
-      console.error("Failed to send group notification:", result.error);
-    }
+// Statuses after which the post is struck through
+const GROUP_POST_DONE_STATUSES: OrderStatus[] = ["completed", "closed", "cancelled", "expired"];
 
-    return result;
-  } catch (error) {
-    console.error("Group notification error:", error);
-    return { success: false, error: "Failed to send group notification" };
+/**
+ * Format the group post for the current state of a stored order
+ * Shows who claimed/fulfilled how much of each item; struck through once the order is done
+ */
+export function formatGroupOrderUpdateMessage(order: StoredOrder): string {
+  let body = `🧑 <b>Buyer:</b>\n`;
+  body += `Discord: ${escapeHtml(order.buyerDiscordNick)}${order.buyerUnverified ? " ⚠️ unverified" : ""}\n`;
+  body += `Order ID: ${order.orderId}\n`;
+
+  body += `\n📦 <b>Blueprints:</b>\n`;
+  for (const claim of order.itemClaims) {
+    const states = claim.slices.map((slice) => {
+      const seller = escapeHtml(slice.sellerDiscordId);
+      return slice.status === "fulfilled"
+        ? `✅ Fulfilled by ${seller} x${slice.quantity}`
+        : `🔒 Claimed by ${seller} x${slice.quantity}`;
+    });
+    const openQty = claim.requestedQty - claim.slices.reduce((sum, slice) => sum + slice.quantity, 0);
+    if (openQty > 0) {
+      states.push(claim.slices.length > 0 ? `⏳ x${openQty} unclaimed` : `⏳ Unclaimed`);
+    }
+    body += `- ${escapeHtml(claim.blueprintName)} x${claim.requestedQty} — ${states.join(", ")}\n`;
   }
+
+  body += `\n💬 <b>Buyer Offer:</b>\n`;
+  body += escapeHtml(order.offer);
+
+  const header = GROUP_POST_STATUS_LABELS[order.status];
+  return GROUP_POST_DONE_STATUSES.includes(order.status)
+    ? `${header}\n\n<s>${body}</s>`
+    : `${header}\n\n${body}`;
 }
 
 /**
- * Send message to Telegram
+ * Queue an edit of the order's group post to match its current state
+ * Does nothing for orders without a group post
  */
-export async function sendTelegramMessage(
-  botToken: string,
-  chatId: string,
-  message: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        chat_id: chatId,
-        text: message,
-        parse_mode: "HTML",
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      console.error("Telegram API error:", errorData);
-      return { success: false, error: "Failed to send message" };
-    }
+export function queueGroupPostUpdate(order: StoredOrder): void {
+  if (!order.groupPostOutboxId) {
+    return;
+  }
 
-    return { success: true };
-  } catch (error) {
-    console.error("Telegram send error:", error);
-    return { success: false, error: "Telegram connection error" };
+  const groupPost = getOutboxMessage(order.groupPostOutboxId);
+  if (!groupPost) {
+    return;
   }
+
+  enqueueOutboxMessage({
+    kind: "group",
+    chatId: groupPost.chatId,
+    text: formatGroupOrderUpdateMessage(order),
+    editsMessageId: groupPost.id,
+    orderId: order.orderId,
+  });
 }
 
 /**
- * Send order notifications to all relevant sellers
+ * Queue order notification for the admin chat
  */
-export async function sendSellerNotifications(
-  botToken: string,
-  processedOrder: ProcessedOrder
-): Promise<{ sent: number; failed: number }> {
-  let sent = 0;
-  let failed = 0;
+export function queueAdminNotification(
+  adminChatId: string,
+  processedOrder: ProcessedOrder,
+  userAgent?: string
+): OutboxMessage {
+  return enqueueOutboxMessage({
+    kind: "admin",
+    chatId: adminChatId,
+    text: formatAdminTelegramMessage(processedOrder, userAgent),
+    orderId: processedOrder.orderId,
+  });
+}
 
-  for (const sellerGroup of processedOrder.sellerGroups) {
-    if (!sellerGroup.sellerTelegramChatId) {
-      // Seller has no Telegram chat ID configured
-      continue;
-    }
+/**
+ * Buttons on a seller's order notification; the webhook swaps them for
+ * fulfil/release once the seller has claimed items
+ */
+function getNewOrderKeyboard(processedOrder: ProcessedOrder): TelegramReplyMarkup {
+  return buildSellerOrderKeyboard(processedOrder.orderId, ["accept", "claim"]);
+}
 
-    // Pass full order to include buyer Discord and notes
-    const message = formatSellerTelegramMessage(processedOrder, sellerGroup);
+/**
+ * Queue a new-order notification for one seller (with order buttons)
+ */
+export function queueSellerNotification(
+  chatId: string,
+  processedOrder: ProcessedOrder,
+  sellerGroup: SellerOrderGroup
+): OutboxMessage {
+  return enqueueOutboxMessage({
+    kind: "seller",
+    chatId,
+    // Full order to include buyer Discord and notes
+    text: formatSellerTelegramMessage(processedOrder, sellerGroup),
+    replyMarkup: getNewOrderKeyboard(processedOrder),
+    orderId: processedOrder.orderId,
+    sellerId: sellerGroup.sellerId,
+    sellerDiscordId: sellerGroup.sellerDiscordId,
+  });
+}
 
-    const result = await sendTelegramMessage(
-      botToken,
-      sellerGroup.sellerTelegramChatId,
-      message
-    );
+/**
+ * Format Telegram follow-up for a seller when the buyer cancelled the order
+ */
+export function formatSellerOrderCancelledMessage(processedOrder: ProcessedOrder): string {
+  let message = `🚫 <b>ЗАМОВЛЕННЯ СКАСОВАНО ПОКУПЦЕМ</b>\n\n`;
+  message += `📋 <b>Order ID:</b> ${processedOrder.orderId}\n`;
+  message += `👤 <b>Discord покупця:</b> ${escapeHtml(processedOrder.buyerDiscordNick)}\n\n`;
+  message += `Нічого робити не потрібно.`;
 
-    if (result.success) {
-      sent++;
-    } else {
-      failed++;
-      console.error(
-        `Failed to send notification to seller ${sellerGroup.sellerId}:`,
-        result.error
-      );
-    }
+  return message;
+}
+
+/**
+ * Format Telegram follow-up for a seller when the buyer changed item quantities
+ * sellerGroup is null when the order no longer contains anything this seller has
+ */
+export function formatSellerOrderUpdatedMessage(
+  processedOrder: ProcessedOrder,
+  sellerGroup: SellerOrderGroup | null
+): string {
+  if (!sellerGroup) {
+    let message = `✏️ <b>ЗАМОВЛЕННЯ ЗМІНЕНО ПОКУПЦЕМ</b>\n\n`;
+    message += `📋 <b>Order ID:</b> ${processedOrder.orderId}\n\n`;
+    message += `Ваші позиції більше не потрібні в цьому замовленні.`;
+    return message;
   }
 
-  return { sent, failed };
+  // Same layout as the original notification, with an "updated" header
+  return formatSellerTelegramMessage(processedOrder, sellerGroup).replace(
+    `📦 <b>НОВЕ ЗАМОВЛЕННЯ</b>`,
+    `✏️ <b>ЗАМОВЛЕННЯ ЗМІНЕНО ПОКУПЦЕМ</b>`
+  );
+}
+
+/**
+ * Queue a follow-up for a seller notified before, after the order was cancelled or edited
+ * sellerGroup is the seller's part of the order now (null if no longer involved)
+ */
+export function queueSellerOrderFollowUp(
+  chatId: string,
+  processedOrder: ProcessedOrder,
+  seller: Seller,
+  sellerGroup: SellerOrderGroup | null,
+  kind: "cancelled" | "updated"
+): OutboxMessage {
+  return enqueueOutboxMessage({
+    kind: "seller",
+    chatId,
+    text:
+      kind === "cancelled"
+        ? formatSellerOrderCancelledMessage(processedOrder)
+        : formatSellerOrderUpdatedMessage(processedOrder, sellerGroup),
+    replyMarkup:
+      kind === "updated" && sellerGroup ? getNewOrderKeyboard(processedOrder) : undefined,
+    orderId: processedOrder.orderId,
+    sellerId: seller.id,
+    sellerDiscordId: seller.discordId,
+  });
 }
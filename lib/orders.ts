@@ -3,24 +3,65 @@
  * Orders are stored with seller links and claim tracking for efficient querying
  */
 
-import fs from "fs";
-import path from "path";
-import { safeWriteJson, safeReadJson, withFileLock } from "./safe-file";
-import { ProcessedOrder } from "./order";
-import { getSellerById, getSellerBlueprintQuantity, updateSellerInventoryItem } from "./sellers";
-import { canSellerReceiveOrders } from "./types";
-
-// Data directory for orders
-const DATA_DIR = path.join(process.cwd(), "data");
-const ORDERS_DIR = path.join(DATA_DIR, "orders");
+import crypto from "crypto";
+import { withFileLock } from "./safe-file";
+import { getStorage, OrderQuery } from "./storage";
+import { getOrderFilePath } from "./storage-json";
+import {
+  ProcessedOrder,
+  OrderItemStockError,
+  checkOrderStock,
+  getActivePreferredSeller,
+  getDisplayedOffer,
+  queueGroupPostUpdate,
+} from "./order";
+import {
+  getSellerById,
+  getSellerBlueprintQuantity,
+  getSellerUnreservedQuantity,
+  prepareSellerReservation,
+  prepareSellerReservationRelease,
+  prepareSellerReservationCommits,
+  prepareSellerRating,
+  withSellerLock,
+  withSellerLocks,
+  resolveOrderToSellers,
+  requiresMultipleSellers,
+} from "./sellers";
+import { canSellerReceiveOrders, getAverageRating, SellerOrderGroup, SellerWithInventory } from "./types";
+import { computeOrderAssignment, getAssignedBlueprintIds, getAssignedSeller } from "./assignment";
+import {
+  notifyOrderCancelled,
+  notifyOrderClaimed,
+  notifyOrderFulfilled,
+  notifyOrderUpdated,
+  notifyPreferredSellerTimeout,
+  NotificationItem,
+} from "./notifications";
+import { publishOrderChange } from "./order-stream";
 
 // ============================================
 // ORDER STATUS TYPES
 // ============================================
 
-export type OrderStatus = "open" | "in_progress" | "completed" | "closed" | "cancelled";
+export type OrderStatus = "open" | "in_progress" | "completed" | "closed" | "cancelled" | "expired";
+
+// Statuses after which an order can no longer change (archived)
+const FINAL_ORDER_STATUSES: OrderStatus[] = ["closed", "cancelled", "expired"];
+
+/**
+ * Check if order status is final (closed, cancelled or expired)
+ */
+export function isFinalOrderStatus(status: OrderStatus): boolean {
+  return FINAL_ORDER_STATUSES.includes(status);
+}
+
+// Item-level status derived from the item's claim slices:
+// "partially_claimed" until the slices cover the requested quantity,
+// "fulfilled" once they cover it and every slice is fulfilled
+export type ItemClaimStatus = "unclaimed" | "partially_claimed" | "claimed" | "fulfilled";
 
-export type ItemClaimStatus = "unclaimed" | "claimed" | "fulfilled";
+export type ClaimSliceStatus = "claimed" | "fulfilled";
 
 // Per-seller state for tracking individual seller closure
 export type SellerOrderStatus = "active" | "closed";
@@ -31,18 +72,89 @@ export interface SellerOrderState {
   closedAt?: string;
 }
 
+// Record of a claim released automatically by the sweeper
+export interface ClaimReleaseRecord {
+  blueprintId: string;
+  sellerId: string;
+  sellerDiscordId?: string;
+  // Quantity of the released slice (missing on records from before claim slices)
+  quantity?: number;
+  claimedAt?: string;
+  releasedAt: string;
+  reason: string;
+}
+
+// Who performed an order action
+export type OrderEventActorRole = "buyer" | "seller" | "admin" | "system";
+
+export type OrderEventAction =
+  | "created"
+  | "updated"
+  | "accepted"
+  | "claimed"
+  | "fulfilled"
+  | "released"
+  | "closed"
+  | "cancelled"
+  | "expired"
+  | "opened"
+  | "rated";
+
+// Entry in the append-only order history
+export interface OrderEvent {
+  at: string;
+  actorRole: OrderEventActorRole;
+  actorId?: string;
+  // Human-readable actor name (seller Discord ID / buyer nick)
+  actorName?: string;
+  action: OrderEventAction;
+  // Affected items (blueprint + quantity)
+  items?: { blueprintId: string; quantity: number }[];
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  note?: string;
+}
+
+// Buyer's rating of one seller on a closed order
+export interface SellerFeedback {
+  sellerId: string;
+  sellerDiscordId: string;
+  rating: number; // 1-5
+  comment?: string;
+  createdAt: string;
+}
+
+// Part of an item taken by one seller
+// A seller has at most one "claimed" slice per item; claiming more grows it
+export interface OrderItemClaimSlice {
+  sellerId: string;
+  sellerDiscordId: string;
+  quantity: number;
+  status: ClaimSliceStatus;
+  claimedAt: string;
+  fulfilledAt?: string;
+  // Stock reserved in the seller's inventory for this slice (missing on legacy claims)
+  reservedQuantity?: number;
+}
+
 // Item-level claim information
 export interface OrderItemClaim {
   blueprintId: string;
   blueprintName: string;
   requestedQty: number;
-  // Claim fields
   claimStatus: ItemClaimStatus;
+  // Slices taken by sellers (together at most requestedQty)
+  slices: OrderItemClaimSlice[];
+}
+
+// Single-seller claim fields of orders stored before claim slices
+interface LegacyItemClaimFields {
   claimedBySellerId?: string;
   claimedBySellerDiscordId?: string;
   claimedQuantity?: number;
   claimedAt?: string;
   fulfilledAt?: string;
+  reservedQuantity?: number;
 }
 
 // Stored order extends ProcessedOrder with claim tracking
@@ -62,12 +174,28 @@ export interface StoredOrder extends ProcessedOrder {
   // Lifecycle timestamps (for global close)
   closedAt?: string;
   closedBySellerId?: string;
+  // Secret token for the buyer's tracking link (missing on legacy orders)
+  accessToken?: string;
+  // Expiry info (set by the stale order sweeper)
+  expiredAt?: string;
+  expiryReason?: string;
+  // Claims released by the sweeper because they were never fulfilled
+  claimReleases?: ClaimReleaseRecord[];
+  // Append-only history of actions on this order (missing on legacy orders)
+  events?: OrderEvent[];
+  // Outbox ID of the group chat post; the outbox keeps its Telegram message_id
+  groupPostOutboxId?: string;
+  // When the sweep opened the pinned items to the other sellers
+  preferenceTimedOutAt?: string;
+  // Buyer feedback, one entry per seller who fulfilled items
+  sellerFeedback?: SellerFeedback[];
 }
 
 // Order view for seller (filtered to only their unclaimed/claimable items)
 export interface SellerOrderView {
   orderId: string;
   buyerDiscordNick: string;
+  buyerUnverified?: boolean;
   offer: string;
   notes?: string;
   isMultiSeller: boolean;
@@ -86,33 +214,95 @@ export interface SellerOrderView {
     availableQty: number;
     // Claim info
     claimStatus: ItemClaimStatus;
-    claimedByMe: boolean;
-    claimedBySellerId?: string;
-    claimedBySellerDiscordId?: string;
-    claimedQuantity?: number;
+    claimedQty: number;  // Covered by all sellers' slices
+    remainingQty: number;  // Still open for claiming
+    claimedByMe: boolean;  // This seller holds a slice of the item
+    myClaimStatus?: ClaimSliceStatus;  // "claimed" while any of my quantity is unfulfilled
+    myClaimedQty: number;
+    // Buyer chose this seller for the item
+    preferredForMe: boolean;
+    // Suggested split gives this item to this seller
+    suggestedForMe: boolean;
   }[];
+  // End of the window in which pinned items are only offered to this seller
+  preferredUntil?: string;
   // Summary
   canAcceptFull: boolean;  // Can this seller accept the entire order?
   claimableItemCount: number;  // How many items can this seller claim?
   myClaimedItemCount: number;  // How many items has this seller claimed?
+  suggestedItemCount: number;  // Unclaimed items the suggested split gives to this seller
+}
+
+// Order view for the buyer (tracking page)
+// Only exposes what the buyer is allowed to see - no seller-internal IDs or stock levels
+export interface BuyerOrderView {
+  orderId: string;
+  buyerDiscordNick: string;
+  offer: string; // The buyer's own offer (before multi-seller override)
+  notes?: string;
+  createdAt: string;
+  status: OrderStatus;
+  closedAt?: string;
+  expiredAt?: string;
+  items: {
+    blueprintId: string;
+    blueprintName: string;
+    requestedQty: number;
+    claimStatus: ItemClaimStatus;
+    claimedQty: number;
+    // Which seller took how much
+    slices: {
+      sellerDiscordId: string;
+      quantity: number;
+      status: ClaimSliceStatus;
+      claimedAt: string;
+      fulfilledAt?: string;
+    }[];
+  }[];
+  // Buyer can still cancel or change quantities (nothing claimed yet)
+  canModify: boolean;
+  // Sellers who fulfilled items, with the buyer's feedback once given
+  // (empty until the order is completed or closed)
+  sellerFeedback: { sellerDiscordId: string; rating?: number; comment?: string }[];
+}
+
+// Entry of a buyer account's order history
+export interface BuyerOrderHistoryEntry extends BuyerOrderView {
+  trackingUrl: string | null;
 }
 
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
-function ensureDirectories(): void {
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
+/**
+ * Generate a non-guessable access token for the buyer's tracking link
+ */
+function generateAccessToken(): string {
+  return crypto.randomBytes(24).toString("hex");
+}
+
+/**
+ * Check a buyer-supplied token against the order's access token (constant-time)
+ */
+function isValidAccessToken(order: StoredOrder, accessToken: string): boolean {
+  if (!order.accessToken || typeof accessToken !== "string") {
+    return false;
   }
-  if (!fs.existsSync(ORDERS_DIR)) {
-    fs.mkdirSync(ORDERS_DIR, { recursive: true });
+  if (order.accessToken.length !== accessToken.length) {
+    return false;
   }
+  return crypto.timingSafeEqual(Buffer.from(order.accessToken), Buffer.from(accessToken));
 }
 
-function getOrderFilePath(orderId: string): string {
-  const safeId = orderId.replace(/[^a-zA-Z0-9-_]/g, "_");
-  return path.join(ORDERS_DIR, `${safeId}.json`);
+/**
+ * Build the buyer tracking URL (relative) for an order
+ */
+export function getOrderTrackingPath(order: StoredOrder): string | null {
+  if (!order.accessToken) {
+    return null;
+  }
+  return `/order/${encodeURIComponent(order.orderId)}?token=${order.accessToken}`;
 }
 
 /**
@@ -142,15 +332,164 @@ function migrateOrderIfNeeded(order: StoredOrder): StoredOrder {
             blueprintName: item.blueprintName,
             requestedQty: item.requestedQty,
             claimStatus: "unclaimed",
+            slices: [],
           });
         }
       }
     }
   }
 
+  // Move single-seller claims into slices
+  for (const claim of order.itemClaims) {
+    if (!claim.slices) {
+      migrateLegacyClaim(claim);
+    }
+  }
+
   return order;
 }
 
+/**
+ * Turn a claim stored before claim slices into a single slice
+ */
+function migrateLegacyClaim(claim: OrderItemClaim): void {
+  const legacy = claim as OrderItemClaim & LegacyItemClaimFields;
+  claim.slices = [];
+
+  if (legacy.claimedBySellerId && claim.claimStatus !== "unclaimed") {
+    claim.slices.push({
+      sellerId: legacy.claimedBySellerId,
+      sellerDiscordId: legacy.claimedBySellerDiscordId || legacy.claimedBySellerId,
+      quantity: legacy.claimedQuantity || claim.requestedQty,
+      status: claim.claimStatus === "fulfilled" ? "fulfilled" : "claimed",
+      claimedAt: legacy.claimedAt || new Date(0).toISOString(),
+      fulfilledAt: legacy.fulfilledAt,
+      reservedQuantity: legacy.reservedQuantity,
+    });
+  }
+
+  delete legacy.claimedBySellerId;
+  delete legacy.claimedBySellerDiscordId;
+  delete legacy.claimedQuantity;
+  delete legacy.claimedAt;
+  delete legacy.fulfilledAt;
+  delete legacy.reservedQuantity;
+  updateClaimStatus(claim);
+}
+
+/**
+ * Quantity covered by all slices of an item
+ */
+function getClaimedQuantity(claim: OrderItemClaim): number {
+  return claim.slices.reduce((sum, slice) => sum + slice.quantity, 0);
+}
+
+/**
+ * Quantity of an item still open for claiming
+ */
+function getRemainingQuantity(claim: OrderItemClaim): number {
+  return Math.max(0, claim.requestedQty - getClaimedQuantity(claim));
+}
+
+/**
+ * The seller's unfulfilled slice of an item, if any
+ */
+function getOpenSlice(claim: OrderItemClaim, sellerId: string): OrderItemClaimSlice | undefined {
+  return claim.slices.find((slice) => slice.sellerId === sellerId && slice.status === "claimed");
+}
+
+/**
+ * Check if a seller holds any slice (open or fulfilled) of an item
+ */
+function hasSliceOfSeller(claim: OrderItemClaim, sellerId: string): boolean {
+  return claim.slices.some((slice) => slice.sellerId === sellerId);
+}
+
+/**
+ * Derive the item status from its slices (call after changing them)
+ */
+function updateClaimStatus(claim: OrderItemClaim): void {
+  if (claim.slices.length === 0) {
+    claim.claimStatus = "unclaimed";
+  } else if (getClaimedQuantity(claim) < claim.requestedQty) {
+    claim.claimStatus = "partially_claimed";
+  } else if (claim.slices.every((slice) => slice.status === "fulfilled")) {
+    claim.claimStatus = "fulfilled";
+  } else {
+    claim.claimStatus = "claimed";
+  }
+}
+
+/**
+ * Add quantity to the seller's open slice of an item (or start a new slice)
+ * The caller has already reserved the stock
+ */
+function addToSlice(
+  claim: OrderItemClaim,
+  sellerId: string,
+  sellerDiscordId: string,
+  quantity: number,
+  claimedAt: string
+): void {
+  const slice = getOpenSlice(claim, sellerId);
+  if (slice) {
+    slice.quantity += quantity;
+    slice.reservedQuantity = (slice.reservedQuantity || 0) + quantity;
+  } else {
+    claim.slices.push({
+      sellerId,
+      sellerDiscordId,
+      quantity,
+      status: "claimed",
+      claimedAt,
+      reservedQuantity: quantity,
+    });
+  }
+  updateClaimStatus(claim);
+}
+
+/**
+ * Append an event to the order history
+ * toStatus is taken from the order, so call this after mutating it
+ */
+function recordOrderEvent(
+  order: StoredOrder,
+  event: Omit<OrderEvent, "at" | "toStatus">
+): void {
+  if (!order.events) {
+    order.events = [];
+  }
+
+  order.events.push({
+    at: new Date().toISOString(),
+    ...event,
+    toStatus: order.status,
+  });
+}
+
+// Quantity of an item a seller action applied to
+interface ClaimAmount {
+  claim: OrderItemClaim;
+  quantity: number;
+}
+
+/**
+ * Blueprint/requested quantity pairs for event items
+ */
+function toEventItems(claims: OrderItemClaim[]): { blueprintId: string; quantity: number }[] {
+  return claims.map((claim) => ({
+    blueprintId: claim.blueprintId,
+    quantity: claim.requestedQty,
+  }));
+}
+
+/**
+ * Blueprint/quantity pairs for event items of a seller action
+ */
+function toAmountEventItems(amounts: ClaimAmount[]): { blueprintId: string; quantity: number }[] {
+  return amounts.map(({ claim, quantity }) => ({ blueprintId: claim.blueprintId, quantity }));
+}
+
 // ============================================
 // BASIC CRUD OPERATIONS
 // ============================================
@@ -160,8 +499,6 @@ function migrateOrderIfNeeded(order: StoredOrder): StoredOrder {
  * Initializes claim tracking for all items
  */
 export function saveOrder(processedOrder: ProcessedOrder): StoredOrder {
-  ensureDirectories();
-
   // Extract unique seller IDs from seller groups
   const sellerIds = processedOrder.sellerGroups.map((group) => group.sellerId);
 
@@ -176,6 +513,7 @@ export function saveOrder(processedOrder: ProcessedOrder): StoredOrder {
           blueprintName: item.blueprintName,
           requestedQty: item.requestedQty,
           claimStatus: "unclaimed",
+          slices: [],
         });
       }
     }
@@ -186,10 +524,19 @@ export function saveOrder(processedOrder: ProcessedOrder): StoredOrder {
     sellerIds,
     status: "open",
     itemClaims: Array.from(itemClaimsMap.values()),
+    accessToken: generateAccessToken(),
   };
 
-  const filePath = getOrderFilePath(processedOrder.orderId);
-  safeWriteJson(filePath, storedOrder);
+  recordOrderEvent(storedOrder, {
+    actorRole: "buyer",
+    actorName: processedOrder.buyerDiscordNick,
+    action: "created",
+    items: toEventItems(storedOrder.itemClaims),
+    fromStatus: null,
+  });
+
+  getStorage().orders.save(storedOrder);
+  publishOrderChange({ type: "created", orderId: storedOrder.orderId });
 
   return storedOrder;
 }
@@ -198,9 +545,7 @@ export function saveOrder(processedOrder: ProcessedOrder): StoredOrder {
  * Get order by ID (with migration)
  */
 export function getOrderById(orderId: string): StoredOrder | null {
-  ensureDirectories();
-  const filePath = getOrderFilePath(orderId);
-  const order = safeReadJson<StoredOrder>(filePath);
+  const order = getStorage().orders.get(orderId);
   if (order) {
     return migrateOrderIfNeeded(order);
   }
@@ -208,38 +553,70 @@ export function getOrderById(orderId: string): StoredOrder | null {
 }
 
 /**
- * Get all stored orders (with migration)
+ * Get all stored orders (with migration), newest first
+ * Optional query narrows the result using the backend's indexes
  */
-export function getAllOrders(): StoredOrder[] {
-  ensureDirectories();
+export function getAllOrders(query?: OrderQuery): StoredOrder[] {
+  return getStorage().orders.list(query).map(migrateOrderIfNeeded);
+}
 
-  if (!fs.existsSync(ORDERS_DIR)) {
-    return [];
-  }
+/**
+ * Update order in storage
+ */
+function updateOrder(order: StoredOrder): void {
+  getStorage().orders.save(order);
+  announceOrderChange(order);
+}
 
-  const files = fs.readdirSync(ORDERS_DIR).filter((f) => f.endsWith(".json"));
-  const orders: StoredOrder[] = [];
+/**
+ * After every saved change: bring the order's group chat post up to date
+ * and push the change to live seller dashboards
+ */
+function announceOrderChange(order: StoredOrder): void {
+  try {
+    queueGroupPostUpdate(order);
+  } catch (error) {
+    // The order change is saved; the post just stays stale
+    console.error(`Failed to queue group post update for order ${order.orderId}:`, error);
+  }
+  publishOrderChange({ type: "updated", orderId: order.orderId });
+}
 
-  for (const file of files) {
-    const filePath = path.join(ORDERS_DIR, file);
-    const order = safeReadJson<StoredOrder>(filePath);
-    if (order && order.orderId) {
-      orders.push(migrateOrderIfNeeded(order));
-    }
+/**
+ * Queue notifications for an order event (after the change is saved)
+ */
+function sendOrderNotification(order: StoredOrder, notify: () => void): void {
+  try {
+    notify();
+  } catch (error) {
+    // The order change is saved; only the notification is lost
+    console.error(`Failed to queue notifications for order ${order.orderId}:`, error);
   }
+}
 
-  // Sort by createdAt descending (newest first)
-  return orders.sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
+/**
+ * Blueprint names/quantities for notifications
+ */
+function toNotificationItems(amounts: ClaimAmount[]): NotificationItem[] {
+  return amounts.map(({ claim, quantity }) => ({
+    blueprintName: claim.blueprintName,
+    quantity,
+  }));
 }
 
 /**
- * Update order in storage
+ * Remember the group chat post of an order so later changes can edit it
  */
-function updateOrder(order: StoredOrder): void {
-  const filePath = getOrderFilePath(order.orderId);
-  safeWriteJson(filePath, order);
+export async function setOrderGroupPost(orderId: string, outboxMessageId: string): Promise<boolean> {
+  return withFileLock(getOrderFilePath(orderId), () => {
+    const order = getOrderById(orderId);
+    if (!order) {
+      return false;
+    }
+    order.groupPostOutboxId = outboxMessageId;
+    getStorage().orders.save(order);
+    return true;
+  });
 }
 
 // ============================================
@@ -258,13 +635,13 @@ function isOrderClosedBySeller(order: StoredOrder, sellerId: string): boolean {
 /**
  * Get orders for a specific seller
  * Returns orders where:
- * - Order is not globally closed/cancelled
+ * - Order is not globally closed/cancelled/expired
  * - Order is not closed by THIS seller (per-seller closure)
  * - Order is not assigned to another seller
  * - Seller has at least one unclaimed item OR has claimed items
  */
 export function getOrdersForSeller(sellerId: string): SellerOrderView[] {
-  const allOrders = getAllOrders();
+  const allOrders = getAllOrders({ excludeStatuses: FINAL_ORDER_STATUSES });
   const sellerOrders: SellerOrderView[] = [];
 
   // Verify seller exists and can receive orders
@@ -274,40 +651,66 @@ export function getOrdersForSeller(sellerId: string): SellerOrderView[] {
   }
 
   for (const order of allOrders) {
-    // Skip globally closed/cancelled orders (they go to archived view)
-    if (order.status === "closed" || order.status === "cancelled") {
-      continue;
+    const sellerView = buildActiveSellerOrderView(order, sellerId, seller.discordId);
+    if (sellerView) {
+      sellerOrders.push(sellerView);
     }
+  }
 
-    // Skip orders that THIS seller has closed for themselves
-    if (isOrderClosedBySeller(order, sellerId)) {
-      continue;
-    }
+  return sellerOrders;
+}
 
-    // Skip orders assigned to other sellers
-    if (order.assignedSellerId && order.assignedSellerId !== sellerId) {
-      continue;
-    }
+/**
+ * Get one order as it appears in the seller's active list
+ * Returns null if the order is not (or no longer) in that list
+ */
+export function getActiveOrderForSeller(orderId: string, sellerId: string): SellerOrderView | null {
+  const order = getOrderById(orderId);
+  if (!order) {
+    return null;
+  }
 
-    // Check if this seller can see this order
-    const sellerView = buildSellerOrderView(order, sellerId, seller.discordId);
+  const seller = getSellerById(sellerId);
+  if (!seller || !canSellerReceiveOrders(seller)) {
+    return null;
+  }
 
-    if (sellerView) {
-      sellerOrders.push(sellerView);
-    }
+  return buildActiveSellerOrderView(order, sellerId, seller.discordId);
+}
+
+function buildActiveSellerOrderView(
+  order: StoredOrder,
+  sellerId: string,
+  sellerDiscordId: string
+): SellerOrderView | null {
+  // Skip globally closed/cancelled/expired orders (they go to archived view)
+  if (isFinalOrderStatus(order.status)) {
+    return null;
   }
 
-  return sellerOrders;
+  // Skip orders that THIS seller has closed for themselves
+  if (isOrderClosedBySeller(order, sellerId)) {
+    return null;
+  }
+
+  // Skip orders assigned to other sellers
+  if (order.assignedSellerId && order.assignedSellerId !== sellerId) {
+    return null;
+  }
+
+  // Check if this seller can see this order
+  return buildSellerOrderView(order, sellerId, sellerDiscordId);
 }
 
 /**
- * Get archived (closed/cancelled) orders for a seller
+ * Get archived (closed/cancelled/expired) orders for a seller
  * Includes:
- * - Globally closed/cancelled orders where seller had claimed items
+ * - Globally closed/cancelled/expired orders where seller had claimed items
  * - Orders that THIS seller has closed for themselves (per-seller closure)
  */
 export function getArchivedOrdersForSeller(sellerId: string): SellerOrderView[] {
-  const allOrders = getAllOrders();
+  // Only orders this seller was involved in can be archived for them
+  const allOrders = getAllOrders({ sellerId });
   const archivedOrders: SellerOrderView[] = [];
 
   const seller = getSellerById(sellerId);
@@ -316,16 +719,14 @@ export function getArchivedOrdersForSeller(sellerId: string): SellerOrderView[]
   }
 
   for (const order of allOrders) {
-    const isGloballyClosed = order.status === "closed" || order.status === "cancelled";
+    const isGloballyClosed = isFinalOrderStatus(order.status);
     const isClosedByThisSeller = isOrderClosedBySeller(order, sellerId);
 
     // Show in archived if:
-    // 1. Order is globally closed/cancelled AND seller had involvement, OR
+    // 1. Order is globally closed/cancelled/expired AND seller had involvement, OR
     // 2. This seller has closed the order for themselves
 
-    const hasClaimedItems = order.itemClaims.some(
-      (claim) => claim.claimedBySellerId === sellerId
-    );
+    const hasClaimedItems = order.itemClaims.some((claim) => hasSliceOfSeller(claim, sellerId));
     const wasAssigned = order.assignedSellerId === sellerId;
     const hadInvolvement = hasClaimedItems || wasAssigned;
 
@@ -355,10 +756,10 @@ export function getArchivedOrdersForSeller(sellerId: string): SellerOrderView[]
  * Build seller-specific view of an order
  *
  * Visibility Rules:
- * - Seller sees items they have CLAIMED (regardless of current inventory)
- * - Seller sees UNCLAIMED items ONLY if they have inventory > 0
- * - Seller does NOT see unclaimed items where they have 0 inventory
- * - Seller does NOT see items claimed by OTHER sellers (unless assigned to full order)
+ * - Seller sees items they hold a slice of (regardless of current inventory)
+ * - Seller sees items with an open (unclaimed) quantity ONLY if they have inventory > 0
+ * - Seller does NOT see open items where they have 0 inventory
+ * - Seller does NOT see items fully claimed by OTHER sellers (unless assigned to full order)
  * - If seller has no visible items, the entire order is hidden (returns null)
  *
  * This prevents "unactionable" orders where seller has 0 stock for all items.
@@ -370,46 +771,65 @@ function buildSellerOrderView(
 ): SellerOrderView | null {
   const isAssignedToMe = order.assignedSellerId === sellerId;
   const isClosedByMe = isOrderClosedBySeller(order, sellerId);
+  const now = Date.now();
+  const suggestedBlueprintIds = getAssignedBlueprintIds(order.assignment, sellerId);
 
   // Build items list with claim info
   const items: SellerOrderView["items"] = [];
   let claimableItemCount = 0;
   let myClaimedItemCount = 0;
+  let suggestedItemCount = 0;
   let canAcceptAll = true;
 
   for (const claim of order.itemClaims) {
-    // Check if this item is claimable by this seller
-    const sellerQty = getSellerBlueprintQuantity(sellerId, claim.blueprintId);
-    const available = sellerQty >= claim.requestedQty;
-
     // Determine if seller can see/interact with this item
-    const isClaimedByMe = claim.claimedBySellerId === sellerId;
-    const isUnclaimed = claim.claimStatus === "unclaimed";
+    const mySlices = claim.slices.filter((slice) => slice.sellerId === sellerId);
+    const myOpenSlice = getOpenSlice(claim, sellerId);
+    const isClaimedByMe = mySlices.length > 0;
+    const remainingQty = getRemainingQuantity(claim);
+    const isOpen = remainingQty > 0;
+    const preferredSeller = getActivePreferredSeller(order, claim.blueprintId, now);
+
+    // The open part of items the buyer pinned to another seller stays hidden until the window ends
+    const isPinnedToOther = isOpen && !!preferredSeller && preferredSeller.sellerId !== sellerId;
+    if (isPinnedToOther && !isClaimedByMe) {
+      canAcceptAll = false;
+      continue;
+    }
+
+    // Stock for this item: the open part can only use stock not reserved by other
+    // orders; a slice the seller holds is checked against their whole stock
+    const sellerQty = myOpenSlice
+      ? getSellerBlueprintQuantity(sellerId, claim.blueprintId)
+      : getSellerUnreservedQuantity(sellerId, claim.blueprintId);
+    const available = myOpenSlice ? sellerQty >= myOpenSlice.quantity : sellerQty >= remainingQty;
+    const canClaimMore = isOpen && !isPinnedToOther && getSellerUnreservedQuantity(sellerId, claim.blueprintId) > 0;
 
-    // For unclaimed items: seller can only see if they have inventory (> 0)
+    // For open items: seller can only see if they have inventory (> 0)
     // This prevents showing "unactionable" orders to sellers with 0 stock
-    const canSeeUnclaimed = isUnclaimed && sellerQty > 0;
-    const canSee = isClaimedByMe || canSeeUnclaimed || isAssignedToMe;
+    const canSee = isClaimedByMe || canClaimMore || isAssignedToMe;
 
     if (!canSee) {
-      // Item is claimed by another seller OR seller has no inventory for unclaimed item
-      if (isUnclaimed) {
-        // Seller can't claim this item - they have 0 quantity
+      // Item is fully claimed by other sellers OR seller has no inventory for the open part
+      if (isOpen) {
         canAcceptAll = false;
       }
       continue;
     }
 
-    if (isUnclaimed && sellerQty > 0) {
+    if (canClaimMore) {
       claimableItemCount++;
+      if (suggestedBlueprintIds.includes(claim.blueprintId)) {
+        suggestedItemCount++;
+      }
     }
 
     if (isClaimedByMe) {
       myClaimedItemCount++;
     }
 
-    // Check if seller can fulfill this item (has enough quantity)
-    if (isUnclaimed && sellerQty < claim.requestedQty) {
+    // Check if seller can take the whole open part
+    if (isOpen && getSellerUnreservedQuantity(sellerId, claim.blueprintId) < remainingQty) {
       canAcceptAll = false;
     }
 
@@ -420,10 +840,13 @@ function buildSellerOrderView(
       available,
       availableQty: sellerQty,
       claimStatus: claim.claimStatus,
+      claimedQty: claim.requestedQty - remainingQty,
+      remainingQty,
       claimedByMe: isClaimedByMe,
-      claimedBySellerId: claim.claimedBySellerId,
-      claimedBySellerDiscordId: claim.claimedBySellerDiscordId,
-      claimedQuantity: claim.claimedQuantity,
+      myClaimStatus: isClaimedByMe ? (myOpenSlice ? "claimed" : "fulfilled") : undefined,
+      myClaimedQty: mySlices.reduce((sum, slice) => sum + slice.quantity, 0),
+      preferredForMe: preferredSeller?.sellerId === sellerId,
+      suggestedForMe: suggestedBlueprintIds.includes(claim.blueprintId),
     });
   }
 
@@ -439,6 +862,7 @@ function buildSellerOrderView(
   return {
     orderId: order.orderId,
     buyerDiscordNick: order.buyerDiscordNick,
+    buyerUnverified: order.buyerUnverified,
     offer: order.offer,
     notes: order.notes,
     isMultiSeller: order.isMultiSeller,
@@ -447,9 +871,11 @@ function buildSellerOrderView(
     isAssignedToMe,
     isClosedByMe,
     items,
+    preferredUntil: items.some((item) => item.preferredForMe) ? order.preferredUntil : undefined,
     canAcceptFull: canAcceptAll,
     claimableItemCount,
     myClaimedItemCount,
+    suggestedItemCount,
   };
 }
 
@@ -473,114 +899,285 @@ export function getOrderForSeller(
   return buildSellerOrderView(order, sellerId, seller.discordId);
 }
 
-// ============================================
-// CLAIM OPERATIONS (with file locking)
-// ============================================
-
-export interface ClaimResult {
-  success: boolean;
-  error?: string;
-  claimedItems?: string[];
-}
-
 /**
- * Accept entire order (full claim)
- * Seller takes responsibility for all items
- * Other sellers will no longer see this order
+ * Get order history for a seller
+ * Only available for orders the seller can see; returns null otherwise
  */
-export async function acceptOrderFull(
+export function getOrderEventsForSeller(
   orderId: string,
   sellerId: string
-): Promise<ClaimResult> {
-  const filePath = getOrderFilePath(orderId);
+): OrderEvent[] | null {
+  const order = getOrderById(orderId);
+  if (!order) {
+    return null;
+  }
 
-  return withFileLock(filePath, () => {
-    const order = getOrderById(orderId);
-    if (!order) {
-      return { success: false, error: "Замовлення не знайдено" };
-    }
+  const seller = getSellerById(sellerId);
+  if (!seller || !canSellerReceiveOrders(seller)) {
+    return null;
+  }
 
-    // Check order status
-    if (order.status === "closed" || order.status === "cancelled") {
-      return { success: false, error: "Замовлення вже закрите" };
-    }
+  if (!buildSellerOrderView(order, sellerId, seller.discordId)) {
+    return null;
+  }
 
-    // Check if already assigned
-    if (order.assignedSellerId && order.assignedSellerId !== sellerId) {
-      return { success: false, error: "Замовлення вже прийняте іншим продавцем" };
-    }
+  return order.events || [];
+}
 
-    // Verify seller
-    const seller = getSellerById(sellerId);
-    if (!seller || !canSellerReceiveOrders(seller)) {
-      return { success: false, error: "У вас немає дозволу приймати замовлення" };
-    }
+// ============================================
+// BUYER ORDER VIEW
+// ============================================
 
-    // Check if all items are claimable by this seller
-    const claimedItems: string[] = [];
+/**
+ * Build buyer-facing view of an order
+ * Shows which seller (by Discord ID) took how much of each item, but nothing seller-internal
+ */
+function buildBuyerOrderView(order: StoredOrder): BuyerOrderView {
+  return {
+    orderId: order.orderId,
+    buyerDiscordNick: order.buyerDiscordNick,
+    offer: order.originalOffer || order.offer,
+    notes: order.notes,
+    createdAt: order.createdAt,
+    status: order.status,
+    closedAt: order.closedAt,
+    expiredAt: order.expiredAt,
+    items: order.itemClaims.map((claim) => ({
+      blueprintId: claim.blueprintId,
+      blueprintName: claim.blueprintName,
+      requestedQty: claim.requestedQty,
+      claimStatus: claim.claimStatus,
+      claimedQty: getClaimedQuantity(claim),
+      slices: claim.slices.map((slice) => ({
+        sellerDiscordId: slice.sellerDiscordId,
+        quantity: slice.quantity,
+        status: slice.status,
+        claimedAt: slice.claimedAt,
+        fulfilledAt: slice.fulfilledAt,
+      })),
+    })),
+    canModify: canBuyerModifyOrder(order),
+    sellerFeedback: canLeaveFeedback(order)
+      ? getFulfilledSellers(order).map((seller) => {
+          const feedback = order.sellerFeedback?.find((f) => f.sellerId === seller.sellerId);
+          return { sellerDiscordId: seller.sellerDiscordId, rating: feedback?.rating, comment: feedback?.comment };
+        })
+      : [],
+  };
+}
+
+/**
+ * Buyer can rate sellers once the order is completed or closed
+ */
+function canLeaveFeedback(order: StoredOrder): boolean {
+  return order.status === "completed" || order.status === "closed";
+}
+
+/**
+ * Sellers who fulfilled at least one slice of the order
+ */
+function getFulfilledSellers(order: StoredOrder): { sellerId: string; sellerDiscordId: string }[] {
+  const sellers = new Map<string, string>();
+  for (const claim of order.itemClaims) {
+    for (const slice of claim.slices) {
+      if (slice.status === "fulfilled" && !sellers.has(slice.sellerId)) {
+        sellers.set(slice.sellerId, slice.sellerDiscordId);
+      }
+    }
+  }
+  return Array.from(sellers, ([sellerId, sellerDiscordId]) => ({ sellerId, sellerDiscordId }));
+}
+
+/**
+ * Buyer can only change an order nobody has started working on
+ */
+function canBuyerModifyOrder(order: StoredOrder): boolean {
+  return (
+    order.status === "open" &&
+    !order.assignedSellerId &&
+    order.itemClaims.every((c) => c.claimStatus === "unclaimed")
+  );
+}
+
+/**
+ * Get order for the buyer by ID and tracking token
+ * Returns null if the order doesn't exist or the token doesn't match
+ */
+export function getOrderForBuyer(
+  orderId: string,
+  accessToken: string
+): BuyerOrderView | null {
+  const order = getOrderById(orderId);
+  if (!order || !isValidAccessToken(order, accessToken)) {
+    return null;
+  }
+
+  return buildBuyerOrderView(order);
+}
+
+/**
+ * Orders placed from a buyer account, newest first
+ */
+export function getOrdersForBuyerAccount(buyerId: string): BuyerOrderHistoryEntry[] {
+  return getAllOrders({ buyerId }).map((order) => ({
+    ...buildBuyerOrderView(order),
+    trackingUrl: getOrderTrackingPath(order),
+  }));
+}
+
+// ============================================
+// CLAIM OPERATIONS (with file locking)
+// ============================================
+
+export interface ClaimResult {
+  success: boolean;
+  error?: string;
+  claimedItems?: string[];
+}
+
+/**
+ * Accept entire order (full claim)
+ * Seller takes responsibility for all items
+ * Other sellers will no longer see this order
+ */
+export async function acceptOrderFull(
+  orderId: string,
+  sellerId: string
+): Promise<ClaimResult> {
+  const filePath = getOrderFilePath(orderId);
+
+  // Seller lock too: the reservation is written together with the order
+  return withFileLock(filePath, () => withSellerLock(sellerId, () => {
+    const order = getOrderById(orderId);
+    if (!order) {
+      return { success: false, error: "Замовлення не знайдено" };
+    }
+
+    // Check order status
+    if (isFinalOrderStatus(order.status)) {
+      return { success: false, error: "Замовлення вже закрите" };
+    }
+
+    // Check if already assigned
+    if (order.assignedSellerId && order.assignedSellerId !== sellerId) {
+      return { success: false, error: "Замовлення вже прийняте іншим продавцем" };
+    }
+
+    // Verify seller
+    const seller = getSellerById(sellerId);
+    if (!seller || !canSellerReceiveOrders(seller)) {
+      return { success: false, error: "У вас немає дозволу приймати замовлення" };
+    }
+
+    // Check if all items are claimable by this seller
+    const claimedItems: string[] = [];
+    const newAmounts: ClaimAmount[] = [];
 
     for (const claim of order.itemClaims) {
-      // Check if item is already claimed by someone else
-      if (claim.claimStatus !== "unclaimed" && claim.claimedBySellerId !== sellerId) {
+      // Check if another seller already holds part of the item
+      if (claim.slices.some((slice) => slice.sellerId !== sellerId)) {
         return {
           success: false,
           error: `Позиція "${claim.blueprintName}" вже прийнята іншим продавцем`
         };
       }
 
-      // Check if seller has enough inventory
-      const sellerQty = getSellerBlueprintQuantity(sellerId, claim.blueprintId);
-      if (sellerQty < claim.requestedQty) {
+      claimedItems.push(claim.blueprintId);
+
+      // Quantity this seller already holds is reserved already
+      const remainingQty = getRemainingQuantity(claim);
+      if (remainingQty === 0) {
+        continue;
+      }
+
+      // Pinned to another seller by the buyer
+      const preferredSeller = getActivePreferredSeller(order, claim.blueprintId);
+      if (preferredSeller && preferredSeller.sellerId !== sellerId) {
         return {
           success: false,
-          error: `Недостатньо "${claim.blueprintName}" в інвентарі (є ${sellerQty}, потрібно ${claim.requestedQty})`,
+          error: `Покупець обрав іншого продавця для "${claim.blueprintName}"`,
         };
       }
 
-      claimedItems.push(claim.blueprintId);
+      // Check if seller has enough stock not reserved by other orders
+      const sellerQty = getSellerUnreservedQuantity(sellerId, claim.blueprintId);
+      if (sellerQty < remainingQty) {
+        return {
+          success: false,
+          error: `Недостатньо "${claim.blueprintName}" в інвентарі (вільно ${sellerQty}, потрібно ${remainingQty})`,
+        };
+      }
+
+      newAmounts.push({ claim, quantity: remainingQty });
+    }
+
+    // Reserve stock for the newly claimed quantities
+    const reservation = prepareSellerReservation(
+      sellerId,
+      newAmounts.map(({ claim, quantity }) => ({ blueprintId: claim.blueprintId, quantity }))
+    );
+    if (!reservation.seller) {
+      return { success: false, error: reservation.error };
     }
 
     // All checks passed - assign order and claim all items
     const now = new Date().toISOString();
+    const fromStatus = order.status;
 
     order.assignedSellerId = sellerId;
     order.assignedSellerDiscordId = seller.discordId;
     order.assignedAt = now;
     order.status = "in_progress";
 
-    for (const claim of order.itemClaims) {
-      claim.claimStatus = "claimed";
-      claim.claimedBySellerId = sellerId;
-      claim.claimedBySellerDiscordId = seller.discordId;
-      claim.claimedQuantity = claim.requestedQty;
-      claim.claimedAt = now;
+    for (const { claim, quantity } of newAmounts) {
+      addToSlice(claim, sellerId, seller.discordId, quantity, now);
     }
 
-    updateOrder(order);
+    recordOrderEvent(order, {
+      actorRole: "seller",
+      actorId: sellerId,
+      actorName: seller.discordId,
+      action: "accepted",
+      items: toAmountEventItems(newAmounts),
+      fromStatus,
+    });
+
+    // Reservation and order are written together (all-or-nothing)
+    getStorage().saveBatch({ sellers: [reservation.seller], orders: [order] });
+    announceOrderChange(order);
+    sendOrderNotification(order, () =>
+      notifyOrderClaimed(order, seller.discordId, toNotificationItems(newAmounts))
+    );
 
     return { success: true, claimedItems };
-  });
+  }));
 }
 
 /**
  * Claim specific items (partial claim)
- * Seller claims only items they can fulfill
+ * Seller takes as much of each item as they can: the requested quantity
+ * (default: all of the open quantity), capped at the open quantity and their
+ * unreserved stock. The rest stays open for other sellers.
+ * Without blueprintIds the items the suggested split gives to this seller are
+ * claimed; if none of those are left, every claimable item is
  */
 export async function claimOrderItems(
   orderId: string,
   sellerId: string,
-  blueprintIds?: string[]  // If not provided, claim all claimable items
+  blueprintIds?: string[],  // If not provided, claim all claimable items
+  quantities?: Record<string, number>  // Per-item quantity to take (blueprintId -> quantity)
 ): Promise<ClaimResult> {
   const filePath = getOrderFilePath(orderId);
 
-  return withFileLock(filePath, () => {
+  // Seller lock too: the reservation is written together with the order
+  return withFileLock(filePath, () => withSellerLock(sellerId, () => {
     const order = getOrderById(orderId);
     if (!order) {
       return { success: false, error: "Замовлення не знайдено" };
     }
 
     // Check order status
-    if (order.status === "closed" || order.status === "cancelled") {
+    if (isFinalOrderStatus(order.status)) {
       return { success: false, error: "Замовлення вже закрите" };
     }
 
@@ -596,11 +1193,14 @@ export async function claimOrderItems(
     }
 
     // Determine which items to claim
-    const itemsToClaim = blueprintIds || order.itemClaims
-      .filter((c) => c.claimStatus === "unclaimed")
+    const openIds = order.itemClaims
+      .filter((c) => getRemainingQuantity(c) > 0)
       .map((c) => c.blueprintId);
+    const suggestedIds = getAssignedBlueprintIds(order.assignment, sellerId)
+      .filter((id) => openIds.includes(id));
+    const itemsToClaim = blueprintIds || (suggestedIds.length > 0 ? suggestedIds : openIds);
 
-    const claimedItems: string[] = [];
+    const amounts: ClaimAmount[] = [];
     const now = new Date().toISOString();
 
     for (const blueprintId of itemsToClaim) {
@@ -609,40 +1209,69 @@ export async function claimOrderItems(
         continue;
       }
 
-      // Skip if already claimed by someone else
-      if (claim.claimStatus !== "unclaimed" && claim.claimedBySellerId !== sellerId) {
+      // Skip if nothing is left to claim
+      const remainingQty = getRemainingQuantity(claim);
+      if (remainingQty === 0) {
         continue;
       }
 
-      // Check if seller has inventory for this item
-      const sellerQty = getSellerBlueprintQuantity(sellerId, claim.blueprintId);
-      if (sellerQty < claim.requestedQty) {
-        continue;  // Skip items seller can't fulfill
+      // Skip items the buyer pinned to another seller
+      const preferredSeller = getActivePreferredSeller(order, claim.blueprintId);
+      if (preferredSeller && preferredSeller.sellerId !== sellerId) {
+        continue;
       }
 
-      // Claim this item
-      claim.claimStatus = "claimed";
-      claim.claimedBySellerId = sellerId;
-      claim.claimedBySellerDiscordId = seller.discordId;
-      claim.claimedQuantity = claim.requestedQty;
-      claim.claimedAt = now;
+      // Take what the seller has free, up to the open quantity
+      const sellerQty = getSellerUnreservedQuantity(sellerId, claim.blueprintId);
+      const quantity = Math.min(quantities?.[blueprintId] ?? remainingQty, remainingQty, sellerQty);
+      if (quantity <= 0) {
+        continue;  // Skip items seller has no free stock for
+      }
 
-      claimedItems.push(blueprintId);
+      amounts.push({ claim, quantity });
     }
 
-    if (claimedItems.length === 0) {
+    if (amounts.length === 0) {
       return { success: false, error: "Немає позицій для прийняття" };
     }
 
+    // Reserve stock so the same copies can't be promised to another order
+    const reservation = prepareSellerReservation(
+      sellerId,
+      amounts.map(({ claim, quantity }) => ({ blueprintId: claim.blueprintId, quantity }))
+    );
+    if (!reservation.seller) {
+      return { success: false, error: reservation.error };
+    }
+
+    for (const { claim, quantity } of amounts) {
+      addToSlice(claim, sellerId, seller.discordId, quantity, now);
+    }
+
     // Update order status
+    const fromStatus = order.status;
     if (order.status === "open") {
       order.status = "in_progress";
     }
 
-    updateOrder(order);
+    recordOrderEvent(order, {
+      actorRole: "seller",
+      actorId: sellerId,
+      actorName: seller.discordId,
+      action: "claimed",
+      items: toAmountEventItems(amounts),
+      fromStatus,
+    });
 
-    return { success: true, claimedItems };
-  });
+    // Reservation and order are written together (all-or-nothing)
+    getStorage().saveBatch({ sellers: [reservation.seller], orders: [order] });
+    announceOrderChange(order);
+    sendOrderNotification(order, () =>
+      notifyOrderClaimed(order, seller.discordId, toNotificationItems(amounts))
+    );
+
+    return { success: true, claimedItems: amounts.map(({ claim }) => claim.blueprintId) };
+  }));
 }
 
 /**
@@ -656,7 +1285,8 @@ export async function fulfillOrderItem(
 ): Promise<ClaimResult> {
   const filePath = getOrderFilePath(orderId);
 
-  return withFileLock(filePath, () => {
+  // Seller lock too: inventory is read and written in this callback
+  return withFileLock(filePath, () => withSellerLock(sellerId, () => {
     const order = getOrderById(orderId);
     if (!order) {
       return { success: false, error: "Замовлення не знайдено" };
@@ -667,19 +1297,18 @@ export async function fulfillOrderItem(
       return { success: false, error: "Позицію не знайдено" };
     }
 
-    // Can only fulfill own claimed items
-    if (claim.claimedBySellerId !== sellerId) {
-      return { success: false, error: "Ви не можете виконати цю позицію" };
-    }
-
-    // Idempotency check: already fulfilled = no double decrement
-    if (claim.claimStatus === "fulfilled") {
-      return { success: false, error: "Позиція вже виконана" };
+    // Can only fulfill own claimed slice
+    // Idempotency check: a fulfilled slice is not open anymore = no double decrement
+    const slice = getOpenSlice(claim, sellerId);
+    if (!slice) {
+      return hasSliceOfSeller(claim, sellerId)
+        ? { success: false, error: "Позиція вже виконана" }
+        : { success: false, error: "Ви не можете виконати цю позицію" };
     }
 
     // Check seller has sufficient inventory before fulfillment
     const currentQty = getSellerBlueprintQuantity(sellerId, blueprintId);
-    const quantityToFulfill = claim.claimedQuantity || claim.requestedQty;
+    const quantityToFulfill = slice.quantity;
 
     if (currentQty < quantityToFulfill) {
       return {
@@ -688,17 +1317,21 @@ export async function fulfillOrderItem(
       };
     }
 
-    // Decrease seller inventory
-    const newQty = currentQty - quantityToFulfill;
-    const inventoryUpdated = updateSellerInventoryItem(sellerId, blueprintId, newQty);
+    // Decrease seller inventory (the reservation becomes a sale)
+    const updatedSeller = prepareSellerReservationCommits(sellerId, [
+      { blueprintId, quantity: quantityToFulfill, reservedQty: slice.reservedQuantity || 0 },
+    ]);
 
-    if (!inventoryUpdated) {
+    if (!updatedSeller) {
       return { success: false, error: "Не вдалося оновити інвентар" };
     }
 
-    // Mark as fulfilled (after successful inventory update)
-    claim.claimStatus = "fulfilled";
-    claim.fulfilledAt = new Date().toISOString();
+    // Mark as fulfilled
+    const fromStatus = order.status;
+    slice.status = "fulfilled";
+    slice.fulfilledAt = new Date().toISOString();
+    slice.reservedQuantity = undefined;
+    updateClaimStatus(claim);
 
     // Check if all items are fulfilled
     const allFulfilled = order.itemClaims.every((c) => c.claimStatus === "fulfilled");
@@ -706,16 +1339,32 @@ export async function fulfillOrderItem(
       order.status = "completed";
     }
 
-    updateOrder(order);
+    const amounts: ClaimAmount[] = [{ claim, quantity: quantityToFulfill }];
+    recordOrderEvent(order, {
+      actorRole: "seller",
+      actorId: sellerId,
+      actorName: slice.sellerDiscordId,
+      action: "fulfilled",
+      items: toAmountEventItems(amounts),
+      fromStatus,
+    });
+
+    // Inventory and order are written together (all-or-nothing)
+    getStorage().saveBatch({ sellers: [updatedSeller], orders: [order] });
+    announceOrderChange(order);
+    sendOrderNotification(order, () =>
+      notifyOrderFulfilled(order, updatedSeller.discordId, toNotificationItems(amounts))
+    );
 
     return { success: true, claimedItems: [blueprintId] };
-  });
+  }));
 }
 
 /**
  * Fulfill all claimed items at once
  * Decreases seller inventory for each fulfilled item
  * Idempotent: Already fulfilled items are skipped (no double decrement)
+ * All-or-nothing: inventory and order are committed in one journaled write
  */
 export async function fulfillAllClaimedItems(
   orderId: string,
@@ -723,56 +1372,65 @@ export async function fulfillAllClaimedItems(
 ): Promise<ClaimResult> {
   const filePath = getOrderFilePath(orderId);
 
-  return withFileLock(filePath, () => {
+  // Seller lock too: inventory is read and written in this callback
+  return withFileLock(filePath, () => withSellerLock(sellerId, () => {
     const order = getOrderById(orderId);
     if (!order) {
       return { success: false, error: "Замовлення не знайдено" };
     }
 
-    // First pass: verify all items can be fulfilled (inventory check)
-    const itemsToFulfill = order.itemClaims.filter(
-      (claim) => claim.claimedBySellerId === sellerId && claim.claimStatus === "claimed"
-    );
+    // First pass: verify all slices can be fulfilled (inventory check)
+    const slicesToFulfill: { claim: OrderItemClaim; slice: OrderItemClaimSlice }[] = [];
+    for (const claim of order.itemClaims) {
+      const slice = getOpenSlice(claim, sellerId);
+      if (slice) {
+        slicesToFulfill.push({ claim, slice });
+      }
+    }
 
-    if (itemsToFulfill.length === 0) {
+    if (slicesToFulfill.length === 0) {
       return { success: false, error: "Немає позицій для виконання" };
     }
 
     // Check inventory for all items first
-    for (const claim of itemsToFulfill) {
+    for (const { claim, slice } of slicesToFulfill) {
       const currentQty = getSellerBlueprintQuantity(sellerId, claim.blueprintId);
-      const quantityNeeded = claim.claimedQuantity || claim.requestedQty;
 
-      if (currentQty < quantityNeeded) {
+      if (currentQty < slice.quantity) {
         return {
           success: false,
-          error: `Недостатньо "${claim.blueprintName}" на складі (є: ${currentQty}, потрібно: ${quantityNeeded})`,
+          error: `Недостатньо "${claim.blueprintName}" на складі (є: ${currentQty}, потрібно: ${slice.quantity})`,
         };
       }
     }
 
-    // Second pass: decrease inventory and mark as fulfilled
-    const fulfilledItems: string[] = [];
-    const now = new Date().toISOString();
-
-    for (const claim of itemsToFulfill) {
-      const currentQty = getSellerBlueprintQuantity(sellerId, claim.blueprintId);
-      const quantityToFulfill = claim.claimedQuantity || claim.requestedQty;
-      const newQty = currentQty - quantityToFulfill;
-
-      // Decrease inventory
-      const inventoryUpdated = updateSellerInventoryItem(sellerId, claim.blueprintId, newQty);
+    // Second pass: decrease inventory for all items in memory (nothing written yet)
+    const updatedSeller = prepareSellerReservationCommits(
+      sellerId,
+      slicesToFulfill.map(({ claim, slice }) => ({
+        blueprintId: claim.blueprintId,
+        quantity: slice.quantity,
+        reservedQty: slice.reservedQuantity || 0,
+      }))
+    );
 
-      if (!inventoryUpdated) {
-        // Rollback is complex - for now, stop and report error
-        // Partial fulfillment already done won't be rolled back
-        return { success: false, error: `Не вдалося оновити інвентар для "${claim.blueprintName}"` };
-      }
+    if (!updatedSeller) {
+      return { success: false, error: "Не вдалося оновити інвентар" };
+    }
 
-      // Mark as fulfilled
-      claim.claimStatus = "fulfilled";
-      claim.fulfilledAt = now;
-      fulfilledItems.push(claim.blueprintId);
+    // Mark as fulfilled
+    const now = new Date().toISOString();
+    const fromStatus = order.status;
+    const amounts: ClaimAmount[] = slicesToFulfill.map(({ claim, slice }) => ({
+      claim,
+      quantity: slice.quantity,
+    }));
+
+    for (const { claim, slice } of slicesToFulfill) {
+      slice.status = "fulfilled";
+      slice.fulfilledAt = now;
+      slice.reservedQuantity = undefined;
+      updateClaimStatus(claim);
     }
 
     // Check if all items are fulfilled
@@ -781,10 +1439,24 @@ export async function fulfillAllClaimedItems(
       order.status = "completed";
     }
 
-    updateOrder(order);
+    recordOrderEvent(order, {
+      actorRole: "seller",
+      actorId: sellerId,
+      actorName: slicesToFulfill[0].slice.sellerDiscordId,
+      action: "fulfilled",
+      items: toAmountEventItems(amounts),
+      fromStatus,
+    });
 
-    return { success: true, claimedItems: fulfilledItems };
-  });
+    // Inventory and order are written together (all-or-nothing)
+    getStorage().saveBatch({ sellers: [updatedSeller], orders: [order] });
+    announceOrderChange(order);
+    sendOrderNotification(order, () =>
+      notifyOrderFulfilled(order, updatedSeller.discordId, toNotificationItems(amounts))
+    );
+
+    return { success: true, claimedItems: amounts.map(({ claim }) => claim.blueprintId) };
+  }));
 }
 
 /**
@@ -804,7 +1476,7 @@ export async function closeOrder(
 ): Promise<ClaimResult> {
   const filePath = getOrderFilePath(orderId);
 
-  return withFileLock(filePath, () => {
+  return withFileLock(filePath, async () => {
     const order = getOrderById(orderId);
     if (!order) {
       return { success: false, error: "Замовлення не знайдено" };
@@ -812,15 +1484,18 @@ export async function closeOrder(
 
     // Admin can force global close
     if (isAdmin) {
+      const fromStatus = order.status;
+      const releases = releaseOrderReservations(order);
       order.status = "closed";
       order.closedAt = new Date().toISOString();
       order.closedBySellerId = sellerId;
-      updateOrder(order);
+      recordOrderEvent(order, { actorRole: "admin", action: "closed", fromStatus });
+      await saveOrderWithReleases(order, releases);
       return { success: true };
     }
 
     // Check if already globally closed
-    if (order.status === "closed" || order.status === "cancelled") {
+    if (isFinalOrderStatus(order.status)) {
       return { success: false, error: "Замовлення вже закрите" };
     }
 
@@ -833,18 +1508,14 @@ export async function closeOrder(
     // 1. They are assigned to the order, OR
     // 2. They have claimed items
     const isAssigned = order.assignedSellerId === sellerId;
-    const hasClaimedItems = order.itemClaims.some(
-      (c) => c.claimedBySellerId === sellerId
-    );
+    const hasClaimedItems = order.itemClaims.some((c) => hasSliceOfSeller(c, sellerId));
 
     if (!isAssigned && !hasClaimedItems) {
       return { success: false, error: "Ви не можете закрити це замовлення" };
     }
 
-    // Check if seller's items are all fulfilled
-    const myUnfulfilledItems = order.itemClaims.filter(
-      (c) => c.claimedBySellerId === sellerId && c.claimStatus !== "fulfilled"
-    );
+    // Check if seller's slices are all fulfilled
+    const myUnfulfilledItems = order.itemClaims.filter((c) => getOpenSlice(c, sellerId));
 
     if (myUnfulfilledItems.length > 0) {
       return {
@@ -868,6 +1539,8 @@ export async function closeOrder(
     sellerState.status = "closed";
     sellerState.closedAt = new Date().toISOString();
 
+    const fromStatus = order.status;
+
     // Check if order should be globally closed
     // Global close when ALL items are fulfilled across ALL sellers
     const allItemsFulfilled = order.itemClaims.every(c => c.claimStatus === "fulfilled");
@@ -878,6 +1551,15 @@ export async function closeOrder(
       order.closedBySellerId = sellerId;
     }
 
+    recordOrderEvent(order, {
+      actorRole: "seller",
+      actorId: sellerId,
+      actorName: getSellerById(sellerId)?.discordId,
+      action: "closed",
+      fromStatus,
+      note: allItemsFulfilled ? undefined : "Закрито лише для цього продавця",
+    });
+
     updateOrder(order);
 
     return { success: true };
@@ -892,25 +1574,84 @@ export async function cancelOrder(
 ): Promise<ClaimResult> {
   const filePath = getOrderFilePath(orderId);
 
-  return withFileLock(filePath, () => {
+  return withFileLock(filePath, async () => {
     const order = getOrderById(orderId);
     if (!order) {
       return { success: false, error: "Замовлення не знайдено" };
     }
 
-    if (order.status === "closed" || order.status === "cancelled") {
+    if (isFinalOrderStatus(order.status)) {
       return { success: false, error: "Замовлення вже закрите" };
     }
 
-    order.status = "cancelled";
-    order.closedAt = new Date().toISOString();
-
-    updateOrder(order);
+    const fromStatus = order.status;
+    const releases = releaseOrderReservations(order);
+    markOrderCancelled(order);
+    recordOrderEvent(order, { actorRole: "admin", action: "cancelled", fromStatus });
+    await saveOrderWithReleases(order, releases);
+    // Group channels only; the seller follow-ups are worded for buyer cancellations
+    sendOrderNotification(order, () => notifyOrderCancelled(order, []));
 
     return { success: true };
   });
 }
 
+/**
+ * Stock a seller gets back when the order drops their reservation
+ */
+interface ReservationRelease {
+  sellerId: string;
+  blueprintId: string;
+  quantity: number;
+}
+
+/**
+ * Drop the reservations of unfulfilled slices (order closed or cancelled by admin)
+ * Slices stay for the history; returns the stock to give back to the sellers
+ */
+function releaseOrderReservations(order: StoredOrder): ReservationRelease[] {
+  const releases: ReservationRelease[] = [];
+
+  for (const claim of order.itemClaims) {
+    for (const slice of claim.slices) {
+      if (slice.status === "claimed" && slice.reservedQuantity) {
+        releases.push({ sellerId: slice.sellerId, blueprintId: claim.blueprintId, quantity: slice.reservedQuantity });
+        slice.reservedQuantity = undefined;
+      }
+    }
+  }
+
+  return releases;
+}
+
+/**
+ * Save the order together with the sellers whose reserved stock it gave back
+ * (one journaled write, under the seller locks); caller holds the order lock
+ */
+function saveOrderWithReleases(order: StoredOrder, releases: ReservationRelease[]): Promise<void> {
+  const sellerIds = Array.from(new Set(releases.map((release) => release.sellerId)));
+
+  return withSellerLocks(sellerIds, () => {
+    const sellers = sellerIds
+      .map((sellerId) => prepareSellerReservationRelease(
+        sellerId,
+        releases.filter((release) => release.sellerId === sellerId)
+      ))
+      .filter((seller): seller is SellerWithInventory => seller !== null);
+
+    getStorage().saveBatch({ sellers, orders: [order] });
+    announceOrderChange(order);
+  });
+}
+
+/**
+ * Apply cancellation to an order (shared by admin and buyer cancellation)
+ */
+function markOrderCancelled(order: StoredOrder): void {
+  order.status = "cancelled";
+  order.closedAt = new Date().toISOString();
+}
+
 /**
  * Release claim on an item (seller changed mind)
  */
@@ -921,14 +1662,14 @@ export async function releaseOrderItem(
 ): Promise<ClaimResult> {
   const filePath = getOrderFilePath(orderId);
 
-  return withFileLock(filePath, () => {
+  return withFileLock(filePath, async () => {
     const order = getOrderById(orderId);
     if (!order) {
       return { success: false, error: "Замовлення не знайдено" };
     }
 
     // Can't release from closed orders
-    if (order.status === "closed" || order.status === "cancelled") {
+    if (isFinalOrderStatus(order.status)) {
       return { success: false, error: "Замовлення вже закрите" };
     }
 
@@ -937,47 +1678,499 @@ export async function releaseOrderItem(
       return { success: false, error: "Позицію не знайдено" };
     }
 
-    // Can only release own claimed items
-    if (claim.claimedBySellerId !== sellerId) {
-      return { success: false, error: "Ви не можете скасувати цю позицію" };
+    // Can only release own unfulfilled slice
+    const slice = getOpenSlice(claim, sellerId);
+    if (!slice) {
+      return hasSliceOfSeller(claim, sellerId)
+        ? { success: false, error: "Не можна скасувати виконану позицію" }
+        : { success: false, error: "Ви не можете скасувати цю позицію" };
     }
 
-    if (claim.claimStatus === "fulfilled") {
-      return { success: false, error: "Не можна скасувати виконану позицію" };
+    const fromStatus = order.status;
+    const eventItems = toAmountEventItems([{ claim, quantity: slice.quantity }]);
+
+    const release = releaseSlice(order, claim, slice);
+    recordOrderEvent(order, {
+      actorRole: "seller",
+      actorId: sellerId,
+      actorName: slice.sellerDiscordId,
+      action: "released",
+      items: eventItems,
+      fromStatus,
+    });
+    await saveOrderWithReleases(order, release ? [release] : []);
+
+    return { success: true, claimedItems: [blueprintId] };
+  });
+}
+
+/**
+ * Drop a seller's unfulfilled slice so its quantity is open again, and fix up
+ * order assignment/status (shared by seller release and the stale order sweep)
+ * Returns the reserved stock to give back to the seller, if any
+ */
+function releaseSlice(
+  order: StoredOrder,
+  claim: OrderItemClaim,
+  slice: OrderItemClaimSlice
+): ReservationRelease | null {
+  const sellerId = slice.sellerId;
+
+  claim.slices = claim.slices.filter((s) => s !== slice);
+  updateClaimStatus(claim);
+
+  // If this seller was assigned and released all items, unassign
+  if (order.assignedSellerId === sellerId) {
+    const stillHasClaims = order.itemClaims.some((c) => hasSliceOfSeller(c, sellerId));
+
+    if (!stillHasClaims) {
+      order.assignedSellerId = undefined;
+      order.assignedSellerDiscordId = undefined;
+      order.assignedAt = undefined;
     }
+  }
 
-    // Release the claim
-    claim.claimStatus = "unclaimed";
-    claim.claimedBySellerId = undefined;
-    claim.claimedBySellerDiscordId = undefined;
-    claim.claimedQuantity = undefined;
-    claim.claimedAt = undefined;
-
-    // If this seller was assigned and released all items, unassign
-    if (order.assignedSellerId === sellerId) {
-      const stillHasClaims = order.itemClaims.some(
-        (c) => c.claimedBySellerId === sellerId && c.claimStatus !== "unclaimed"
-      );
+  // Check if order should go back to "open"
+  const hasAnyClaims = order.itemClaims.some((c) => c.claimStatus !== "unclaimed");
+  if (!hasAnyClaims) {
+    order.status = "open";
+  }
+
+  return slice.reservedQuantity
+    ? { sellerId, blueprintId: claim.blueprintId, quantity: slice.reservedQuantity }
+    : null;
+}
+
+// ============================================
+// BUYER OPERATIONS (authenticated by tracking token)
+// ============================================
+
+export interface BuyerOrderActionResult extends ClaimResult {
+  order?: StoredOrder;
+  // Items an edit asked more of than is in stock (same checks as checkout)
+  itemErrors?: OrderItemStockError[];
+}
+
+/**
+ * Cancel order on behalf of the buyer
+ * Only allowed while no item has been claimed
+ */
+export async function cancelOrderByBuyer(
+  orderId: string,
+  accessToken: string
+): Promise<BuyerOrderActionResult> {
+  const filePath = getOrderFilePath(orderId);
+
+  return withFileLock(filePath, () => {
+    const order = getOrderById(orderId);
+    if (!order || !isValidAccessToken(order, accessToken)) {
+      return { success: false, error: "Замовлення не знайдено" };
+    }
+
+    if (!canBuyerModifyOrder(order)) {
+      return { success: false, error: "Замовлення вже в роботі — зверніться до продавця" };
+    }
+
+    const previousSellerGroups = order.sellerGroups;
+    const fromStatus = order.status;
+
+    markOrderCancelled(order);
+    recordOrderEvent(order, {
+      actorRole: "buyer",
+      actorName: order.buyerDiscordNick,
+      action: "cancelled",
+      fromStatus,
+    });
+    updateOrder(order);
+    // Sellers notified about the order learn it's off
+    sendOrderNotification(order, () => notifyOrderCancelled(order, previousSellerGroups));
+
+    return { success: true, order };
+  });
+}
+
+/**
+ * Change item quantities on behalf of the buyer
+ * Quantity 0 removes the item; at least one item must remain.
+ * Seller resolution is re-run so the order reaches the right sellers.
+ */
+export async function updateOrderItemsByBuyer(
+  orderId: string,
+  accessToken: string,
+  updates: { blueprintId: string; quantity: number }[]
+): Promise<BuyerOrderActionResult> {
+  const filePath = getOrderFilePath(orderId);
+
+  return withFileLock(filePath, () => {
+    const order = getOrderById(orderId);
+    if (!order || !isValidAccessToken(order, accessToken)) {
+      return { success: false, error: "Замовлення не знайдено" };
+    }
+
+    if (!canBuyerModifyOrder(order)) {
+      return { success: false, error: "Замовлення вже в роботі — зверніться до продавця" };
+    }
+
+    // Apply quantity changes to existing items only
+    if (updates.some((u) => !order.itemClaims.some((c) => c.blueprintId === u.blueprintId))) {
+      return { success: false, error: "Нові позиції не можна додати до замовлення" };
+    }
+
+    const items: { blueprintId: string; blueprintName: string; quantity: number }[] = [];
+    const raisedItems: { id: string; quantity: number }[] = [];
+    for (const claim of order.itemClaims) {
+      const update = updates.find((u) => u.blueprintId === claim.blueprintId);
+      const quantity = update ? update.quantity : claim.requestedQty;
 
-      if (!stillHasClaims) {
-        order.assignedSellerId = undefined;
-        order.assignedSellerDiscordId = undefined;
-        order.assignedAt = undefined;
+      if (!Number.isInteger(quantity) || quantity < 0 || quantity > 999) {
+        return { success: false, error: "Невірна кількість (0-999)" };
+      }
+
+      if (quantity > 0) {
+        items.push({ blueprintId: claim.blueprintId, blueprintName: claim.blueprintName, quantity });
+      }
+      if (quantity > claim.requestedQty) {
+        raisedItems.push({ id: claim.blueprintId, quantity });
       }
     }
 
-    // Check if order should go back to "open"
-    const hasAnyClaims = order.itemClaims.some((c) => c.claimStatus !== "unclaimed");
-    if (!hasAnyClaims) {
-      order.status = "open";
+    if (items.length === 0) {
+      return { success: false, error: "Має залишитися хоча б одна позиція. Щоб відмовитися від замовлення, скасуйте його." };
     }
 
+    // Raised quantities must be in stock, as at checkout (lowering is always allowed)
+    const stockCheck = checkOrderStock(raisedItems);
+    if (!stockCheck.valid) {
+      const firstError = stockCheck.itemErrors[0];
+      const name = items.find((item) => item.blueprintId === firstError.id)?.blueprintName || firstError.id;
+      return { success: false, error: `${name}: ${firstError.message}`, itemErrors: stockCheck.itemErrors };
+    }
+
+    const previousSellerGroups = order.sellerGroups;
+
+    // Re-resolve sellers for the new quantities
+    const sellerGroups = resolveOrderToSellers(items);
+    const isMultiSeller = requiresMultipleSellers(
+      items.map((item) => ({ blueprintId: item.blueprintId, quantity: item.quantity }))
+    );
+
+    order.sellerGroups = sellerGroups;
+    order.sellerIds = sellerGroups.map((group) => group.sellerId);
+    order.sellerCount = sellerGroups.length;
+    order.isMultiSeller = isMultiSeller;
+    order.offer = getDisplayedOffer(order.originalOffer, isMultiSeller, sellerGroups);
+    // Keep pins whose seller can still supply the new quantity (the window is not extended)
+    if (order.preferredSellers) {
+      order.preferredSellers = order.preferredSellers.filter((p) =>
+        sellerGroups.some(
+          (g) => g.sellerId === p.sellerId && g.items.some((i) => i.blueprintId === p.blueprintId && i.available)
+        )
+      );
+    }
+    order.assignment = computeOrderAssignment(
+      items.map((item) => ({ blueprintId: item.blueprintId, quantity: item.quantity })),
+      order.preferredSellers
+    );
+    order.itemClaims = items.map((item) => ({
+      blueprintId: item.blueprintId,
+      blueprintName: item.blueprintName,
+      requestedQty: item.quantity,
+      claimStatus: "unclaimed",
+      slices: [],
+    }));
+
+    recordOrderEvent(order, {
+      actorRole: "buyer",
+      actorName: order.buyerDiscordNick,
+      action: "updated",
+      items: toEventItems(order.itemClaims),
+      fromStatus: order.status,
+    });
     updateOrder(order);
+    sendOrderNotification(order, () => notifyOrderUpdated(order, previousSellerGroups));
 
-    return { success: true, claimedItems: [blueprintId] };
+    return { success: true, order };
+  });
+}
+
+// Maximum length of a feedback comment
+const MAX_FEEDBACK_COMMENT_LENGTH = 300;
+
+/**
+ * Rate a seller who fulfilled items of the order on behalf of the buyer
+ * Allowed once per seller, after the order is completed or closed.
+ * The rating is also added to the seller's totals, which the catalog and the
+ * seller's reputation read.
+ */
+export async function leaveSellerFeedback(
+  orderId: string,
+  accessToken: string,
+  sellerDiscordId: string,
+  rating: number,
+  comment?: string
+): Promise<BuyerOrderActionResult> {
+  const filePath = getOrderFilePath(orderId);
+
+  return withFileLock(filePath, async () => {
+    const order = getOrderById(orderId);
+    if (!order || !isValidAccessToken(order, accessToken)) {
+      return { success: false, error: "Замовлення не знайдено" };
+    }
+
+    if (!canLeaveFeedback(order)) {
+      return { success: false, error: "Відгук можна залишити після завершення замовлення" };
+    }
+
+    const seller = getFulfilledSellers(order).find((s) => s.sellerDiscordId === sellerDiscordId);
+    if (!seller) {
+      return { success: false, error: "Цей продавець не видавав позицій у вашому замовленні" };
+    }
+
+    if (order.sellerFeedback?.some((f) => f.sellerId === seller.sellerId)) {
+      return { success: false, error: "Ви вже залишили відгук цьому продавцю" };
+    }
+
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return { success: false, error: "Оцінка має бути від 1 до 5" };
+    }
+
+    const trimmedComment = comment?.trim() || undefined;
+    if (trimmedComment && trimmedComment.length > MAX_FEEDBACK_COMMENT_LENGTH) {
+      return { success: false, error: `Коментар занадто довгий (макс. ${MAX_FEEDBACK_COMMENT_LENGTH} символів)` };
+    }
+
+    // Seller lock too: the rating totals are read and written here
+    return withSellerLock(seller.sellerId, () => {
+      const updatedSeller = prepareSellerRating(seller.sellerId, rating);
+
+      if (!order.sellerFeedback) {
+        order.sellerFeedback = [];
+      }
+      order.sellerFeedback.push({
+        sellerId: seller.sellerId,
+        sellerDiscordId: seller.sellerDiscordId,
+        rating,
+        comment: trimmedComment,
+        createdAt: new Date().toISOString(),
+      });
+      recordOrderEvent(order, {
+        actorRole: "buyer",
+        actorName: order.buyerDiscordNick,
+        action: "rated",
+        fromStatus: order.status,
+        note: `${seller.sellerDiscordId}: ${rating}/5`,
+      });
+
+      // Feedback and rating totals are written together (a deleted seller keeps only the feedback)
+      getStorage().saveBatch({ sellers: updatedSeller ? [updatedSeller] : [], orders: [order] });
+      publishOrderChange({ type: "updated", orderId: order.orderId });
+
+      return { success: true, order };
+    });
   });
 }
 
+// ============================================
+// STALE ORDER SWEEP
+// ============================================
+
+// Defaults for the sweep timeouts (overridable via env, in hours)
+const DEFAULT_ORDER_EXPIRY_HOURS = 72;
+const DEFAULT_CLAIM_TIMEOUT_HOURS = 48;
+
+// Minimum interval between automatic sweeps triggered by order list requests
+const AUTO_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+let lastSweepAt = 0;
+
+export interface OrderSweepResult {
+  // Orders moved to "expired"
+  expiredOrderIds: string[];
+  // Claims released because they were not fulfilled in time
+  releasedClaims: { orderId: string; blueprintId: string; sellerId: string }[];
+  // Orders whose pinned items were opened to all sellers
+  openedOrderIds: string[];
+}
+
+/**
+ * Read a positive number of hours from env, falling back to a default
+ */
+function getHoursFromEnv(name: string, defaultHours: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : defaultHours;
+}
+
+/**
+ * Current sweep configuration
+ * - ORDER_EXPIRY_HOURS: open orders without claims expire after this age
+ * - ORDER_CLAIM_TIMEOUT_HOURS: claimed but unfulfilled items are released after this time
+ */
+export function getOrderSweepConfig(): { orderExpiryHours: number; claimTimeoutHours: number } {
+  return {
+    orderExpiryHours: getHoursFromEnv("ORDER_EXPIRY_HOURS", DEFAULT_ORDER_EXPIRY_HOURS),
+    claimTimeoutHours: getHoursFromEnv("ORDER_CLAIM_TIMEOUT_HOURS", DEFAULT_CLAIM_TIMEOUT_HOURS),
+  };
+}
+
+/**
+ * Time the order became available to sellers again
+ * (creation, or the last time the sweep released its claims)
+ */
+function getOrderOpenSince(order: StoredOrder): number {
+  let openSince = new Date(order.createdAt).getTime();
+  for (const release of order.claimReleases || []) {
+    openSince = Math.max(openSince, new Date(release.releasedAt).getTime());
+  }
+  return openSince;
+}
+
+/**
+ * Release stale claims and expire stale open orders
+ * 1. Claim slices not fulfilled within the claim timeout are dropped and their
+ *    quantity is open again (the release is recorded in claimReleases with the reason)
+ * 2. Open orders without any claims older than the expiry age become "expired"
+ * 3. Items pinned to a seller that are still unclaimed when the preferred-seller
+ *    window ends are announced to the other sellers
+ */
+export async function sweepStaleOrders(now: Date = new Date()): Promise<OrderSweepResult> {
+  const { orderExpiryHours, claimTimeoutHours } = getOrderSweepConfig();
+  const claimTimeoutMs = claimTimeoutHours * 60 * 60 * 1000;
+  const orderExpiryMs = orderExpiryHours * 60 * 60 * 1000;
+  const nowMs = now.getTime();
+
+  const result: OrderSweepResult = { expiredOrderIds: [], releasedClaims: [], openedOrderIds: [] };
+  lastSweepAt = nowMs;
+
+  const candidates = getAllOrders({ excludeStatuses: FINAL_ORDER_STATUSES });
+
+  for (const candidate of candidates) {
+    const filePath = getOrderFilePath(candidate.orderId);
+
+    await withFileLock(filePath, async () => {
+      // Re-read under lock - the order may have changed since listing
+      const order = getOrderById(candidate.orderId);
+      if (!order || isFinalOrderStatus(order.status)) {
+        return;
+      }
+
+      let changed = false;
+      const releases: ReservationRelease[] = [];
+
+      for (const claim of order.itemClaims) {
+        const staleSlices = claim.slices.filter(
+          (slice) => slice.status === "claimed" && nowMs - new Date(slice.claimedAt).getTime() >= claimTimeoutMs
+        );
+
+        for (const slice of staleSlices) {
+          const fromStatus = order.status;
+          const reason = `Не видано протягом ${claimTimeoutHours} год.`;
+
+          if (!order.claimReleases) {
+            order.claimReleases = [];
+          }
+          order.claimReleases.push({
+            blueprintId: claim.blueprintId,
+            sellerId: slice.sellerId,
+            sellerDiscordId: slice.sellerDiscordId,
+            quantity: slice.quantity,
+            claimedAt: slice.claimedAt,
+            releasedAt: now.toISOString(),
+            reason,
+          });
+
+          const release = releaseSlice(order, claim, slice);
+          if (release) {
+            releases.push(release);
+          }
+          recordOrderEvent(order, {
+            actorRole: "system",
+            action: "released",
+            items: toAmountEventItems([{ claim, quantity: slice.quantity }]),
+            fromStatus,
+            note: `${slice.sellerDiscordId}: ${reason}`,
+          });
+          result.releasedClaims.push({ orderId: order.orderId, blueprintId: claim.blueprintId, sellerId: slice.sellerId });
+          changed = true;
+        }
+      }
+
+      const hasAnyClaims = order.itemClaims.some((c) => c.claimStatus !== "unclaimed");
+      if (
+        order.status === "open" &&
+        !hasAnyClaims &&
+        nowMs - getOrderOpenSince(order) >= orderExpiryMs
+      ) {
+        order.status = "expired";
+        order.expiredAt = now.toISOString();
+        order.expiryReason = `Жоден продавець не прийняв замовлення протягом ${orderExpiryHours} год.`;
+        recordOrderEvent(order, {
+          actorRole: "system",
+          action: "expired",
+          fromStatus: "open",
+          note: order.expiryReason,
+        });
+        result.expiredOrderIds.push(order.orderId);
+        changed = true;
+      }
+
+      // Preferred seller did not take the pinned items in time
+      if (
+        order.status !== "expired" &&
+        order.preferredUntil &&
+        !order.preferenceTimedOutAt &&
+        nowMs >= new Date(order.preferredUntil).getTime()
+      ) {
+        const openedClaims = order.itemClaims.filter(
+          (c) => getRemainingQuantity(c) > 0 && order.preferredSellers?.some((p) => p.blueprintId === c.blueprintId)
+        );
+        order.preferenceTimedOutAt = now.toISOString();
+        if (openedClaims.length > 0) {
+          recordOrderEvent(order, {
+            actorRole: "system",
+            action: "opened",
+            items: toAmountEventItems(
+              openedClaims.map((claim) => ({ claim, quantity: getRemainingQuantity(claim) }))
+            ),
+            fromStatus: order.status,
+            note: "Обраний покупцем продавець не прийняв позиції вчасно",
+          });
+          const blueprintIds = openedClaims.map((c) => c.blueprintId);
+          sendOrderNotification(order, () => notifyPreferredSellerTimeout(order, blueprintIds));
+          result.openedOrderIds.push(order.orderId);
+        }
+        changed = true;
+      }
+
+      if (changed) {
+        await saveOrderWithReleases(order, releases);
+      }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Run the sweep if it has not run recently
+ * Called from order list endpoints so expiry works without a scheduler
+ */
+export async function sweepStaleOrdersIfDue(): Promise<void> {
+  if (Date.now() - lastSweepAt < AUTO_SWEEP_INTERVAL_MS) {
+    return;
+  }
+
+  try {
+    const result = await sweepStaleOrders();
+    if (result.expiredOrderIds.length > 0 || result.releasedClaims.length > 0 || result.openedOrderIds.length > 0) {
+      console.log(
+        `Order sweep: expired=${result.expiredOrderIds.length}, released claims=${result.releasedClaims.length}, opened to all=${result.openedOrderIds.length}`
+      );
+    }
+  } catch (error) {
+    console.error("Order sweep error:", error);
+  }
+}
+
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================
@@ -994,42 +2187,67 @@ export function countOrdersForSeller(sellerId: string): number {
  * Delete order (admin only, for cleanup)
  */
 export function deleteOrder(orderId: string): boolean {
-  const filePath = getOrderFilePath(orderId);
-  if (!fs.existsSync(filePath)) {
-    return false;
+  const deleted = getStorage().orders.delete(orderId);
+  if (deleted) {
+    publishOrderChange({ type: "updated", orderId });
   }
-
-  fs.unlinkSync(filePath);
-  return true;
+  return deleted;
 }
 
 /**
  * Get order statistics for seller
+ * Item outcomes count each item of an order once, by how it ended for this
+ * seller: fulfilled (at least part of it), or given up - released by the
+ * seller or the sweep, or still held when the order ended (cancelled, expired
+ * or closed). An item released and then claimed again counts by its new
+ * outcome; items still held on live orders have no outcome yet.
  */
 export function getSellerOrderStats(sellerId: string): {
   activeOrders: number;
   claimedItems: number;
   fulfilledItems: number;
+  abandonedItems: number;
   archivedOrders: number;
+  releasedItems: number;  // Claims the sweep released because they were not fulfilled in time
 } {
   const activeOrders = getOrdersForSeller(sellerId);
   const archivedOrders = getArchivedOrdersForSeller(sellerId);
 
   let claimedItems = 0;
-  let fulfilledItems = 0;
-
   for (const order of activeOrders) {
     for (const item of order.items) {
-      if (item.claimedByMe && item.claimStatus === "claimed") {
+      if (item.myClaimStatus === "claimed") {
         claimedItems++;
       }
     }
   }
 
-  for (const order of archivedOrders) {
-    for (const item of order.items) {
-      if (item.claimedByMe && item.claimStatus === "fulfilled") {
+  let fulfilledItems = 0;
+  let abandonedItems = 0;
+  let releasedItems = 0;
+
+  for (const order of getAllOrders({ sellerId })) {
+    const sweptReleases = (order.claimReleases || []).filter((r) => r.sellerId === sellerId);
+    releasedItems += sweptReleases.length;
+
+    const releasedIds = new Set(sweptReleases.map((r) => r.blueprintId));
+    for (const event of order.events || []) {
+      if (event.action === "released" && event.actorRole === "seller" && event.actorId === sellerId) {
+        event.items?.forEach((item) => releasedIds.add(item.blueprintId));
+      }
+    }
+
+    for (const claim of order.itemClaims) {
+      const slices = claim.slices.filter((slice) => slice.sellerId === sellerId);
+
+      if (slices.some((slice) => slice.status === "fulfilled")) {
         fulfilledItems++;
+      } else if (slices.length > 0) {
+        if (isFinalOrderStatus(order.status)) {
+          abandonedItems++;
+        }
+      } else if (releasedIds.has(claim.blueprintId)) {
+        abandonedItems++;
       }
     }
   }
@@ -1038,7 +2256,78 @@ export function getSellerOrderStats(sellerId: string): {
     activeOrders: activeOrders.length,
     claimedItems,
     fulfilledItems,
+    abandonedItems,
     archivedOrders: archivedOrders.length,
+    releasedItems,
+  };
+}
+
+// ============================================
+// SELLER REPUTATION
+// ============================================
+
+// Aggregated track record of a seller (admin seller list)
+export interface SellerReputation {
+  // Share of claimed items that ended fulfilled rather than given up (null = no history yet)
+  completionRate: number | null;
+  averageRating: number | null;
+  ratingCount: number;
+  // Median time from claiming an item to fulfilling it (null = nothing fulfilled yet)
+  medianFulfilHours: number | null;
+  // Latest buyer comments, newest first
+  recentComments: { orderId: string; rating: number; comment: string; createdAt: string }[];
+}
+
+/**
+ * Build a seller's reputation from their order history
+ * The rating comes from the totals on the seller record (the one place ratings
+ * are counted); orders only supply the comments. The completion rate uses the
+ * item outcomes of getSellerOrderStats, so it matches the seller's dashboard.
+ */
+export function getSellerReputation(sellerId: string): SellerReputation {
+  const fulfilHours: number[] = [];
+  const comments: SellerReputation["recentComments"] = [];
+
+  for (const order of getAllOrders({ sellerId })) {
+    for (const feedback of order.sellerFeedback || []) {
+      if (feedback.sellerId !== sellerId || !feedback.comment) continue;
+      comments.push({
+        orderId: order.orderId,
+        rating: feedback.rating,
+        comment: feedback.comment,
+        createdAt: feedback.createdAt,
+      });
+    }
+
+    for (const claim of order.itemClaims) {
+      for (const slice of claim.slices) {
+        if (slice.sellerId !== sellerId || slice.status !== "fulfilled" || !slice.fulfilledAt) continue;
+        // Migrated claims may lack the claim time - count from the order then
+        const claimedAt = Math.max(new Date(slice.claimedAt).getTime(), new Date(order.createdAt).getTime());
+        fulfilHours.push((new Date(slice.fulfilledAt).getTime() - claimedAt) / (60 * 60 * 1000));
+      }
+    }
+  }
+
+  fulfilHours.sort((a, b) => a - b);
+  const middle = Math.floor(fulfilHours.length / 2);
+  const medianFulfilHours =
+    fulfilHours.length === 0
+      ? null
+      : fulfilHours.length % 2 === 1
+      ? fulfilHours[middle]
+      : (fulfilHours[middle - 1] + fulfilHours[middle]) / 2;
+
+  const { fulfilledItems, abandonedItems } = getSellerOrderStats(sellerId);
+  const finishedItems = fulfilledItems + abandonedItems;
+  const ratingTotals = getSellerById(sellerId)?.rating;
+
+  return {
+    completionRate: finishedItems > 0 ? fulfilledItems / finishedItems : null,
+    averageRating: getAverageRating(ratingTotals),
+    ratingCount: ratingTotals?.count || 0,
+    medianFulfilHours: medianFulfilHours === null ? null : Math.round(medianFulfilHours * 10) / 10,
+    recentComments: comments.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, 5),
   };
 }
 
@@ -1053,6 +2342,7 @@ export function getSellerOrderStats(sellerId: string): {
 export interface AdminOrderView {
   orderId: string;
   buyerDiscordNick: string;
+  buyerUnverified?: boolean;
   offer: string;
   notes?: string;
   isMultiSeller: boolean;
@@ -1065,18 +2355,34 @@ export interface AdminOrderView {
   // Close info
   closedAt?: string;
   closedBySellerId?: string;
+  // Expiry info
+  expiredAt?: string;
+  expiryReason?: string;
+  claimReleases?: ClaimReleaseRecord[];
+  // Full action history
+  events: OrderEvent[];
   // All items with full claim info
   items: {
     blueprintId: string;
     blueprintName: string;
     requestedQty: number;
     claimStatus: ItemClaimStatus;
-    claimedBySellerId?: string;
-    claimedBySellerDiscordId?: string;
-    claimedQuantity?: number;
-    claimedAt?: string;
-    fulfilledAt?: string;
+    claimedQty: number;
+    slices: {
+      sellerId: string;
+      sellerDiscordId: string;
+      quantity: number;
+      status: ClaimSliceStatus;
+      claimedAt: string;
+      fulfilledAt?: string;
+    }[];
+    // Seller the buyer chose for this item
+    preferredSellerDiscordId?: string;
+    // Seller the suggested split gives this item to
+    suggestedSellerDiscordId?: string;
   }[];
+  // End of the preferred-seller window (pinned orders only)
+  preferredUntil?: string;
   // Per-seller states
   sellerStates?: SellerOrderState[];
 }
@@ -1088,6 +2394,7 @@ function buildAdminOrderView(order: StoredOrder): AdminOrderView {
   return {
     orderId: order.orderId,
     buyerDiscordNick: order.buyerDiscordNick,
+    buyerUnverified: order.buyerUnverified,
     offer: order.offer,
     notes: order.notes,
     isMultiSeller: order.isMultiSeller,
@@ -1098,17 +2405,29 @@ function buildAdminOrderView(order: StoredOrder): AdminOrderView {
     assignedAt: order.assignedAt,
     closedAt: order.closedAt,
     closedBySellerId: order.closedBySellerId,
+    expiredAt: order.expiredAt,
+    expiryReason: order.expiryReason,
+    claimReleases: order.claimReleases,
+    events: order.events || [],
     items: order.itemClaims.map((claim) => ({
       blueprintId: claim.blueprintId,
       blueprintName: claim.blueprintName,
       requestedQty: claim.requestedQty,
       claimStatus: claim.claimStatus,
-      claimedBySellerId: claim.claimedBySellerId,
-      claimedBySellerDiscordId: claim.claimedBySellerDiscordId,
-      claimedQuantity: claim.claimedQuantity,
-      claimedAt: claim.claimedAt,
-      fulfilledAt: claim.fulfilledAt,
+      claimedQty: getClaimedQuantity(claim),
+      slices: claim.slices.map((slice) => ({
+        sellerId: slice.sellerId,
+        sellerDiscordId: slice.sellerDiscordId,
+        quantity: slice.quantity,
+        status: slice.status,
+        claimedAt: slice.claimedAt,
+        fulfilledAt: slice.fulfilledAt,
+      })),
+      preferredSellerDiscordId: order.preferredSellers?.find((p) => p.blueprintId === claim.blueprintId)
+        ?.sellerDiscordId,
+      suggestedSellerDiscordId: getAssignedSeller(order.assignment, claim.blueprintId)?.sellerDiscordId,
     })),
+    preferredUntil: order.preferredUntil,
     sellerStates: order.sellerStates,
   };
 }
@@ -1123,52 +2442,30 @@ export function getAllOrdersForAdmin(): AdminOrderView[] {
 }
 
 /**
- * Get active orders for admin (not closed/cancelled)
+ * Get active orders for admin (not closed/cancelled/expired)
  */
 export function getActiveOrdersForAdmin(): AdminOrderView[] {
-  const orders = getAllOrders();
-  return orders
-    .filter((o) => o.status !== "closed" && o.status !== "cancelled")
-    .map(buildAdminOrderView);
+  const orders = getAllOrders({ excludeStatuses: FINAL_ORDER_STATUSES });
+  return orders.map(buildAdminOrderView);
 }
 
 /**
- * Get archived orders for admin (closed/cancelled)
+ * Get archived orders for admin (closed/cancelled/expired)
  */
 export function getArchivedOrdersForAdmin(): AdminOrderView[] {
-  const orders = getAllOrders();
-  return orders
-    .filter((o) => o.status === "closed" || o.status === "cancelled")
-    .map(buildAdminOrderView);
+  const orders = getAllOrders({ statuses: FINAL_ORDER_STATUSES });
+  return orders.map(buildAdminOrderView);
 }
 
 /**
  * Clear all orders (admin action)
- * Deletes all order files from the orders directory
+ * Deletes all orders from storage
  * Returns count of deleted orders
  */
 export function clearAllOrders(): { success: boolean; deletedCount: number; error?: string } {
-  ensureDirectories();
-
   try {
-    if (!fs.existsSync(ORDERS_DIR)) {
-      return { success: true, deletedCount: 0 };
-    }
-
-    const files = fs.readdirSync(ORDERS_DIR).filter((f) => f.endsWith(".json"));
-    let deletedCount = 0;
-
-    for (const file of files) {
-      const filePath = path.join(ORDERS_DIR, file);
-      try {
-        fs.unlinkSync(filePath);
-        deletedCount++;
-      } catch {
-        // Continue deleting other files even if one fails
-        console.error(`Failed to delete order file: ${filePath}`);
-      }
-    }
-
+    const deletedCount = getStorage().orders.clear();
+    publishOrderChange({ type: "reset" });
     return { success: true, deletedCount };
   } catch (error) {
     console.error("Error clearing all orders:", error);
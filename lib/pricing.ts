@@ -0,0 +1,164 @@
+import type { AskingPrice, BlueprintAskSummary, SellerOrderGroup, SellerOrderTerms } from "./types";
+
+/**
+ * Seller asking prices (shared by server and browser code)
+ * A price is per unit: an amount of in-game currency or a list of items the
+ * seller wants in exchange. Unpriced stock stays "за домовленістю" (barter via offer).
+ */
+
+// In-game currency label shown next to amounts
+export const CURRENCY_LABEL = "ARC";
+
+const MAX_PRICE_AMOUNT = 1_000_000;
+const MAX_WANTED_ITEMS = 10;
+const MAX_WANTED_ITEM_LENGTH = 64;
+
+/**
+ * Validate an asking price from a request
+ * null clears the price; anything else must be a well-formed price
+ */
+export function parseAskingPrice(
+  value: unknown
+): { valid: boolean; price?: AskingPrice | null; error?: string } {
+  if (value === null) {
+    return { valid: true, price: null };
+  }
+  if (!value || typeof value !== "object") {
+    return { valid: false, error: "Невірна ціна" };
+  }
+
+  const price = value as Record<string, unknown>;
+
+  if (price.type === "currency") {
+    const amount = price.amount;
+    if (typeof amount !== "number" || !Number.isInteger(amount) || amount < 1 || amount > MAX_PRICE_AMOUNT) {
+      return { valid: false, error: `Ціна має бути цілим числом від 1 до ${MAX_PRICE_AMOUNT}` };
+    }
+    return { valid: true, price: { type: "currency", amount } };
+  }
+
+  if (price.type === "items") {
+    if (!Array.isArray(price.items)) {
+      return { valid: false, error: "Вкажіть, які предмети ви хочете взамін" };
+    }
+    const items = price.items
+      .filter((item): item is string => typeof item === "string")
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+    if (items.length === 0) {
+      return { valid: false, error: "Вкажіть, які предмети ви хочете взамін" };
+    }
+    if (items.length > MAX_WANTED_ITEMS) {
+      return { valid: false, error: `Занадто багато предметів (макс. ${MAX_WANTED_ITEMS})` };
+    }
+    if (items.some((item) => item.length > MAX_WANTED_ITEM_LENGTH)) {
+      return { valid: false, error: `Назва предмета занадто довга (макс. ${MAX_WANTED_ITEM_LENGTH} символів)` };
+    }
+    return { valid: true, price: { type: "items", items } };
+  }
+
+  return { valid: false, error: "Невірний тип ціни" };
+}
+
+/**
+ * Compare two prices (undefined = no price)
+ */
+export function isSameAskingPrice(a: AskingPrice | undefined, b: AskingPrice | undefined): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Human-readable unit price: "500 ARC" or "Metal Parts ×5, Wires"
+ */
+export function formatAskingPrice(price: AskingPrice): string {
+  return price.type === "currency"
+    ? `${price.amount} ${CURRENCY_LABEL}`
+    : price.items.join(", ");
+}
+
+/**
+ * Catalog price label: "500 ARC" or "500–800 ARC"
+ */
+export function formatPriceRange(minAmount: number, maxAmount: number): string {
+  return minAmount === maxAmount
+    ? `${minAmount} ${CURRENCY_LABEL}`
+    : `${minAmount}–${maxAmount} ${CURRENCY_LABEL}`;
+}
+
+/**
+ * Catalog label for a blueprint: currency range, else "обмін на предмети"
+ * Returns null when no seller has priced the blueprint
+ */
+export function formatAskSummary(summary: BlueprintAskSummary | undefined): string | null {
+  if (!summary) return null;
+  if (summary.minAmount !== undefined && summary.maxAmount !== undefined) {
+    return formatPriceRange(summary.minAmount, summary.maxAmount);
+  }
+  return summary.itemAskCount > 0 ? "обмін на предмети" : null;
+}
+
+/**
+ * Total terms of a seller for the items they can supply
+ */
+export function calculateSellerTerms(
+  items: { blueprintName: string; quantity: number; unitPrice?: AskingPrice }[]
+): SellerOrderTerms {
+  const terms: SellerOrderTerms = { currencyTotal: 0, itemTrades: [], unpricedCount: 0 };
+
+  for (const item of items) {
+    if (item.quantity <= 0) continue;
+
+    if (!item.unitPrice) {
+      terms.unpricedCount++;
+    } else if (item.unitPrice.type === "currency") {
+      terms.currencyTotal += item.unitPrice.amount * item.quantity;
+    } else {
+      terms.itemTrades.push({
+        blueprintName: item.blueprintName,
+        quantity: item.quantity,
+        wantedItems: item.unitPrice.items,
+      });
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Terms of a seller's part of an order (each item capped at what they have)
+ */
+export function calculateGroupTerms(items: SellerOrderGroup["items"]): SellerOrderTerms {
+  return calculateSellerTerms(
+    items.map((item) => ({
+      blueprintName: item.blueprintName,
+      quantity: Math.min(item.requestedQty, item.availableQty),
+      unitPrice: item.unitPrice,
+    }))
+  );
+}
+
+/**
+ * True if the seller named a price for at least one item
+ */
+export function hasPricedTerms(terms: SellerOrderTerms): boolean {
+  return terms.currencyTotal > 0 || terms.itemTrades.length > 0;
+}
+
+/**
+ * One-line terms: "1500 ARC + Anvil ×2 за Metal Parts ×5 (за шт.) + 1 поз. за домовленістю"
+ */
+export function formatSellerTerms(terms: SellerOrderTerms): string {
+  const parts: string[] = [];
+
+  if (terms.currencyTotal > 0) {
+    parts.push(`${terms.currencyTotal} ${CURRENCY_LABEL}`);
+  }
+  for (const trade of terms.itemTrades) {
+    parts.push(`${trade.blueprintName} ×${trade.quantity} за ${trade.wantedItems.join(", ")} (за шт.)`);
+  }
+  if (terms.unpricedCount > 0) {
+    parts.push(`${terms.unpricedCount} поз. за домовленістю`);
+  }
+
+  return parts.length > 0 ? parts.join(" + ") : "за домовленістю";
+}
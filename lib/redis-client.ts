@@ -0,0 +1,369 @@
+/**
+ * Minimal Redis client (RESP2 over TCP/TLS)
+ * Enough for simple key/value commands and pub/sub; works with Redis, Valkey,
+ * KeyDB or any server speaking the same protocol.
+ */
+
+import net from "net";
+import tls from "tls";
+
+const CONNECT_TIMEOUT_MS = 5 * 1000;
+const COMMAND_TIMEOUT_MS = 5 * 1000;
+// Delay before a dropped subscriber connection is re-established
+const RESUBSCRIBE_DELAY_MS = 2 * 1000;
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export interface RedisClient {
+  command(...args: (string | number)[]): Promise<RedisReply>;
+  close(): void;
+}
+
+export interface RedisSubscription {
+  close(): void;
+}
+
+interface RedisConnectionOptions {
+  useTls: boolean;
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+  db: number;
+}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+// Parsed reply and the offset right after it, or null if more data is needed
+type ParseResult = { reply: RedisReply | Error; offset: number } | null;
+
+// ============================================
+// PROTOCOL
+// ============================================
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeRedisCommand(args: (string | number)[]): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+  for (const arg of args) {
+    const value = Buffer.from(String(arg));
+    parts.push(Buffer.from(`$${value.length}\r\n`), value, Buffer.from("\r\n"));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Parse one reply from the buffer starting at offset
+ */
+export function parseRedisReply(buffer: Buffer, offset: number = 0): ParseResult {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf-8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { reply: line, offset: next };
+    case "-":
+      return { reply: new Error(line), offset: next };
+    case ":":
+      return { reply: Number(line), offset: next };
+    case "$": {
+      const length = Number(line);
+      if (length === -1) {
+        return { reply: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return { reply: buffer.toString("utf-8", next, next + length), offset: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count === -1) {
+        return { reply: null, offset: next };
+      }
+      const items: RedisReply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseRedisReply(buffer, position);
+        if (!item) {
+          return null;
+        }
+        // Errors inside arrays (e.g. EXEC) are returned as strings
+        items.push(item.reply instanceof Error ? item.reply.message : item.reply);
+        position = item.offset;
+      }
+      return { reply: items, offset: position };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type: ${JSON.stringify(type)}`);
+  }
+}
+
+// ============================================
+// CLIENT
+// ============================================
+
+/**
+ * Connection settings from a redis:// or rediss:// URL
+ * (redis://[user:password@]host[:port][/db])
+ */
+function parseRedisUrl(url: string): RedisConnectionOptions {
+  const parsed = new URL(url);
+  return {
+    useTls: parsed.protocol === "rediss:",
+    host: parsed.hostname || "127.0.0.1",
+    port: Number(parsed.port) || 6379,
+    username: decodeURIComponent(parsed.username),
+    password: decodeURIComponent(parsed.password),
+    db: Number(parsed.pathname.slice(1)) || 0,
+  };
+}
+
+/**
+ * Open a TCP or TLS socket; onConnect runs once it is established
+ */
+function openRedisSocket(options: RedisConnectionOptions, onConnect: () => void): net.Socket {
+  const { useTls, host, port } = options;
+  const connection = useTls
+    ? tls.connect({ host, port, servername: host }, onConnect)
+    : net.connect({ host, port }, onConnect);
+  connection.setNoDelay(true);
+  return connection;
+}
+
+/**
+ * Create a client for a redis:// or rediss:// URL
+ * (redis://[user:password@]host[:port][/db]).
+ * Connects lazily and reconnects on the next command after a failure.
+ */
+export function createRedisClient(url: string): RedisClient {
+  const options = parseRedisUrl(url);
+  const { host, port, username, password, db } = options;
+
+  let socket: net.Socket | null = null;
+  let ready: Promise<void> | null = null;
+  let buffer: Buffer = Buffer.alloc(0);
+  const pending: PendingCommand[] = [];
+
+  const failAll = (error: Error) => {
+    socket?.destroy();
+    socket = null;
+    ready = null;
+    buffer = Buffer.alloc(0);
+    for (const command of pending.splice(0)) {
+      command.reject(error);
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+
+    let result: ParseResult;
+    try {
+      while (pending.length > 0 && (result = parseRedisReply(buffer)) !== null) {
+        buffer = buffer.subarray(result.offset);
+        const command = pending.shift()!;
+        if (result.reply instanceof Error) {
+          command.reject(result.reply);
+        } else {
+          command.resolve(result.reply);
+        }
+      }
+    } catch (error) {
+      failAll(error as Error);
+    }
+  };
+
+  const send = (args: (string | number)[]): Promise<RedisReply> => {
+    return new Promise((resolve, reject) => {
+      if (!socket) {
+        reject(new Error("Redis connection is closed"));
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        failAll(new Error(`Redis command timed out: ${args[0]}`));
+      }, COMMAND_TIMEOUT_MS);
+
+      pending.push({
+        resolve: (reply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.write(encodeRedisCommand(args));
+    });
+  };
+
+  const connect = (): Promise<void> => {
+    return new Promise<void>((resolve, reject) => {
+      const onConnect = () => {
+        connection.setTimeout(0);
+        resolve();
+      };
+      const connection = openRedisSocket(options, onConnect);
+
+      socket = connection;
+      connection.setTimeout(CONNECT_TIMEOUT_MS, () => {
+        const error = new Error(`Redis connection to ${host}:${port} timed out`);
+        failAll(error);
+        reject(error);
+      });
+      connection.on("data", onData);
+      connection.on("error", (error) => {
+        if (socket === connection) {
+          failAll(error);
+        }
+        reject(error);
+      });
+      connection.on("close", () => {
+        if (socket === connection) {
+          failAll(new Error("Redis connection closed"));
+        }
+      });
+    }).then(async () => {
+      if (password) {
+        await send(username ? ["AUTH", username, password] : ["AUTH", password]);
+      }
+      if (db) {
+        await send(["SELECT", db]);
+      }
+    });
+  };
+
+  return {
+    async command(...args) {
+      if (!ready) {
+        // On failure the connection is dropped and the next command retries
+        ready = connect().catch((error) => {
+          failAll(error);
+          throw error;
+        });
+      }
+      await ready;
+      return send(args);
+    },
+
+    close() {
+      socket?.end();
+      socket = null;
+      ready = null;
+    },
+  };
+}
+
+// ============================================
+// PUB/SUB
+// ============================================
+
+/**
+ * Listen to a pub/sub channel on a dedicated connection
+ * The connection is opened right away and re-established after it drops;
+ * messages published while it is down are missed.
+ */
+export function subscribeRedisChannel(
+  url: string,
+  channel: string,
+  onMessage: (message: string) => void
+): RedisSubscription {
+  const options = parseRedisUrl(url);
+  const { host, port, username, password } = options;
+
+  let socket: net.Socket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer) {
+      return;
+    }
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, RESUBSCRIBE_DELAY_MS);
+    reconnectTimer.unref();
+  };
+
+  const connect = () => {
+    let buffer: Buffer = Buffer.alloc(0);
+
+    const connection = openRedisSocket(options, () => {
+      connection.setTimeout(0);
+      // Pub/sub channels don't depend on the selected database
+      const commands: (string | number)[][] = [];
+      if (password) {
+        commands.push(username ? ["AUTH", username, password] : ["AUTH", password]);
+      }
+      commands.push(["SUBSCRIBE", channel]);
+      connection.write(Buffer.concat(commands.map(encodeRedisCommand)));
+    });
+    socket = connection;
+    // Listening alone doesn't keep the process running
+    connection.unref();
+
+    const drop = (error: Error) => {
+      if (socket !== connection) {
+        return;
+      }
+      console.error(`Redis subscription to ${channel} lost:`, error.message);
+      socket = null;
+      connection.destroy();
+      scheduleReconnect();
+    };
+
+    connection.setTimeout(CONNECT_TIMEOUT_MS, () => {
+      drop(new Error(`Redis connection to ${host}:${port} timed out`));
+    });
+    connection.on("data", (chunk: Buffer) => {
+      buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+
+      let result: ParseResult;
+      try {
+        while ((result = parseRedisReply(buffer)) !== null) {
+          buffer = buffer.subarray(result.offset);
+          if (result.reply instanceof Error) {
+            drop(result.reply);
+            return;
+          }
+          // ["message", channel, payload]; AUTH and SUBSCRIBE confirmations are skipped
+          const reply = result.reply;
+          if (Array.isArray(reply) && reply[0] === "message" && reply[1] === channel && typeof reply[2] === "string") {
+            onMessage(reply[2]);
+          }
+        }
+      } catch (error) {
+        drop(error as Error);
+      }
+    });
+    connection.on("error", drop);
+    connection.on("close", () => drop(new Error("Redis connection closed")));
+  };
+
+  connect();
+
+  return {
+    close() {
+      closed = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      socket?.end();
+      socket = null;
+    },
+  };
+}
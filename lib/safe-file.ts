@@ -1,19 +1,59 @@
 import fs from "fs";
+import os from "os";
 import path from "path";
 import crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
 
-// File lock tracking for concurrency control
+// File lock tracking for concurrency control (within this process)
 const fileLocks = new Map<string, Promise<void>>();
 
+// Files locked by the current call chain (withFileLock and recovery sections),
+// to tell a caller's own locks from those other requests of this process hold
+const callerLocks = new AsyncLocalStorage<ReadonlySet<string>>();
+
+// Files whose lockfile this process currently owns (any caller, sync or async)
+const heldLockFiles = new Set<string>();
+
+// Cross-process lockfiles: <file>.lock containing the owner's PID
+const LOCK_STALE_MS = 30 * 1000; // Lock not refreshed for this long is considered abandoned
+const LOCK_REFRESH_MS = 10 * 1000; // Holders touch the lockfile this often
+const LOCK_TIMEOUT_MS = 10 * 1000; // Give up waiting after this
+const LOCK_RETRY_MS = 20;
+
+// Process that created a lockfile or journal
+interface ProcessOwner {
+  pid: number;
+  hostname: string;
+}
+
+interface LockOwner extends ProcessOwner {
+  token: string;
+  acquiredAt: string;
+}
+
+// Journal directory for multi-file transactions
+const JOURNAL_DIR = path.join(process.cwd(), "data", "journal");
+
+// Replay leftover journals before the first read/write of this process
+// (set again if applying a committed transaction fails, or a stale lock is
+// removed - its owner may have died in the middle of a transaction)
+let journalRecoveryPending = true;
+
+// Files of journals whose replay was put off because another request of this
+// process holds one of their locks (see withFileLocksSync)
+let blockedJournalFiles = new Set<string>();
+
 /**
  * Acquire an exclusive lock on a file path.
- * Uses an in-process queue to prevent race conditions in concurrent requests.
- * Returns a release function to be called when done.
+ * Uses an in-process queue to prevent race conditions in concurrent requests,
+ * plus a lockfile so other processes (workers, scripts) are excluded too.
+ * The lockfile is refreshed while held, so a slow holder isn't taken for stale.
+ * Both waits share one deadline. Returns a release function to be called when done.
  */
-export async function acquireFileLock(filePath: string): Promise<() => void> {
+async function acquireFileLock(filePath: string, deadline: number): Promise<() => void> {
   // Wait for any existing lock on this file
   while (fileLocks.has(filePath)) {
-    await fileLocks.get(filePath);
+    await waitForInProcessLock(filePath, deadline);
   }
 
   let releaseLock: () => void;
@@ -23,25 +63,305 @@ export async function acquireFileLock(filePath: string): Promise<() => void> {
 
   fileLocks.set(filePath, lockPromise);
 
-  return () => {
+  const releaseInProcess = () => {
     fileLocks.delete(filePath);
     releaseLock!();
   };
+
+  let token: string;
+  try {
+    token = await acquireLockFile(filePath, deadline);
+  } catch (error) {
+    releaseInProcess();
+    throw error;
+  }
+  heldLockFiles.add(filePath);
+
+  const refreshTimer = setInterval(() => refreshLockFile(filePath, token), LOCK_REFRESH_MS);
+  // Don't keep scripts alive just for the refresh
+  refreshTimer.unref?.();
+
+  return () => {
+    clearInterval(refreshTimer);
+    heldLockFiles.delete(filePath);
+    releaseLockFile(filePath, token);
+    releaseInProcess();
+  };
+}
+
+/**
+ * Wait for the current in-process holder of the lock to release it
+ */
+async function waitForInProcessLock(filePath: string, deadline: number): Promise<void> {
+  const remainingMs = deadline - Date.now();
+  if (remainingMs <= 0) {
+    throw new Error(`Timed out waiting for lock on ${filePath}`);
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      fileLocks.get(filePath),
+      new Promise((resolve) => {
+        timer = setTimeout(resolve, remainingMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
 /**
  * Execute a function with exclusive file lock.
  * Ensures only one operation can modify the file at a time.
+ * Not re-entrant: locking a file again inside fn throws instead of waiting
+ * for itself.
  */
 export async function withFileLock<T>(
   filePath: string,
   fn: () => T | Promise<T>
 ): Promise<T> {
-  const release = await acquireFileLock(filePath);
+  const outer = callerLocks.getStore();
+  if (outer?.has(filePath)) {
+    throw new Error(`Lock on ${filePath} is already held by this call`);
+  }
+
+  const held = new Set(outer).add(filePath);
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    const release = await acquireFileLock(filePath, deadline);
+
+    // A replay that had to wait for another request's lock must land before
+    // this caller reads the file - step back so that request can finish
+    if (callerLocks.run(held, () => isJournalReplayBlocked(filePath))) {
+      release();
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for journal recovery of ${filePath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS * (1 + Math.random())));
+      continue;
+    }
+
+    try {
+      return await callerLocks.run(held, fn);
+    } finally {
+      release();
+    }
+  }
+}
+
+/**
+ * Synchronous variant of withFileLock, only for journal recovery (which runs
+ * inside synchronous reads). Waiting blocks the event loop, so request code
+ * uses withFileLock, and callers must not wait for a lock another request of
+ * this process holds (see withFileLocksSync). Re-entrant within the same call.
+ */
+function withFileLockSync<T>(filePath: string, fn: () => T): T {
+  const outer = callerLocks.getStore();
+  if (outer?.has(filePath)) {
+    return fn();
+  }
+
+  const token = acquireLockFileSync(filePath);
+  heldLockFiles.add(filePath);
   try {
-    return await fn();
+    return callerLocks.run(new Set(outer).add(filePath), fn);
   } finally {
-    release();
+    heldLockFiles.delete(filePath);
+    releaseLockFile(filePath, token);
+  }
+}
+
+// ============================================
+// LOCKFILES (cross-process)
+// ============================================
+
+function getLockPath(filePath: string): string {
+  return `${filePath}.lock`;
+}
+
+/**
+ * Try to create the lockfile atomically; returns false if it already exists
+ */
+function tryCreateLockFile(lockPath: string, owner: LockOwner): boolean {
+  const dir = path.dirname(lockPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  try {
+    const fd = fs.openSync(lockPath, "wx");
+    try {
+      fs.writeSync(fd, JSON.stringify(owner));
+    } finally {
+      fs.closeSync(fd);
+    }
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function readLockOwner(lockPath: string): LockOwner | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, "utf-8")) as LockOwner;
+  } catch {
+    // Missing or still being written
+    return null;
+  }
+}
+
+function getProcessOwner(): ProcessOwner {
+  return { pid: process.pid, hostname: os.hostname() };
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Whether a lockfile or journal was abandoned: its owner is gone or it wasn't
+ * touched for too long (held lockfiles are refreshed, see acquireFileLock).
+ * PIDs are only checked for owners on this host (containers sharing the
+ * data volume have separate PID namespaces - they rely on the age check).
+ */
+function isAbandoned(owner: ProcessOwner | null, ageMs: number): boolean {
+  const ownerDead = owner !== null && owner.hostname === os.hostname() && !isProcessAlive(owner.pid);
+  return ownerDead || ageMs >= LOCK_STALE_MS;
+}
+
+/**
+ * Remove the lockfile if it was abandoned (see isAbandoned)
+ */
+function removeLockIfStale(lockPath: string): void {
+  let ageMs: number;
+  try {
+    ageMs = Date.now() - fs.statSync(lockPath).mtimeMs;
+  } catch {
+    return; // Already gone
+  }
+
+  const owner = readLockOwner(lockPath);
+  if (!isAbandoned(owner, ageMs)) {
+    return;
+  }
+
+  // Move it aside first, then make sure we took the lock we judged stale
+  const stalePath = `${lockPath}.${crypto.randomBytes(4).toString("hex")}.stale`;
+  try {
+    fs.renameSync(lockPath, stalePath);
+  } catch {
+    return; // Someone else got there first
+  }
+
+  const removed = readLockOwner(stalePath);
+  if (owner && removed && removed.token !== owner.token) {
+    // A new owner took the lock in between - put it back (fails if replaced again)
+    try {
+      fs.linkSync(stalePath, lockPath);
+    } catch {
+      // Lock was re-created meanwhile - nothing to restore
+    }
+  } else {
+    console.warn(`Removed stale lock ${lockPath} (pid ${owner?.pid ?? "unknown"})`);
+    // The owner may have left a committed transaction - replay it before using the file
+    journalRecoveryPending = true;
+  }
+
+  try {
+    fs.unlinkSync(stalePath);
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
+function createLockOwner(): LockOwner {
+  return {
+    ...getProcessOwner(),
+    token: crypto.randomBytes(8).toString("hex"),
+    acquiredAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Wait for and take the lockfile; returns the owner token
+ */
+async function acquireLockFile(filePath: string, deadline: number): Promise<string> {
+  const lockPath = getLockPath(filePath);
+  const owner = createLockOwner();
+
+  while (!tryCreateLockFile(lockPath, owner)) {
+    removeLockIfStale(lockPath);
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock on ${filePath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  return owner.token;
+}
+
+/**
+ * Blocking variant of acquireLockFile (sleeps the thread between attempts)
+ */
+function acquireLockFileSync(filePath: string): string {
+  const lockPath = getLockPath(filePath);
+  const owner = createLockOwner();
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  const sleepBuffer = new Int32Array(new SharedArrayBuffer(4));
+
+  while (!tryCreateLockFile(lockPath, owner)) {
+    removeLockIfStale(lockPath);
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock on ${filePath}`);
+    }
+    Atomics.wait(sleepBuffer, 0, 0, LOCK_RETRY_MS);
+  }
+
+  return owner.token;
+}
+
+/**
+ * Touch the lockfile if we still own it (keeps it from looking stale)
+ */
+function refreshLockFile(filePath: string, token: string): void {
+  const lockPath = getLockPath(filePath);
+  if (readLockOwner(lockPath)?.token !== token) {
+    return; // Taken over as stale - not ours anymore
+  }
+
+  try {
+    const now = new Date();
+    fs.utimesSync(lockPath, now, now);
+  } catch {
+    // Released meanwhile
+  }
+}
+
+/**
+ * Remove the lockfile if we still own it
+ */
+function releaseLockFile(filePath: string, token: string): void {
+  const lockPath = getLockPath(filePath);
+  const owner = readLockOwner(lockPath);
+  if (owner?.token !== token) {
+    return; // Taken over as stale - not ours to remove
+  }
+
+  try {
+    fs.unlinkSync(lockPath);
+  } catch {
+    // Ignore - already removed
   }
 }
 
@@ -50,6 +370,14 @@ export async function withFileLock<T>(
  * This prevents file corruption if the process is interrupted during write.
  */
 export function safeWriteJson(filePath: string, data: unknown): void {
+  recoverJournalIfNeeded();
+  writeJsonAtomic(filePath, data);
+}
+
+/**
+ * Temp file + rename write without the journal recovery check
+ */
+function writeJsonAtomic(filePath: string, data: unknown): void {
   const dir = path.dirname(filePath);
 
   // Ensure directory exists
@@ -84,6 +412,8 @@ export function safeWriteJson(filePath: string, data: unknown): void {
  * Read JSON file safely
  */
 export function safeReadJson<T>(filePath: string): T | null {
+  recoverJournalIfNeeded();
+
   try {
     if (!fs.existsSync(filePath)) {
       return null;
@@ -95,3 +425,256 @@ export function safeReadJson<T>(filePath: string): T | null {
     return null;
   }
 }
+
+// ============================================
+// MULTI-FILE TRANSACTIONS (redo journal)
+// ============================================
+
+/**
+ * A single file write inside a transaction
+ */
+export interface JournalWrite {
+  filePath: string;
+  data: unknown;
+}
+
+// Journal file contents (paths relative to the app directory)
+interface JournalEntry {
+  id: string;
+  createdAt: string;
+  // Missing on journals written before recovery checked the owner
+  owner?: ProcessOwner;
+  writes: { file: string; data: unknown }[];
+}
+
+/**
+ * Points in a transaction where a failure can be injected
+ * - "journal": before the journal is committed (nothing is applied)
+ * - "apply": after the journal is committed, before writing the given file
+ * - "cleanup": after all files are written, before the journal is removed
+ */
+export type JournalFaultPoint = "journal" | "apply" | "cleanup";
+
+type JournalFaultHook = (point: JournalFaultPoint, filePath?: string) => void;
+
+let journalFaultHook: JournalFaultHook | null = null;
+
+/**
+ * Install a hook that is called at each step of safeWriteJsonBatch.
+ * Throwing from the hook simulates a crash at that point, e.g. between the
+ * seller and order writes (see test/fulfilment-journal.test.ts). Pass null to
+ * remove it.
+ */
+export function setJournalFaultHook(hook: JournalFaultHook | null): void {
+  journalFaultHook = hook;
+}
+
+/**
+ * Write several JSON files all-or-nothing.
+ *
+ * The full new contents are first committed to a journal file (atomic rename).
+ * Then each file is written and the journal is removed. If the process dies
+ * before the journal is committed, nothing changes; if it dies after, the
+ * journal is replayed on the next read/write (see recoverJournal).
+ */
+export function safeWriteJsonBatch(writes: JournalWrite[]): void {
+  recoverJournalIfNeeded();
+
+  const entry: JournalEntry = {
+    id: `${Date.now()}-${crypto.randomBytes(4).toString("hex")}`,
+    createdAt: new Date().toISOString(),
+    owner: getProcessOwner(),
+    writes: writes.map((w) => ({
+      file: path.relative(process.cwd(), w.filePath),
+      data: w.data,
+    })),
+  };
+  const journalPath = path.join(JOURNAL_DIR, `${entry.id}.json`);
+
+  journalFaultHook?.("journal");
+  writeJsonAtomic(journalPath, entry);
+
+  try {
+    for (const write of writes) {
+      journalFaultHook?.("apply", write.filePath);
+      writeJsonAtomic(write.filePath, write.data);
+    }
+
+    journalFaultHook?.("cleanup");
+    fs.unlinkSync(journalPath);
+  } catch (error) {
+    // Journal stays on disk - replay it before the next read/write
+    journalRecoveryPending = true;
+    throw error;
+  }
+}
+
+/**
+ * Replay committed journals left behind by an interrupted transaction.
+ * Each journal is replayed under the locks of the files it writes, so a
+ * transaction still being applied by its owner (another process) is waited
+ * for and then found gone. Uncommitted journals (leftover temp files) are
+ * discarded once abandoned, like stale lockfiles.
+ * Returns the number of replayed transactions.
+ */
+export function recoverJournal(): number {
+  journalRecoveryPending = false;
+  blockedJournalFiles = new Set();
+
+  if (!fs.existsSync(JOURNAL_DIR)) {
+    return 0;
+  }
+
+  let replayed = 0;
+  const files = fs.readdirSync(JOURNAL_DIR).sort();
+
+  for (const file of files) {
+    const journalPath = path.join(JOURNAL_DIR, file);
+
+    if (file.endsWith(".tmp")) {
+      removeJournalTempIfAbandoned(journalPath);
+      continue;
+    }
+
+    if (!file.endsWith(".json")) {
+      continue;
+    }
+
+    try {
+      const result = replayJournal(journalPath);
+      if (result === "replayed") {
+        replayed++;
+      } else if (result !== "gone") {
+        // Try again once the other request has released its lock
+        journalRecoveryPending = true;
+        result.forEach((filePath) => blockedJournalFiles.add(filePath));
+      }
+    } catch (error) {
+      // Keep the journal for the next attempt
+      journalRecoveryPending = true;
+      console.error(`Error recovering journal ${file}:`, error);
+    }
+  }
+
+  return replayed;
+}
+
+/**
+ * Read a journal, or null if it no longer exists (its owner finished)
+ */
+function readJournal(journalPath: string): JournalEntry | null {
+  try {
+    return JSON.parse(fs.readFileSync(journalPath, "utf-8")) as JournalEntry;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply a committed journal under the locks of its files and remove it
+ * Returns "gone" if the journal was already applied by its owner, or the
+ * journal's files if one of them is locked by another request of this process
+ */
+function replayJournal(journalPath: string): "replayed" | "gone" | string[] {
+  const entry = readJournal(journalPath);
+  if (!entry) {
+    return "gone";
+  }
+
+  const filePaths = entry.writes.map((write) => path.resolve(process.cwd(), write.file));
+
+  const replayed = withFileLocksSync(filePaths, () => {
+    // Re-read under the locks - the owner may have completed it meanwhile
+    const current = readJournal(journalPath);
+    if (!current) {
+      return false;
+    }
+
+    for (const write of current.writes) {
+      writeJsonAtomic(path.resolve(process.cwd(), write.file), write.data);
+    }
+    fs.unlinkSync(journalPath);
+    console.warn(`Recovered interrupted transaction ${current.id} (${current.writes.length} files)`);
+    return true;
+  });
+
+  if (replayed === null) {
+    return filePaths;
+  }
+  return replayed ? "replayed" : "gone";
+}
+
+/**
+ * Lock several files for a synchronous section (in sorted order, so two
+ * processes recovering the same journal can't deadlock)
+ * Files the calling request already holds are not locked again: recovery runs
+ * inside reads of locked sections, e.g. right after a stale lock was taken.
+ * A file another request of this process holds can't be waited for without
+ * blocking that request forever - returns null without running fn then.
+ */
+function withFileLocksSync<T>(filePaths: string[], fn: () => T): T | null {
+  const callerHeld = callerLocks.getStore();
+  const toLock = Array.from(new Set(filePaths))
+    .filter((filePath) => !callerHeld?.has(filePath))
+    .sort();
+
+  if (toLock.some((filePath) => heldLockFiles.has(filePath))) {
+    return null;
+  }
+
+  const lockNext = (index: number): T =>
+    index < toLock.length ? withFileLockSync(toLock[index], () => lockNext(index + 1)) : fn();
+
+  return lockNext(0);
+}
+
+/**
+ * Remove a journal temp file that will never be committed
+ * (a live owner renames it within moments; only abandoned ones are removed)
+ */
+function removeJournalTempIfAbandoned(tempPath: string): void {
+  let ageMs: number;
+  try {
+    ageMs = Date.now() - fs.statSync(tempPath).mtimeMs;
+  } catch {
+    return; // Committed or removed meanwhile
+  }
+
+  let owner: ProcessOwner | null = null;
+  try {
+    owner = (JSON.parse(fs.readFileSync(tempPath, "utf-8")) as JournalEntry).owner ?? null;
+  } catch {
+    // Still being written (or cut off) - only the age counts
+  }
+
+  if (!isAbandoned(owner, ageMs)) {
+    return;
+  }
+
+  try {
+    fs.unlinkSync(tempPath);
+  } catch {
+    // Already removed
+  }
+}
+
+/**
+ * Run journal recovery once per process (and after a failed transaction)
+ */
+function recoverJournalIfNeeded(): void {
+  if (journalRecoveryPending) {
+    recoverJournal();
+  }
+}
+
+/**
+ * Whether a journal writing this file is still waiting for another request's
+ * lock (after trying to replay pending journals from the calling request)
+ */
+function isJournalReplayBlocked(filePath: string): boolean {
+  recoverJournalIfNeeded();
+  return blockedJournalFiles.has(filePath);
+}
@@ -1,43 +1,80 @@
-import fs from "fs";
-import path from "path";
 import crypto from "crypto";
 import bcrypt from "bcrypt";
 import {
+  AskingPrice,
+  BlueprintAskSummary,
+  BlueprintSellerStock,
+  NotificationChannelName,
   Seller,
+  SellerOrderGroup,
   SellerStatus,
   SellerWithInventory,
   SellerInventoryItem,
   isValidSellerStatus,
+  isSellerBlocked,
+  isValidNotificationChannel,
+  getSellerNotificationChannels,
+  getUnreservedQuantity,
+  getAverageRating,
 } from "./types";
-import { safeWriteJson, safeReadJson } from "./safe-file";
-
-// Data directories
-const DATA_DIR = path.join(process.cwd(), "data");
-const SELLERS_DIR = path.join(DATA_DIR, "sellers");
+import { getStorage } from "./storage";
+import { getSellerFilePath } from "./storage-json";
+import { withFileLock } from "./safe-file";
+import { revokeSellerSessions } from "./session-store";
+import { isValidDiscordWebhookUrl } from "./discord";
+import { WebPushTarget } from "./web-push";
+import { calculateGroupTerms } from "./pricing";
 
 // Password hashing configuration
 const BCRYPT_SALT_ROUNDS = 12;
 const MIN_PASSWORD_LENGTH = 8;
 const MAX_PASSWORD_LENGTH = 128;
 
-// Ensure data directories exist
-function ensureDirectories(): void {
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
-  }
-  if (!fs.existsSync(SELLERS_DIR)) {
-    fs.mkdirSync(SELLERS_DIR, { recursive: true });
-  }
-}
+// One-time Telegram link codes (sent to the bot as /start <code>)
+const TELEGRAM_LINK_CODE_TTL_MS = 15 * 60 * 1000; // 15 minutes
 
 // Generate unique seller ID
 function generateSellerId(): string {
   return crypto.randomUUID();
 }
 
-// Get seller file path
-function getSellerFilePath(sellerId: string): string {
-  return path.join(SELLERS_DIR, `${sellerId}.json`);
+// Fill in fields missing on older seller records
+function normalizeSeller(seller: SellerWithInventory): SellerWithInventory {
+  // Ensure inventory array exists
+  if (!seller.inventory) {
+    seller.inventory = [];
+  }
+  // Ensure passwordHash exists (for backward compatibility)
+  if (!seller.passwordHash) {
+    seller.passwordHash = "";
+  }
+  return seller;
+}
+
+// Persist seller record
+function saveSeller(seller: SellerWithInventory): void {
+  getStorage().sellers.save(seller);
+}
+
+/**
+ * Run a read-modify-write of one seller record under its lock
+ * (cross-process lockfile; not re-entrant - locked functions must not call
+ * each other for the same seller)
+ */
+export function withSellerLock<T>(sellerId: string, fn: () => T | Promise<T>): Promise<T> {
+  return withFileLock(getSellerFilePath(sellerId), fn);
+}
+
+/**
+ * Run fn under the locks of several sellers (taken in id order, so two
+ * callers locking overlapping sellers can't deadlock)
+ */
+export function withSellerLocks<T>(sellerIds: string[], fn: () => T | Promise<T>): Promise<T> {
+  const [first, ...rest] = Array.from(new Set(sellerIds)).sort();
+  if (!first) {
+    return Promise.resolve().then(fn);
+  }
+  return withSellerLock(first, () => withSellerLocks(rest, fn));
 }
 
 // ============================================
@@ -109,8 +146,6 @@ export async function registerSeller(
   discordId: string,
   password: string
 ): Promise<{ success: boolean; seller?: Seller; error?: string }> {
-  ensureDirectories();
-
   // Validate Discord ID
   const discordValidation = validateDiscordId(discordId);
   if (!discordValidation.valid) {
@@ -143,8 +178,7 @@ export async function registerSeller(
     inventory: [],
   };
 
-  const filePath = getSellerFilePath(seller.id);
-  safeWriteJson(filePath, seller);
+  saveSeller(seller);
 
   return { success: true, seller };
 }
@@ -183,8 +217,6 @@ export async function authenticateSellerWithPassword(
  * Note: Admin-created accounts don't have passwords and need to be set up
  */
 export function createSeller(discordId: string): Seller {
-  ensureDirectories();
-
   // Check if seller with this Discord ID already exists
   const existing = getSellerByDiscordId(discordId);
   if (existing) {
@@ -202,8 +234,7 @@ export function createSeller(discordId: string): Seller {
     inventory: [],
   };
 
-  const filePath = getSellerFilePath(seller.id);
-  safeWriteJson(filePath, seller);
+  saveSeller(seller);
 
   return seller;
 }
@@ -221,21 +252,26 @@ export async function setSellerPassword(
     return { success: false, error: validation.error };
   }
 
-  const seller = getSellerById(sellerId);
-  if (!seller) {
+  if (!getSellerById(sellerId)) {
     return { success: false, error: "Seller not found" };
   }
 
-  // Hash password
+  // Hash password (slow - done before taking the lock)
   const passwordHash = await hashPassword(password);
 
-  seller.passwordHash = passwordHash;
-  seller.updatedAt = new Date().toISOString();
+  return withSellerLock(sellerId, () => {
+    const seller = getSellerById(sellerId);
+    if (!seller) {
+      return { success: false, error: "Seller not found" };
+    }
 
-  const filePath = getSellerFilePath(sellerId);
-  safeWriteJson(filePath, seller);
+    seller.passwordHash = passwordHash;
+    seller.updatedAt = new Date().toISOString();
 
-  return { success: true };
+    saveSeller(seller);
+
+    return { success: true };
+  });
 }
 
 // ============================================
@@ -246,90 +282,84 @@ export async function setSellerPassword(
  * Get seller by internal ID
  */
 export function getSellerById(sellerId: string): SellerWithInventory | null {
-  ensureDirectories();
-  const filePath = getSellerFilePath(sellerId);
-  const seller = safeReadJson<SellerWithInventory>(filePath);
-  if (seller && !seller.inventory) {
-    seller.inventory = [];
-  }
-  return seller;
+  const seller = getStorage().sellers.get(sellerId);
+  return seller ? normalizeSeller(seller) : null;
 }
 
 /**
  * Get seller by Discord ID (username or numeric ID)
  */
 export function getSellerByDiscordId(discordId: string): SellerWithInventory | null {
-  ensureDirectories();
-  const sellers = getAllSellers();
-  return sellers.find((s) => s.discordId.toLowerCase() === discordId.toLowerCase()) || null;
+  const seller = getStorage().sellers.getByDiscordId(discordId);
+  return seller ? normalizeSeller(seller) : null;
 }
 
 /**
- * Get all sellers
+ * Get seller by linked Telegram chat ID
  */
-export function getAllSellers(): SellerWithInventory[] {
-  ensureDirectories();
-
-  if (!fs.existsSync(SELLERS_DIR)) {
-    return [];
-  }
-
-  const files = fs.readdirSync(SELLERS_DIR).filter((f) => f.endsWith(".json"));
-  const sellers: SellerWithInventory[] = [];
-
-  for (const file of files) {
-    const filePath = path.join(SELLERS_DIR, file);
-    const seller = safeReadJson<SellerWithInventory>(filePath);
-    if (seller && seller.id && seller.discordId) {
-      // Ensure inventory array exists
-      if (!seller.inventory) {
-        seller.inventory = [];
-      }
-      // Ensure passwordHash exists (for backward compatibility)
-      if (!seller.passwordHash) {
-        seller.passwordHash = "";
-      }
-      sellers.push(seller);
-    }
+export function getSellerByTelegramChatId(telegramChatId: string): SellerWithInventory | null {
+  const chatId = telegramChatId.trim();
+  if (!chatId) {
+    return null;
   }
+  const seller = getStorage().sellers.list().find((s) => s.telegramChatId === chatId);
+  return seller ? normalizeSeller(seller) : null;
+}
 
-  return sellers.sort((a, b) => a.discordId.localeCompare(b.discordId));
+/**
+ * Get all sellers
+ */
+export function getAllSellers(): SellerWithInventory[] {
+  return getStorage().sellers.list().map(normalizeSeller);
 }
 
 /**
  * Get all active sellers
  */
 export function getActiveSellers(): SellerWithInventory[] {
-  return getAllSellers().filter((s) => s.status === "active");
+  return getStorage().sellers.list({ status: "active" }).map(normalizeSeller);
 }
 
 /**
  * Get sellers pending verification
  */
 export function getPendingVerificationSellers(): SellerWithInventory[] {
-  return getAllSellers().filter((s) => s.status === "pending_verification");
+  return getStorage().sellers.list({ status: "pending_verification" }).map(normalizeSeller);
 }
 
 /**
  * Update seller status
+ * Banning or disabling a seller also revokes all of their sessions
  */
-export function updateSellerStatus(sellerId: string, status: SellerStatus): Seller | null {
+export async function updateSellerStatus(sellerId: string, status: SellerStatus): Promise<Seller | null> {
   if (!isValidSellerStatus(status)) {
     throw new Error(`Invalid seller status: ${status}`);
   }
 
-  const seller = getSellerById(sellerId);
-  if (!seller) {
-    return null;
-  }
+  const updated = await withSellerLock(sellerId, () => {
+    const seller = getSellerById(sellerId);
+    if (!seller) {
+      return null;
+    }
 
-  seller.status = status;
-  seller.updatedAt = new Date().toISOString();
+    seller.status = status;
+    seller.updatedAt = new Date().toISOString();
 
-  const filePath = getSellerFilePath(sellerId);
-  safeWriteJson(filePath, seller);
+    saveSeller(seller);
 
-  return seller;
+    return seller;
+  });
+
+  if (updated && isSellerBlocked(updated)) {
+    try {
+      await revokeSellerSessions(sellerId);
+    } catch (error) {
+      // Status is saved; validateSellerSession rejects blocked sellers anyway
+      console.error("Failed to revoke seller sessions:", error);
+    }
+  }
+
+  return updated;
 }
 
 /**
@@ -338,56 +368,297 @@ export function updateSellerStatus(sellerId: string, status: SellerStatus): Sell
 export function updateSellerTelegramChatId(
   sellerId: string,
   telegramChatId: string | undefined
-): Seller | null {
-  const seller = getSellerById(sellerId);
-  if (!seller) {
-    return null;
+): Promise<Seller | null> {
+  return withSellerLock(sellerId, () => {
+    const seller = getSellerById(sellerId);
+    if (!seller) {
+      return null;
+    }
+
+    seller.telegramChatId = telegramChatId?.trim() || undefined;
+    seller.updatedAt = new Date().toISOString();
+
+    saveSeller(seller);
+
+    return seller;
+  });
+}
+
+/**
+ * Update seller's notification settings (channels and Discord webhook)
+ * discordWebhookUrl: undefined leaves it unchanged, "" removes it
+ */
+export async function updateSellerNotificationSettings(
+  sellerId: string,
+  settings: { channels: NotificationChannelName[]; discordWebhookUrl?: string }
+): Promise<{ success: boolean; error?: string; seller?: Seller }> {
+  const channels = Array.from(new Set(settings.channels));
+  if (!channels.every(isValidNotificationChannel)) {
+    return { success: false, error: "Невідомий канал сповіщень" };
   }
 
-  seller.telegramChatId = telegramChatId?.trim() || undefined;
-  seller.updatedAt = new Date().toISOString();
+  const webhookUrl = settings.discordWebhookUrl?.trim();
+  if (webhookUrl && !isValidDiscordWebhookUrl(webhookUrl)) {
+    return { success: false, error: "Невірне посилання на Discord вебхук" };
+  }
 
-  const filePath = getSellerFilePath(sellerId);
-  safeWriteJson(filePath, seller);
+  const updated = await withSellerLock(sellerId, () => {
+    const seller = getSellerById(sellerId);
+    if (!seller) {
+      return null;
+    }
 
-  return seller;
+    if (webhookUrl !== undefined) {
+      seller.discordWebhookUrl = webhookUrl || undefined;
+    }
+    seller.notificationChannels = channels;
+    seller.updatedAt = new Date().toISOString();
+
+    saveSeller(seller);
+
+    return seller;
+  });
+
+  if (!updated) {
+    return { success: false, error: "Продавця не знайдено" };
+  }
+  return { success: true, seller: updated };
+}
+
+// ============================================
+// TELEGRAM LINKING
+// ============================================
+
+function hashTelegramLinkCode(code: string): string {
+  return crypto.createHash("sha256").update(code).digest("hex");
 }
 
 /**
- * Update seller's Discord ID
+ * Create a one-time code for linking a Telegram chat (replaces any pending code)
+ * Only the hash is stored; the code itself is shown to the seller once
  */
-export function updateSellerDiscordId(sellerId: string, discordId: string): Seller | null {
-  const seller = getSellerById(sellerId);
-  if (!seller) {
-    return null;
+export async function createSellerTelegramLinkCode(
+  sellerId: string
+): Promise<{ code: string; expiresAt: string } | null> {
+  const code = crypto.randomBytes(12).toString("base64url");
+  const expiresAt = new Date(Date.now() + TELEGRAM_LINK_CODE_TTL_MS).toISOString();
+
+  const updated = await withSellerLock(sellerId, () => {
+    const seller = getSellerById(sellerId);
+    if (!seller) {
+      return null;
+    }
+
+    seller.telegramLinkCodeHash = hashTelegramLinkCode(code);
+    seller.telegramLinkCodeExpiresAt = expiresAt;
+    seller.updatedAt = new Date().toISOString();
+
+    saveSeller(seller);
+
+    return seller;
+  });
+
+  return updated ? { code, expiresAt } : null;
+}
+
+/**
+ * Link a Telegram chat to the seller who created the code
+ * The code is consumed; a chat linked to another seller is moved to this one
+ */
+export async function linkSellerTelegramByCode(
+  code: string,
+  telegramChatId: string
+): Promise<{ success: boolean; error?: string; seller?: Seller }> {
+  if (!/^[A-Za-z0-9_-]{8,64}$/.test(code)) {
+    return { success: false, error: "Невірний код" };
   }
 
-  // Check if new Discord ID is already taken by another seller
-  const existing = getSellerByDiscordId(discordId);
-  if (existing && existing.id !== sellerId) {
-    throw new Error(`Discord ID "${discordId}" is already used by another seller`);
+  const codeHash = hashTelegramLinkCode(code);
+  const candidate = getAllSellers().find((s) => s.telegramLinkCodeHash === codeHash);
+  if (!candidate) {
+    return { success: false, error: "Код не знайдено або вже використано" };
   }
 
-  seller.discordId = discordId.trim();
-  seller.updatedAt = new Date().toISOString();
+  // Consume the code under the lock so it can't be used twice
+  const consumed = await withSellerLock(candidate.id, () => {
+    const seller = getSellerById(candidate.id);
+    if (!seller || seller.telegramLinkCodeHash !== codeHash) {
+      return { error: "Код не знайдено або вже використано" };
+    }
 
-  const filePath = getSellerFilePath(sellerId);
-  safeWriteJson(filePath, seller);
+    const expired =
+      !seller.telegramLinkCodeExpiresAt ||
+      new Date(seller.telegramLinkCodeExpiresAt).getTime() < Date.now();
 
-  return seller;
+    seller.telegramLinkCodeHash = undefined;
+    seller.telegramLinkCodeExpiresAt = undefined;
+    seller.updatedAt = new Date().toISOString();
+    saveSeller(seller);
+
+    if (expired) {
+      return { error: "Код застарів. Отримайте нове посилання в кабінеті продавця" };
+    }
+    if (isSellerBlocked(seller)) {
+      return { error: "Обліковий запис заблоковано" };
+    }
+    return { seller };
+  });
+
+  if (!consumed.seller) {
+    return { success: false, error: consumed.error };
+  }
+
+  // One chat receives notifications for one seller only
+  const chatId = telegramChatId.trim();
+  for (const other of getAllSellers()) {
+    if (other.id !== consumed.seller.id && other.telegramChatId === chatId) {
+      await updateSellerTelegramChatId(other.id, undefined);
+    }
+  }
+
+  const linked = await updateSellerTelegramChatId(consumed.seller.id, chatId);
+  if (!linked) {
+    return { success: false, error: "Продавця не знайдено" };
+  }
+
+  return { success: true, seller: linked };
 }
 
 /**
- * Delete seller (admin only)
+ * Unlink the seller's Telegram chat and drop any pending link code
  */
-export function deleteSeller(sellerId: string): boolean {
-  const filePath = getSellerFilePath(sellerId);
-  if (!fs.existsSync(filePath)) {
-    return false;
+export function unlinkSellerTelegram(sellerId: string): Promise<Seller | null> {
+  return withSellerLock(sellerId, () => {
+    const seller = getSellerById(sellerId);
+    if (!seller) {
+      return null;
+    }
+
+    seller.telegramChatId = undefined;
+    seller.telegramLinkCodeHash = undefined;
+    seller.telegramLinkCodeExpiresAt = undefined;
+    seller.updatedAt = new Date().toISOString();
+
+    saveSeller(seller);
+
+    return seller;
+  });
+}
+
+// ============================================
+// WEB PUSH SUBSCRIPTIONS
+// ============================================
+
+// Oldest subscriptions are dropped beyond this many devices
+const MAX_PUSH_SUBSCRIPTIONS = 10;
+
+/**
+ * ID of a push subscription (hash of its endpoint)
+ */
+export function getPushSubscriptionId(endpoint: string): string {
+  return crypto.createHash("sha256").update(endpoint).digest("hex");
+}
+
+/**
+ * Subscribe a browser to the seller's push notifications and turn the channel on
+ * A browser receives notifications for one seller only
+ */
+export async function addSellerPushSubscription(
+  sellerId: string,
+  target: WebPushTarget,
+  userAgent?: string
+): Promise<{ success: boolean; error?: string; seller?: Seller }> {
+  const id = getPushSubscriptionId(target.endpoint);
+
+  for (const other of getAllSellers()) {
+    if (other.id !== sellerId && other.pushSubscriptions?.some((sub) => sub.id === id)) {
+      await removeSellerPushSubscription(other.id, id);
+    }
   }
 
-  fs.unlinkSync(filePath);
-  return true;
+  const updated = await withSellerLock(sellerId, () => {
+    const seller = getSellerById(sellerId);
+    if (!seller) {
+      return null;
+    }
+
+    const subscriptions = (seller.pushSubscriptions || []).filter((sub) => sub.id !== id);
+    subscriptions.push({
+      id,
+      endpoint: target.endpoint,
+      keys: { p256dh: target.keys.p256dh, auth: target.keys.auth },
+      userAgent: userAgent?.slice(0, 200),
+      createdAt: new Date().toISOString(),
+    });
+    seller.pushSubscriptions = subscriptions.slice(-MAX_PUSH_SUBSCRIPTIONS);
+
+    const channels = getSellerNotificationChannels(seller);
+    if (!channels.includes("webpush")) {
+      seller.notificationChannels = [...channels, "webpush"];
+    }
+    seller.updatedAt = new Date().toISOString();
+
+    saveSeller(seller);
+
+    return seller;
+  });
+
+  if (!updated) {
+    return { success: false, error: "Продавця не знайдено" };
+  }
+  return { success: true, seller: updated };
+}
+
+/**
+ * Remove a push subscription by ID
+ * Returns false if the seller doesn't have it
+ */
+export function removeSellerPushSubscription(sellerId: string, subscriptionId: string): Promise<boolean> {
+  return withSellerLock(sellerId, () => {
+    const seller = getSellerById(sellerId);
+    if (!seller?.pushSubscriptions?.some((sub) => sub.id === subscriptionId)) {
+      return false;
+    }
+
+    seller.pushSubscriptions = seller.pushSubscriptions.filter((sub) => sub.id !== subscriptionId);
+    seller.updatedAt = new Date().toISOString();
+
+    saveSeller(seller);
+
+    return true;
+  });
+}
+
+/**
+ * Update seller's Discord ID
+ */
+export function updateSellerDiscordId(sellerId: string, discordId: string): Promise<Seller | null> {
+  return withSellerLock(sellerId, () => {
+    const seller = getSellerById(sellerId);
+    if (!seller) {
+      return null;
+    }
+
+    // Check if new Discord ID is already taken by another seller
+    const existing = getSellerByDiscordId(discordId);
+    if (existing && existing.id !== sellerId) {
+      throw new Error(`Discord ID "${discordId}" is already used by another seller`);
+    }
+
+    seller.discordId = discordId.trim();
+    seller.updatedAt = new Date().toISOString();
+
+    saveSeller(seller);
+
+    return seller;
+  });
+}
+
+/**
+ * Delete seller (admin only)
+ */
+export function deleteSeller(sellerId: string): Promise<boolean> {
+  return withSellerLock(sellerId, () => getStorage().sellers.delete(sellerId));
 }
 
 // ============================================
@@ -405,93 +676,276 @@ export function getSellerInventory(sellerId: string): SellerInventoryItem[] {
   return seller.inventory || [];
 }
 
+/**
+ * Error if the new quantity would drop below what claimed orders have reserved
+ */
+function getReservedQuantityError(
+  item: SellerInventoryItem | undefined,
+  quantity: number
+): string | undefined {
+  if (item?.reserved && quantity < item.reserved) {
+    return `Не можна зменшити "${item.blueprintId}" до ${quantity}: ${item.reserved} шт. зарезервовано під прийняті замовлення`;
+  }
+  return undefined;
+}
+
 /**
  * Update seller's inventory for a specific blueprint (quantity only)
+ * Fails if the quantity is below the reserved stock
  */
 export function updateSellerInventoryItem(
   sellerId: string,
   blueprintId: string,
   quantity: number
-): boolean {
+): Promise<{ success: boolean; error?: string }> {
+  return withSellerLock(sellerId, () => {
+    const seller = getSellerById(sellerId);
+    if (!seller) {
+      return { success: false, error: "Продавця не знайдено" };
+    }
+
+    // Validate quantity
+    const qty = Math.max(0, Math.floor(quantity));
+
+    // Find existing inventory item
+    const existingIndex = seller.inventory.findIndex((item) => item.blueprintId === blueprintId);
+
+    const reservedError = getReservedQuantityError(seller.inventory[existingIndex], qty);
+    if (reservedError) {
+      return { success: false, error: reservedError };
+    }
+
+    if (qty === 0 && !(existingIndex >= 0 && seller.inventory[existingIndex].reserved)) {
+      // Remove item if quantity is 0 (and nothing is reserved)
+      if (existingIndex >= 0) {
+        seller.inventory.splice(existingIndex, 1);
+      }
+    } else if (existingIndex >= 0) {
+      // Update existing
+      seller.inventory[existingIndex].quantity = qty;
+    } else {
+      // Add new
+      seller.inventory.push({ blueprintId, quantity: qty });
+    }
+
+    seller.updatedAt = new Date().toISOString();
+
+    saveSeller(seller);
+
+    return { success: true };
+  });
+}
+
+/**
+ * Bulk update seller's inventory (all or nothing)
+ * price: undefined keeps the current price, null clears it
+ * Fails if any quantity is below the reserved stock
+ */
+export function updateSellerInventoryBulk(
+  sellerId: string,
+  updates: { blueprintId: string; quantity: number; price?: AskingPrice | null }[]
+): Promise<{ success: boolean; error?: string }> {
+  return withSellerLock(sellerId, () => {
+    const seller = getSellerById(sellerId);
+    if (!seller) {
+      return { success: false, error: "Продавця не знайдено" };
+    }
+
+    for (const update of updates) {
+      const reservedError = getReservedQuantityError(
+        seller.inventory.find((item) => item.blueprintId === update.blueprintId),
+        Math.max(0, Math.floor(update.quantity))
+      );
+      if (reservedError) {
+        return { success: false, error: reservedError };
+      }
+    }
+
+    for (const update of updates) {
+      const qty = Math.max(0, Math.floor(update.quantity));
+      const existingIndex = seller.inventory.findIndex(
+        (item) => item.blueprintId === update.blueprintId
+      );
+
+      if (qty === 0 && !(existingIndex >= 0 && seller.inventory[existingIndex].reserved)) {
+        if (existingIndex >= 0) {
+          seller.inventory.splice(existingIndex, 1);
+        }
+      } else if (existingIndex >= 0) {
+        const item = seller.inventory[existingIndex];
+        item.quantity = qty;
+        if (update.price === null) {
+          delete item.price;
+        } else if (update.price) {
+          item.price = update.price;
+        }
+      } else {
+        seller.inventory.push({
+          blueprintId: update.blueprintId,
+          quantity: qty,
+          ...(update.price ? { price: update.price } : {}),
+        });
+      }
+    }
+
+    seller.updatedAt = new Date().toISOString();
+
+    saveSeller(seller);
+
+    return { success: true };
+  });
+}
+
+/**
+ * Get seller's quantity for a specific blueprint
+ */
+export function getSellerBlueprintQuantity(sellerId: string, blueprintId: string): number {
+  const seller = getSellerById(sellerId);
+  if (!seller) {
+    return 0;
+  }
+  const item = seller.inventory.find((i) => i.blueprintId === blueprintId);
+  return item?.quantity || 0;
+}
+
+/**
+ * Get seller's unreserved quantity for a specific blueprint
+ * (what is left after claimed, not yet fulfilled orders)
+ */
+export function getSellerUnreservedQuantity(sellerId: string, blueprintId: string): number {
   const seller = getSellerById(sellerId);
   if (!seller) {
-    return false;
+    return 0;
   }
+  return getUnreservedQuantity(seller.inventory.find((i) => i.blueprintId === blueprintId));
+}
 
-  // Validate quantity
-  const qty = Math.max(0, Math.floor(quantity));
+// ============================================
+// INVENTORY RESERVATIONS (claimed orders)
+// ============================================
 
-  // Find existing inventory item
-  const existingIndex = seller.inventory.findIndex((item) => item.blueprintId === blueprintId);
+/**
+ * Prepare the seller record with stock reserved for claimed order items
+ * (all or nothing). Nothing is saved - the caller commits it together with
+ * the order via saveBatch, under the seller lock.
+ * Fails if any item doesn't have enough unreserved stock
+ */
+export function prepareSellerReservation(
+  sellerId: string,
+  items: { blueprintId: string; quantity: number }[]
+): { success: boolean; error?: string; seller?: SellerWithInventory } {
+  const seller = getSellerById(sellerId);
+  if (!seller) {
+    return { success: false, error: "Продавця не знайдено" };
+  }
 
-  if (qty === 0) {
-    // Remove item if quantity is 0
-    if (existingIndex >= 0) {
-      seller.inventory.splice(existingIndex, 1);
+  for (const item of items) {
+    const inventoryItem = seller.inventory.find((i) => i.blueprintId === item.blueprintId);
+    const unreserved = getUnreservedQuantity(inventoryItem);
+    if (!inventoryItem || unreserved < item.quantity) {
+      return {
+        success: false,
+        error: `Недостатньо вільних "${item.blueprintId}" (вільно ${unreserved}, потрібно ${item.quantity})`,
+      };
     }
-  } else if (existingIndex >= 0) {
-    // Update existing
-    seller.inventory[existingIndex].quantity = qty;
-  } else {
-    // Add new
-    seller.inventory.push({ blueprintId, quantity: qty });
   }
 
-  seller.updatedAt = new Date().toISOString();
+  for (const item of items) {
+    const inventoryItem = seller.inventory.find((i) => i.blueprintId === item.blueprintId)!;
+    inventoryItem.reserved = (inventoryItem.reserved || 0) + item.quantity;
+  }
 
-  const filePath = getSellerFilePath(sellerId);
-  safeWriteJson(filePath, seller);
+  seller.updatedAt = new Date().toISOString();
 
-  return true;
+  return { success: true, seller };
 }
 
 /**
- * Bulk update seller's inventory
+ * Prepare the seller record with reserved stock returned (claim released,
+ * expired or order cancelled)
+ * Nothing is saved - the caller commits it together with the order
  */
-export function updateSellerInventoryBulk(
+export function prepareSellerReservationRelease(
   sellerId: string,
-  updates: { blueprintId: string; quantity: number }[]
-): boolean {
+  items: { blueprintId: string; quantity: number }[]
+): SellerWithInventory | null {
   const seller = getSellerById(sellerId);
   if (!seller) {
-    return false;
+    return null;
   }
 
-  for (const update of updates) {
-    const qty = Math.max(0, Math.floor(update.quantity));
-    const existingIndex = seller.inventory.findIndex(
-      (item) => item.blueprintId === update.blueprintId
-    );
+  for (const item of items) {
+    const index = seller.inventory.findIndex((i) => i.blueprintId === item.blueprintId);
+    if (index < 0) continue;
 
-    if (qty === 0) {
-      if (existingIndex >= 0) {
-        seller.inventory.splice(existingIndex, 1);
-      }
-    } else if (existingIndex >= 0) {
-      seller.inventory[existingIndex].quantity = qty;
-    } else {
-      seller.inventory.push({ blueprintId: update.blueprintId, quantity: qty });
+    const inventoryItem = seller.inventory[index];
+    const reserved = Math.max(0, (inventoryItem.reserved || 0) - item.quantity);
+    inventoryItem.reserved = reserved || undefined;
+
+    // Drop entries that were only kept alive by the reservation
+    if (inventoryItem.quantity === 0 && !inventoryItem.reserved) {
+      seller.inventory.splice(index, 1);
     }
   }
 
   seller.updatedAt = new Date().toISOString();
 
-  const filePath = getSellerFilePath(sellerId);
-  safeWriteJson(filePath, seller);
+  return seller;
+}
 
-  return true;
+/**
+ * Prepare the seller record for converting reservations into sales
+ * (decreases both owned and reserved stock; reservedQty may be smaller than
+ * quantity for claims made before reservations existed)
+ * Nothing is saved - the caller commits it (e.g. together with the order via
+ * saveBatch). Returns null if the seller lacks stock for any item.
+ */
+export function prepareSellerReservationCommits(
+  sellerId: string,
+  items: { blueprintId: string; quantity: number; reservedQty: number }[]
+): SellerWithInventory | null {
+  const seller = getSellerById(sellerId);
+  if (!seller) {
+    return null;
+  }
+
+  for (const item of items) {
+    const index = seller.inventory.findIndex((i) => i.blueprintId === item.blueprintId);
+    if (index < 0 || seller.inventory[index].quantity < item.quantity) {
+      return null;
+    }
+
+    const inventoryItem = seller.inventory[index];
+    inventoryItem.quantity -= item.quantity;
+    inventoryItem.reserved = Math.max(0, (inventoryItem.reserved || 0) - item.reservedQty) || undefined;
+
+    if (inventoryItem.quantity === 0 && !inventoryItem.reserved) {
+      seller.inventory.splice(index, 1);
+    }
+  }
+
+  seller.updatedAt = new Date().toISOString();
+
+  return seller;
 }
 
 /**
- * Get seller's quantity for a specific blueprint
+ * Prepare the seller record with one more buyer rating added to its totals
+ * Nothing is saved - the caller commits it together with the order's feedback
  */
-export function getSellerBlueprintQuantity(sellerId: string, blueprintId: string): number {
+export function prepareSellerRating(sellerId: string, rating: number): SellerWithInventory | null {
   const seller = getSellerById(sellerId);
   if (!seller) {
-    return 0;
+    return null;
   }
-  const item = seller.inventory.find((i) => i.blueprintId === blueprintId);
-  return item?.quantity || 0;
+
+  seller.rating = {
+    sum: (seller.rating?.sum || 0) + rating,
+    count: (seller.rating?.count || 0) + 1,
+  };
+  seller.updatedAt = new Date().toISOString();
+
+  return seller;
 }
 
 // ============================================
@@ -500,40 +954,64 @@ export function getSellerBlueprintQuantity(sellerId: string, blueprintId: string
 
 /**
  * Get aggregated inventory across all active sellers
- * Returns total available quantity per blueprint
+ * Returns total available (unreserved) quantity per blueprint and who holds it
  * Only counts inventory from ACTIVE sellers
  */
-export function getAggregatedInventory(): Map<string, { totalQty: number; sellers: string[] }> {
+export function getAggregatedInventory(): Map<
+  string,
+  { totalQty: number; sellers: BlueprintSellerStock[]; askSummary: BlueprintAskSummary }
+> {
   const activeSellers = getActiveSellers();
-  const aggregated = new Map<string, { totalQty: number; sellers: string[] }>();
+  const aggregated = new Map<
+    string,
+    { totalQty: number; sellers: BlueprintSellerStock[]; askSummary: BlueprintAskSummary }
+  >();
 
   for (const seller of activeSellers) {
     for (const item of seller.inventory) {
-      if (item.quantity > 0) {
-        const existing = aggregated.get(item.blueprintId);
-        if (existing) {
-          existing.totalQty += item.quantity;
-          existing.sellers.push(seller.id);
-        } else {
-          aggregated.set(item.blueprintId, {
-            totalQty: item.quantity,
-            sellers: [seller.id],
-          });
+      const unreserved = getUnreservedQuantity(item);
+      if (unreserved > 0) {
+        let existing = aggregated.get(item.blueprintId);
+        if (!existing) {
+          existing = { totalQty: 0, sellers: [], askSummary: { itemAskCount: 0 } };
+          aggregated.set(item.blueprintId, existing);
+        }
+        existing.totalQty += unreserved;
+        const averageRating = getAverageRating(seller.rating);
+        existing.sellers.push({
+          discordId: seller.discordId,
+          quantity: unreserved,
+          ...(item.price ? { price: item.price } : {}),
+          ...(seller.rating && averageRating !== null
+            ? { rating: { average: averageRating, count: seller.rating.count } }
+            : {}),
+        });
+
+        // Price range across the sellers that have stock
+        const summary = existing.askSummary;
+        if (item.price?.type === "currency") {
+          summary.minAmount = Math.min(summary.minAmount ?? item.price.amount, item.price.amount);
+          summary.maxAmount = Math.max(summary.maxAmount ?? item.price.amount, item.price.amount);
+        } else if (item.price?.type === "items") {
+          summary.itemAskCount++;
         }
       }
     }
   }
 
+  // Largest stock first
+  aggregated.forEach((entry) => entry.sellers.sort((a, b) => b.quantity - a.quantity));
+
   return aggregated;
 }
 
 /**
- * Get all sellers that have a specific blueprint in stock
+ * Get all sellers that have a specific blueprint in stock (unreserved)
  */
 export function getSellersWithBlueprint(blueprintId: string): SellerWithInventory[] {
   const activeSellers = getActiveSellers();
   return activeSellers.filter((seller) =>
-    seller.inventory.some((item) => item.blueprintId === blueprintId && item.quantity > 0)
+    seller.inventory.some((item) => item.blueprintId === blueprintId && getUnreservedQuantity(item) > 0)
   );
 }
 
@@ -567,7 +1045,7 @@ export function requiresMultipleSellers(
       const inventoryItem = seller.inventory.find(
         (i) => i.blueprintId === item.blueprintId
       );
-      const availableQty = inventoryItem?.quantity || 0;
+      const availableQty = getUnreservedQuantity(inventoryItem);
 
       if (availableQty < item.quantity) {
         // This seller cannot fulfill this item
@@ -588,44 +1066,20 @@ export function requiresMultipleSellers(
 
 /**
  * Resolve which sellers have the requested blueprints
- * Returns grouped items by seller with availability info
+ * Returns grouped items by seller with availability info, asking prices and
+ * the seller's total for what they can supply
  */
 export function resolveOrderToSellers(
   items: { blueprintId: string; blueprintName: string; quantity: number }[]
-): {
-  sellerId: string;
-  sellerDiscordId: string;
-  sellerTelegramChatId?: string;
-  items: {
-    blueprintId: string;
-    blueprintName: string;
-    requestedQty: number;
-    available: boolean;
-    availableQty: number;
-  }[];
-}[] {
+): SellerOrderGroup[] {
   const activeSellers = getActiveSellers();
-  const sellerGroups: Map<
-    string,
-    {
-      sellerId: string;
-      sellerDiscordId: string;
-      sellerTelegramChatId?: string;
-      items: {
-        blueprintId: string;
-        blueprintName: string;
-        requestedQty: number;
-        available: boolean;
-        availableQty: number;
-      }[];
-    }
-  > = new Map();
+  const sellerGroups: Map<string, SellerOrderGroup> = new Map();
 
   for (const item of items) {
     // Find all sellers that have this blueprint
     for (const seller of activeSellers) {
       const inventoryItem = seller.inventory.find((i) => i.blueprintId === item.blueprintId);
-      const availableQty = inventoryItem?.quantity || 0;
+      const availableQty = getUnreservedQuantity(inventoryItem);
 
       if (availableQty > 0) {
         // This seller has this blueprint
@@ -646,10 +1100,15 @@ export function resolveOrderToSellers(
           requestedQty: item.quantity,
           available: availableQty >= item.quantity,
           availableQty,
+          ...(inventoryItem?.price ? { unitPrice: inventoryItem.price } : {}),
         });
       }
     }
   }
 
+  for (const group of Array.from(sellerGroups.values())) {
+    group.terms = calculateGroupTerms(group.items);
+  }
+
   return Array.from(sellerGroups.values());
 }
@@ -0,0 +1,121 @@
+/**
+ * File session store
+ * One file per session: data/sessions/<sha256(token)>.json
+ */
+
+import fs from "fs";
+import path from "path";
+import type { SessionData } from "./types";
+import type { SessionStore, StoredSession } from "./session-store";
+import { getSessionKey, isSessionExpired, isValidSessionId } from "./session-store";
+import { safeReadJson, safeWriteJson, withFileLock } from "./safe-file";
+
+const SESSIONS_DIR = path.join(process.cwd(), "data", "sessions");
+
+function ensureDirectory(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+function getSessionFilePath(token: string): string {
+  return getSessionFilePathById(getSessionKey(token));
+}
+
+function getSessionFilePathById(id: string): string {
+  return path.join(SESSIONS_DIR, `${id}.json`);
+}
+
+/**
+ * Read every session file, removing expired or unreadable ones
+ */
+function readAllSessions(now: number = Date.now()): { sessions: StoredSession[]; removed: number } {
+  ensureDirectory(SESSIONS_DIR);
+
+  const sessions: StoredSession[] = [];
+  let removed = 0;
+
+  for (const file of fs.readdirSync(SESSIONS_DIR).filter((f) => f.endsWith(".json"))) {
+    const filePath = path.join(SESSIONS_DIR, file);
+    const session = safeReadJson<SessionData>(filePath);
+    if (!session || isSessionExpired(session, now)) {
+      if (deleteFile(filePath)) {
+        removed++;
+      }
+      continue;
+    }
+    sessions.push({ id: file.slice(0, -".json".length), session });
+  }
+
+  return { sessions, removed };
+}
+
+/**
+ * Delete a file, ignoring files already removed by another process
+ */
+function deleteFile(filePath: string): boolean {
+  try {
+    fs.unlinkSync(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function createFileSessionStore(): SessionStore {
+  return {
+    name: "file",
+
+    async get(token) {
+      const filePath = getSessionFilePath(token);
+      const session = safeReadJson<SessionData>(filePath);
+      if (!session) {
+        return null;
+      }
+
+      if (isSessionExpired(session)) {
+        deleteFile(filePath);
+        return null;
+      }
+
+      return session;
+    },
+
+    async set(token, session) {
+      safeWriteJson(getSessionFilePath(token), session);
+    },
+
+    async touch(token, session) {
+      const filePath = getSessionFilePath(token);
+      // Under the lock a logout or revoke can't slip in between the check and the write
+      return withFileLock(filePath, () => {
+        if (!fs.existsSync(filePath)) {
+          return false;
+        }
+        safeWriteJson(filePath, session);
+        return true;
+      });
+    },
+
+    async delete(token) {
+      const filePath = getSessionFilePath(token);
+      await withFileLock(filePath, () => deleteFile(filePath));
+    },
+
+    async deleteById(id) {
+      if (!isValidSessionId(id)) {
+        return false;
+      }
+      const filePath = getSessionFilePathById(id);
+      return withFileLock(filePath, () => deleteFile(filePath));
+    },
+
+    async listBySeller(sellerId) {
+      return readAllSessions().sessions.filter(({ session }) => session.sellerId === sellerId);
+    },
+
+    async cleanupExpired() {
+      return readAllSessions().removed;
+    },
+  };
+}
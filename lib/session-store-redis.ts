@@ -0,0 +1,117 @@
+/**
+ * Redis session store
+ * Sessions are kept under <prefix>session:<sha256(token)> with a TTL,
+ * so the server drops expired sessions by itself.
+ * Seller sessions are also indexed in the set <prefix>seller-sessions:<sellerId>.
+ */
+
+import type { SessionData } from "./types";
+import type { SessionStore, StoredSession } from "./session-store";
+import { getSessionKey, isSessionExpired, isValidSessionId } from "./session-store";
+import { createRedisClient } from "./redis-client";
+
+export function createRedisSessionStore(url: string): SessionStore {
+  const client = createRedisClient(url);
+  const prefix = process.env.REDIS_KEY_PREFIX ?? "churchukbptrade:";
+
+  const getKey = (id: string) => `${prefix}session:${id}`;
+  const getSellerKey = (sellerId: string) => `${prefix}seller-sessions:${sellerId}`;
+
+  const parseSession = (value: unknown): SessionData | null => {
+    if (typeof value !== "string") {
+      return null;
+    }
+
+    let session: SessionData;
+    try {
+      session = JSON.parse(value) as SessionData;
+    } catch {
+      return null;
+    }
+
+    // The TTL follows the Redis clock; expiresAt is authoritative
+    return isSessionExpired(session) ? null : session;
+  };
+
+  const deleteById = async (id: string): Promise<boolean> => {
+    const session = parseSession(await client.command("GET", getKey(id)));
+    const deleted = await client.command("DEL", getKey(id));
+    if (session?.sellerId) {
+      await client.command("SREM", getSellerKey(session.sellerId), id);
+    }
+    return deleted === 1;
+  };
+
+  return {
+    name: "redis",
+
+    async get(token) {
+      return parseSession(await client.command("GET", getKey(getSessionKey(token))));
+    },
+
+    async set(token, session) {
+      const id = getSessionKey(token);
+      const ttlMs = session.expiresAt - Date.now();
+      if (ttlMs <= 0) {
+        await deleteById(id);
+        return;
+      }
+
+      await client.command("SET", getKey(id), JSON.stringify(session), "PX", ttlMs);
+      if (session.sellerId) {
+        await client.command("SADD", getSellerKey(session.sellerId), id);
+      }
+    },
+
+    async touch(token, session) {
+      const ttlMs = session.expiresAt - Date.now();
+      if (ttlMs <= 0) {
+        return false;
+      }
+
+      // XX: only overwrite an existing key; the seller index already has the ID
+      const reply = await client.command("SET", getKey(getSessionKey(token)), JSON.stringify(session), "PX", ttlMs, "XX");
+      return reply === "OK";
+    },
+
+    async delete(token) {
+      await deleteById(getSessionKey(token));
+    },
+
+    async deleteById(id) {
+      return isValidSessionId(id) && deleteById(id);
+    },
+
+    async listBySeller(sellerId) {
+      const ids = await client.command("SMEMBERS", getSellerKey(sellerId));
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return [];
+      }
+
+      const values = await client.command("MGET", ...ids.map((id) => getKey(String(id))));
+      const sessions: StoredSession[] = [];
+      const stale: string[] = [];
+
+      ids.forEach((id, index) => {
+        const session = Array.isArray(values) ? parseSession(values[index]) : null;
+        if (session) {
+          sessions.push({ id: String(id), session });
+        } else {
+          stale.push(String(id));
+        }
+      });
+
+      // Drop index entries whose sessions have expired
+      if (stale.length > 0) {
+        await client.command("SREM", getSellerKey(sellerId), ...stale);
+      }
+
+      return sessions;
+    },
+
+    async cleanupExpired() {
+      // Keys expire on the server; seller indexes are pruned when listed
+      return 0;
+    },
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Session stores for login sessions
+ * Files in data/sessions (default) or a Redis-protocol server,
+ * selected with the SESSION_STORE env variable ("file" | "redis")
+ */
+
+import crypto from "crypto";
+import type { SessionData } from "./types";
+import { createFileSessionStore } from "./session-store-file";
+import { createRedisSessionStore } from "./session-store-redis";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SessionStoreName = "file" | "redis";
+
+/**
+ * Session with its ID (hash of the token, safe to show and pass around)
+ */
+export interface StoredSession {
+  id: string;
+  session: SessionData;
+}
+
+export interface SessionStore {
+  readonly name: SessionStoreName;
+  // Returns null for unknown or expired tokens
+  get(token: string): Promise<SessionData | null>;
+  // Kept until session.expiresAt
+  set(token: string, session: SessionData): Promise<void>;
+  // Like set, but only if the session still exists (never brings back a revoked
+  // session); returns false if it was gone
+  touch(token: string, session: SessionData): Promise<boolean>;
+  delete(token: string): Promise<void>;
+  // Delete by session ID; returns false if it didn't exist
+  deleteById(id: string): Promise<boolean>;
+  // Unexpired sessions of a seller
+  listBySeller(sellerId: string): Promise<StoredSession[]>;
+  // Returns number of removed sessions
+  cleanupExpired(): Promise<number>;
+}
+
+// ============================================
+// SHARED HELPERS
+// ============================================
+
+/**
+ * Storage key for a token - raw tokens are never written to disk or Redis
+ */
+export function getSessionKey(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Session IDs are hex SHA-256 digests
+ */
+export function isValidSessionId(id: unknown): id is string {
+  return typeof id === "string" && /^[a-f0-9]{64}$/.test(id);
+}
+
+export function isSessionExpired(session: SessionData, now: number = Date.now()): boolean {
+  return now > session.expiresAt;
+}
+
+// ============================================
+// STORE SELECTION
+// ============================================
+
+let sessionStore: SessionStore | null = null;
+
+/**
+ * Configured store name (defaults to files)
+ */
+export function getSessionStoreName(): SessionStoreName {
+  return process.env.SESSION_STORE?.toLowerCase() === "redis" ? "redis" : "file";
+}
+
+/**
+ * Get the session store (created on first use)
+ */
+export function getSessionStore(): SessionStore {
+  if (!sessionStore) {
+    sessionStore = getSessionStoreName() === "redis"
+      ? createRedisSessionStore(process.env.REDIS_URL || "redis://127.0.0.1:6379")
+      : createFileSessionStore();
+  }
+  return sessionStore;
+}
+
+// ============================================
+// SELLER SESSIONS
+// ============================================
+
+/**
+ * Revoke all sessions of a seller (optionally keeping one)
+ * Returns number of revoked sessions
+ */
+export async function revokeSellerSessions(sellerId: string, exceptId?: string): Promise<number> {
+  const store = getSessionStore();
+  let revoked = 0;
+
+  for (const { id } of await store.listBySeller(sellerId)) {
+    if (id !== exceptId && (await store.deleteById(id))) {
+      revoked++;
+    }
+  }
+
+  return revoked;
+}
@@ -0,0 +1,176 @@
+/**
+ * JSON file storage backend
+ * One file per document: data/orders/<orderId>.json, data/sellers/<sellerId>.json,
+ * data/buyers/<buyerId>.json
+ */
+
+import fs from "fs";
+import path from "path";
+import type { StoredOrder } from "./orders";
+import type { Buyer, SellerWithInventory } from "./types";
+import type { StorageBackend, StorageBatch } from "./storage";
+import { matchesOrderQuery } from "./storage";
+import { safeWriteJson, safeReadJson, safeWriteJsonBatch } from "./safe-file";
+
+// Data directories
+const DATA_DIR = path.join(process.cwd(), "data");
+const ORDERS_DIR = path.join(DATA_DIR, "orders");
+const SELLERS_DIR = path.join(DATA_DIR, "sellers");
+const BUYERS_DIR = path.join(DATA_DIR, "buyers");
+
+function ensureDirectory(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+/**
+ * Order file path (also used as the order's lock key by every backend)
+ */
+export function getOrderFilePath(orderId: string): string {
+  const safeId = orderId.replace(/[^a-zA-Z0-9-_]/g, "_");
+  return path.join(ORDERS_DIR, `${safeId}.json`);
+}
+
+/**
+ * Seller file path (also used as the seller's lock key by every backend)
+ */
+export function getSellerFilePath(sellerId: string): string {
+  return path.join(SELLERS_DIR, `${sellerId}.json`);
+}
+
+/**
+ * Buyer file path (also used as the buyer's lock key by every backend)
+ */
+export function getBuyerFilePath(buyerId: string): string {
+  return path.join(BUYERS_DIR, `${buyerId}.json`);
+}
+
+/**
+ * Read every JSON document in a directory
+ */
+function readAllJson<T>(dir: string): T[] {
+  ensureDirectory(dir);
+
+  const files = fs.readdirSync(dir).filter((f) => f.endsWith(".json"));
+  const documents: T[] = [];
+
+  for (const file of files) {
+    const document = safeReadJson<T>(path.join(dir, file));
+    if (document) {
+      documents.push(document);
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * Delete a file, returning false if it didn't exist
+ */
+function deleteFile(filePath: string): boolean {
+  if (!fs.existsSync(filePath)) {
+    return false;
+  }
+
+  fs.unlinkSync(filePath);
+  return true;
+}
+
+export function createJsonStorage(): StorageBackend {
+  return {
+    name: "json",
+
+    orders: {
+      get(orderId) {
+        return safeReadJson<StoredOrder>(getOrderFilePath(orderId));
+      },
+
+      list(query = {}) {
+        return readAllJson<StoredOrder>(ORDERS_DIR)
+          .filter((order) => order.orderId && matchesOrderQuery(order, query))
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      },
+
+      save(order) {
+        safeWriteJson(getOrderFilePath(order.orderId), order);
+      },
+
+      delete(orderId) {
+        return deleteFile(getOrderFilePath(orderId));
+      },
+
+      clear() {
+        ensureDirectory(ORDERS_DIR);
+
+        const files = fs.readdirSync(ORDERS_DIR).filter((f) => f.endsWith(".json"));
+        let deletedCount = 0;
+
+        for (const file of files) {
+          const filePath = path.join(ORDERS_DIR, file);
+          try {
+            fs.unlinkSync(filePath);
+            deletedCount++;
+          } catch {
+            // Continue deleting other files even if one fails
+            console.error(`Failed to delete order file: ${filePath}`);
+          }
+        }
+
+        return deletedCount;
+      },
+    },
+
+    sellers: {
+      get(sellerId) {
+        return safeReadJson<SellerWithInventory>(getSellerFilePath(sellerId));
+      },
+
+      getByDiscordId(discordId) {
+        const normalized = discordId.toLowerCase();
+        return this.list().find((s) => s.discordId.toLowerCase() === normalized) || null;
+      },
+
+      list(query = {}) {
+        return readAllJson<SellerWithInventory>(SELLERS_DIR)
+          .filter((seller) => seller.id && seller.discordId)
+          .filter((seller) => !query.status || seller.status === query.status)
+          .sort((a, b) => a.discordId.localeCompare(b.discordId));
+      },
+
+      save(seller) {
+        safeWriteJson(getSellerFilePath(seller.id), seller);
+      },
+
+      delete(sellerId) {
+        return deleteFile(getSellerFilePath(sellerId));
+      },
+    },
+
+    buyers: {
+      get(buyerId) {
+        return safeReadJson<Buyer>(getBuyerFilePath(buyerId));
+      },
+
+      getByDiscordId(discordId) {
+        const normalized = discordId.toLowerCase();
+        return (
+          readAllJson<Buyer>(BUYERS_DIR).find(
+            (b) => b.id && b.discordId && b.discordId.toLowerCase() === normalized
+          ) || null
+        );
+      },
+
+      save(buyer) {
+        safeWriteJson(getBuyerFilePath(buyer.id), buyer);
+      },
+    },
+
+    saveBatch(batch: StorageBatch) {
+      safeWriteJsonBatch([
+        ...(batch.sellers || []).map((seller) => ({ filePath: getSellerFilePath(seller.id), data: seller })),
+        ...(batch.orders || []).map((order) => ({ filePath: getOrderFilePath(order.orderId), data: order })),
+      ]);
+    },
+  };
+}
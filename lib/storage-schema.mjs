@@ -0,0 +1,42 @@
+/**
+ * SQLite tables and indexes of the storage backend
+ * Plain JS so both lib/storage-sqlite.ts and scripts/migrate-to-sqlite.mjs load it
+ */
+
+export const SQLITE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS orders (
+    order_id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_orders_status ON orders (status);
+  CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders (created_at);
+
+  CREATE TABLE IF NOT EXISTS order_sellers (
+    order_id TEXT NOT NULL REFERENCES orders (order_id) ON DELETE CASCADE,
+    seller_id TEXT NOT NULL,
+    PRIMARY KEY (order_id, seller_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_order_sellers_seller_id ON order_sellers (seller_id);
+
+  CREATE TABLE IF NOT EXISTS sellers (
+    seller_id TEXT PRIMARY KEY,
+    discord_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_sellers_discord_id ON sellers (discord_id COLLATE NOCASE);
+  CREATE INDEX IF NOT EXISTS idx_sellers_status ON sellers (status);
+
+  CREATE INDEX IF NOT EXISTS idx_orders_buyer_id ON orders (json_extract(data, '$.buyerId'));
+
+  CREATE TABLE IF NOT EXISTS buyers (
+    buyer_id TEXT PRIMARY KEY,
+    discord_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_buyers_discord_id ON buyers (discord_id COLLATE NOCASE);
+`;
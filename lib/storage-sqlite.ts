@@ -0,0 +1,204 @@
+/**
+ * Embedded SQLite storage backend (better-sqlite3)
+ * Documents are stored as JSON; seller ID, status and createdAt are indexed columns
+ * (orders are also indexed by the buyer account in the JSON document)
+ */
+
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type { StoredOrder } from "./orders";
+import type { Buyer, SellerWithInventory } from "./types";
+import type { OrderQuery, StorageBackend, StorageBatch } from "./storage";
+import { getOrderSellerIds } from "./storage";
+import { SQLITE_SCHEMA } from "./storage-schema.mjs";
+
+/**
+ * Open the database and create tables/indexes if missing
+ */
+export function openSqliteDatabase(dbPath: string): Database.Database {
+  const dir = path.dirname(dbPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  db.pragma("busy_timeout = 5000");
+  db.exec(SQLITE_SCHEMA);
+
+  return db;
+}
+
+/**
+ * Build WHERE clause and parameters for an order query
+ */
+function buildOrderWhere(query: OrderQuery): { where: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (query.sellerId) {
+    conditions.push("order_id IN (SELECT order_id FROM order_sellers WHERE seller_id = ?)");
+    params.push(query.sellerId);
+  }
+  if (query.buyerId) {
+    conditions.push("json_extract(data, '$.buyerId') = ?");
+    params.push(query.buyerId);
+  }
+  if (query.statuses) {
+    if (query.statuses.length === 0) {
+      conditions.push("0");
+    } else {
+      conditions.push(`status IN (${query.statuses.map(() => "?").join(", ")})`);
+      params.push(...query.statuses);
+    }
+  }
+  if (query.excludeStatuses && query.excludeStatuses.length > 0) {
+    conditions.push(`status NOT IN (${query.excludeStatuses.map(() => "?").join(", ")})`);
+    params.push(...query.excludeStatuses);
+  }
+  if (query.createdAfter) {
+    conditions.push("created_at >= ?");
+    params.push(query.createdAfter);
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  };
+}
+
+function parseRows<T>(rows: unknown[]): T[] {
+  return (rows as { data: string }[]).map((row) => JSON.parse(row.data) as T);
+}
+
+export function createSqliteStorage(dbPath: string): StorageBackend {
+  const db = openSqliteDatabase(dbPath);
+
+  const statements = {
+    getOrder: db.prepare("SELECT data FROM orders WHERE order_id = ?"),
+    upsertOrder: db.prepare(`
+      INSERT INTO orders (order_id, status, created_at, data) VALUES (?, ?, ?, ?)
+      ON CONFLICT (order_id) DO UPDATE SET status = excluded.status, created_at = excluded.created_at, data = excluded.data
+    `),
+    deleteOrderSellers: db.prepare("DELETE FROM order_sellers WHERE order_id = ?"),
+    insertOrderSeller: db.prepare("INSERT OR IGNORE INTO order_sellers (order_id, seller_id) VALUES (?, ?)"),
+    deleteOrder: db.prepare("DELETE FROM orders WHERE order_id = ?"),
+    clearOrders: db.prepare("DELETE FROM orders"),
+    getSeller: db.prepare("SELECT data FROM sellers WHERE seller_id = ?"),
+    getSellerByDiscordId: db.prepare("SELECT data FROM sellers WHERE discord_id = ? COLLATE NOCASE"),
+    upsertSeller: db.prepare(`
+      INSERT INTO sellers (seller_id, discord_id, status, created_at, data) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (seller_id) DO UPDATE SET discord_id = excluded.discord_id, status = excluded.status,
+        created_at = excluded.created_at, data = excluded.data
+    `),
+    deleteSeller: db.prepare("DELETE FROM sellers WHERE seller_id = ?"),
+    getBuyer: db.prepare("SELECT data FROM buyers WHERE buyer_id = ?"),
+    getBuyerByDiscordId: db.prepare("SELECT data FROM buyers WHERE discord_id = ? COLLATE NOCASE"),
+    upsertBuyer: db.prepare(`
+      INSERT INTO buyers (buyer_id, discord_id, created_at, data) VALUES (?, ?, ?, ?)
+      ON CONFLICT (buyer_id) DO UPDATE SET discord_id = excluded.discord_id, created_at = excluded.created_at,
+        data = excluded.data
+    `),
+  };
+
+  const saveOrder = (order: StoredOrder): void => {
+    statements.upsertOrder.run(order.orderId, order.status, order.createdAt, JSON.stringify(order));
+    statements.deleteOrderSellers.run(order.orderId);
+    for (const sellerId of getOrderSellerIds(order)) {
+      statements.insertOrderSeller.run(order.orderId, sellerId);
+    }
+  };
+
+  const saveSeller = (seller: SellerWithInventory): void => {
+    statements.upsertSeller.run(seller.id, seller.discordId, seller.status, seller.createdAt, JSON.stringify(seller));
+  };
+
+  const saveOrderTx = db.transaction(saveOrder);
+  const saveBatchTx = db.transaction((batch: StorageBatch) => {
+    for (const seller of batch.sellers || []) {
+      saveSeller(seller);
+    }
+    for (const order of batch.orders || []) {
+      saveOrder(order);
+    }
+  });
+
+  return {
+    name: "sqlite",
+
+    orders: {
+      get(orderId) {
+        const row = statements.getOrder.get(orderId) as { data: string } | undefined;
+        return row ? (JSON.parse(row.data) as StoredOrder) : null;
+      },
+
+      list(query = {}) {
+        const { where, params } = buildOrderWhere(query);
+        const rows = db.prepare(`SELECT data FROM orders ${where} ORDER BY created_at DESC`).all(...params);
+        return parseRows<StoredOrder>(rows);
+      },
+
+      save(order) {
+        saveOrderTx(order);
+      },
+
+      delete(orderId) {
+        return statements.deleteOrder.run(orderId).changes > 0;
+      },
+
+      clear() {
+        return statements.clearOrders.run().changes;
+      },
+    },
+
+    sellers: {
+      get(sellerId) {
+        const row = statements.getSeller.get(sellerId) as { data: string } | undefined;
+        return row ? (JSON.parse(row.data) as SellerWithInventory) : null;
+      },
+
+      getByDiscordId(discordId) {
+        const row = statements.getSellerByDiscordId.get(discordId) as { data: string } | undefined;
+        return row ? (JSON.parse(row.data) as SellerWithInventory) : null;
+      },
+
+      list(query = {}) {
+        const rows = query.status
+          ? db.prepare("SELECT data FROM sellers WHERE status = ? ORDER BY discord_id").all(query.status)
+          : db.prepare("SELECT data FROM sellers ORDER BY discord_id").all();
+        // Same ordering as the JSON backend (locale-aware)
+        return parseRows<SellerWithInventory>(rows).sort((a, b) => a.discordId.localeCompare(b.discordId));
+      },
+
+      save(seller) {
+        saveSeller(seller);
+      },
+
+      delete(sellerId) {
+        return statements.deleteSeller.run(sellerId).changes > 0;
+      },
+    },
+
+    buyers: {
+      get(buyerId) {
+        const row = statements.getBuyer.get(buyerId) as { data: string } | undefined;
+        return row ? (JSON.parse(row.data) as Buyer) : null;
+      },
+
+      getByDiscordId(discordId) {
+        const row = statements.getBuyerByDiscordId.get(discordId) as { data: string } | undefined;
+        return row ? (JSON.parse(row.data) as Buyer) : null;
+      },
+
+      save(buyer) {
+        statements.upsertBuyer.run(buyer.id, buyer.discordId, buyer.createdAt, JSON.stringify(buyer));
+      },
+    },
+
+    saveBatch(batch) {
+      saveBatchTx(batch);
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Storage backends for orders and sellers
+ * JSON files in data/ (default) or an embedded SQLite database,
+ * selected with the STORAGE_BACKEND env variable ("json" | "sqlite")
+ */
+
+import path from "path";
+import type { OrderStatus, StoredOrder } from "./orders";
+import type { Buyer, SellerStatus, SellerWithInventory } from "./types";
+import { createJsonStorage } from "./storage-json";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StorageBackendName = "json" | "sqlite";
+
+/**
+ * Filter for listing orders (all fields optional, combined with AND)
+ */
+export interface OrderQuery {
+  // Orders linked to this seller (notified, claimed, assigned or closed by them)
+  sellerId?: string;
+  // Orders placed from this buyer account
+  buyerId?: string;
+  statuses?: OrderStatus[];
+  excludeStatuses?: OrderStatus[];
+  // ISO timestamp - only orders created at or after it
+  createdAfter?: string;
+}
+
+export interface OrderStore {
+  get(orderId: string): StoredOrder | null;
+  // Newest first
+  list(query?: OrderQuery): StoredOrder[];
+  save(order: StoredOrder): void;
+  delete(orderId: string): boolean;
+  // Returns number of deleted orders
+  clear(): number;
+}
+
+export interface SellerStore {
+  get(sellerId: string): SellerWithInventory | null;
+  // Case-insensitive
+  getByDiscordId(discordId: string): SellerWithInventory | null;
+  // Sorted by Discord ID
+  list(query?: { status?: SellerStatus }): SellerWithInventory[];
+  save(seller: SellerWithInventory): void;
+  delete(sellerId: string): boolean;
+}
+
+export interface BuyerStore {
+  get(buyerId: string): Buyer | null;
+  // Case-insensitive
+  getByDiscordId(discordId: string): Buyer | null;
+  save(buyer: Buyer): void;
+}
+
+/**
+ * Documents saved together in saveBatch
+ */
+export interface StorageBatch {
+  orders?: StoredOrder[];
+  sellers?: SellerWithInventory[];
+}
+
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  orders: OrderStore;
+  sellers: SellerStore;
+  buyers: BuyerStore;
+  // Save several documents all-or-nothing
+  saveBatch(batch: StorageBatch): void;
+}
+
+// ============================================
+// SHARED HELPERS
+// ============================================
+
+/**
+ * Seller IDs an order is linked to (used for the seller index)
+ */
+export function getOrderSellerIds(order: StoredOrder): string[] {
+  const ids = new Set<string>(order.sellerIds || []);
+
+  if (order.assignedSellerId) {
+    ids.add(order.assignedSellerId);
+  }
+  for (const claim of order.itemClaims || []) {
+    for (const slice of claim.slices || []) {
+      ids.add(slice.sellerId);
+    }
+  }
+  for (const state of order.sellerStates || []) {
+    ids.add(state.sellerId);
+  }
+  // Sellers whose claims the sweep released (their completion rate counts them)
+  for (const release of order.claimReleases || []) {
+    ids.add(release.sellerId);
+  }
+
+  return Array.from(ids);
+}
+
+/**
+ * Check an order against a query (for backends without native filtering)
+ */
+export function matchesOrderQuery(order: StoredOrder, query: OrderQuery): boolean {
+  if (query.sellerId && !getOrderSellerIds(order).includes(query.sellerId)) {
+    return false;
+  }
+  if (query.buyerId && order.buyerId !== query.buyerId) {
+    return false;
+  }
+  if (query.statuses && !query.statuses.includes(order.status)) {
+    return false;
+  }
+  if (query.excludeStatuses && query.excludeStatuses.includes(order.status)) {
+    return false;
+  }
+  if (query.createdAfter && order.createdAt < query.createdAfter) {
+    return false;
+  }
+  return true;
+}
+
+// ============================================
+// BACKEND SELECTION
+// ============================================
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Configured backend name (defaults to JSON files)
+ */
+export function getStorageBackendName(): StorageBackendName {
+  return process.env.STORAGE_BACKEND?.toLowerCase() === "sqlite" ? "sqlite" : "json";
+}
+
+/**
+ * SQLite database path (SQLITE_PATH or data/store.db)
+ */
+export function getSqlitePath(): string {
+  return process.env.SQLITE_PATH || path.join(process.cwd(), "data", "store.db");
+}
+
+/**
+ * Get the storage backend (created on first use)
+ * The SQLite backend is loaded only when selected, so JSON deployments never
+ * load the native better-sqlite3 module
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    if (getStorageBackendName() === "sqlite") {
+      const { createSqliteStorage } = require("./storage-sqlite") as typeof import("./storage-sqlite");
+      storage = createSqliteStorage(getSqlitePath());
+    } else {
+      storage = createJsonStorage();
+    }
+  }
+  return storage;
+}
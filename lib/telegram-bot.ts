@@ -0,0 +1,345 @@
+/**
+ * Telegram bot webhook handling
+ * Sellers link their chat with a one-time /start code and then act on orders
+ * straight from their notification via inline buttons; the seller is
+ * identified by the Telegram chat ID linked to their account.
+ */
+
+import crypto from "crypto";
+import {
+  acceptOrderFull,
+  claimOrderItems,
+  fulfillAllClaimedItems,
+  releaseOrderItem,
+  getOrderForSeller,
+  isFinalOrderStatus,
+  ClaimResult,
+  OrderStatus,
+  SellerOrderView,
+} from "./orders";
+import { escapeHtml } from "./order";
+import { getSellerByTelegramChatId, linkSellerTelegramByCode } from "./sellers";
+import { canSellerReceiveOrders } from "./types";
+import {
+  answerTelegramCallback,
+  buildSellerOrderKeyboard,
+  editTelegramMessage,
+  parseSellerOrderCallback,
+  sendTelegramMessage,
+  SellerOrderAction,
+  TelegramReplyMarkup,
+} from "./telegram";
+
+// ============================================
+// TYPES (subset of the Bot API Update object)
+// ============================================
+
+export interface TelegramUser {
+  id: number;
+  username?: string;
+}
+
+export interface TelegramChat {
+  id: number;
+  type: string;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  chat: TelegramChat;
+  from?: TelegramUser;
+  text?: string;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+// ============================================
+// WEBHOOK SECRET
+// ============================================
+
+/**
+ * Check the X-Telegram-Bot-Api-Secret-Token header against TELEGRAM_WEBHOOK_SECRET
+ * Without a configured secret the webhook is disabled
+ */
+export function isValidWebhookSecret(headerValue: string | null): boolean {
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+  if (!secret || !headerValue) {
+    return false;
+  }
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(headerValue);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// ============================================
+// ORDER MESSAGE
+// ============================================
+
+const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  open: "Відкрите",
+  in_progress: "В обробці",
+  completed: "Виконано",
+  closed: "Закрите",
+  cancelled: "Скасовано",
+  expired: "Прострочено",
+};
+
+function formatItemState(item: SellerOrderView["items"][number]): string {
+  const mine =
+    item.myClaimStatus === "fulfilled"
+      ? `✅ Виконано вами (${item.myClaimedQty} шт.)`
+      : item.myClaimStatus === "claimed"
+      ? `🙋 Взято вами (${item.myClaimedQty} шт.)`
+      : null;
+  if (item.remainingQty === 0) {
+    return mine || (item.claimStatus === "fulfilled" ? "✅ Виконано" : "🔒 Взято іншим продавцем");
+  }
+
+  if (mine) {
+    return `${mine}\n    ⏳ Ще вільно ${item.remainingQty} шт.`;
+  }
+  return item.availableQty > 0
+    ? `⏳ Вільно ${item.remainingQty} шт. (у вас ${item.availableQty} шт.)`
+    : `❌ Немає в наявності (вільно ${item.remainingQty} шт.)`;
+}
+
+/**
+ * Format the seller's order message with the current claim state
+ */
+export function formatSellerOrderStateMessage(view: SellerOrderView): string {
+  let message = `📦 <b>ЗАМОВЛЕННЯ</b> · ${ORDER_STATUS_LABELS[view.status]}`;
+
+  if (view.isMultiSeller) {
+    message += ` ⚠️ <b>МУЛЬТИ-ПРОДАВЕЦЬ</b>`;
+  }
+
+  message += `\n\n`;
+  message += `📋 <b>Order ID:</b> ${view.orderId}\n`;
+  message += `👤 <b>Discord покупця:</b> ${escapeHtml(view.buyerDiscordNick)}\n`;
+  message += `💬 <b>Пропозиція:</b> ${escapeHtml(view.offer)}\n`;
+  message += `📝 <b>Примітки:</b> ${view.notes ? escapeHtml(view.notes) : "немає"}\n`;
+
+  const itemsList = view.items
+    .map((item) => `  • ${escapeHtml(item.blueprintName)} ×${item.requestedQty}\n    ${formatItemState(item)}`)
+    .join("\n\n");
+  message += `\n<b>Позиції:</b>\n\n${itemsList}`;
+
+  if (view.isClosedByMe) {
+    message += `\n\n🗄 Ви закрили це замовлення`;
+  }
+
+  return message;
+}
+
+/**
+ * Buttons that still make sense for this seller (none once the order is final)
+ */
+export function getSellerOrderKeyboard(view: SellerOrderView): TelegramReplyMarkup {
+  if (isFinalOrderStatus(view.status) || view.isClosedByMe) {
+    return buildSellerOrderKeyboard(view.orderId, []);
+  }
+
+  const actions: SellerOrderAction[] = [];
+  if (view.canAcceptFull) {
+    actions.push("accept");
+  }
+  if (view.claimableItemCount > 0) {
+    actions.push("claim");
+  }
+  if (view.items.some((item) => item.myClaimStatus === "claimed")) {
+    actions.push("fulfill", "release");
+  }
+
+  return buildSellerOrderKeyboard(view.orderId, actions);
+}
+
+// ============================================
+// BUTTON ACTIONS
+// ============================================
+
+const ACTION_SUCCESS_MESSAGES: Record<SellerOrderAction, string> = {
+  accept: "Замовлення прийнято",
+  claim: "Позиції прийняті",
+  fulfill: "Всі позиції виконано",
+  release: "Позиції скасовано",
+};
+
+/**
+ * Release every item this seller has claimed but not fulfilled yet
+ */
+async function releaseMyClaimedItems(orderId: string, sellerId: string): Promise<ClaimResult> {
+  const view = getOrderForSeller(orderId, sellerId);
+  if (!view) {
+    return { success: false, error: "Замовлення не знайдено" };
+  }
+
+  const blueprintIds = view.items
+    .filter((item) => item.myClaimStatus === "claimed")
+    .map((item) => item.blueprintId);
+
+  if (blueprintIds.length === 0) {
+    return { success: false, error: "У вас немає взятих позицій" };
+  }
+
+  const released: string[] = [];
+  let lastError: string | undefined;
+  for (const blueprintId of blueprintIds) {
+    const result = await releaseOrderItem(orderId, sellerId, blueprintId);
+    if (result.success) {
+      released.push(blueprintId);
+    } else {
+      lastError = result.error;
+    }
+  }
+
+  return released.length > 0
+    ? { success: true, claimedItems: released }
+    : { success: false, error: lastError };
+}
+
+function runSellerOrderAction(
+  action: SellerOrderAction,
+  orderId: string,
+  sellerId: string
+): Promise<ClaimResult> {
+  switch (action) {
+    case "accept":
+      return acceptOrderFull(orderId, sellerId);
+    case "claim":
+      return claimOrderItems(orderId, sellerId);
+    case "fulfill":
+      return fulfillAllClaimedItems(orderId, sellerId);
+    case "release":
+      return releaseMyClaimedItems(orderId, sellerId);
+  }
+}
+
+/**
+ * Handle a press on a seller order button:
+ * run the action, answer the press and refresh the original message
+ */
+async function handleCallbackQuery(botToken: string, query: TelegramCallbackQuery): Promise<void> {
+  const parsed = query.data ? parseSellerOrderCallback(query.data) : null;
+  if (!parsed) {
+    await answerTelegramCallback(botToken, query.id, "Невідома дія");
+    return;
+  }
+
+  const seller = getSellerByTelegramChatId(String(query.from.id));
+  if (!seller) {
+    await answerTelegramCallback(botToken, query.id, "Цей Telegram не прив'язаний до продавця", true);
+    return;
+  }
+  if (!canSellerReceiveOrders(seller)) {
+    await answerTelegramCallback(botToken, query.id, "Обліковий запис неактивний", true);
+    return;
+  }
+
+  const { action, orderId } = parsed;
+  const result = await runSellerOrderAction(action, orderId, seller.id);
+
+  await answerTelegramCallback(
+    botToken,
+    query.id,
+    result.success ? ACTION_SUCCESS_MESSAGES[action] : result.error || "Помилка",
+    !result.success
+  );
+
+  // Refresh the message even after a failure - it may show a stale state
+  if (!query.message) {
+    return;
+  }
+
+  const view = getOrderForSeller(orderId, seller.id);
+  const text = view
+    ? formatSellerOrderStateMessage(view)
+    : `📋 <b>Order ID:</b> ${orderId}\n\nЗамовлення більше недоступне.`;
+  const keyboard = view ? getSellerOrderKeyboard(view) : undefined;
+
+  const edit = await editTelegramMessage(
+    botToken,
+    String(query.message.chat.id),
+    query.message.message_id,
+    text,
+    keyboard
+  );
+  // "message is not modified" is expected when nothing changed
+  if (!edit.success && !edit.error?.includes("not modified")) {
+    console.error(`Failed to update Telegram message for order ${orderId}: ${edit.error}`);
+  }
+}
+
+// ============================================
+// ACCOUNT LINKING
+// ============================================
+
+/**
+ * Handle /start [code]: link this private chat to the seller who created the code
+ */
+async function handleStartCommand(botToken: string, message: TelegramMessage, code: string): Promise<void> {
+  const chatId = String(message.chat.id);
+
+  if (message.chat.type !== "private") {
+    await sendTelegramMessage(botToken, chatId, "Прив'язка працює лише в приватному чаті з ботом.");
+    return;
+  }
+
+  if (!code) {
+    const seller = getSellerByTelegramChatId(chatId);
+    await sendTelegramMessage(
+      botToken,
+      chatId,
+      seller
+        ? `Цей чат прив'язано до продавця <b>${escapeHtml(seller.discordId)}</b>. Сюди надходять нові замовлення.`
+        : "Щоб отримувати замовлення, відкрийте посилання з вкладки «Сповіщення» у кабінеті продавця."
+    );
+    return;
+  }
+
+  const result = await linkSellerTelegramByCode(code, chatId);
+  await sendTelegramMessage(
+    botToken,
+    chatId,
+    result.success && result.seller
+      ? `✅ Telegram прив'язано до продавця <b>${escapeHtml(result.seller.discordId)}</b>. Сюди надходитимуть нові замовлення.`
+      : `❌ ${escapeHtml(result.error || "Не вдалося прив'язати Telegram")}`
+  );
+}
+
+// ============================================
+// UPDATES
+// ============================================
+
+/**
+ * Handle an update delivered to the webhook
+ */
+export async function handleTelegramUpdate(update: TelegramUpdate): Promise<void> {
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+  if (!botToken) {
+    console.error("Telegram update received but TELEGRAM_BOT_TOKEN is not set");
+    return;
+  }
+
+  if (update.callback_query) {
+    await handleCallbackQuery(botToken, update.callback_query);
+    return;
+  }
+
+  // "/start <code>" (or "/start@botname <code>" in groups)
+  const start = update.message?.text?.trim().match(/^\/start(?:@\w+)?(?:\s+(\S+))?$/);
+  if (update.message && start) {
+    await handleStartCommand(botToken, update.message, start[1] || "");
+  }
+}
@@ -0,0 +1,537 @@
+/**
+ * Durable notification outbox (Telegram, Discord webhooks and Web Push)
+ * Messages are saved to data/outbox/<id>.json first and delivered by a background
+ * worker with exponential backoff (honouring retry_after on 429).
+ * Delivery status is kept on each message for the admin panel.
+ * A Telegram message can also be an edit of an earlier one (e.g. the group post of an order).
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { withFileLock, safeReadJson, safeWriteJson } from "./safe-file";
+import {
+  editTelegramMessage,
+  sendTelegramMessage,
+  TelegramReplyMarkup,
+  TelegramSendResult,
+} from "./telegram";
+import { DiscordEmbed, DiscordSendResult, sendDiscordWebhook } from "./discord";
+import { sendWebPush, WebPushPayload, WebPushSendResult } from "./web-push";
+import { getSellerById, removeSellerPushSubscription } from "./sellers";
+
+const OUTBOX_DIR = path.join(process.cwd(), "data", "outbox");
+
+// Delivery settings
+const OUTBOX_POLL_INTERVAL_MS = 5 * 1000;
+export const OUTBOX_MAX_ATTEMPTS = 8;
+export const OUTBOX_BACKOFF_BASE_MS = 5 * 1000; // 5s, 10s, 20s, ...
+const OUTBOX_BACKOFF_MAX_MS = 30 * 60 * 1000; // 30 minutes
+// A message stuck in "sending" longer than this (crashed worker) is retried
+const OUTBOX_SENDING_LEASE_MS = 60 * 1000;
+// Sent messages are removed after this
+const OUTBOX_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+// Group posts are kept longer: they are edited as their order progresses
+const OUTBOX_GROUP_POST_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const OUTBOX_CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+// ============================================
+// TYPES
+// ============================================
+
+export type OutboxMessageStatus = "pending" | "sending" | "sent" | "failed";
+
+export const OUTBOX_MESSAGE_STATUSES: readonly OutboxMessageStatus[] = [
+  "pending",
+  "sending",
+  "sent",
+  "failed",
+] as const;
+
+// Who the message is for
+export type OutboxRecipientKind = "group" | "admin" | "seller";
+
+// Where the message is delivered
+export type OutboxChannel = "telegram" | "discord" | "webpush";
+
+export interface OutboxMessage {
+  id: string;
+  kind: OutboxRecipientKind;
+  // Missing on messages queued before Discord support (Telegram)
+  channel?: OutboxChannel;
+  // Telegram chat ID, the webhook URL for Discord, or the seller's push subscription ID
+  chatId: string;
+  // Message text (for Discord and Web Push a plain summary shown in the admin panel)
+  text: string;
+  // Embed posted to Discord
+  discordEmbed?: DiscordEmbed;
+  // Notification shown by the browser
+  webPush?: WebPushPayload;
+  // Inline keyboard sent with the message
+  replyMarkup?: TelegramReplyMarkup;
+  // Outbox ID of the message this one replaces the text of (sent as editMessageText)
+  editsMessageId?: string;
+  orderId?: string;
+  sellerId?: string;
+  sellerDiscordId?: string;
+  status: OutboxMessageStatus;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  // ISO timestamp of the next delivery attempt (pending) or lease expiry (sending)
+  nextAttemptAt: string;
+  sentAt?: string;
+  lastError?: string;
+  // Telegram message_id once sent
+  telegramMessageId?: number;
+}
+
+export type OutboxMessageInput = Pick<
+  OutboxMessage,
+  "kind" | "channel" | "chatId" | "text" | "discordEmbed" | "webPush" | "replyMarkup" | "editsMessageId"
+  | "orderId" | "sellerId" | "sellerDiscordId"
+>;
+
+// ============================================
+// STORAGE
+// ============================================
+
+function getOutboxFilePath(id: string): string {
+  return path.join(OUTBOX_DIR, `${id.replace(/[^a-zA-Z0-9-_]/g, "_")}.json`);
+}
+
+function generateOutboxId(): string {
+  return `MSG-${Date.now().toString(36)}-${crypto.randomBytes(4).toString("hex")}`.toUpperCase();
+}
+
+/**
+ * Get a single outbox message
+ */
+export function getOutboxMessage(id: string): OutboxMessage | null {
+  return safeReadJson<OutboxMessage>(getOutboxFilePath(id));
+}
+
+/**
+ * List outbox messages (newest first)
+ */
+export function getOutboxMessages(
+  filter: { status?: OutboxMessageStatus; orderId?: string } = {}
+): OutboxMessage[] {
+  if (!fs.existsSync(OUTBOX_DIR)) {
+    return [];
+  }
+
+  const messages: OutboxMessage[] = [];
+  for (const file of fs.readdirSync(OUTBOX_DIR).filter((f) => f.endsWith(".json"))) {
+    const message = safeReadJson<OutboxMessage>(path.join(OUTBOX_DIR, file));
+    if (!message || !message.id) {
+      continue;
+    }
+    if (filter.status && message.status !== filter.status) {
+      continue;
+    }
+    if (filter.orderId && message.orderId !== filter.orderId) {
+      continue;
+    }
+    messages.push(message);
+  }
+
+  return messages.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Read-modify-write a message under its lock
+ * The updater returns null to leave the message unchanged
+ */
+function updateOutboxMessage(
+  id: string,
+  updater: (message: OutboxMessage) => OutboxMessage | null
+): Promise<OutboxMessage | null> {
+  const filePath = getOutboxFilePath(id);
+
+  return withFileLock(filePath, () => {
+    const message = safeReadJson<OutboxMessage>(filePath);
+    if (!message) {
+      return null;
+    }
+
+    const updated = updater(message);
+    if (!updated) {
+      return null;
+    }
+
+    updated.updatedAt = new Date().toISOString();
+    safeWriteJson(filePath, updated);
+    return updated;
+  });
+}
+
+// ============================================
+// ENQUEUE
+// ============================================
+
+/**
+ * Drop queued edits of a message except the newest one (it carries the full text)
+ */
+async function dropObsoleteEdits(editsMessageId: string): Promise<void> {
+  const edits = getOutboxMessages({ status: "pending" }).filter(
+    (message) => message.editsMessageId === editsMessageId
+  );
+
+  // Newest first - keep it
+  for (const message of edits.slice(1)) {
+    const filePath = getOutboxFilePath(message.id);
+    await withFileLock(filePath, () => {
+      // Re-check under the lock: the worker may have picked it up meanwhile
+      if (safeReadJson<OutboxMessage>(filePath)?.status === "pending") {
+        fs.unlinkSync(filePath);
+      }
+    });
+  }
+}
+
+/**
+ * Save a message to the outbox and wake the worker
+ * Each edit carries the full text, so only the newest queued edit is kept
+ */
+export function enqueueOutboxMessage(input: OutboxMessageInput): OutboxMessage {
+  const now = new Date().toISOString();
+  const message: OutboxMessage = {
+    ...input,
+    channel: input.channel || "telegram",
+    id: generateOutboxId(),
+    status: "pending",
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+    nextAttemptAt: now,
+  };
+
+  safeWriteJson(getOutboxFilePath(message.id), message);
+  if (input.editsMessageId) {
+    // An older edit the worker sends meanwhile is harmless - this one follows it
+    dropObsoleteEdits(input.editsMessageId).catch((error) => {
+      console.error(`Failed to drop obsolete edits of ${input.editsMessageId}:`, error);
+    });
+  }
+  startOutboxWorker();
+  scheduleOutboxRun(0);
+
+  return message;
+}
+
+/**
+ * Put a failed message back in the queue (admin action)
+ */
+export async function retryOutboxMessage(id: string): Promise<OutboxMessage | null> {
+  const updated = await updateOutboxMessage(id, (message) => {
+    if (message.status !== "failed") {
+      return null;
+    }
+    return {
+      ...message,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date().toISOString(),
+    };
+  });
+
+  if (updated) {
+    startOutboxWorker();
+    scheduleOutboxRun(0);
+  }
+  return updated;
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+
+/**
+ * Delay before the next attempt: exponential backoff, but never sooner than retry_after
+ */
+export function getOutboxRetryDelayMs(attempts: number, retryAfterSeconds?: number): number {
+  const backoff = Math.min(OUTBOX_BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), OUTBOX_BACKOFF_MAX_MS);
+  return retryAfterSeconds ? Math.max(backoff, retryAfterSeconds * 1000) : backoff;
+}
+
+/**
+ * 429, 5xx and network errors are worth retrying; other 4xx (bad chat ID,
+ * bot blocked by the user, malformed HTML) will fail the same way again
+ */
+function isRetryableSendError(result: OutboxSendResult): boolean {
+  const status = result.status ?? 0;
+  return status === 0 || status === 429 || status >= 500;
+}
+
+/**
+ * Telegram rejects an edit that doesn't change anything; the message already shows the text
+ */
+function isNotModifiedError(result: TelegramSendResult): boolean {
+  return result.status === 400 && Boolean(result.error?.includes("message is not modified"));
+}
+
+function isOutboxMessageDue(message: OutboxMessage, now: number): boolean {
+  if (message.status !== "pending" && message.status !== "sending") {
+    return false;
+  }
+  // For "sending" this is the lease expiry
+  return new Date(message.nextAttemptAt).getTime() <= now;
+}
+
+/**
+ * Mark a message failed without sending it
+ */
+function failOutboxMessage(id: string, error: string): Promise<OutboxMessage | null> {
+  console.error(`Outbox message ${id} failed: ${error}`);
+  return updateOutboxMessage(id, (message) =>
+    message.status === "pending" ? { ...message, status: "failed", lastError: error } : null
+  );
+}
+
+/**
+ * Telegram message_id an edit applies to
+ * null = the original isn't sent yet (try again later); a string = the edit can never be applied
+ */
+function resolveEditTarget(message: OutboxMessage): number | string | null {
+  const original = message.editsMessageId ? getOutboxMessage(message.editsMessageId) : null;
+  if (!original) {
+    return "Original message not found";
+  }
+  if (original.status === "failed") {
+    return "Original message was not delivered";
+  }
+  if (original.status !== "sent") {
+    return null;
+  }
+  return original.telegramMessageId ?? "Original message has no Telegram message_id";
+}
+
+type OutboxSendResult = TelegramSendResult | DiscordSendResult | WebPushSendResult;
+
+/**
+ * Send a Web Push message to the seller's subscription
+ * Subscriptions the push service reports as gone are removed from the seller
+ */
+async function deliverWebPush(message: OutboxMessage): Promise<WebPushSendResult> {
+  const seller = message.sellerId ? getSellerById(message.sellerId) : null;
+  const subscription = seller?.pushSubscriptions?.find((sub) => sub.id === message.chatId);
+  if (!seller || !subscription) {
+    return { success: false, error: "Push subscription was removed", status: 410 };
+  }
+
+  const result = await sendWebPush(
+    subscription,
+    message.webPush || { title: message.text, body: "", url: "/seller" }
+  );
+  if (result.expired) {
+    await removeSellerPushSubscription(seller.id, subscription.id);
+  }
+  return result;
+}
+
+/**
+ * Try to deliver one message; returns the updated message
+ */
+async function deliverOutboxMessage(id: string, botToken: string | undefined): Promise<OutboxMessage | null> {
+  const pending = getOutboxMessage(id);
+  if (!pending) {
+    return null;
+  }
+
+  let editTarget: number | undefined;
+  if (pending.editsMessageId) {
+    const target = resolveEditTarget(pending);
+    if (target === null) {
+      // Picked up again on a later run, once the original is delivered
+      return null;
+    }
+    if (typeof target === "string") {
+      return failOutboxMessage(id, target);
+    }
+    editTarget = target;
+  }
+
+  // Claim the message so other workers/processes skip it while we send
+  const claimed = await updateOutboxMessage(id, (message) => {
+    if (!isOutboxMessageDue(message, Date.now())) {
+      return null;
+    }
+    return {
+      ...message,
+      status: "sending",
+      attempts: message.attempts + 1,
+      nextAttemptAt: new Date(Date.now() + OUTBOX_SENDING_LEASE_MS).toISOString(),
+    };
+  });
+
+  if (!claimed) {
+    return null;
+  }
+
+  let result: OutboxSendResult;
+  if (claimed.channel === "discord") {
+    result = await sendDiscordWebhook(claimed.chatId, claimed.discordEmbed || { description: claimed.text });
+  } else if (claimed.channel === "webpush") {
+    result = await deliverWebPush(claimed);
+  } else if (!botToken) {
+    result = { success: false, error: "TELEGRAM_BOT_TOKEN is not set", status: 0 };
+  } else if (editTarget !== undefined) {
+    result = await editTelegramMessage(botToken, claimed.chatId, editTarget, claimed.text, claimed.replyMarkup);
+  } else {
+    result = await sendTelegramMessage(botToken, claimed.chatId, claimed.text, claimed.replyMarkup);
+  }
+
+  return updateOutboxMessage(id, (message) => {
+    // Lease expired and another worker took the message over
+    if (message.status !== "sending" || message.attempts !== claimed.attempts) {
+      return null;
+    }
+
+    const now = Date.now();
+
+    if (result.success || isNotModifiedError(result)) {
+      return {
+        ...message,
+        status: "sent",
+        sentAt: new Date(now).toISOString(),
+        lastError: undefined,
+        telegramMessageId: editTarget ?? ("messageId" in result ? result.messageId : undefined),
+      };
+    }
+
+    const error = result.status ? `${result.status}: ${result.error}` : result.error || "Unknown error";
+    if (!isRetryableSendError(result) || message.attempts >= OUTBOX_MAX_ATTEMPTS) {
+      console.error(`Outbox message ${message.id} failed after ${message.attempts} attempt(s): ${error}`);
+      return { ...message, status: "failed", lastError: error };
+    }
+
+    const delay = getOutboxRetryDelayMs(message.attempts, result.retryAfter);
+    return {
+      ...message,
+      status: "pending",
+      lastError: error,
+      nextAttemptAt: new Date(now + delay).toISOString(),
+    };
+  });
+}
+
+/**
+ * Deliver all due messages once (oldest first)
+ * Returns counts for logging
+ */
+export async function processOutbox(): Promise<{ sent: number; retried: number; failed: number }> {
+  const counts = { sent: 0, retried: 0, failed: 0 };
+
+  // Without a bot token Telegram messages wait in the queue; other channels still go out
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+
+  const now = Date.now();
+  const due = getOutboxMessages()
+    .filter((message) => isOutboxMessageDue(message, now))
+    .filter((message) => botToken || (message.channel || "telegram") !== "telegram")
+    .reverse();
+
+  for (const { id } of due) {
+    const message = await deliverOutboxMessage(id, botToken);
+    if (message?.status === "sent") counts.sent++;
+    else if (message?.status === "pending") counts.retried++;
+    else if (message?.status === "failed") counts.failed++;
+  }
+
+  return counts;
+}
+
+/**
+ * Delete sent messages older than the retention period
+ */
+function cleanupSentOutboxMessages(): void {
+  const now = Date.now();
+
+  for (const message of getOutboxMessages({ status: "sent" })) {
+    const isGroupPost = message.kind === "group" && !message.editsMessageId;
+    const retention = isGroupPost ? OUTBOX_GROUP_POST_RETENTION_MS : OUTBOX_RETENTION_MS;
+    if (message.sentAt && new Date(message.sentAt).getTime() < now - retention) {
+      try {
+        fs.unlinkSync(getOutboxFilePath(message.id));
+      } catch {
+        // Already removed by another process
+      }
+    }
+  }
+}
+
+// ============================================
+// BACKGROUND WORKER
+// ============================================
+
+let workerStarted = false;
+let workerRunning = false;
+let workerRerunRequested = false;
+let workerTimer: ReturnType<typeof setTimeout> | null = null;
+let lastCleanupAt = 0;
+
+/**
+ * Schedule the next worker run (replaces the pending timer)
+ * While a run is in progress, another run starts right after it
+ */
+function scheduleOutboxRun(delayMs: number): void {
+  if (!workerStarted) {
+    return;
+  }
+  if (workerRunning) {
+    workerRerunRequested = delayMs === 0;
+    return;
+  }
+  if (workerTimer) {
+    clearTimeout(workerTimer);
+  }
+  workerTimer = setTimeout(runOutboxWorker, delayMs);
+  // Don't keep scripts alive just for the outbox
+  workerTimer.unref?.();
+}
+
+async function runOutboxWorker(): Promise<void> {
+  workerTimer = null;
+  workerRunning = true;
+
+  try {
+    await processOutbox();
+
+    if (Date.now() - lastCleanupAt > OUTBOX_CLEANUP_INTERVAL_MS) {
+      lastCleanupAt = Date.now();
+      cleanupSentOutboxMessages();
+    }
+  } catch (error) {
+    console.error("Outbox worker error:", error);
+  } finally {
+    workerRunning = false;
+    const delay = workerRerunRequested ? 0 : OUTBOX_POLL_INTERVAL_MS;
+    workerRerunRequested = false;
+    scheduleOutboxRun(delay);
+  }
+}
+
+/**
+ * Start the background worker in this process (idempotent)
+ * Called on server start (instrumentation.ts) and on first enqueue
+ */
+export function startOutboxWorker(): void {
+  if (workerStarted) {
+    return;
+  }
+  workerStarted = true;
+  scheduleOutboxRun(0);
+}
+
+/**
+ * Stop the background worker in this process (a run in progress finishes)
+ * Used by tests that drive processOutbox() themselves
+ */
+export function stopOutboxWorker(): void {
+  workerStarted = false;
+  if (workerTimer) {
+    clearTimeout(workerTimer);
+    workerTimer = null;
+  }
+}
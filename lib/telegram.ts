@@ -0,0 +1,225 @@
+/**
+ * Telegram Bot API calls
+ * The API base URL can be pointed at a local fake server with TELEGRAM_API_BASE_URL
+ */
+
+const DEFAULT_TELEGRAM_API_BASE_URL = "https://api.telegram.org";
+const TELEGRAM_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export interface TelegramInlineKeyboardButton {
+  text: string;
+  callback_data?: string;
+  url?: string;
+}
+
+export interface TelegramReplyMarkup {
+  inline_keyboard: TelegramInlineKeyboardButton[][];
+}
+
+export interface TelegramSendResult {
+  success: boolean;
+  error?: string;
+  // HTTP status (0 if the request didn't complete)
+  status?: number;
+  // Seconds to wait before retrying (from a 429 response)
+  retryAfter?: number;
+  // ID of the sent message
+  messageId?: number;
+}
+
+/**
+ * Telegram API base URL (without trailing slash)
+ */
+export function getTelegramApiBaseUrl(): string {
+  return (process.env.TELEGRAM_API_BASE_URL || DEFAULT_TELEGRAM_API_BASE_URL).replace(/\/+$/, "");
+}
+
+/**
+ * Call a Bot API method
+ */
+export async function callTelegramApi(
+  botToken: string,
+  method: string,
+  payload: Record<string, unknown>
+): Promise<TelegramSendResult & { result?: unknown }> {
+  try {
+    const response = await fetch(`${getTelegramApiBaseUrl()}/bot${botToken}/${method}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(TELEGRAM_REQUEST_TIMEOUT_MS),
+    });
+
+    const data = (await response.json().catch(() => ({}))) as {
+      ok?: boolean;
+      description?: string;
+      result?: unknown;
+      parameters?: { retry_after?: number };
+    };
+
+    if (!response.ok || data.ok === false) {
+      console.error(`Telegram API error (${method}):`, data);
+      return {
+        success: false,
+        error: data.description || `HTTP ${response.status}`,
+        status: response.status,
+        retryAfter: data.parameters?.retry_after,
+      };
+    }
+
+    return { success: true, status: response.status, result: data.result };
+  } catch (error) {
+    console.error(`Telegram ${method} error:`, error);
+    return { success: false, error: "Telegram connection error", status: 0 };
+  }
+}
+
+/**
+ * Send an HTML message
+ */
+export async function sendTelegramMessage(
+  botToken: string,
+  chatId: string,
+  message: string,
+  replyMarkup?: TelegramReplyMarkup
+): Promise<TelegramSendResult> {
+  const { result, ...sendResult } = await callTelegramApi(botToken, "sendMessage", {
+    chat_id: chatId,
+    text: message,
+    parse_mode: "HTML",
+    ...(replyMarkup ? { reply_markup: replyMarkup } : {}),
+  });
+
+  if (!sendResult.success) {
+    return sendResult;
+  }
+
+  return { ...sendResult, messageId: (result as { message_id?: number } | undefined)?.message_id };
+}
+
+/**
+ * Replace the text (and keyboard) of a sent HTML message
+ * An empty keyboard removes the buttons
+ */
+export async function editTelegramMessage(
+  botToken: string,
+  chatId: string,
+  messageId: number,
+  message: string,
+  replyMarkup?: TelegramReplyMarkup
+): Promise<TelegramSendResult> {
+  const { result: _result, ...editResult } = await callTelegramApi(botToken, "editMessageText", {
+    chat_id: chatId,
+    message_id: messageId,
+    text: message,
+    parse_mode: "HTML",
+    reply_markup: replyMarkup || { inline_keyboard: [] },
+  });
+  return editResult;
+}
+
+/**
+ * Answer a button press (shows a toast, or an alert if showAlert)
+ */
+export async function answerTelegramCallback(
+  botToken: string,
+  callbackQueryId: string,
+  text?: string,
+  showAlert: boolean = false
+): Promise<TelegramSendResult> {
+  const { result: _result, ...answerResult } = await callTelegramApi(botToken, "answerCallbackQuery", {
+    callback_query_id: callbackQueryId,
+    ...(text ? { text, show_alert: showAlert } : {}),
+  });
+  return answerResult;
+}
+
+let cachedBotUsername: string | null = null;
+
+/**
+ * Bot username for t.me links: TELEGRAM_BOT_USERNAME, or looked up once via getMe
+ */
+export async function getTelegramBotUsername(botToken: string): Promise<string | null> {
+  const configured = process.env.TELEGRAM_BOT_USERNAME?.trim().replace(/^@/, "");
+  if (configured) {
+    return configured;
+  }
+  if (cachedBotUsername) {
+    return cachedBotUsername;
+  }
+
+  const { success, result } = await callTelegramApi(botToken, "getMe", {});
+  const username = success ? (result as { username?: string } | undefined)?.username : undefined;
+  if (username) {
+    cachedBotUsername = username;
+  }
+  return username || null;
+}
+
+// ============================================
+// SELLER ORDER BUTTONS
+// ============================================
+
+export type SellerOrderAction = "accept" | "claim" | "fulfill" | "release";
+
+// Short codes keep callback_data within Telegram's 64-byte limit
+const SELLER_ORDER_ACTION_CODES: Record<SellerOrderAction, string> = {
+  accept: "acc",
+  claim: "clm",
+  fulfill: "ful",
+  release: "rel",
+};
+
+const SELLER_ORDER_ACTION_LABELS: Record<SellerOrderAction, string> = {
+  accept: "✅ Прийняти все",
+  claim: "🙋 Взяти мої",
+  fulfill: "📦 Виконати",
+  release: "↩️ Відмовитись",
+};
+
+/**
+ * callback_data for a seller order button: o:<action code>:<orderId>
+ */
+export function encodeSellerOrderCallback(action: SellerOrderAction, orderId: string): string {
+  return `o:${SELLER_ORDER_ACTION_CODES[action]}:${orderId}`;
+}
+
+/**
+ * Parse callback_data from a seller order button (null if it isn't one)
+ */
+export function parseSellerOrderCallback(
+  data: string
+): { action: SellerOrderAction; orderId: string } | null {
+  const match = data.match(/^o:([a-z]+):([A-Z0-9-]+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const action = (Object.keys(SELLER_ORDER_ACTION_CODES) as SellerOrderAction[])
+    .find((a) => SELLER_ORDER_ACTION_CODES[a] === match[1]);
+
+  return action ? { action, orderId: match[2] } : null;
+}
+
+/**
+ * Inline keyboard with the given seller order actions (one row)
+ */
+export function buildSellerOrderKeyboard(
+  orderId: string,
+  actions: SellerOrderAction[]
+): TelegramReplyMarkup {
+  if (actions.length === 0) {
+    return { inline_keyboard: [] };
+  }
+
+  return {
+    inline_keyboard: [
+      actions.map((action) => ({
+        text: SELLER_ORDER_ACTION_LABELS[action],
+        callback_data: encodeSellerOrderCallback(action, orderId),
+      })),
+    ],
+  };
+}
@@ -21,6 +21,25 @@ export interface Blueprint {
   owned?: boolean;
   ownedQty?: number;
   notes?: string;
+  // Seller asking prices (filled in by getAllBlueprintsWithInventory)
+  askSummary?: BlueprintAskSummary;
+  // Active sellers holding this blueprint (filled in by getAllBlueprintsWithInventory)
+  sellers?: BlueprintSellerStock[];
+}
+
+// One seller's unreserved stock of a blueprint, as shown in the catalog
+export interface BlueprintSellerStock {
+  discordId: string;
+  quantity: number;
+  price?: AskingPrice;
+  rating?: { average: number; count: number }; // Buyer ratings (missing = not rated yet)
+}
+
+// Asking prices across the sellers holding a blueprint
+export interface BlueprintAskSummary {
+  minAmount?: number; // Lowest currency ask (missing if nobody asks currency)
+  maxAmount?: number;
+  itemAskCount: number; // Sellers asking for items instead of currency
 }
 
 // ============================================
@@ -31,6 +50,19 @@ export interface Blueprint {
 export const SELLER_STATUSES = ["pending_verification", "active", "banned", "disabled"] as const;
 export type SellerStatus = (typeof SELLER_STATUSES)[number];
 
+// Channels a seller can receive order notifications on
+export const NOTIFICATION_CHANNELS = ["telegram", "discord", "webpush"] as const;
+export type NotificationChannelName = (typeof NOTIFICATION_CHANNELS)[number];
+
+// Browser push subscription of one of the seller's devices
+export interface SellerPushSubscription {
+  id: string; // SHA-256 of the endpoint (safe to show and pass around)
+  endpoint: string; // Push service URL (acts as a secret)
+  keys: { p256dh: string; auth: string }; // Browser's encryption keys
+  userAgent?: string;
+  createdAt: string; // ISO timestamp
+}
+
 // Seller account (identified by Discord username/ID + password)
 export interface Seller {
   id: string; // Unique internal ID (UUID)
@@ -38,14 +70,49 @@ export interface Seller {
   passwordHash: string; // Bcrypt hashed password (never stored in plaintext)
   status: SellerStatus; // Account status
   telegramChatId?: string; // Telegram chat ID for notifications
+  telegramLinkCodeHash?: string; // SHA-256 of the pending one-time Telegram link code
+  telegramLinkCodeExpiresAt?: string; // ISO timestamp
+  discordWebhookUrl?: string; // Discord channel webhook for notifications
+  notificationChannels?: NotificationChannelName[]; // Channels to notify (missing = Telegram only)
+  pushSubscriptions?: SellerPushSubscription[]; // Browsers subscribed to Web Push
+  rating?: SellerRatingTotals; // Running total of buyer ratings - the only source for averages (comments stay on the orders)
   createdAt: string; // ISO timestamp
   updatedAt: string; // ISO timestamp
 }
 
-// Seller's inventory for a specific blueprint (quantity only)
+// Sum and count of the 1-5 ratings buyers gave a seller
+export interface SellerRatingTotals {
+  sum: number;
+  count: number;
+}
+
+/**
+ * Average buyer rating rounded to one decimal (null if nobody rated yet)
+ */
+export function getAverageRating(totals: SellerRatingTotals | undefined): number | null {
+  if (!totals || totals.count === 0) return null;
+  return Math.round((totals.sum / totals.count) * 10) / 10;
+}
+
+// Seller's asking price for one unit: in-game currency or items wanted in exchange
+export type AskingPrice =
+  | { type: "currency"; amount: number }
+  | { type: "items"; items: string[] };
+
+// Seller's inventory for a specific blueprint
 export interface SellerInventoryItem {
   blueprintId: string; // References Blueprint.id
-  quantity: number; // Available quantity (0 = not available)
+  quantity: number; // Owned quantity (0 = not available)
+  reserved?: number; // Part of quantity held by claimed, not yet fulfilled orders
+  price?: AskingPrice; // Asking price per unit (missing = negotiable)
+}
+
+/**
+ * Quantity a seller can still promise to new orders (owned minus reserved)
+ */
+export function getUnreservedQuantity(item: SellerInventoryItem | undefined): number {
+  if (!item) return 0;
+  return Math.max(0, item.quantity - (item.reserved || 0));
 }
 
 // Seller with inventory data
@@ -53,15 +120,36 @@ export interface SellerWithInventory extends Seller {
   inventory: SellerInventoryItem[];
 }
 
+// ============================================
+// BUYER ACCOUNT TYPES
+// ============================================
+
+// Optional buyer account (identified by Discord username/ID + password)
+// Orders placed while logged in are bound to the account instead of a free-text nick
+export interface Buyer {
+  id: string; // Unique internal ID (UUID)
+  discordId: string; // Discord username or Discord ID (unique identifier)
+  passwordHash: string; // Bcrypt hashed password
+  defaultOffer?: string; // Pre-filled offer text in checkout
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
 // User roles for access control
-export const USER_ROLES = ["user", "seller", "admin"] as const;
+export const USER_ROLES = ["user", "buyer", "seller", "admin"] as const;
 export type UserRole = (typeof USER_ROLES)[number];
 
 // Session data structure
 export interface SessionData {
   role: UserRole;
   sellerId?: string; // Only for seller role
+  buyerId?: string; // Only for buyer role
   expiresAt: number;
+  // Timestamps (ms) and client info; missing on sessions created before they were tracked
+  createdAt?: number;
+  lastSeenAt?: number;
+  ip?: string;
+  userAgent?: string;
 }
 
 // Validate seller status
@@ -84,6 +172,16 @@ export function canSellerReceiveOrders(seller: Seller): boolean {
   return seller.status === "active";
 }
 
+// Channels the seller wants order notifications on
+export function getSellerNotificationChannels(seller: Seller): NotificationChannelName[] {
+  return seller.notificationChannels ?? ["telegram"];
+}
+
+// Validate notification channel name
+export function isValidNotificationChannel(channel: unknown): channel is NotificationChannelName {
+  return typeof channel === "string" && NOTIFICATION_CHANNELS.includes(channel as NotificationChannelName);
+}
+
 // Check if seller is pending verification
 export function isSellerPendingVerification(seller: Seller): boolean {
   return seller.status === "pending_verification";
@@ -183,7 +281,25 @@ export interface SellerOrderGroup {
     requestedQty: number;
     available: boolean;
     availableQty: number;
+    unitPrice?: AskingPrice; // Seller's asking price when the order was placed
   }[];
+  // Seller's total for the items they can supply (missing on older orders)
+  terms?: SellerOrderTerms;
+}
+
+// Suggested split of an order across the fewest sellers (see lib/assignment.ts)
+export interface OrderAssignment {
+  // Each chosen seller with the items suggested for them
+  sellers: { sellerId: string; sellerDiscordId: string; blueprintIds: string[] }[];
+  // Items no single seller has enough of
+  unassignedBlueprintIds: string[];
+}
+
+// What a seller asks for their part of an order
+export interface SellerOrderTerms {
+  currencyTotal: number; // Sum of currency prices × quantity
+  itemTrades: { blueprintName: string; quantity: number; wantedItems: string[] }[]; // Per-unit item asks
+  unpricedCount: number; // Items without a price (negotiable)
 }
 
 // Order with resolved seller information
@@ -0,0 +1,264 @@
+/**
+ * Web Push delivery (browser notifications)
+ * Messages are encrypted for the subscription (RFC 8291, aes128gcm) and sent to
+ * the browser's push service with a VAPID signature (RFC 8292).
+ * Keys come from VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY - generate them with `npm run push:keys`.
+ */
+
+import crypto from "crypto";
+
+const PUSH_REQUEST_TIMEOUT_MS = 10 * 1000;
+// How long the push service keeps an undelivered message (browser offline)
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+// VAPID token lifetime (push services accept at most 24 hours)
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const DEFAULT_VAPID_SUBJECT = "mailto:admin@localhost";
+// Push services accept up to 4096 bytes per message
+const PUSH_RECORD_SIZE = 4096;
+// Push services of the major browsers (Chrome, Firefox, Safari, Edge) with
+// their subdomains; subscriptions pointing anywhere else (internal addresses
+// included) are refused, so the server only ever POSTs to these
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com",
+  "android.googleapis.com",
+  "updates.push.services.mozilla.com",
+  "push.apple.com",
+  "notify.windows.com",
+];
+
+// ============================================
+// TYPES
+// ============================================
+
+// Subscription as returned by PushSubscription.toJSON() in the browser
+export interface WebPushSubscriptionKeys {
+  p256dh: string;
+  auth: string;
+}
+
+export interface WebPushTarget {
+  endpoint: string;
+  keys: WebPushSubscriptionKeys;
+}
+
+// Shown by the service worker (public/sw.js)
+export interface WebPushPayload {
+  title: string;
+  body: string;
+  // Opened when the notification is clicked
+  url: string;
+  // Notifications with the same tag replace each other
+  tag?: string;
+}
+
+export interface WebPushSendResult {
+  success: boolean;
+  error?: string;
+  // HTTP status (0 if the request didn't complete)
+  status?: number;
+  // Seconds to wait before retrying (from a 429 response)
+  retryAfter?: number;
+  // The subscription is gone for good (unsubscribed or expired) and should be removed
+  expired?: boolean;
+}
+
+// ============================================
+// KEYS
+// ============================================
+
+function getVapidKeys(): { publicKey: string; privateKey: string } | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY?.trim();
+  const privateKey = process.env.VAPID_PRIVATE_KEY?.trim();
+  return publicKey && privateKey ? { publicKey, privateKey } : null;
+}
+
+/**
+ * Check that VAPID keys are set
+ */
+export function isWebPushConfigured(): boolean {
+  return getVapidKeys() !== null;
+}
+
+/**
+ * Public key the browser subscribes with (applicationServerKey), or null if not configured
+ */
+export function getVapidPublicKey(): string | null {
+  return getVapidKeys()?.publicKey ?? null;
+}
+
+/**
+ * Check that an endpoint is an https URL of a known browser push service
+ */
+function isKnownPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== "https:" || url.port !== "" || url.username || url.password) {
+    return false;
+  }
+
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+/**
+ * Check the shape of a subscription sent by the browser
+ * The endpoint must belong to a known push service
+ */
+export function isValidWebPushTarget(value: unknown): value is WebPushTarget {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const { endpoint, keys } = value as Partial<WebPushTarget>;
+  if (typeof endpoint !== "string" || !keys || typeof keys !== "object") {
+    return false;
+  }
+
+  if (!isKnownPushServiceEndpoint(endpoint)) {
+    return false;
+  }
+
+  return (
+    typeof keys.p256dh === "string" &&
+    typeof keys.auth === "string" &&
+    Buffer.from(keys.p256dh, "base64url").length === 65 &&
+    Buffer.from(keys.auth, "base64url").length === 16
+  );
+}
+
+// ============================================
+// VAPID (RFC 8292)
+// ============================================
+
+function createVapidAuthorization(endpoint: string, publicKey: string, privateKey: string): string {
+  const header = Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })).toString("base64url");
+  const claims = Buffer.from(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+      sub: process.env.VAPID_SUBJECT || DEFAULT_VAPID_SUBJECT,
+    })
+  ).toString("base64url");
+
+  const publicKeyBytes = Buffer.from(publicKey, "base64url");
+  const key = crypto.createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: privateKey,
+      x: publicKeyBytes.subarray(1, 33).toString("base64url"),
+      y: publicKeyBytes.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  });
+
+  const signature = crypto
+    .sign("sha256", Buffer.from(`${header}.${claims}`), { key, dsaEncoding: "ieee-p1363" })
+    .toString("base64url");
+
+  return `vapid t=${header}.${claims}.${signature}, k=${publicKey}`;
+}
+
+// ============================================
+// ENCRYPTION (RFC 8291)
+// ============================================
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync("sha256", ikm, salt, info, length));
+}
+
+/**
+ * Encrypt a payload for one subscription (single aes128gcm record)
+ */
+function encryptPayload(target: WebPushTarget, payload: string): Buffer {
+  const userAgentPublicKey = Buffer.from(target.keys.p256dh, "base64url");
+  const authSecret = Buffer.from(target.keys.auth, "base64url");
+
+  // Fresh key pair and salt for every message
+  const ecdh = crypto.createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+  const salt = crypto.randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgentPublicKey, serverPublicKey]);
+  const ikm = hkdf(sharedSecret, authSecret, keyInfo, 32);
+  const contentKey = hkdf(ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+  // 0x02 marks the last (only) record
+  const plaintext = Buffer.concat([Buffer.from(payload), Buffer.from([2])]);
+  const cipher = crypto.createCipheriv("aes-128-gcm", contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  // Header: salt, record size, key ID length, key ID (our public key)
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(PUSH_RECORD_SIZE);
+  return Buffer.concat([salt, recordSize, Buffer.from([serverPublicKey.length]), serverPublicKey, ciphertext]);
+}
+
+// ============================================
+// SENDING
+// ============================================
+
+/**
+ * Send a notification to one browser subscription
+ */
+export async function sendWebPush(target: WebPushTarget, payload: WebPushPayload): Promise<WebPushSendResult> {
+  const vapid = getVapidKeys();
+  if (!vapid) {
+    return { success: false, error: "VAPID keys are not set", status: 0 };
+  }
+
+  // Subscriptions saved before endpoints were checked
+  if (!isKnownPushServiceEndpoint(target.endpoint)) {
+    return { success: false, error: "Unknown push service", status: 400, expired: true };
+  }
+
+  let body: Buffer;
+  let authorization: string;
+  try {
+    body = encryptPayload(target, JSON.stringify(payload));
+    authorization = createVapidAuthorization(target.endpoint, vapid.publicKey, vapid.privateKey);
+  } catch (error) {
+    // Bad subscription keys or VAPID keys - retrying won't help
+    console.error("Web Push encryption error:", error);
+    return { success: false, error: "Invalid push subscription or VAPID keys", status: 400 };
+  }
+
+  try {
+    const response = await fetch(target.endpoint, {
+      method: "POST",
+      headers: {
+        Authorization: authorization,
+        "Content-Encoding": "aes128gcm",
+        "Content-Type": "application/octet-stream",
+        TTL: String(PUSH_TTL_SECONDS),
+        Urgency: "high",
+      },
+      body: new Uint8Array(body),
+      signal: AbortSignal.timeout(PUSH_REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      return { success: true, status: response.status };
+    }
+
+    const text = await response.text().catch(() => "");
+    console.error(`Web Push error (${new URL(target.endpoint).host}): ${response.status} ${text}`);
+
+    return {
+      success: false,
+      error: text.slice(0, 200) || `HTTP ${response.status}`,
+      status: response.status,
+      retryAfter: Number(response.headers.get("retry-after")) || undefined,
+      expired: response.status === 404 || response.status === 410,
+    };
+  } catch (error) {
+    console.error("Web Push error:", error);
+    return { success: false, error: "Push service connection error", status: 0 };
+  }
+}
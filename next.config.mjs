@@ -1,6 +1,12 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   output: "standalone",
+  experimental: {
+    // Native module - load from node_modules instead of bundling
+    serverComponentsExternalPackages: ["better-sqlite3"],
+    // instrumentation.ts (starts background workers)
+    instrumentationHook: true,
+  },
   images: {
     unoptimized: true,
     remotePatterns: [
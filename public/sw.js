@@ -0,0 +1,53 @@
+/**
+ * Service worker for seller Web Push notifications
+ * Shows new-order notifications (payload built in lib/notifications.ts) and
+ * opens the order in the seller dashboard when one is clicked.
+ */
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+
+  const title = payload.title || "Нове замовлення";
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || "",
+      tag: payload.tag,
+      icon: "/favicon.png",
+      badge: "/favicon.png",
+      data: { url: payload.url || "/seller" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/seller", self.location.origin).href;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+
+      // Reuse an open dashboard tab if there is one
+      const dashboard = windows.find((client) => new URL(client.url).pathname === "/seller");
+      if (dashboard) {
+        await dashboard.focus();
+        return dashboard.navigate(url);
+      }
+
+      return self.clients.openWindow(url);
+    })()
+  );
+});
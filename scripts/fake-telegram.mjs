@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+
+/**
+ * Local Fake Telegram Bot API
+ * ===========================
+ *
+ * Accepts Bot API calls on /bot<token>/<method>, records them in memory and
+ * can simulate rate limiting and outages, so outbox delivery can be checked
+ * without a real bot.
+ *
+ * Usage: npm run telegram:fake
+ *        TELEGRAM_API_BASE_URL=http://127.0.0.1:8081 npm run dev
+ *
+ * Inspect and control:
+ *   GET  /_calls                    recorded calls (newest last)
+ *   POST /_control {"fail429": 2, "retryAfter": 3}   next 2 calls get 429 with retry_after=3
+ *   POST /_control {"fail500": 1}                     next call gets 500
+ *   POST /_control {"reset": true}                    clear calls and failure settings
+ *
+ * Environment: PORT (default 8081), FAIL_429 / FAIL_500 / RETRY_AFTER (initial settings)
+ *
+ * Tests start their own instance on a free port with createFakeTelegramServer().
+ */
+
+import http from "http";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const PORT = Number(process.env.PORT) || 8081;
+const HOST = process.env.HOST || "127.0.0.1";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function readBody(request) {
+  return new Promise((resolve) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+function sendJson(response, status, data) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(data));
+}
+
+/**
+ * Bot API result for a method call
+ */
+function handleMethod(state, method, payload) {
+  switch (method) {
+    case "sendMessage":
+      return {
+        message_id: state.nextMessageId++,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: payload.chat_id },
+        text: payload.text,
+      };
+    case "editMessageText":
+    case "editMessageReplyMarkup":
+      return { message_id: payload.message_id, chat: { id: payload.chat_id }, text: payload.text };
+    case "getMe":
+      return { id: 1, is_bot: true, first_name: "Fake Bot", username: "fake_bot" };
+    default:
+      return true;
+  }
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Create the fake API server (not listening yet)
+ * options: initial fail429 / fail500 / retryAfter settings
+ */
+export function createFakeTelegramServer(options = {}) {
+  const state = {
+    calls: [],
+    nextMessageId: 1,
+    fail429: options.fail429 || 0,
+    fail500: options.fail500 || 0,
+    retryAfter: options.retryAfter || 1,
+  };
+
+  return http.createServer((request, response) => handleRequest(state, request, response));
+}
+
+async function handleRequest(state, request, response) {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+
+  if (url.pathname === "/_calls" && request.method === "GET") {
+    return sendJson(response, 200, state.calls);
+  }
+
+  if (url.pathname === "/_control" && request.method === "POST") {
+    const control = await readBody(request);
+    if (control.reset) {
+      state.calls = [];
+      state.fail429 = 0;
+      state.fail500 = 0;
+    }
+    if (control.fail429 !== undefined) state.fail429 = Number(control.fail429);
+    if (control.fail500 !== undefined) state.fail500 = Number(control.fail500);
+    if (control.retryAfter !== undefined) state.retryAfter = Number(control.retryAfter);
+    return sendJson(response, 200, { fail429: state.fail429, fail500: state.fail500, retryAfter: state.retryAfter });
+  }
+
+  const match = url.pathname.match(/^\/bot([^/]+)\/(\w+)$/);
+  if (!match) {
+    return sendJson(response, 404, { ok: false, error_code: 404, description: "Not Found" });
+  }
+
+  const [, token, method] = match;
+  const payload = await readBody(request);
+  const call = { at: new Date().toISOString(), token, method, payload };
+
+  if (state.fail429 > 0) {
+    state.fail429--;
+    state.calls.push({ ...call, response: 429 });
+    console.log(`429 ${method} (retry_after=${state.retryAfter})`);
+    return sendJson(response, 429, {
+      ok: false,
+      error_code: 429,
+      description: `Too Many Requests: retry after ${state.retryAfter}`,
+      parameters: { retry_after: state.retryAfter },
+    });
+  }
+
+  if (state.fail500 > 0) {
+    state.fail500--;
+    state.calls.push({ ...call, response: 500 });
+    console.log(`500 ${method}`);
+    return sendJson(response, 500, { ok: false, error_code: 500, description: "Internal Server Error" });
+  }
+
+  const result = handleMethod(state, method, payload);
+  state.calls.push({ ...call, response: 200, result });
+  console.log(`200 ${method} chat=${payload.chat_id ?? "-"}`);
+  return sendJson(response, 200, { ok: true, result });
+}
+
+// Started directly (npm run telegram:fake) rather than imported by a test
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const server = createFakeTelegramServer({
+    fail429: Number(process.env.FAIL_429) || 0,
+    fail500: Number(process.env.FAIL_500) || 0,
+    retryAfter: Number(process.env.RETRY_AFTER) || 1,
+  });
+
+  server.listen(PORT, HOST, () => {
+    console.log(`Fake Telegram API listening on http://${HOST}:${PORT} (Ctrl+C to stop)`);
+  });
+}
@@ -0,0 +1,28 @@
+#!/usr/bin/env node
+
+/**
+ * VAPID Key Generator
+ * ===================
+ *
+ * Generates the key pair that signs seller Web Push notifications.
+ * Keys are created locally (P-256) and printed as env lines - add them to
+ * .env.local. Changing the keys invalidates every existing browser subscription.
+ *
+ * Usage: npm run push:keys
+ *        npm run push:keys >> .env.local
+ */
+
+import crypto from "crypto";
+
+const { privateKey } = crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+const jwk = privateKey.export({ format: "jwk" });
+
+// Public key in the uncompressed form browsers expect: 0x04 || x || y
+const publicKey = Buffer.concat([
+  Buffer.from([4]),
+  Buffer.from(jwk.x, "base64url"),
+  Buffer.from(jwk.y, "base64url"),
+]);
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey.toString("base64url")}`);
+console.log(`VAPID_PRIVATE_KEY=${jwk.d}`);
@@ -0,0 +1,152 @@
+#!/usr/bin/env node
+
+/**
+ * JSON → SQLite Storage Migration
+ * ===============================
+ *
+ * Copies orders (data/orders/*.json), sellers (data/sellers/*.json) and
+ * buyer accounts (data/buyers/*.json)
+ * into the SQLite database used when STORAGE_BACKEND=sqlite.
+ * Existing rows with the same ID are overwritten; JSON files are left in place.
+ *
+ * Usage: npm run migrate:sqlite
+ *        SQLITE_PATH=/path/to/store.db npm run migrate:sqlite
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import Database from "better-sqlite3";
+import { SQLITE_SCHEMA } from "../lib/storage-schema.mjs";
+
+// Setup paths
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = path.join(__dirname, "..", "data");
+const ORDERS_DIR = path.join(DATA_DIR, "orders");
+const SELLERS_DIR = path.join(DATA_DIR, "sellers");
+const BUYERS_DIR = path.join(DATA_DIR, "buyers");
+const SQLITE_PATH = process.env.SQLITE_PATH || path.join(DATA_DIR, "store.db");
+
+// ============================================================================
+// LOGGING UTILITIES
+// ============================================================================
+
+const log = {
+  info: (msg) => console.log(`  ${msg}`),
+  success: (msg) => console.log(`  ✓ ${msg}`),
+  warn: (msg) => console.log(`  ⚠ ${msg}`),
+  error: (msg) => console.log(`  ✗ ${msg}`),
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Read all JSON documents from a directory (skips unreadable files)
+ */
+function readJsonDir(dir) {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const documents = [];
+  for (const file of fs.readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+    try {
+      documents.push(JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8")));
+    } catch (error) {
+      log.warn(`Skipping ${file}: ${error.message}`);
+    }
+  }
+  return documents;
+}
+
+/**
+ * Seller IDs an order is linked to (same as getOrderSellerIds in lib/storage.ts)
+ */
+function getOrderSellerIds(order) {
+  const ids = new Set(order.sellerIds || []);
+  if (order.assignedSellerId) ids.add(order.assignedSellerId);
+  for (const claim of order.itemClaims || []) {
+    // Orders written before claim slices keep the seller on the claim itself
+    if (claim.claimedBySellerId) ids.add(claim.claimedBySellerId);
+    for (const slice of claim.slices || []) ids.add(slice.sellerId);
+  }
+  for (const state of order.sellerStates || []) {
+    ids.add(state.sellerId);
+  }
+  for (const release of order.claimReleases || []) {
+    ids.add(release.sellerId);
+  }
+  return Array.from(ids);
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+function main() {
+  console.log("\nMigrating data/ to SQLite");
+  log.info(`Database: ${SQLITE_PATH}`);
+
+  fs.mkdirSync(path.dirname(SQLITE_PATH), { recursive: true });
+  const db = new Database(SQLITE_PATH);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  db.exec(SQLITE_SCHEMA);
+
+  const sellers = readJsonDir(SELLERS_DIR).filter((s) => s.id && s.discordId);
+  const buyers = readJsonDir(BUYERS_DIR).filter((b) => b.id && b.discordId);
+  const orders = readJsonDir(ORDERS_DIR).filter((o) => o.orderId && o.createdAt);
+
+  const upsertSeller = db.prepare(`
+    INSERT INTO sellers (seller_id, discord_id, status, created_at, data) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (seller_id) DO UPDATE SET discord_id = excluded.discord_id, status = excluded.status,
+      created_at = excluded.created_at, data = excluded.data
+  `);
+  const upsertBuyer = db.prepare(`
+    INSERT INTO buyers (buyer_id, discord_id, created_at, data) VALUES (?, ?, ?, ?)
+    ON CONFLICT (buyer_id) DO UPDATE SET discord_id = excluded.discord_id, created_at = excluded.created_at,
+      data = excluded.data
+  `);
+  const upsertOrder = db.prepare(`
+    INSERT INTO orders (order_id, status, created_at, data) VALUES (?, ?, ?, ?)
+    ON CONFLICT (order_id) DO UPDATE SET status = excluded.status, created_at = excluded.created_at, data = excluded.data
+  `);
+  const deleteOrderSellers = db.prepare("DELETE FROM order_sellers WHERE order_id = ?");
+  const insertOrderSeller = db.prepare("INSERT OR IGNORE INTO order_sellers (order_id, seller_id) VALUES (?, ?)");
+
+  // Everything in one transaction - a failed migration leaves the database untouched
+  const migrate = db.transaction(() => {
+    for (const seller of sellers) {
+      upsertSeller.run(seller.id, seller.discordId, seller.status, seller.createdAt, JSON.stringify(seller));
+    }
+    for (const buyer of buyers) {
+      upsertBuyer.run(buyer.id, buyer.discordId, buyer.createdAt, JSON.stringify(buyer));
+    }
+    for (const order of orders) {
+      upsertOrder.run(order.orderId, order.status || "open", order.createdAt, JSON.stringify(order));
+      deleteOrderSellers.run(order.orderId);
+      for (const sellerId of getOrderSellerIds(order)) {
+        insertOrderSeller.run(order.orderId, sellerId);
+      }
+    }
+  });
+
+  try {
+    migrate();
+  } catch (error) {
+    log.error(`Migration failed: ${error.message}`);
+    process.exitCode = 1;
+    return;
+  } finally {
+    db.close();
+  }
+
+  log.success(`${sellers.length} sellers`);
+  log.success(`${buyers.length} buyers`);
+  log.success(`${orders.length} orders`);
+  log.info("Set STORAGE_BACKEND=sqlite to use the database.\n");
+}
+
+main();
@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+
+/**
+ * Local Redis Stand-in
+ * ====================
+ *
+ * In-memory server speaking the Redis protocol (RESP2) with just the commands
+ * the app uses (key/value, sets and pub/sub). For trying SESSION_STORE=redis
+ * without installing Redis; data is lost when it stops.
+ *
+ * Usage: npm run redis:standin
+ *        PORT=6380 npm run redis:standin
+ *        SESSION_STORE=redis REDIS_URL=redis://127.0.0.1:6379 npm run dev
+ */
+
+import net from "net";
+
+const PORT = Number(process.env.PORT) || 6379;
+const HOST = process.env.HOST || "127.0.0.1";
+
+// key -> { value (string or Set), expiresAt (ms, or null) }
+const entries = new Map();
+
+// channel -> Set of subscribed sockets
+const subscribers = new Map();
+
+// ============================================================================
+// PROTOCOL
+// ============================================================================
+
+const reply = {
+  simple: (value) => `+${value}\r\n`,
+  error: (message) => `-ERR ${message}\r\n`,
+  integer: (value) => `:${value}\r\n`,
+  bulk: (value) =>
+    value === null ? "$-1\r\n" : `$${Buffer.byteLength(value)}\r\n${value}\r\n`,
+  array: (values) => `*${values.length}\r\n${values.map(reply.bulk).join("")}`,
+  // Pub/sub push: bulk strings followed by an integer (subscribe confirmations)
+  push: (kind, channel, count) =>
+    `*3\r\n${reply.bulk(kind)}${reply.bulk(channel)}${reply.integer(count)}`,
+};
+
+/**
+ * Parse one command (array of bulk strings) from the buffer, or null if incomplete
+ */
+function parseCommand(buffer) {
+  const headerEnd = buffer.indexOf("\r\n");
+  if (headerEnd === -1) return null;
+  if (buffer[0] !== 0x2a /* "*" */) {
+    // Inline command (e.g. typed via telnet)
+    return { args: buffer.toString("utf-8", 0, headerEnd).trim().split(/\s+/), rest: buffer.subarray(headerEnd + 2) };
+  }
+
+  const count = Number(buffer.toString("utf-8", 1, headerEnd));
+  const args = [];
+  let offset = headerEnd + 2;
+  for (let i = 0; i < count; i++) {
+    const lineEnd = buffer.indexOf("\r\n", offset);
+    if (lineEnd === -1) return null;
+    const length = Number(buffer.toString("utf-8", offset + 1, lineEnd));
+    const start = lineEnd + 2;
+    if (buffer.length < start + length + 2) return null;
+    args.push(buffer.toString("utf-8", start, start + length));
+    offset = start + length + 2;
+  }
+  return { args, rest: buffer.subarray(offset) };
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+function getEntry(key) {
+  const entry = entries.get(key);
+  if (entry && entry.expiresAt !== null && Date.now() >= entry.expiresAt) {
+    entries.delete(key);
+    return undefined;
+  }
+  return entry;
+}
+
+function getSubscriptionCount(socket) {
+  return Array.from(subscribers.values()).filter((sockets) => sockets.has(socket)).length;
+}
+
+function execute([name = "", ...args], socket) {
+  switch (name.toUpperCase()) {
+    case "PING":
+      return reply.simple(args[0] ?? "PONG");
+    case "AUTH":
+    case "SELECT":
+      return reply.simple("OK");
+    case "GET": {
+      const value = getEntry(args[0])?.value ?? null;
+      return value instanceof Set ? reply.error("WRONGTYPE") : reply.bulk(value);
+    }
+    case "SET": {
+      const [key, value, ...options] = args;
+      let expiresAt = null;
+      let condition = null;
+      for (let i = 0; i < options.length; i++) {
+        const option = options[i].toUpperCase();
+        if (option === "PX") expiresAt = Date.now() + Number(options[++i]);
+        else if (option === "EX") expiresAt = Date.now() + Number(options[++i]) * 1000;
+        else if (option === "NX" || option === "XX") condition = option;
+        else return reply.error(`unsupported SET option ${options[i]}`);
+      }
+      const exists = getEntry(key) !== undefined;
+      if ((condition === "NX" && exists) || (condition === "XX" && !exists)) {
+        return reply.bulk(null);
+      }
+      entries.set(key, { value, expiresAt });
+      return reply.simple("OK");
+    }
+    case "DEL":
+      return reply.integer(args.filter((key) => getEntry(key) && entries.delete(key)).length);
+    case "PEXPIRE": {
+      const entry = getEntry(args[0]);
+      if (!entry) return reply.integer(0);
+      entry.expiresAt = Date.now() + Number(args[1]);
+      return reply.integer(1);
+    }
+    case "PTTL": {
+      const entry = getEntry(args[0]);
+      if (!entry) return reply.integer(-2);
+      return reply.integer(entry.expiresAt === null ? -1 : entry.expiresAt - Date.now());
+    }
+    case "MGET":
+      return reply.array(args.map((key) => {
+        const value = getEntry(key)?.value ?? null;
+        return typeof value === "string" ? value : null;
+      }));
+    case "SADD": {
+      const [key, ...members] = args;
+      const entry = getEntry(key) ?? { value: new Set(), expiresAt: null };
+      entries.set(key, entry);
+      const before = entry.value.size;
+      members.forEach((member) => entry.value.add(member));
+      return reply.integer(entry.value.size - before);
+    }
+    case "SREM": {
+      const [key, ...members] = args;
+      const entry = getEntry(key);
+      if (!entry) return reply.integer(0);
+      const removed = members.filter((member) => entry.value.delete(member)).length;
+      if (entry.value.size === 0) entries.delete(key);
+      return reply.integer(removed);
+    }
+    case "SMEMBERS":
+      return reply.array(Array.from(getEntry(args[0])?.value ?? []));
+    case "KEYS":
+      return reply.array(Array.from(entries.keys()).filter((key) => getEntry(key)));
+    case "SUBSCRIBE":
+      return args
+        .map((channel) => {
+          if (!subscribers.has(channel)) subscribers.set(channel, new Set());
+          subscribers.get(channel).add(socket);
+          return reply.push("subscribe", channel, getSubscriptionCount(socket));
+        })
+        .join("");
+    case "PUBLISH": {
+      const [channel, message] = args;
+      const sockets = Array.from(subscribers.get(channel) ?? []);
+      for (const subscriber of sockets) {
+        subscriber.write(reply.array(["message", channel, message]));
+      }
+      return reply.integer(sockets.length);
+    }
+    default:
+      return reply.error(`unknown command '${name}'`);
+  }
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+const server = net.createServer((socket) => {
+  let buffer = Buffer.alloc(0);
+
+  socket.on("data", (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    let parsed;
+    while ((parsed = parseCommand(buffer)) !== null) {
+      buffer = parsed.rest;
+      socket.write(execute(parsed.args, socket));
+    }
+  });
+  socket.on("close", () => {
+    for (const [channel, sockets] of subscribers) {
+      sockets.delete(socket);
+      if (sockets.size === 0) subscribers.delete(channel);
+    }
+  });
+  socket.on("error", () => socket.destroy());
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Redis stand-in listening on ${HOST}:${PORT} (Ctrl+C to stop)`);
+});
@@ -0,0 +1,66 @@
+/**
+ * Buyer edits after checkout: raised quantities get the same stock and
+ * catalog checks as checkout
+ */
+
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import type { StoredOrder } from "../lib/orders";
+import type { Seller } from "../lib/types";
+import { createOrder, useTempDataDir } from "./helpers";
+
+const workDir = useTempDataDir("buyer-edit");
+
+let orders: typeof import("../lib/orders");
+let seller: Seller;
+
+before(async () => {
+  // Catalog with a single blueprint
+  const catalogDir = path.join(workDir, "content", "blueprints");
+  fs.mkdirSync(catalogDir, { recursive: true });
+  fs.writeFileSync(path.join(catalogDir, "bp-a.json"), JSON.stringify({ id: "bp-a", name: "Blueprint A", slug: "bp-a" }));
+
+  orders = await import("../lib/orders");
+  const sellers = await import("../lib/sellers");
+
+  seller = sellers.createSeller("edit-seller");
+  await sellers.updateSellerStatus(seller.id, "active");
+  await sellers.updateSellerInventoryBulk(seller.id, [{ blueprintId: "bp-a", quantity: 3 }]);
+});
+
+function editOrder(order: StoredOrder, updates: { blueprintId: string; quantity: number }[]) {
+  return orders.updateOrderItemsByBuyer(order.orderId, order.accessToken!, updates);
+}
+
+test("raising a quantity past the available stock is rejected", async () => {
+  const order = await createOrder(seller, [{ blueprintId: "bp-a", quantity: 1 }]);
+
+  const result = await editOrder(order, [{ blueprintId: "bp-a", quantity: 4 }]);
+
+  assert.equal(result.success, false);
+  assert.deepEqual(
+    result.itemErrors?.map((e) => [e.id, e.issue, e.availableQty]),
+    [["bp-a", "insufficient", 3]]
+  );
+  assert.equal(orders.getOrderById(order.orderId)?.itemClaims[0].requestedQty, 1);
+});
+
+test("raising a quantity within the stock is saved", async () => {
+  const order = await createOrder(seller, [{ blueprintId: "bp-a", quantity: 1 }]);
+
+  const result = await editOrder(order, [{ blueprintId: "bp-a", quantity: 3 }]);
+
+  assert.equal(result.success, true, result.error);
+  assert.equal(orders.getOrderById(order.orderId)?.itemClaims[0].requestedQty, 3);
+});
+
+test("blueprints that aren't in the order can't be added", async () => {
+  const order = await createOrder(seller, [{ blueprintId: "bp-a", quantity: 1 }]);
+
+  const result = await editOrder(order, [{ blueprintId: "bp-unknown", quantity: 1 }]);
+
+  assert.equal(result.success, false);
+  assert.deepEqual(orders.getOrderById(order.orderId)?.itemClaims.map((c) => c.blueprintId), ["bp-a"]);
+});
@@ -0,0 +1,128 @@
+/**
+ * File locks: nested locking of the same file fails fast, and journal recovery
+ * never writes a file another request of this process is holding
+ */
+
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawnSync } from "child_process";
+import { useTempDataDir } from "./helpers";
+
+const workDir = useTempDataDir("locks");
+const journalDir = path.join(workDir, "data", "journal");
+
+let safeFile: typeof import("../lib/safe-file");
+
+before(async () => {
+  safeFile = await import("../lib/safe-file");
+});
+
+// ============================================
+// HELPERS
+// ============================================
+
+function dataFile(name: string): string {
+  return path.join(workDir, "data", `${name}.json`);
+}
+
+/**
+ * Leave a committed journal behind as if its owner had crashed before applying it
+ */
+function writeAbandonedJournal(writes: { filePath: string; data: unknown }[]): void {
+  const deadPid = spawnSync(process.execPath, ["-e", ""]).pid!;
+  const id = `${Date.now()}-test`;
+  fs.mkdirSync(journalDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(journalDir, `${id}.json`),
+    JSON.stringify({
+      id,
+      createdAt: new Date().toISOString(),
+      owner: { pid: deadPid, hostname: os.hostname() },
+      writes: writes.map((w) => ({ file: path.relative(process.cwd(), w.filePath), data: w.data })),
+    })
+  );
+}
+
+function readRaw(filePath: string): unknown {
+  return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+test("locking a file again inside its own lock throws instead of hanging", async () => {
+  const filePath = dataFile("nested");
+
+  const startedAt = Date.now();
+  await assert.rejects(
+    safeFile.withFileLock(filePath, () => safeFile.withFileLock(filePath, () => "inner")),
+    /already held by this call/
+  );
+  assert.ok(Date.now() - startedAt < 1000);
+
+  // The outer lock was released
+  assert.equal(await safeFile.withFileLock(filePath, () => "again"), "again");
+});
+
+test("recovery leaves a file alone while another request holds its lock", async () => {
+  const filePath = dataFile("held");
+  safeFile.safeWriteJson(filePath, { value: "before" });
+
+  let resume!: () => void;
+  const paused = new Promise<void>((resolve) => {
+    resume = resolve;
+  });
+  let reachedPause!: () => void;
+  const holding = new Promise<void>((resolve) => {
+    reachedPause = resolve;
+  });
+
+  // Read-modify-write that is paused between its read and its write
+  const request = safeFile.withFileLock(filePath, async () => {
+    const before = safeFile.safeReadJson(filePath);
+    reachedPause();
+    await paused;
+    const after = readRaw(filePath);
+    return { before, after };
+  });
+  await holding;
+
+  writeAbandonedJournal([{ filePath, data: { value: "journal" } }]);
+  assert.equal(safeFile.recoverJournal(), 0);
+  assert.deepEqual(readRaw(filePath), { value: "before" });
+
+  resume();
+  assert.deepEqual(await request, { before: { value: "before" }, after: { value: "before" } });
+
+  // The next holder gets the file only after the replay
+  assert.deepEqual(await safeFile.withFileLock(filePath, () => safeFile.safeReadJson(filePath)), { value: "journal" });
+  assert.deepEqual(fs.readdirSync(journalDir), []);
+});
+
+test("two requests that each took one stale lock of a crashed transaction both see it replayed", async () => {
+  const first = dataFile("first");
+  const second = dataFile("second");
+  safeFile.safeWriteJson(first, { value: "old" });
+  safeFile.safeWriteJson(second, { value: "old" });
+
+  writeAbandonedJournal([
+    { filePath: first, data: { value: "new" } },
+    { filePath: second, data: { value: "new" } },
+  ]);
+  const deadOwner = { pid: spawnSync(process.execPath, ["-e", ""]).pid, hostname: os.hostname() };
+  for (const filePath of [first, second]) {
+    fs.writeFileSync(`${filePath}.lock`, JSON.stringify({ ...deadOwner, token: "dead", acquiredAt: new Date().toISOString() }));
+  }
+
+  const reads = await Promise.all([
+    safeFile.withFileLock(first, () => safeFile.safeReadJson(first)),
+    safeFile.withFileLock(second, () => safeFile.safeReadJson(second)),
+  ]);
+
+  assert.deepEqual(reads, [{ value: "new" }, { value: "new" }]);
+  assert.deepEqual(fs.readdirSync(journalDir), []);
+});
@@ -0,0 +1,297 @@
+/**
+ * All-or-nothing fulfilment: failures injected between the seller and order
+ * writes of fulfillAllClaimedItems must be repaired by journal recovery
+ * (claims and releases write their reservations the same way)
+ */
+
+import { test, before, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawnSync } from "child_process";
+import type { JournalFaultPoint } from "../lib/safe-file";
+import type { StoredOrder } from "../lib/orders";
+import type { Seller, SellerWithInventory } from "../lib/types";
+import { createClaimedOrder, createOrder, useTempDataDir } from "./helpers";
+
+const workDir = useTempDataDir("journal");
+
+let safeFile: typeof import("../lib/safe-file");
+let orders: typeof import("../lib/orders");
+let sellers: typeof import("../lib/sellers");
+let storageJson: typeof import("../lib/storage-json");
+
+const journalDir = path.join(workDir, "data", "journal");
+
+before(async () => {
+  safeFile = await import("../lib/safe-file");
+  orders = await import("../lib/orders");
+  sellers = await import("../lib/sellers");
+  storageJson = await import("../lib/storage-json");
+});
+
+afterEach(() => {
+  safeFile.setJournalFaultHook(null);
+});
+
+// ============================================
+// HELPERS
+// ============================================
+
+const ORDER_ITEMS = [
+  { blueprintId: "bp-a", quantity: 2 },
+  { blueprintId: "bp-b", quantity: 1 },
+];
+
+/**
+ * Active seller with 5 bp-a and 3 bp-b in stock
+ */
+async function createStockedSeller(): Promise<Seller> {
+  const seller = sellers.createSeller(`seller-${Math.random().toString(36).slice(2, 8)}`);
+  await sellers.updateSellerStatus(seller.id, "active");
+  await sellers.updateSellerInventoryBulk(seller.id, [
+    { blueprintId: "bp-a", quantity: 5 },
+    { blueprintId: "bp-b", quantity: 3 },
+  ]);
+  return seller;
+}
+
+/**
+ * Active seller with stock and an order whose items the seller has claimed
+ */
+async function createFulfillableOrder(): Promise<{ sellerId: string; orderId: string }> {
+  const seller = await createStockedSeller();
+  const order = await createClaimedOrder(seller, ORDER_ITEMS);
+
+  return { sellerId: seller.id, orderId: order.orderId };
+}
+
+// Read documents straight from disk (the storage getters would replay the journal first)
+function readSellerFile(sellerId: string): SellerWithInventory {
+  return JSON.parse(fs.readFileSync(storageJson.getSellerFilePath(sellerId), "utf-8"));
+}
+
+function readOrderFile(orderId: string): StoredOrder {
+  return JSON.parse(fs.readFileSync(storageJson.getOrderFilePath(orderId), "utf-8"));
+}
+
+function getStock(seller: SellerWithInventory, blueprintId: string): { quantity: number; reserved: number } {
+  const item = seller.inventory.find((i) => i.blueprintId === blueprintId);
+  return { quantity: item?.quantity ?? 0, reserved: item?.reserved ?? 0 };
+}
+
+/**
+ * Whether the fulfilment reached each file (the order must match the seller)
+ */
+function getFulfilmentState(sellerId: string, orderId: string): { sellerWritten: boolean; orderWritten: boolean } {
+  return {
+    sellerWritten: getStock(readSellerFile(sellerId), "bp-a").quantity === 3,
+    orderWritten: readOrderFile(orderId).status === "completed",
+  };
+}
+
+function assertNotFulfilled(sellerId: string, orderId: string): void {
+  const seller = readSellerFile(sellerId);
+  assert.deepEqual(getStock(seller, "bp-a"), { quantity: 5, reserved: 2 });
+  assert.deepEqual(getStock(seller, "bp-b"), { quantity: 3, reserved: 1 });
+  assert.equal(readOrderFile(orderId).status, "in_progress");
+}
+
+function assertFulfilled(sellerId: string, orderId: string): void {
+  const seller = readSellerFile(sellerId);
+  assert.deepEqual(getStock(seller, "bp-a"), { quantity: 3, reserved: 0 });
+  assert.deepEqual(getStock(seller, "bp-b"), { quantity: 2, reserved: 0 });
+
+  const order = readOrderFile(orderId);
+  assert.equal(order.status, "completed");
+  for (const claim of order.itemClaims) {
+    assert.equal(claim.claimStatus, "fulfilled");
+    assert.ok(claim.slices.every((slice) => slice.status === "fulfilled" && !slice.reservedQuantity));
+  }
+}
+
+/**
+ * Fail the given order operation at the given step (once)
+ * filePath picks the write to fail before at the "apply" step
+ */
+async function runWithFault(
+  operation: () => Promise<unknown>,
+  point: JournalFaultPoint,
+  filePath?: string
+): Promise<void> {
+  let injected = false;
+  safeFile.setJournalFaultHook((at, target) => {
+    if (!injected && at === point && (!filePath || target === filePath)) {
+      injected = true;
+      throw new Error(`Injected failure at ${point}`);
+    }
+  });
+
+  await assert.rejects(operation(), /Injected failure/);
+  safeFile.setJournalFaultHook(null);
+  assert.equal(injected, true);
+}
+
+function fulfilWithFault(
+  sellerId: string,
+  orderId: string,
+  point: JournalFaultPoint,
+  filePath?: string
+): Promise<void> {
+  return runWithFault(() => orders.fulfillAllClaimedItems(orderId, sellerId), point, filePath);
+}
+
+/**
+ * PID of a process that has already exited
+ */
+function getDeadPid(): number {
+  const pid = spawnSync(process.execPath, ["-e", ""]).pid;
+  assert.ok(pid);
+  return pid;
+}
+
+function listJournalFiles(): string[] {
+  return fs.existsSync(journalDir) ? fs.readdirSync(journalDir) : [];
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+test("fulfilment without failures writes seller and order together", async () => {
+  const { sellerId, orderId } = await createFulfillableOrder();
+
+  const result = await orders.fulfillAllClaimedItems(orderId, sellerId);
+
+  assert.equal(result.success, true);
+  assertFulfilled(sellerId, orderId);
+  assert.equal(safeFile.recoverJournal(), 0);
+});
+
+test("failure before the journal is committed changes nothing", async () => {
+  const { sellerId, orderId } = await createFulfillableOrder();
+
+  await fulfilWithFault(sellerId, orderId, "journal");
+
+  assertNotFulfilled(sellerId, orderId);
+  assert.equal(safeFile.recoverJournal(), 0);
+  assertNotFulfilled(sellerId, orderId);
+});
+
+test("failure before the first write is completed by recovery", async () => {
+  const { sellerId, orderId } = await createFulfillableOrder();
+
+  await fulfilWithFault(sellerId, orderId, "apply", storageJson.getSellerFilePath(sellerId));
+
+  assert.deepEqual(getFulfilmentState(sellerId, orderId), { sellerWritten: false, orderWritten: false });
+  assert.equal(safeFile.recoverJournal(), 1);
+  assertFulfilled(sellerId, orderId);
+});
+
+test("failure between the seller and order writes is completed by recovery", async () => {
+  const { sellerId, orderId } = await createFulfillableOrder();
+
+  await fulfilWithFault(sellerId, orderId, "apply", storageJson.getOrderFilePath(orderId));
+
+  // Torn state on disk until the journal is replayed
+  assert.deepEqual(getFulfilmentState(sellerId, orderId), { sellerWritten: true, orderWritten: false });
+  assert.equal(safeFile.recoverJournal(), 1);
+  assertFulfilled(sellerId, orderId);
+});
+
+test("failure before the journal is removed is replayed without harm", async () => {
+  const { sellerId, orderId } = await createFulfillableOrder();
+
+  await fulfilWithFault(sellerId, orderId, "cleanup");
+
+  assertFulfilled(sellerId, orderId);
+  assert.equal(safeFile.recoverJournal(), 1);
+  assertFulfilled(sellerId, orderId);
+  assert.equal(safeFile.recoverJournal(), 0);
+});
+
+test("the next read replays an interrupted fulfilment", async () => {
+  const { sellerId, orderId } = await createFulfillableOrder();
+
+  await fulfilWithFault(sellerId, orderId, "apply", storageJson.getOrderFilePath(orderId));
+
+  assert.equal(orders.getOrderById(orderId)?.status, "completed");
+  assertFulfilled(sellerId, orderId);
+});
+
+test("a journal left by a dead process is replayed after its stale locks are taken over", async () => {
+  const { sellerId, orderId } = await createFulfillableOrder();
+
+  await fulfilWithFault(sellerId, orderId, "apply", storageJson.getOrderFilePath(orderId));
+
+  // Pretend the owner crashed while still holding both locks
+  const deadOwner = { pid: getDeadPid(), hostname: os.hostname() };
+  const [journalFile] = listJournalFiles();
+  const journalPath = path.join(journalDir, journalFile);
+  fs.writeFileSync(journalPath, JSON.stringify({ ...JSON.parse(fs.readFileSync(journalPath, "utf-8")), owner: deadOwner }));
+  const lockPaths = [storageJson.getSellerFilePath(sellerId), storageJson.getOrderFilePath(orderId)].map((p) => `${p}.lock`);
+  for (const lockPath of lockPaths) {
+    fs.writeFileSync(lockPath, JSON.stringify({ ...deadOwner, token: "dead", acquiredAt: new Date().toISOString() }));
+  }
+
+  assert.equal(safeFile.recoverJournal(), 1);
+  assertFulfilled(sellerId, orderId);
+  assert.deepEqual(listJournalFiles(), []);
+  assert.ok(lockPaths.every((lockPath) => !fs.existsSync(lockPath)));
+});
+
+test("a claim interrupted between the seller and order writes is completed by recovery", async () => {
+  const seller = await createStockedSeller();
+  const order = await createOrder(seller, ORDER_ITEMS);
+
+  await runWithFault(
+    () => orders.claimOrderItems(order.orderId, seller.id),
+    "apply",
+    storageJson.getOrderFilePath(order.orderId)
+  );
+
+  // Stock reserved for an order that doesn't know about it yet
+  assert.equal(getStock(readSellerFile(seller.id), "bp-a").reserved, 2);
+  assert.equal(readOrderFile(order.orderId).status, "open");
+
+  assert.equal(safeFile.recoverJournal(), 1);
+  assertNotFulfilled(seller.id, order.orderId);
+});
+
+test("a release interrupted between the seller and order writes is completed by recovery", async () => {
+  const { sellerId, orderId } = await createFulfillableOrder();
+
+  await runWithFault(
+    () => orders.releaseOrderItem(orderId, sellerId, "bp-a"),
+    "apply",
+    storageJson.getOrderFilePath(orderId)
+  );
+
+  assert.equal(safeFile.recoverJournal(), 1);
+  assert.deepEqual(getStock(readSellerFile(sellerId), "bp-a"), { quantity: 5, reserved: 0 });
+  const claim = readOrderFile(orderId).itemClaims.find((c) => c.blueprintId === "bp-a")!;
+  assert.deepEqual(claim.slices, []);
+});
+
+test("only abandoned journal temp files are discarded", () => {
+  fs.mkdirSync(journalDir, { recursive: true });
+
+  const write = (name: string, owner: { pid: number; hostname: string } | null) => {
+    const content = owner ? JSON.stringify({ id: name, createdAt: new Date().toISOString(), owner, writes: [] }) : "{\"id\":";
+    fs.writeFileSync(path.join(journalDir, name), content);
+  };
+  write("1-live.json.aaaa.tmp", { pid: process.pid, hostname: os.hostname() });
+  write("2-dead.json.bbbb.tmp", { pid: getDeadPid(), hostname: os.hostname() });
+  write("3-partial.json.cccc.tmp", null);
+  write("4-old.json.dddd.tmp", null);
+  const oldTime = new Date(Date.now() - 60 * 1000);
+  fs.utimesSync(path.join(journalDir, "4-old.json.dddd.tmp"), oldTime, oldTime);
+
+  assert.equal(safeFile.recoverJournal(), 0);
+  assert.deepEqual(listJournalFiles().sort(), ["1-live.json.aaaa.tmp", "3-partial.json.cccc.tmp"]);
+
+  for (const file of listJournalFiles()) {
+    fs.unlinkSync(path.join(journalDir, file));
+  }
+});
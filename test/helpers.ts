@@ -0,0 +1,105 @@
+/**
+ * Shared test setup
+ * Only type imports from lib/ at the top level: the lib modules resolve data/
+ * against the working directory when they load, so tests import them
+ * dynamically after useTempDataDir().
+ */
+
+import assert from "node:assert/strict";
+import fs from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import { spawn } from "child_process";
+import type { StoredOrder } from "../lib/orders";
+import type { Seller } from "../lib/types";
+
+const REDIS_STANDIN_PATH = path.resolve(__dirname, "..", "scripts", "redis-standin.mjs");
+
+/**
+ * Switch to a fresh temporary directory, so data/ is created there
+ * Call before importing any lib module; returns the directory
+ */
+export function useTempDataDir(name: string): string {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), `bptrade-${name}-`));
+  process.chdir(workDir);
+  return workDir;
+}
+
+/**
+ * Open order for the given items from one seller
+ */
+export async function createOrder(
+  seller: Seller,
+  items: { blueprintId: string; quantity: number }[]
+): Promise<StoredOrder> {
+  const orders = await import("../lib/orders");
+
+  return orders.saveOrder({
+    orderId: `ORD-TEST-${Math.random().toString(36).slice(2, 8).toUpperCase()}`,
+    buyerDiscordNick: "buyer",
+    offer: "",
+    originalOffer: "",
+    sellerGroups: [
+      {
+        sellerId: seller.id,
+        sellerDiscordId: seller.discordId,
+        items: items.map(({ blueprintId, quantity }) => ({
+          blueprintId,
+          blueprintName: blueprintId,
+          requestedQty: quantity,
+          available: true,
+          availableQty: quantity,
+        })),
+      },
+    ],
+    isMultiSeller: false,
+    sellerCount: 1,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Order for the given items from one seller, with every item claimed by that seller
+ */
+export async function createClaimedOrder(
+  seller: Seller,
+  items: { blueprintId: string; quantity: number }[]
+): Promise<StoredOrder> {
+  const orders = await import("../lib/orders");
+
+  const order = await createOrder(seller, items);
+  const claim = await orders.claimOrderItems(order.orderId, seller.id);
+  assert.equal(claim.success, true, claim.error);
+
+  return order;
+}
+
+/**
+ * Start the in-memory Redis stand-in (scripts/redis-standin.mjs) on a free port
+ * in a child process; returns its URL and a function that stops it
+ */
+export async function startRedisStandin(): Promise<{ url: string; stop: () => void }> {
+  const port = await getFreePort();
+  const standin = spawn(process.execPath, [REDIS_STANDIN_PATH], {
+    env: { ...process.env, PORT: String(port) },
+    stdio: ["ignore", "pipe", "inherit"],
+  });
+  await new Promise<void>((resolve, reject) => {
+    standin.stdout!.once("data", () => resolve());
+    standin.once("exit", (code) => reject(new Error(`Redis stand-in exited with ${code}`)));
+  });
+
+  return { url: `redis://127.0.0.1:${port}`, stop: () => standin.kill() };
+}
+
+function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
@@ -0,0 +1,103 @@
+/**
+ * Order change feed across app processes: with REDIS_URL set changes
+ * published elsewhere reach this process's subscribers via the Redis stand-in
+ * (scripts/redis-standin.mjs), with the default file session store
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { OrderChange } from "../lib/order-stream";
+import type { RedisClient } from "../lib/redis-client";
+import { startRedisStandin, useTempDataDir } from "./helpers";
+
+useTempDataDir("stream");
+
+const CHANNEL = "test:order-changes";
+
+let orderStream: typeof import("../lib/order-stream");
+let otherProcess: RedisClient;
+let standin: { url: string; stop: () => void };
+
+before(async () => {
+  standin = await startRedisStandin();
+
+  process.env.REDIS_URL = standin.url;
+  process.env.REDIS_KEY_PREFIX = "test:";
+
+  orderStream = await import("../lib/order-stream");
+  const { createRedisClient } = await import("../lib/redis-client");
+  otherProcess = createRedisClient(process.env.REDIS_URL);
+});
+
+after(() => {
+  otherProcess.close();
+  standin.stop();
+});
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Publish from "another process" once this process has subscribed to the channel
+ */
+async function publishFromOtherProcess(message: unknown): Promise<void> {
+  for (let i = 0; i < 50; i++) {
+    const receivers = await otherProcess.command("PUBLISH", CHANNEL, JSON.stringify(message));
+    if (receivers === 1) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  assert.fail("The order stream never subscribed to the shared channel");
+}
+
+function collectChanges(): { changes: OrderChange[]; unsubscribe: () => void } {
+  const changes: OrderChange[] = [];
+  const unsubscribe = orderStream.subscribeToOrderChanges((change) => changes.push(change));
+  return { changes, unsubscribe };
+}
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      if (condition()) {
+        clearInterval(timer);
+        resolve();
+      } else if (Date.now() - startedAt > 2000) {
+        clearInterval(timer);
+        reject(new Error("Timed out waiting for the order change"));
+      }
+    }, 10);
+  });
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+test("a change published by another process reaches local subscribers", async () => {
+  const { changes, unsubscribe } = collectChanges();
+
+  await publishFromOtherProcess({ from: "other-process", change: { type: "created", orderId: "ORD-1" } });
+  await waitFor(() => changes.length > 0);
+
+  assert.deepEqual(changes, [{ type: "created", orderId: "ORD-1" }]);
+  unsubscribe();
+});
+
+test("a local change reaches local subscribers once and is shared with other processes", async () => {
+  const { changes, unsubscribe } = collectChanges();
+  // Make sure the subscription is up before publishing locally
+  await publishFromOtherProcess({ from: "other-process", change: { type: "reset" } });
+  await waitFor(() => changes.length === 1);
+
+  orderStream.publishOrderChange({ type: "updated", orderId: "ORD-2" });
+  await waitFor(() => changes.length === 2);
+  // Our own message comes back over the channel and must be skipped
+  await new Promise((resolve) => setTimeout(resolve, 100));
+
+  assert.deepEqual(changes, [{ type: "reset" }, { type: "updated", orderId: "ORD-2" }]);
+  unsubscribe();
+});
@@ -0,0 +1,66 @@
+/**
+ * Seller inventory edits can't take stock below what claimed orders have reserved
+ */
+
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import type { Seller } from "../lib/types";
+import { createClaimedOrder, useTempDataDir } from "./helpers";
+
+useTempDataDir("inventory");
+
+let sellers: typeof import("../lib/sellers");
+
+let seller: Seller;
+
+before(async () => {
+  sellers = await import("../lib/sellers");
+
+  seller = sellers.createSeller("inventory-seller");
+  await sellers.updateSellerStatus(seller.id, "active");
+  await sellers.updateSellerInventoryBulk(seller.id, [
+    { blueprintId: "bp-a", quantity: 5 },
+    { blueprintId: "bp-b", quantity: 3 },
+  ]);
+
+  // Reserves 2 bp-a
+  await createClaimedOrder(seller, [{ blueprintId: "bp-a", quantity: 2 }]);
+});
+
+// ============================================
+// HELPERS
+// ============================================
+
+function getStock(): Record<string, { quantity: number; reserved?: number }> {
+  return Object.fromEntries(
+    sellers.getSellerInventory(seller.id).map((item) => [item.blueprintId, { quantity: item.quantity, reserved: item.reserved }])
+  );
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+test("a quantity below the reserved stock is rejected and nothing changes", async () => {
+  const bulk = await sellers.updateSellerInventoryBulk(seller.id, [
+    { blueprintId: "bp-b", quantity: 1 },
+    { blueprintId: "bp-a", quantity: 1 },
+  ]);
+  assert.equal(bulk.success, false);
+  assert.match(bulk.error!, /bp-a.*2 шт\. зарезервовано/);
+
+  const single = await sellers.updateSellerInventoryItem(seller.id, "bp-a", 0);
+  assert.equal(single.success, false);
+
+  assert.deepEqual(getStock(), {
+    "bp-a": { quantity: 5, reserved: 2 },
+    "bp-b": { quantity: 3, reserved: undefined },
+  });
+});
+
+test("stock can go down to the reserved quantity", async () => {
+  assert.deepEqual(await sellers.updateSellerInventoryItem(seller.id, "bp-a", 2), { success: true });
+  assert.deepEqual(await sellers.updateSellerInventoryBulk(seller.id, [{ blueprintId: "bp-b", quantity: 0 }]), { success: true });
+
+  assert.deepEqual(getStock(), { "bp-a": { quantity: 2, reserved: 2 } });
+});
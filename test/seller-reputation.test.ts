@@ -0,0 +1,122 @@
+/**
+ * Seller reputation: completion rate from the item outcomes of the seller's
+ * order stats, the rating taken from the seller's totals only, and feedback
+ * only on completed or closed orders
+ */
+
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import type { StoredOrder } from "../lib/orders";
+import type { Seller } from "../lib/types";
+import { createClaimedOrder, useTempDataDir } from "./helpers";
+
+useTempDataDir("reputation");
+
+let orders: typeof import("../lib/orders");
+let sellers: typeof import("../lib/sellers");
+let storage: typeof import("../lib/storage");
+
+let seller: Seller;
+
+before(async () => {
+  orders = await import("../lib/orders");
+  sellers = await import("../lib/sellers");
+  storage = await import("../lib/storage");
+
+  seller = sellers.createSeller("reputation-seller");
+  await sellers.updateSellerStatus(seller.id, "active");
+  await sellers.updateSellerInventoryBulk(seller.id, [{ blueprintId: "bp-a", quantity: 50 }]);
+});
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Order for one copy of bp-a, claimed by the seller
+function claimOne(): Promise<StoredOrder> {
+  return createClaimedOrder(seller, [{ blueprintId: "bp-a", quantity: 1 }]);
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+test("completion rate counts fulfilled items against every item given up", async () => {
+  assert.equal(orders.getSellerReputation(seller.id).completionRate, null);
+
+  // Released by the sweep (only this order is live while it runs)
+  await claimOne();
+  const sweep = await orders.sweepStaleOrders(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000));
+  assert.equal(sweep.releasedClaims.length, 1);
+
+  // Fulfilled
+  const fulfilled = await claimOne();
+  assert.equal((await orders.fulfillAllClaimedItems(fulfilled.orderId, seller.id)).success, true);
+
+  // Released by the seller
+  const released = await claimOne();
+  assert.equal((await orders.releaseOrderItem(released.orderId, seller.id, "bp-a")).success, true);
+
+  // Still held when the order was cancelled
+  const cancelled = await claimOne();
+  assert.equal((await orders.cancelOrder(cancelled.orderId)).success, true);
+
+  // Still in progress - no outcome yet
+  await claimOne();
+
+  assert.equal(orders.getSellerReputation(seller.id).completionRate, 1 / 4);
+  const stats = orders.getSellerOrderStats(seller.id);
+  assert.equal(stats.fulfilledItems, 1);
+  assert.equal(stats.abandonedItems, 3);
+});
+
+test("an item released and then claimed again and fulfilled counts as fulfilled", async () => {
+  const before = orders.getSellerOrderStats(seller.id);
+
+  const order = await claimOne();
+  assert.equal((await orders.releaseOrderItem(order.orderId, seller.id, "bp-a")).success, true);
+  assert.equal((await orders.claimOrderItems(order.orderId, seller.id)).success, true);
+  assert.equal((await orders.fulfillAllClaimedItems(order.orderId, seller.id)).success, true);
+
+  const after = orders.getSellerOrderStats(seller.id);
+  assert.equal(after.fulfilledItems, before.fulfilledItems + 1);
+  assert.equal(after.abandonedItems, before.abandonedItems);
+  assert.equal(
+    orders.getSellerReputation(seller.id).completionRate,
+    after.fulfilledItems / (after.fulfilledItems + after.abandonedItems)
+  );
+});
+
+test("the rating comes from the seller's totals; orders only supply comments", async () => {
+  const order = await claimOne();
+  assert.equal((await orders.fulfillAllClaimedItems(order.orderId, seller.id)).success, true);
+
+  const feedback = await orders.leaveSellerFeedback(order.orderId, order.accessToken!, seller.discordId, 4, "Швидко");
+  assert.equal(feedback.success, true, feedback.error);
+
+  let reputation = orders.getSellerReputation(seller.id);
+  assert.equal(reputation.averageRating, 4);
+  assert.equal(reputation.ratingCount, 1);
+  assert.deepEqual(
+    reputation.recentComments.map((c) => [c.orderId, c.rating, c.comment]),
+    [[order.orderId, 4, "Швидко"]]
+  );
+
+  // Totals carried over from elsewhere (e.g. a migration) are what counts
+  const record = sellers.getSellerById(seller.id)!;
+  storage.getStorage().sellers.save({ ...record, rating: { sum: 14, count: 3 } });
+
+  reputation = orders.getSellerReputation(seller.id);
+  assert.equal(reputation.averageRating, 4.7);
+  assert.equal(reputation.ratingCount, 3);
+});
+
+test("a cancelled order can't be rated, even if items were fulfilled", async () => {
+  const order = await claimOne();
+  assert.equal((await orders.fulfillAllClaimedItems(order.orderId, seller.id)).success, true);
+  assert.equal((await orders.cancelOrder(order.orderId)).success, true);
+
+  const feedback = await orders.leaveSellerFeedback(order.orderId, order.accessToken!, seller.discordId, 5);
+  assert.equal(feedback.success, false);
+  assert.equal(sellers.getSellerById(seller.id)!.rating?.count, 3);
+});
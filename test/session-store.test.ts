@@ -0,0 +1,86 @@
+/**
+ * Session touches (lastSeenAt updates) must never bring back a session that
+ * was revoked after it was read - in the file store and in Redis
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import type { SessionStore } from "../lib/session-store";
+import type { SessionData } from "../lib/types";
+import { startRedisStandin, useTempDataDir } from "./helpers";
+
+useTempDataDir("sessions");
+
+let stores: SessionStore[];
+let standin: { url: string; stop: () => void };
+
+before(async () => {
+  standin = await startRedisStandin();
+  process.env.REDIS_KEY_PREFIX = "test:";
+
+  const { createFileSessionStore } = await import("../lib/session-store-file");
+  const { createRedisSessionStore } = await import("../lib/session-store-redis");
+  stores = [createFileSessionStore(), createRedisSessionStore(standin.url)];
+});
+
+after(() => {
+  standin.stop();
+});
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Log a seller in; returns the token and the session as a request would have read it
+ */
+async function createSession(store: SessionStore): Promise<{ token: string; session: SessionData }> {
+  const token = crypto.randomBytes(32).toString("hex");
+  const now = Date.now();
+  const sellerId = `seller-${crypto.randomUUID()}`;
+  await store.set(token, { role: "seller", sellerId, expiresAt: now + 60 * 60 * 1000, createdAt: now, lastSeenAt: now });
+
+  const session = await store.get(token);
+  assert.ok(session);
+  return { token, session };
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+test("a touch updates a live session", async () => {
+  for (const store of stores) {
+    const { token, session } = await createSession(store);
+
+    assert.equal(await store.touch(token, { ...session, lastSeenAt: session.lastSeenAt! + 1000 }), true, store.name);
+    assert.equal((await store.get(token))?.lastSeenAt, session.lastSeenAt! + 1000, store.name);
+  }
+});
+
+test("a session revoked after it was read stays revoked when the touch lands", async () => {
+  for (const store of stores) {
+    const { token, session } = await createSession(store);
+
+    // Logout / admin revoke between the request's read and its touch
+    await store.delete(token);
+
+    assert.equal(await store.touch(token, { ...session, lastSeenAt: Date.now() }), false, store.name);
+    assert.equal(await store.get(token), null, store.name);
+    assert.deepEqual(await store.listBySeller(session.sellerId!), [], store.name);
+  }
+});
+
+test("a revoke racing an in-flight touch wins", async () => {
+  for (const store of stores) {
+    const { token, session } = await createSession(store);
+
+    const touch = store.touch(token, { ...session, lastSeenAt: Date.now() });
+    await store.delete(token);
+    await touch;
+
+    assert.equal(await store.get(token), null, store.name);
+    assert.deepEqual(await store.listBySeller(session.sellerId!), [], store.name);
+  }
+});
@@ -0,0 +1,196 @@
+/**
+ * Outbox delivery against the local fake Telegram API (scripts/fake-telegram.mjs):
+ * exponential backoff, retry_after on 429 and the failed status after repeated 500s
+ */
+
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { OutboxMessage } from "../lib/telegram-outbox";
+import { useTempDataDir } from "./helpers";
+
+const workDir = useTempDataDir("outbox");
+
+let outbox: typeof import("../lib/telegram-outbox");
+let server: Server;
+let apiBaseUrl: string;
+
+interface FakeCall {
+  method: string;
+  response: number;
+  payload: { chat_id?: string; text?: string };
+}
+
+before(async () => {
+  const { createFakeTelegramServer } = await import("../scripts/fake-telegram.mjs");
+  server = createFakeTelegramServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  apiBaseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  process.env.TELEGRAM_API_BASE_URL = apiBaseUrl;
+  process.env.TELEGRAM_BOT_TOKEN = "test-token";
+
+  outbox = await import("../lib/telegram-outbox");
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(async () => {
+  await controlFakeApi({ reset: true });
+  // Each test starts with an empty queue
+  fs.rmSync(path.join(workDir, "data", "outbox"), { recursive: true, force: true });
+});
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function controlFakeApi(control: { reset?: boolean; fail429?: number; fail500?: number; retryAfter?: number }) {
+  const response = await fetch(`${apiBaseUrl}/_control`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(control),
+  });
+  assert.equal(response.status, 200);
+}
+
+async function getFakeApiCalls(): Promise<FakeCall[]> {
+  return (await fetch(`${apiBaseUrl}/_calls`)).json();
+}
+
+/**
+ * Queue a seller message; the background worker is stopped so the test
+ * decides when delivery runs
+ */
+function queueMessage(): OutboxMessage {
+  const message = outbox.enqueueOutboxMessage({ kind: "seller", chatId: "1001", text: "Нове замовлення" });
+  outbox.stopOutboxWorker();
+  return message;
+}
+
+function getMessage(id: string): OutboxMessage {
+  const message = outbox.getOutboxMessage(id);
+  assert.ok(message, `Outbox message ${id} not found`);
+  return message;
+}
+
+/**
+ * Make a waiting message due now instead of sleeping through its backoff
+ */
+function makeDue(id: string): void {
+  const filePath = path.join(workDir, "data", "outbox", `${id}.json`);
+  const message = JSON.parse(fs.readFileSync(filePath, "utf-8")) as OutboxMessage;
+  fs.writeFileSync(filePath, JSON.stringify({ ...message, nextAttemptAt: new Date().toISOString() }));
+}
+
+/**
+ * Run one delivery pass and check the message waits `delayMs` for its next attempt
+ */
+async function deliverAndExpectRetry(id: string, attempts: number, delayMs: number, error: RegExp): Promise<void> {
+  const startedAt = Date.now();
+  const counts = await outbox.processOutbox();
+  const finishedAt = Date.now();
+
+  assert.deepEqual(counts, { sent: 0, retried: 1, failed: 0 });
+
+  const message = getMessage(id);
+  assert.equal(message.status, "pending");
+  assert.equal(message.attempts, attempts);
+  assert.match(message.lastError || "", error);
+
+  const nextAttemptAt = new Date(message.nextAttemptAt).getTime();
+  assert.ok(
+    nextAttemptAt >= startedAt + delayMs && nextAttemptAt <= finishedAt + delayMs,
+    `attempt ${attempts}: expected next attempt in ${delayMs} ms, got ${nextAttemptAt - finishedAt} ms`
+  );
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+test("a message is delivered on the first attempt", async () => {
+  const { id } = queueMessage();
+
+  assert.deepEqual(await outbox.processOutbox(), { sent: 1, retried: 0, failed: 0 });
+
+  const message = getMessage(id);
+  assert.equal(message.status, "sent");
+  assert.equal(message.attempts, 1);
+  assert.equal(message.telegramMessageId, 1);
+
+  const calls = await getFakeApiCalls();
+  assert.equal(calls.length, 1);
+  assert.equal(calls[0].method, "sendMessage");
+  assert.equal(calls[0].payload.chat_id, "1001");
+});
+
+test("retry_after from a 429 delays the next attempt beyond the backoff", async () => {
+  await controlFakeApi({ fail429: 1, retryAfter: 30 });
+  const { id } = queueMessage();
+
+  await deliverAndExpectRetry(id, 1, 30 * 1000, /^429: Too Many Requests/);
+
+  // Not due yet - nothing is sent
+  assert.deepEqual(await outbox.processOutbox(), { sent: 0, retried: 0, failed: 0 });
+  assert.equal((await getFakeApiCalls()).length, 1);
+
+  makeDue(id);
+  assert.deepEqual(await outbox.processOutbox(), { sent: 1, retried: 0, failed: 0 });
+
+  const message = getMessage(id);
+  assert.equal(message.status, "sent");
+  assert.equal(message.attempts, 2);
+  assert.equal(message.lastError, undefined);
+  assert.deepEqual((await getFakeApiCalls()).map((call) => call.response), [429, 200]);
+});
+
+test("backoff doubles after each failed attempt, and a short retry_after doesn't shorten it", async () => {
+  await controlFakeApi({ fail500: 2 });
+  const { id } = queueMessage();
+
+  await deliverAndExpectRetry(id, 1, outbox.OUTBOX_BACKOFF_BASE_MS, /^500: /);
+  makeDue(id);
+  await deliverAndExpectRetry(id, 2, outbox.OUTBOX_BACKOFF_BASE_MS * 2, /^500: /);
+
+  await controlFakeApi({ fail429: 1, retryAfter: 1 });
+  makeDue(id);
+  await deliverAndExpectRetry(id, 3, outbox.OUTBOX_BACKOFF_BASE_MS * 4, /^429: /);
+
+  makeDue(id);
+  assert.deepEqual(await outbox.processOutbox(), { sent: 1, retried: 0, failed: 0 });
+  assert.equal(getMessage(id).attempts, 4);
+  assert.deepEqual((await getFakeApiCalls()).map((call) => call.response), [500, 500, 429, 200]);
+});
+
+test("repeated 500s mark the message failed after the last attempt", async () => {
+  await controlFakeApi({ fail500: 100 });
+  const { id } = queueMessage();
+
+  for (let attempt = 1; attempt < outbox.OUTBOX_MAX_ATTEMPTS; attempt++) {
+    await deliverAndExpectRetry(id, attempt, outbox.OUTBOX_BACKOFF_BASE_MS * 2 ** (attempt - 1), /^500: Internal Server Error/);
+    makeDue(id);
+  }
+
+  assert.deepEqual(await outbox.processOutbox(), { sent: 0, retried: 0, failed: 1 });
+
+  const message = getMessage(id);
+  assert.equal(message.status, "failed");
+  assert.equal(message.attempts, outbox.OUTBOX_MAX_ATTEMPTS);
+  assert.equal(message.lastError, "500: Internal Server Error");
+
+  // Failed messages stay put until an admin retries them
+  assert.deepEqual(await outbox.processOutbox(), { sent: 0, retried: 0, failed: 0 });
+  assert.equal((await getFakeApiCalls()).length, outbox.OUTBOX_MAX_ATTEMPTS);
+
+  const retried = await outbox.retryOutboxMessage(id);
+  // The retry restarts the worker; stop it before it sends to a closed fake API
+  outbox.stopOutboxWorker();
+  assert.equal(retried?.status, "pending");
+  assert.equal(retried?.attempts, 0);
+});
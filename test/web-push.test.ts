@@ -0,0 +1,64 @@
+/**
+ * Web Push subscriptions may only point at the browsers' push services, so a
+ * seller can't make the server send requests to internal addresses
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isValidWebPushTarget, sendWebPush } from "../lib/web-push";
+
+// ============================================
+// HELPERS
+// ============================================
+
+function subscription(endpoint: string) {
+  return {
+    endpoint,
+    keys: {
+      p256dh: Buffer.alloc(65, 4).toString("base64url"),
+      auth: Buffer.alloc(16, 1).toString("base64url"),
+    },
+  };
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+test("subscriptions of the browser push services are accepted", () => {
+  for (const endpoint of [
+    "https://fcm.googleapis.com/fcm/send/abc",
+    "https://updates.push.services.mozilla.com/wpush/v2/abc",
+    "https://web.push.apple.com/abc",
+    "https://wns2-par02p.notify.windows.com/w/?token=abc",
+  ]) {
+    assert.equal(isValidWebPushTarget(subscription(endpoint)), true, endpoint);
+  }
+});
+
+test("subscriptions pointing anywhere else are rejected", () => {
+  for (const endpoint of [
+    "http://fcm.googleapis.com/fcm/send/abc",
+    "https://127.0.0.1/push",
+    "https://localhost/push",
+    "https://10.0.0.5/push",
+    "https://169.254.169.254/latest/meta-data",
+    "https://[::1]/push",
+    "https://fcm.googleapis.com.attacker.example/push",
+    "https://evilfcm.googleapis.com.example/push",
+    "https://fcm.googleapis.com:8443/push",
+    "https://user@fcm.googleapis.com/push",
+  ]) {
+    assert.equal(isValidWebPushTarget(subscription(endpoint)), false, endpoint);
+  }
+});
+
+test("a stored subscription to an unknown host is not sent to and is dropped", async () => {
+  process.env.VAPID_PUBLIC_KEY = Buffer.alloc(65, 4).toString("base64url");
+  process.env.VAPID_PRIVATE_KEY = Buffer.alloc(32, 1).toString("base64url");
+
+  const result = await sendWebPush(subscription("https://127.0.0.1:1/push"), { title: "t", body: "b", url: "/" });
+
+  assert.equal(result.success, false);
+  assert.equal(result.expired, true);
+});